@@ -4,7 +4,8 @@ import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { CampaignSidebar } from '@/components/campaigns/campaign-sidebar'
 import { ChatInterface, ChatMode } from '@/components/chat/chat-interface'
-import { ChatMessage } from '@/lib/types'
+import { ThreadList } from '@/components/chat/thread-list'
+import { ChatMessage, ChatThread } from '@/lib/types'
 
 export default function ChatPage({
   params,
@@ -12,6 +13,8 @@ export default function ChatPage({
   params: { campaignId: string }
 }) {
   const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [threads, setThreads] = useState<ChatThread[]>([])
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
   const [isDM, setIsDM] = useState(false)
   const [loading, setLoading] = useState(true)
   const { data: session } = useSession()
@@ -32,9 +35,144 @@ export default function ChatPage({
       setLoading(false)
     }
 
+    const loadThreads = async () => {
+      if (!session?.user) return
+
+      try {
+        const res = await fetch(`/api/campaigns/${params.campaignId}/chat/threads`)
+        if (res.ok) {
+          const data = await res.json()
+          setThreads(data.threads || [])
+        }
+      } catch (error) {
+        console.error('Failed to load conversations:', error)
+      }
+    }
+
     loadCampaignData()
+    loadThreads()
   }, [params.campaignId, session])
 
+  // The server creates the thread on the first message; keep the most recent one on top
+  const touchThread = (thread: ChatThread) => {
+    setActiveThreadId(thread.id)
+    setThreads((prev) => [
+      { ...thread, updatedAt: new Date().toISOString() },
+      ...prev.filter((t) => t.id !== thread.id),
+    ])
+  }
+
+  const handleSelectThread = async (threadId: string) => {
+    try {
+      const res = await fetch(`/api/campaigns/${params.campaignId}/chat/threads/${threadId}`)
+      if (!res.ok) throw new Error('Failed to load conversation')
+      const data = await res.json()
+      setActiveThreadId(threadId)
+      setMessages(data.messages || [])
+    } catch (error) {
+      console.error('Failed to load conversation:', error)
+    }
+  }
+
+  const handleRenameThread = async (threadId: string, title: string) => {
+    const res = await fetch(`/api/campaigns/${params.campaignId}/chat/threads/${threadId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title }),
+    })
+    if (res.ok) {
+      const data = await res.json()
+      setThreads((prev) => prev.map((t) => (t.id === threadId ? data.thread : t)))
+    }
+  }
+
+  const handleDeleteThread = async (threadId: string) => {
+    const res = await fetch(`/api/campaigns/${params.campaignId}/chat/threads/${threadId}`, {
+      method: 'DELETE',
+    })
+    if (res.ok) {
+      setThreads((prev) => prev.filter((t) => t.id !== threadId))
+      if (threadId === activeThreadId) {
+        handleNewConversation()
+      }
+    }
+  }
+
+  // Replace the assistant message currently being streamed (always the last one)
+  const updateStreamingMessage = (update: (message: ChatMessage) => ChatMessage) => {
+    setMessages((prev) => {
+      const last = prev[prev.length - 1]
+      if (last?.role !== 'assistant') {
+        return [...prev, update({ role: 'assistant', content: '' })]
+      }
+      return [...prev.slice(0, -1), update(last)]
+    })
+  }
+
+  // Read the SSE stream from the chat endpoint, rendering tokens as they arrive
+  const readChatStream = async (response: Response) => {
+    const reader = response.body?.getReader()
+    const decoder = new TextDecoder()
+
+    if (!reader) {
+      throw new Error('No response stream')
+    }
+
+    let buffer = ''
+    let currentEvent = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        if (line.startsWith('event: ')) {
+          currentEvent = line.slice(7)
+        } else if (line.startsWith('data: ') && currentEvent) {
+          const data = JSON.parse(line.slice(6))
+
+          switch (currentEvent) {
+            case 'thread':
+              touchThread(data.thread)
+              break
+
+            case 'query':
+              updateStreamingMessage((msg) => ({ ...msg, searchQuery: data.searchQuery }))
+              break
+
+            case 'sources':
+              updateStreamingMessage((msg) => ({ ...msg, sources: data.sources }))
+              break
+
+            case 'tool':
+              updateStreamingMessage((msg) => ({ ...msg, sources: [...(msg.sources || []), ...data.sources] }))
+              break
+
+            case 'token':
+              updateStreamingMessage((msg) => ({ ...msg, content: msg.content + data.token }))
+              break
+
+            case 'complete':
+              updateStreamingMessage((msg) => ({
+                ...msg,
+                content: data.content,
+                sources: data.sources,
+                searchQuery: data.searchQuery ?? msg.searchQuery,
+              }))
+              break
+
+            case 'error':
+              throw new Error(data.message)
+          }
+        }
+      }
+    }
+  }
+
   const handleSendMessage = async (content: string, mode: ChatMode = 'rag') => {
     const userMessage: ChatMessage = { role: 'user', content }
     setMessages((prev) => [...prev, userMessage])
@@ -45,17 +183,28 @@ export default function ChatPage({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           message: content,
-          history: messages,
+          threadId: activeThreadId,
           mode,
+          stream: mode === 'rag',
         }),
       })
 
+      // RAG answers are streamed; configuration notices still come back as JSON
+      if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        await readChatStream(response)
+        return
+      }
+
       const data = await response.json()
 
       if (data.error) {
         throw new Error(data.error)
       }
 
+      if (data.thread) {
+        touchThread(data.thread)
+      }
+
       // Handle direct mode: show search results without AI response
       let responseContent = data.content
       if (data.mode === 'direct' && !data.content) {
@@ -70,20 +219,20 @@ export default function ChatPage({
         role: 'assistant',
         content: responseContent,
         sources: data.sources,
+        searchQuery: data.searchQuery,
       }
 
       setMessages((prev) => [...prev, assistantMessage])
     } catch (error) {
       console.error('Chat error:', error)
-      const errorMessage: ChatMessage = {
-        role: 'assistant',
-        content: 'Sorry, I encountered an error while processing your message. Please try again.',
-      }
-      setMessages((prev) => [...prev, errorMessage])
+      const errorContent = 'Sorry, I encountered an error while processing your message. Please try again.'
+      // Replace a partially streamed answer rather than leaving it dangling
+      updateStreamingMessage(() => ({ role: 'assistant', content: errorContent }))
     }
   }
 
-  const handleClearHistory = () => {
+  const handleNewConversation = () => {
+    setActiveThreadId(null)
     setMessages([])
   }
 
@@ -112,12 +261,27 @@ export default function ChatPage({
           </p>
         </div>
 
-        <ChatInterface
-          messages={messages}
-          onSendMessage={handleSendMessage}
-          onClearHistory={handleClearHistory}
-          campaignId={params.campaignId}
-        />
+        <div className="flex flex-col lg:flex-row gap-4">
+          <aside className="lg:w-60 shrink-0">
+            <ThreadList
+              threads={threads}
+              activeThreadId={activeThreadId}
+              onSelect={handleSelectThread}
+              onNew={handleNewConversation}
+              onRename={handleRenameThread}
+              onDelete={handleDeleteThread}
+            />
+          </aside>
+
+          <div className="flex-1 min-w-0">
+            <ChatInterface
+              messages={messages}
+              onSendMessage={handleSendMessage}
+              onNewConversation={handleNewConversation}
+              campaignId={params.campaignId}
+            />
+          </div>
+        </div>
       </div>
     </div>
   )
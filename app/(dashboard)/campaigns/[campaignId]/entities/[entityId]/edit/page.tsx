@@ -9,6 +9,8 @@ import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { ArrowLeft, Save, Loader2, Plus, User } from 'lucide-react'
+import { PropertiesEditor, PropertyRow, toPropertyRows, fromPropertyRows } from '@/components/entities/properties-editor'
+import type { EntityProperties } from '@/lib/types'
 
 const DEFAULT_ENTITY_TYPES = [
   { value: 'npc', label: 'NPC' },
@@ -31,6 +33,7 @@ interface Entity {
   content: string
   aliases: string[]
   tags: string[]
+  properties: EntityProperties
   isDmOnly: boolean
 }
 
@@ -60,6 +63,7 @@ export default function EditEntityPage({
   const [content, setContent] = useState('')
   const [aliases, setAliases] = useState('')
   const [tags, setTags] = useState('')
+  const [propertyRows, setPropertyRows] = useState<PropertyRow[]>([])
   const [isDmOnly, setIsDmOnly] = useState(false)
   const [playerId, setPlayerId] = useState('')
 
@@ -82,6 +86,7 @@ export default function EditEntityPage({
           setContent(e.content || '')
           setAliases(e.aliases?.join(', ') || '')
           setTags(e.tags?.join(', ') || '')
+          setPropertyRows(toPropertyRows(e.properties))
           setIsDmOnly(e.isDmOnly || false)
           setPlayerId(e.playerId || '')
         } else {
@@ -163,6 +168,7 @@ export default function EditEntityPage({
               .split(',')
               .map((t) => t.trim())
               .filter(Boolean),
+            properties: fromPropertyRows(propertyRows),
             isDmOnly,
             playerId: entityType === 'player_character' && playerId ? playerId : null,
           }),
@@ -337,6 +343,14 @@ export default function EditEntityPage({
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Properties</Label>
+              <PropertiesEditor rows={propertyRows} onChange={setPropertyRows} />
+              <p className="text-xs text-muted-foreground">
+                Short facts shown in the infobox, e.g. Status: Dead, Hit points: 45
+              </p>
+            </div>
+
             <div className="flex items-center space-x-2">
               <input
                 type="checkbox"
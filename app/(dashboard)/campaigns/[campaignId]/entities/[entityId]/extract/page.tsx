@@ -7,8 +7,10 @@ import { EntityExtractionWithReview } from '@/components/entities/entity-extract
 
 export default async function EntityExtractPage({
   params,
+  searchParams,
 }: {
   params: { campaignId: string; entityId: string }
+  searchParams: { job?: string }
 }) {
   const session = await getSession()
   if (!session?.user?.id) {
@@ -58,6 +60,7 @@ export default async function EntityExtractPage({
           entityName={entity.name}
           entityContent={entity.content || ''}
           entityType={entity.entityType}
+          initialJobId={searchParams.job}
         />
       </div>
     </div>
@@ -10,6 +10,9 @@ import { CampaignSidebar } from '@/components/campaigns/campaign-sidebar'
 import { MarkdownRenderer } from '@/components/editor/markdown-renderer'
 import { EntityDetailActions } from '@/components/entities/entity-detail-actions'
 import { EntityComments } from '@/components/entities/entity-comments'
+import { EntityInfobox } from '@/components/entities/entity-infobox'
+import { DocumentVisibilityToggle } from '@/components/entities/document-visibility-toggle'
+import { getVisibleContent } from '@/lib/secret-blocks'
 import {
   Edit,
   Lock,
@@ -104,19 +107,21 @@ export default async function EntityViewPage({
     },
   })
 
-  // Get source documents
-  const sources = await db.query.entitySources.findMany({
+  // Get source documents; excerpts of DM-only documents stay with the DM
+  const allSources = await db.query.entitySources.findMany({
     where: eq(entitySources.entityId, params.entityId),
     with: {
       document: {
         columns: {
           id: true,
           name: true,
+          isDmOnly: true,
           createdAt: true,
         },
       },
     },
   })
+  const sources = allSources.filter((source) => isDM || !source.document.isDmOnly)
 
   // Find content backlinks (entities that mention this one via [[wikilinks]])
   const searchTerms = [entity.name, ...(entity.aliases || [])]
@@ -135,7 +140,7 @@ export default async function EntityViewPage({
   const contentBacklinks = allOtherEntities.filter((e) => {
     if (e.id === entity.id) return false
     if (e.isDmOnly && !isDM) return false
-    const content = e.content?.toLowerCase() || ''
+    const content = getVisibleContent(e.content || '', isDM).toLowerCase()
     return searchTerms.some(
       (term) =>
         content.includes(`[[${term.toLowerCase()}]]`) ||
@@ -216,16 +221,30 @@ export default async function EntityViewPage({
             <div className="separator-gold my-4" />
           </header>
 
-          <Card className="mb-4">
-            <CardContent className="pt-6 prose prose-sm dark:prose-invert max-w-none">
-              <MarkdownRenderer
-                content={entity.content || ''}
-                campaignId={params.campaignId}
-                noteMap={entityMap}
-                isEntityMode={true}
-              />
-            </CardContent>
-          </Card>
+          {/* Page, with the infobox beside it on wide screens */}
+          <div className="lg:flex lg:flex-row-reverse lg:items-start lg:gap-4">
+            {entity.properties && Object.keys(entity.properties).length > 0 && (
+              <aside className="lg:w-64 lg:shrink-0">
+                <EntityInfobox
+                  campaignId={params.campaignId}
+                  properties={entity.properties}
+                  entityMap={entityMap}
+                />
+              </aside>
+            )}
+            <Card className="mb-4 flex-1 min-w-0">
+              <CardContent className="pt-6 prose prose-sm dark:prose-invert max-w-none">
+                {/* Stripped here too: client component props are sent to the browser */}
+                <MarkdownRenderer
+                  content={getVisibleContent(entity.content || '', isDM)}
+                  campaignId={params.campaignId}
+                  noteMap={entityMap}
+                  isEntityMode={true}
+                  isDM={isDM}
+                />
+              </CardContent>
+            </Card>
+          </div>
 
           {/* Relationships */}
           {outgoingRels.length > 0 && (
@@ -339,10 +358,19 @@ export default async function EntityViewPage({
                 <div className="space-y-3">
                   {sources.map((source) => (
                     <div key={source.id} className="border-l-2 border-muted pl-4">
-                      <p className="font-medium text-sm">{source.document.name}</p>
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-medium text-sm">{source.document.name}</p>
+                        {isDM && (
+                          <DocumentVisibilityToggle
+                            campaignId={params.campaignId}
+                            documentId={source.document.id}
+                            isDmOnly={source.document.isDmOnly}
+                          />
+                        )}
+                      </div>
                       {source.excerpt && (
                         <p className="text-sm text-muted-foreground line-clamp-2 mt-1">
-                          "{source.excerpt}"
+                          "{getVisibleContent(source.excerpt, isDM)}"
                         </p>
                       )}
                       <p className="text-xs text-muted-foreground mt-1">
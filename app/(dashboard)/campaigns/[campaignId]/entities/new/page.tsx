@@ -10,6 +10,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Checkbox } from '@/components/ui/checkbox'
 import { ArrowLeft, Loader2, BookOpen, User } from 'lucide-react'
+import { PropertiesEditor, PropertyRow, fromPropertyRows } from '@/components/entities/properties-editor'
 
 const DEFAULT_ENTITY_TYPES = [
   { value: 'artwork', label: 'Artwork' },
@@ -50,6 +51,7 @@ export default function NewEntityPage() {
   const [content, setContent] = useState('')
   const [aliases, setAliases] = useState('')
   const [tags, setTags] = useState('')
+  const [propertyRows, setPropertyRows] = useState<PropertyRow[]>([])
   const [isDmOnly, setIsDmOnly] = useState(false)
   const [playerId, setPlayerId] = useState('')
 
@@ -136,6 +138,7 @@ export default function NewEntityPage() {
             .split(',')
             .map((t) => t.trim())
             .filter(Boolean),
+          properties: fromPropertyRows(propertyRows),
           isDmOnly,
           playerId: entityType === 'player_character' && playerId ? playerId : null,
         }),
@@ -303,6 +306,12 @@ export default function NewEntityPage() {
               </div>
             </div>
 
+            {/* Properties */}
+            <div className="space-y-2">
+              <Label>Properties</Label>
+              <PropertiesEditor rows={propertyRows} onChange={setPropertyRows} />
+            </div>
+
             {/* DM Only */}
             <div className="flex items-center space-x-2">
               <Checkbox
@@ -9,8 +9,11 @@ import { EntityCard } from '@/components/entities/entity-card'
 import { EntityStats } from '@/components/entities/entity-stats'
 import { EntityToolbar } from '@/components/entities/entity-toolbar'
 import { EntityListRow } from '@/components/entities/entity-list-row'
-import { Filter, Plus, Upload, AlertTriangle } from 'lucide-react'
+import { NameCollisionsNotice } from '@/components/entities/name-collisions-notice'
+import { Filter, Plus, Upload, AlertTriangle, Copy } from 'lucide-react'
 import { Entity } from '@/lib/db/schema'
+import { stripSecretBlocks } from '@/lib/secret-blocks'
+import { findNameCollisions } from '@/lib/canonical-names'
 
 export default async function EntitiesPage({
   params,
@@ -63,9 +66,16 @@ export default async function EntitiesPage({
     statsByType[entity.entityType] = (statsByType[entity.entityType] || 0) + 1
   }
 
-  // Filter DM-only for non-DMs
+  // Names that fold to the same canonical name; only the DM can resolve them
+  const nameCollisions = isDM
+    ? findNameCollisions(allEntities.map(({ id, name }) => ({ id, name })))
+    : []
+
+  // Filter DM-only entities and secret blocks for non-DMs
   if (!isDM) {
-    allEntities = allEntities.filter((e) => !e.isDmOnly)
+    allEntities = allEntities
+      .filter((e) => !e.isDmOnly)
+      .map((e) => ({ ...e, content: stripSecretBlocks(e.content || '') }))
   }
 
   // Filter by type
@@ -117,6 +127,14 @@ export default async function EntitiesPage({
             </p>
           </div>
           <div className="flex gap-2">
+            {isDM && (
+              <Link href={`/campaigns/${campaignId}/entities/duplicates`}>
+                <Button variant="outline" size="sm" className="sm:size-default">
+                  <Copy className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Find Duplicates</span>
+                </Button>
+              </Link>
+            )}
             <Link href={`/campaigns/${campaignId}/entities/upload`}>
               <Button variant="outline" size="sm" className="sm:size-default">
                 <Upload className="h-4 w-4 sm:mr-2" />
@@ -132,6 +150,8 @@ export default async function EntitiesPage({
           </div>
         </div>
 
+        <NameCollisionsNotice campaignId={campaignId} collisions={nameCollisions} />
+
         {/* Stats Dashboard */}
         <EntityStats
           campaignId={campaignId}
@@ -7,8 +7,10 @@ import { DocumentUploadWithReview } from '@/components/entities/document-upload-
 
 export default async function UploadPage({
   params,
+  searchParams,
 }: {
   params: { campaignId: string }
+  searchParams: { job?: string }
 }) {
   const session = await getSession()
   if (!session?.user?.id) {
@@ -32,7 +34,7 @@ export default async function UploadPage({
     <div className="flex gap-6">
       <CampaignSidebar campaignId={params.campaignId} isDM={isDM} />
       <div className="flex-1 min-w-0">
-        <DocumentUploadWithReview campaignId={params.campaignId} />
+        <DocumentUploadWithReview campaignId={params.campaignId} initialJobId={searchParams.job} />
       </div>
     </div>
   )
@@ -224,7 +224,7 @@ export default function CampaignHomePage() {
         </div>
 
         {/* Campaign Spotlight - AI Summary */}
-        <CampaignSpotlight campaignId={campaignId} />
+        <CampaignSpotlight campaignId={campaignId} isDM={isDM} />
 
         {/* Stats Grid */}
         <div className="grid grid-cols-2 lg:grid-cols-3 gap-2 sm:gap-3">
@@ -28,10 +28,13 @@ import { Slider } from '@/components/ui/slider'
 import { Switch } from '@/components/ui/switch'
 import { CampaignSidebar } from '@/components/campaigns/campaign-sidebar'
 import { useToast } from '@/components/ui/use-toast'
-import { Save, Trash2, RefreshCw, Loader2, Globe, Cog, Search, AlertTriangle, MessageSquare, RotateCcw, Download, Sparkles } from 'lucide-react'
+import { Save, Trash2, Globe, Cog, Search, AlertTriangle, MessageSquare, RotateCcw, Download, Sparkles, BarChart3 } from 'lucide-react'
 import { ExportDialog } from '@/components/campaigns/export-dialog'
-import { getCampaignSettings, DEFAULT_SETTINGS, AGGRESSIVENESS_OPTIONS, CHUNK_SIZE_OPTIONS, DEFAULT_PROMPTS, CHAT_MODEL_OPTIONS, EXTRACTION_MODEL_OPTIONS } from '@/lib/campaign-settings'
-import type { CampaignSettings, AIModel } from '@/lib/db/schema'
+import { RetrievalEvalPanel } from '@/components/campaigns/retrieval-eval-panel'
+import { EmbeddingIndexStatus } from '@/components/campaigns/embedding-index-status'
+import { getCampaignSettings, DEFAULT_SETTINGS, AGGRESSIVENESS_OPTIONS, CHUNK_SIZE_OPTIONS, DEFAULT_PROMPTS, CHAT_MODEL_OPTIONS, EXTRACTION_MODEL_OPTIONS, EMBEDDING_PROVIDER_OPTIONS, RERANK_PROVIDER_OPTIONS } from '@/lib/campaign-settings'
+import type { CampaignSettings, AIModel, EmbeddingProviderName, RerankProviderName } from '@/lib/db/schema'
+import type { UsageSummary } from '@/lib/ai/usage'
 
 const LANGUAGES = [
   { value: 'en', label: 'English' },
@@ -57,6 +60,10 @@ interface Campaign {
   settings: CampaignSettings | null
 }
 
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd < 1 ? 4 : 2)}`
+}
+
 export default function SettingsPage() {
   const params = useParams<{ campaignId: string }>()
   const campaignId = params.campaignId
@@ -67,8 +74,9 @@ export default function SettingsPage() {
   const [settings, setSettings] = useState(DEFAULT_SETTINGS)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
-  const [reindexing, setReindexing] = useState(false)
+  const [savedCount, setSavedCount] = useState(0)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [usage, setUsage] = useState<UsageSummary | null>(null)
 
   const router = useRouter()
   const { toast } = useToast()
@@ -87,7 +95,16 @@ export default function SettingsPage() {
       setLoading(false)
     }
 
+    const loadUsage = async () => {
+      const res = await fetch(`/api/campaigns/${campaignId}/stats`)
+      if (res.ok) {
+        const data = await res.json()
+        setUsage(data.usage ?? null)
+      }
+    }
+
     loadData()
+    loadUsage()
   }, [campaignId])
 
   const updateExtractionSetting = <K extends keyof typeof settings.extraction>(
@@ -140,6 +157,68 @@ export default function SettingsPage() {
     }))
   }
 
+  const updateEmbeddingSetting = <K extends keyof typeof settings.embedding>(
+    key: K,
+    value: typeof settings.embedding[K]
+  ) => {
+    setSettings((prev) => ({
+      ...prev,
+      embedding: { ...prev.embedding, [key]: value },
+    }))
+  }
+
+  // Switching backend also switches to that backend's default model
+  const selectEmbeddingProvider = (provider: EmbeddingProviderName) => {
+    const option = EMBEDDING_PROVIDER_OPTIONS.find((o) => o.value === provider)
+    setSettings((prev) => ({
+      ...prev,
+      embedding: {
+        provider,
+        model: option?.defaultModel ?? prev.embedding.model,
+        dimensions: option?.defaultDimensions ?? prev.embedding.dimensions,
+      },
+    }))
+  }
+
+  const updateRerankSetting = <K extends keyof typeof settings.rerank>(
+    key: K,
+    value: typeof settings.rerank[K]
+  ) => {
+    setSettings((prev) => ({
+      ...prev,
+      rerank: { ...prev.rerank, [key]: value },
+    }))
+  }
+
+  // Switching reranker also switches to that reranker's default model
+  const selectRerankProvider = (provider: RerankProviderName) => {
+    const option = RERANK_PROVIDER_OPTIONS.find((o) => o.value === provider)
+    setSettings((prev) => ({
+      ...prev,
+      rerank: { ...prev.rerank, provider, model: option?.defaultModel ?? prev.rerank.model },
+    }))
+  }
+
+  const updateBudgetSetting = <K extends keyof typeof settings.budget>(
+    key: K,
+    value: typeof settings.budget[K]
+  ) => {
+    setSettings((prev) => ({
+      ...prev,
+      budget: { ...prev.budget, [key]: value },
+    }))
+  }
+
+  const updateResilienceSetting = <K extends keyof typeof settings.resilience>(
+    key: K,
+    value: typeof settings.resilience[K]
+  ) => {
+    setSettings((prev) => ({
+      ...prev,
+      resilience: { ...prev.resilience, [key]: value },
+    }))
+  }
+
   const resetPromptToDefault = (key: keyof typeof DEFAULT_PROMPTS) => {
     updatePromptsSetting(key, DEFAULT_PROMPTS[key])
   }
@@ -161,6 +240,8 @@ export default function SettingsPage() {
         variant: 'destructive',
       })
     } else {
+      setCampaign((prev) => (prev ? { ...prev, settings } : prev))
+      setSavedCount((count) => count + 1)
       toast({
         title: 'Success',
         description: 'Campaign settings saved!',
@@ -170,39 +251,6 @@ export default function SettingsPage() {
     setSaving(false)
   }
 
-  const handleReindex = async () => {
-    setReindexing(true)
-
-    try {
-      const res = await fetch(`/api/campaigns/${campaignId}/reindex`, {
-        method: 'POST',
-      })
-
-      const data = await res.json()
-
-      if (!res.ok) {
-        toast({
-          title: 'Error',
-          description: data.error || 'Failed to reindex notes',
-          variant: 'destructive',
-        })
-      } else {
-        toast({
-          title: 'Reindex Complete',
-          description: data.message,
-        })
-      }
-    } catch (error) {
-      toast({
-        title: 'Error',
-        description: 'Failed to reindex notes',
-        variant: 'destructive',
-      })
-    }
-
-    setReindexing(false)
-  }
-
   const handleDelete = async () => {
     const res = await fetch(`/api/campaigns/${campaignId}`, {
       method: 'DELETE',
@@ -249,12 +297,13 @@ export default function SettingsPage() {
         </div>
 
         <Tabs defaultValue="general" className="space-y-6">
-          <TabsList className="w-full overflow-x-auto flex sm:grid sm:grid-cols-6 scrollbar-hide">
+          <TabsList className="w-full overflow-x-auto flex sm:grid sm:grid-cols-7 scrollbar-hide">
             <TabsTrigger value="general">General</TabsTrigger>
             <TabsTrigger value="model">AI Model</TabsTrigger>
             <TabsTrigger value="extraction">Extraction</TabsTrigger>
             <TabsTrigger value="search">Search</TabsTrigger>
             <TabsTrigger value="prompts">Prompts</TabsTrigger>
+            <TabsTrigger value="usage">Usage</TabsTrigger>
             <TabsTrigger value="danger">Danger</TabsTrigger>
           </TabsList>
 
@@ -433,6 +482,58 @@ export default function SettingsPage() {
                     Maximum length of AI responses in the chat.
                   </p>
                 </div>
+
+                {/* Request Limits */}
+                <div className="space-y-3 pt-4 border-t">
+                  <Label>Request Limits</Label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="maxConcurrency" className="text-xs text-muted-foreground">Parallel requests</Label>
+                      <Input
+                        id="maxConcurrency"
+                        type="number"
+                        min={1}
+                        max={16}
+                        value={settings.resilience.maxConcurrency}
+                        onChange={(e) => updateResilienceSetting('maxConcurrency', Math.max(1, parseInt(e.target.value) || 1))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="timeoutSeconds" className="text-xs text-muted-foreground">Timeout (seconds)</Label>
+                      <Input
+                        id="timeoutSeconds"
+                        type="number"
+                        min={5}
+                        value={settings.resilience.timeoutSeconds}
+                        onChange={(e) => updateResilienceSetting('timeoutSeconds', Math.max(5, parseInt(e.target.value) || 5))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="extractionTimeoutSeconds" className="text-xs text-muted-foreground">Extraction timeout (seconds)</Label>
+                      <Input
+                        id="extractionTimeoutSeconds"
+                        type="number"
+                        min={30}
+                        value={settings.resilience.extractionTimeoutSeconds}
+                        onChange={(e) => updateResilienceSetting('extractionTimeoutSeconds', Math.max(30, parseInt(e.target.value) || 30))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="maxRetries" className="text-xs text-muted-foreground">Retries</Label>
+                      <Input
+                        id="maxRetries"
+                        type="number"
+                        min={0}
+                        max={10}
+                        value={settings.resilience.maxRetries}
+                        onChange={(e) => updateResilienceSetting('maxRetries', Math.max(0, parseInt(e.target.value) || 0))}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Rate limits, overloaded providers and timeouts are retried with backoff. Streamed chat answers time out only when no new text arrives for the timeout; extraction calls get their own, longer limit. Lower the parallel requests if extraction keeps hitting rate limits.
+                  </p>
+                </div>
               </CardContent>
             </Card>
           </TabsContent>
@@ -612,43 +713,205 @@ export default function SettingsPage() {
                   </p>
                 </div>
 
-                {/* Collaborator Access */}
+                {/* Query Rewriting */}
                 <div className="space-y-4 pt-4 border-t">
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
-                      <Label>Enable Collaborator Chat Access</Label>
+                      <Label>Rewrite Follow-up Questions</Label>
                       <p className="text-sm text-muted-foreground">
-                        Allow collaborators to use the AI chat (they won&apos;t see private content)
+                        Turn questions like &quot;and what does she want?&quot; into a standalone search using the conversation (uses the extraction model)
                       </p>
                     </div>
                     <Switch
-                      checked={settings.search.enablePlayerChat}
-                      onCheckedChange={(v) => updateSearchSetting('enablePlayerChat', v)}
+                      checked={settings.search.enableQueryRewriting}
+                      onCheckedChange={(v) => updateSearchSetting('enableQueryRewriting', v)}
                     />
                   </div>
+                  {settings.search.enableQueryRewriting && (
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <Label>Sub-queries</Label>
+                        <span className="text-sm font-mono bg-muted px-2 py-0.5 rounded">
+                          {settings.search.maxSubQueries}
+                        </span>
+                      </div>
+                      <Slider
+                        value={[settings.search.maxSubQueries]}
+                        onValueChange={([v]) => updateSearchSetting('maxSubQueries', v)}
+                        min={0}
+                        max={3}
+                        step={1}
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        Questions about several things are also searched one part at a time. 0 searches the rewritten question only.
+                      </p>
+                    </div>
+                  )}
                 </div>
 
-                {/* Reindex Section */}
-                <div className="pt-4 border-t">
+                {/* Graph Expansion */}
+                <div className="space-y-4 pt-4 border-t">
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
-                      <Label>Regenerate Embeddings</Label>
+                      <Label>Include Linked Entities</Label>
                       <p className="text-sm text-muted-foreground">
-                        Reindex all entities for AI search. Use if search isn&apos;t working.
+                        Also give the AI entities related or [[linked]] to the top results, e.g. the city where a matched NPC lives
                       </p>
                     </div>
-                    <Button onClick={handleReindex} disabled={reindexing} variant="outline" size="sm">
-                      {reindexing ? (
-                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      ) : (
-                        <RefreshCw className="h-4 w-4 mr-2" />
+                    <Switch
+                      checked={settings.search.enableGraphExpansion}
+                      onCheckedChange={(v) => updateSearchSetting('enableGraphExpansion', v)}
+                    />
+                  </div>
+                  {settings.search.enableGraphExpansion && (
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <Label>Linked Entity Budget</Label>
+                        <span className="text-sm font-mono bg-muted px-2 py-0.5 rounded">
+                          {settings.search.graphExpansionTokenBudget} tokens
+                        </span>
+                      </div>
+                      <Slider
+                        value={[settings.search.graphExpansionTokenBudget]}
+                        onValueChange={([v]) => updateSearchSetting('graphExpansionTokenBudget', v)}
+                        min={500}
+                        max={4000}
+                        step={250}
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        How much linked-entity text may be added to each question.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Reranking */}
+                <div className="space-y-3 pt-4 border-t">
+                  <Label>Reranking</Label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {RERANK_PROVIDER_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => selectRerankProvider(option.value)}
+                        className={`p-3 border text-left transition-colors ${
+                          settings.rerank.provider === option.value
+                            ? 'border-primary bg-primary/10'
+                            : 'border-border hover:border-primary/50'
+                        }`}
+                      >
+                        <p className="font-medium">{option.label}</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {option.description}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                  {settings.rerank.provider !== 'none' && (
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      {settings.rerank.provider !== 'llm' && (
+                        <div className="space-y-2 sm:col-span-2">
+                          <Label htmlFor="rerankModel">Model</Label>
+                          <Input
+                            id="rerankModel"
+                            value={settings.rerank.model}
+                            onChange={(e) => updateRerankSetting('model', e.target.value)}
+                          />
+                        </div>
                       )}
-                      {reindexing ? 'Reindexing...' : 'Reindex'}
-                    </Button>
+                      <div className="space-y-2">
+                        <Label htmlFor="rerankCandidates">Candidates per result</Label>
+                        <Input
+                          id="rerankCandidates"
+                          type="number"
+                          min={1}
+                          max={10}
+                          value={settings.rerank.candidateMultiplier}
+                          onChange={(e) => updateRerankSetting('candidateMultiplier', parseInt(e.target.value) || 1)}
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    Retrieves extra candidates and keeps the ones a reranker judges most relevant to the question.
+                  </p>
+                </div>
+
+                {/* Collaborator Access */}
+                <div className="space-y-4 pt-4 border-t">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label>Enable Collaborator Chat Access</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Allow collaborators to use the AI chat (they won&apos;t see private content)
+                      </p>
+                    </div>
+                    <Switch
+                      checked={settings.search.enablePlayerChat}
+                      onCheckedChange={(v) => updateSearchSetting('enablePlayerChat', v)}
+                    />
                   </div>
                 </div>
+
+                {/* Embedding Backend */}
+                <div className="space-y-3 pt-4 border-t">
+                  <Label>Embedding Backend</Label>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    {EMBEDDING_PROVIDER_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => selectEmbeddingProvider(option.value)}
+                        className={`p-3 border text-left transition-colors ${
+                          settings.embedding.provider === option.value
+                            ? 'border-primary bg-primary/10'
+                            : 'border-border hover:border-primary/50'
+                        }`}
+                      >
+                        <p className="font-medium">{option.label}</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {option.description}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div className="space-y-2 sm:col-span-2">
+                      <Label htmlFor="embeddingModel">Model</Label>
+                      <Input
+                        id="embeddingModel"
+                        value={settings.embedding.model}
+                        onChange={(e) => updateEmbeddingSetting('model', e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="embeddingDimensions">Dimensions</Label>
+                      <Input
+                        id="embeddingDimensions"
+                        type="number"
+                        min={32}
+                        value={settings.embedding.dimensions}
+                        onChange={(e) => updateEmbeddingSetting('dimensions', parseInt(e.target.value) || 0)}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Search only compares vectors from the same model and size. Saving a change rebuilds all embeddings in the background; search keeps the current ones until the rebuild finishes.
+                  </p>
+                </div>
+
+                {/* Reindex Section */}
+                <div className="pt-4 border-t">
+                  <EmbeddingIndexStatus campaignId={campaignId} refreshKey={savedCount} />
+                </div>
               </CardContent>
             </Card>
+
+            <div className="mt-6">
+              <RetrievalEvalPanel
+                campaignId={campaignId}
+                savedSearch={getCampaignSettings(campaign?.settings).search}
+                draftSearch={settings.search}
+              />
+            </div>
           </TabsContent>
 
           {/* Prompts Tab */}
@@ -786,6 +1049,119 @@ export default function SettingsPage() {
             </Card>
           </TabsContent>
 
+          {/* Usage Tab */}
+          <TabsContent value="usage">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BarChart3 className="h-5 w-5" />
+                  AI Usage
+                </CardTitle>
+                <CardDescription>
+                  Tokens and estimated cost this month, and optional monthly caps
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {/* Month Totals */}
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {[
+                    { label: 'Calls', value: (usage?.totals.calls ?? 0).toLocaleString() },
+                    { label: 'Input tokens', value: (usage?.totals.inputTokens ?? 0).toLocaleString() },
+                    { label: 'Output tokens', value: (usage?.totals.outputTokens ?? 0).toLocaleString() },
+                    { label: 'Est. cost', value: formatCost(usage?.totals.costUsd ?? 0) },
+                  ].map((stat) => (
+                    <div key={stat.label} className="p-3 border">
+                      <p className="text-xs text-muted-foreground">{stat.label}</p>
+                      <p className="text-lg font-mono">{stat.value}</p>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Monthly Caps */}
+                <div className="space-y-3 pt-4 border-t">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="monthlyTokenLimit">Monthly token limit</Label>
+                      <Input
+                        id="monthlyTokenLimit"
+                        type="number"
+                        min={0}
+                        value={settings.budget.monthlyTokenLimit}
+                        onChange={(e) => updateBudgetSetting('monthlyTokenLimit', parseInt(e.target.value) || 0)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="monthlyCostLimit">Monthly cost limit (USD)</Label>
+                      <Input
+                        id="monthlyCostLimit"
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={settings.budget.monthlyCostLimit}
+                        onChange={(e) => updateBudgetSetting('monthlyCostLimit', parseFloat(e.target.value) || 0)}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Once a cap is reached, chat and extraction are paused until the next month. Use 0 for no limit.
+                  </p>
+                </div>
+
+                {/* Breakdown */}
+                {usage && usage.byPurpose.length > 0 && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 pt-4 border-t">
+                    <div className="space-y-2">
+                      <Label>By purpose</Label>
+                      {usage.byPurpose.map((row) => (
+                        <div key={row.purpose} className="flex items-center justify-between text-sm">
+                          <span className="capitalize">{row.purpose}</span>
+                          <span className="font-mono text-muted-foreground">
+                            {(row.inputTokens + row.outputTokens).toLocaleString()} · {formatCost(row.costUsd)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-2">
+                      <Label>By model</Label>
+                      {usage.byModel.map((row) => (
+                        <div key={row.model} className="flex items-center justify-between text-sm gap-2">
+                          <span className="truncate">{row.model}</span>
+                          <span className="font-mono text-muted-foreground shrink-0">
+                            {(row.inputTokens + row.outputTokens).toLocaleString()} · {formatCost(row.costUsd)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Recent Calls */}
+                <div className="space-y-2 pt-4 border-t">
+                  <Label>Recent calls</Label>
+                  {usage && usage.recent.length > 0 ? (
+                    <div className="space-y-1">
+                      {usage.recent.map((entry) => (
+                        <div key={entry.id} className="flex items-center justify-between text-xs gap-2">
+                          <span className="text-muted-foreground shrink-0">
+                            {new Date(entry.createdAt).toLocaleString()}
+                          </span>
+                          <span className="capitalize">{entry.purpose}</span>
+                          <span className="truncate flex-1">{entry.userName || '—'}</span>
+                          <span className="truncate">{entry.model}</span>
+                          <span className="font-mono shrink-0">
+                            {entry.inputTokens.toLocaleString()} / {entry.outputTokens.toLocaleString()}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No AI calls recorded yet.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Danger Tab */}
           <TabsContent value="danger">
             <Card className="border-destructive">
@@ -7,7 +7,7 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Plus, Users, Sparkles } from 'lucide-react'
-import { ensureCampaignLanguageColumn, ensureCampaignSettingsColumn, ensureCampaignMembersJoinedAt } from '@/lib/db/migrations'
+import { ensureCampaignLanguageColumn, ensureCampaignSettingsColumn, ensureCampaignMembersJoinedAt, ensureEntityPropertiesColumn } from '@/lib/db/migrations'
 import { ImportDialog } from '@/components/campaigns/import-dialog'
 
 export default async function CampaignsPage() {
@@ -21,6 +21,7 @@ export default async function CampaignsPage() {
   await ensureCampaignLanguageColumn()
   await ensureCampaignSettingsColumn()
   await ensureCampaignMembersJoinedAt()
+  await ensureEntityPropertiesColumn()
 
   // Get owned campaigns
   const ownedCampaigns = await db.query.campaigns.findMany({
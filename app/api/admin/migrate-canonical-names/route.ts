@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { getSession, isAdmin } from '@/lib/auth'
+import { migrateCanonicalNames } from '@/lib/db/migrations'
+
+/**
+ * Recompute canonical names with Unicode-aware canonicalization
+ * POST /api/admin/migrate-canonical-names
+ * Admins only (ADMIN_EMAILS). Returns counts; each DM sees their own collisions on the Wiki page.
+ */
+export async function POST(request: Request) {
+  const session = await getSession()
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isAdmin(session.user.email)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const report = await migrateCanonicalNames()
+
+    return NextResponse.json({
+      success: true,
+      message: `Updated ${report.updated} of ${report.checked} canonical names, ${report.collisions.length} collisions`,
+      checked: report.checked,
+      updated: report.updated,
+      collisions: report.collisions.length,
+      campaignsWithCollisions: new Set(report.collisions.map((collision) => collision.campaignId)).size,
+    })
+  } catch (error) {
+    console.error('[Migration] Error recomputing canonical names:', error)
+    return NextResponse.json(
+      { error: 'Migration failed', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -2,8 +2,9 @@ import { NextResponse } from 'next/server'
 import { getSession } from '@/lib/auth'
 import { db, campaigns, campaignMembers } from '@/lib/db'
 import { eq, and } from 'drizzle-orm'
-import { generateChatResponse } from '@/lib/ai/chat'
-import { ChatMessage } from '@/lib/types'
+import { generateChatResponse, streamChatResponse, searchChatSources, getChatRefusal } from '@/lib/ai/chat'
+import { createThread, getThread } from '@/lib/ai/oracle-threads'
+import { createSSEResponse } from '@/lib/api/sse'
 import { getCampaignSettings } from '@/lib/campaign-settings'
 
 export async function POST(
@@ -16,14 +17,6 @@ export async function POST(
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  // Check if ANTHROPIC_API_KEY is configured
-  if (!process.env.ANTHROPIC_API_KEY) {
-    return NextResponse.json({
-      content: 'Chat is not available. ANTHROPIC_API_KEY is not configured in environment variables.',
-      sources: [],
-    })
-  }
-
   // Check membership
   const membership = await db.query.campaignMembers.findFirst({
     where: and(
@@ -58,32 +51,71 @@ export async function POST(
   }
 
   const body = await request.json()
-  const { message, history, mode = 'rag' } = body as {
+  const { message, threadId, mode = 'rag', stream = false } = body as {
     message: string
-    history: ChatMessage[]
+    threadId?: string // Omit to start a new conversation
     mode?: 'rag' | 'direct'
+    stream?: boolean
   }
 
   if (!message) {
     return NextResponse.json({ error: 'Message is required' }, { status: 400 })
   }
 
+  const chatOptions = {
+    isDM,
+    userId: session.user.id,
+    campaignName: campaign.name,
+    language: campaign.language,
+    settings: campaign.settings,
+    // Stop generating (and retrying) once the client disconnects
+    signal: request.signal,
+  }
+
   try {
+    // History comes from the stored thread, never from the client
+    const existingThread = threadId
+      ? await getThread(params.campaignId, session.user.id, String(threadId))
+      : null
+    if (threadId && !existingThread) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    // Refusals (missing configuration, spent budget) are answered before a new thread is started
+    const chatMode = mode === 'direct' ? 'direct' : 'rag'
+    const refusal = await getChatRefusal(params.campaignId, chatOptions, chatMode)
+    if (refusal) {
+      return NextResponse.json({ ...refusal, thread: existingThread, mode: chatMode })
+    }
+
+    const thread = existingThread ?? await createThread(params.campaignId, session.user.id, message)
+
     // Direct mode: just return search results without AI
     if (mode === 'direct') {
-      const { searchSimilarChunks } = await import('@/lib/ai/rag')
-      const settings = (await import('@/lib/campaign-settings')).getCampaignSettings(campaign.settings)
+      const response = await searchChatSources(params.campaignId, message, thread.id, chatOptions)
 
-      const results = await searchSimilarChunks(params.campaignId, message, {
-        limit: settings.search.resultLimit,
-        threshold: settings.search.similarityThreshold,
-        excludeDmOnly: !isDM,
-      })
+      return NextResponse.json({ ...response, thread, mode: 'direct' })
+    }
 
-      return NextResponse.json({
-        content: null,
-        sources: results,
-        mode: 'direct',
+    // Streaming RAG mode: sources as soon as retrieval finishes, then tokens
+    if (stream) {
+      return createSSEResponse('[Chat-Stream]', async (sendEvent) => {
+        sendEvent('thread', { thread })
+
+        const response = await streamChatResponse(
+          params.campaignId,
+          message,
+          thread.id,
+          chatOptions,
+          {
+            onSearchQuery: (searchQuery) => sendEvent('query', { searchQuery }),
+            onSources: (sources) => sendEvent('sources', { sources }),
+            onToolCall: (sources) => sendEvent('tool', { sources }),
+            onToken: (token) => sendEvent('token', { token }),
+          }
+        )
+
+        sendEvent('complete', { ...response, mode: 'rag' })
       })
     }
 
@@ -91,15 +123,11 @@ export async function POST(
     const response = await generateChatResponse(
       params.campaignId,
       message,
-      history || [],
-      {
-        isDM,
-        campaignName: campaign.name,
-        settings: campaign.settings,
-      }
+      thread.id,
+      chatOptions
     )
 
-    return NextResponse.json({ ...response, mode: 'rag' })
+    return NextResponse.json({ ...response, thread, mode: 'rag' })
   } catch (error) {
     console.error('Chat error:', error)
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
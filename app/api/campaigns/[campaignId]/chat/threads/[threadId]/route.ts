@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { withCampaignAuth } from '@/lib/api/auth'
+import { getThread, getThreadMessages, renameThread, deleteThread } from '@/lib/ai/oracle-threads'
+
+type Params = { campaignId: string; threadId: string }
+
+/**
+ * A conversation with its messages and the sources each answer used
+ * GET /api/campaigns/{campaignId}/chat/threads/{threadId}
+ */
+export const GET = withCampaignAuth<Params>(async (request, { user, campaignId }, params) => {
+  const thread = await getThread(campaignId, user.id, params.threadId)
+  if (!thread) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+  }
+
+  const messages = await getThreadMessages(thread.id)
+  return NextResponse.json({ thread, messages })
+})
+
+/**
+ * Rename a conversation
+ * PUT /api/campaigns/{campaignId}/chat/threads/{threadId}
+ * Body: { title: string }
+ */
+export const PUT = withCampaignAuth<Params>(async (request, { user, campaignId }, params) => {
+  const thread = await getThread(campaignId, user.id, params.threadId)
+  if (!thread) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+  }
+
+  const body = await request.json()
+  const title = typeof body.title === 'string' ? body.title.trim() : ''
+  if (!title) {
+    return NextResponse.json({ error: 'Title is required' }, { status: 400 })
+  }
+
+  const updated = await renameThread(thread.id, title)
+  return NextResponse.json({ thread: updated })
+})
+
+/**
+ * Delete a conversation
+ * DELETE /api/campaigns/{campaignId}/chat/threads/{threadId}
+ */
+export const DELETE = withCampaignAuth<Params>(async (request, { user, campaignId }, params) => {
+  const thread = await getThread(campaignId, user.id, params.threadId)
+  if (!thread) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+  }
+
+  await deleteThread(thread.id)
+  return NextResponse.json({ success: true })
+})
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { withCampaignAuth } from '@/lib/api/auth'
+import { listThreads } from '@/lib/ai/oracle-threads'
+
+/**
+ * List the current user's Oracle conversations, most recent first
+ * GET /api/campaigns/{campaignId}/chat/threads
+ */
+export const GET = withCampaignAuth(async (request, { user, campaignId }) => {
+  try {
+    const threads = await listThreads(campaignId, user.id)
+    return NextResponse.json({ threads })
+  } catch (error) {
+    console.error('[OracleThreads] List error:', error)
+    return NextResponse.json({ error: 'Failed to load conversations' }, { status: 500 })
+  }
+})
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { withDMAuth } from '@/lib/api/auth'
+import { db, documents } from '@/lib/db'
+import { eq, and } from 'drizzle-orm'
+import { ensureDocumentVisibilityColumn } from '@/lib/db/migrations'
+
+/**
+ * Share a document's passages with players, or make them DM-only again (DM only)
+ * PATCH /api/campaigns/{campaignId}/documents/{documentId}
+ * Body: { isDmOnly: boolean }
+ * Passage search joins on the document, so its passages follow the new setting at once.
+ */
+export const PATCH = withDMAuth<{ campaignId: string; documentId: string }>(
+  async (request, { campaignId }, params) => {
+    const body = await request.json().catch(() => null)
+    if (typeof body?.isDmOnly !== 'boolean') {
+      return NextResponse.json({ error: 'isDmOnly must be true or false' }, { status: 400 })
+    }
+
+    try {
+      await ensureDocumentVisibilityColumn()
+
+      const [document] = await db
+        .update(documents)
+        .set({ isDmOnly: body.isDmOnly })
+        .where(and(eq(documents.id, params.documentId), eq(documents.campaignId, campaignId)))
+        .returning({ id: documents.id, name: documents.name, isDmOnly: documents.isDmOnly })
+
+      if (!document) {
+        return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+      }
+
+      console.log('[Documents] Visibility of', document.name, 'set to', document.isDmOnly ? 'DM only' : 'shared')
+      return NextResponse.json({ document })
+    } catch (error) {
+      console.error('[Documents] Error updating visibility:', error)
+      return NextResponse.json({ error: 'Failed to update document' }, { status: 500 })
+    }
+  }
+)
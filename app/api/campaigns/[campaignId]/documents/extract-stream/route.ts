@@ -1,11 +1,11 @@
 import { getSession } from '@/lib/auth'
-import { db, campaigns, campaignMembers, entities } from '@/lib/db'
+import { db, campaigns, campaignMembers } from '@/lib/db'
 import { eq, and } from 'drizzle-orm'
-import { runExtractionPipeline, ExtractionSettings, ExtractionProgress } from '@/lib/ai/extraction/pipeline'
-import { getExistingEntityNames } from '@/lib/ai/extraction/dedup'
-import { getCampaignSettings } from '@/lib/campaign-settings'
-import { v4 as uuidv4 } from 'uuid'
-import type { StagedEntity, StagedRelationship, EntityMatch, ExtractPreviewResponse } from '@/lib/types'
+import { checkUsageBudget } from '@/lib/ai/usage'
+import { findPreviousDocument } from '@/lib/ai/extraction/document-versions'
+import { startJob } from '@/lib/jobs/runner'
+import { subscribeToJob } from '@/lib/jobs/subscribe'
+import type { DocumentExtractionInput } from '@/lib/jobs/handlers'
 
 // Dynamic import for pdf-parse
 async function parsePDF(buffer: Buffer): Promise<string> {
@@ -19,6 +19,16 @@ async function parsePDF(buffer: Buffer): Promise<string> {
  * POST /api/campaigns/{campaignId}/documents/extract-stream
  *
  * Returns Server-Sent Events stream with progress, then final results
+ *
+ * The extraction runs as a background job (lib/jobs/handlers/document-extraction.ts);
+ * this stream only follows it, starting with a `job` event carrying its id.
+ * Closing the stream leaves the job running; reattach with
+ * GET /api/campaigns/{campaignId}/jobs/{jobId}/events.
+ *
+ * Uploading a document the campaign already has (same name, or a `documentId`
+ * form field) extracts only the paragraphs that changed since its last
+ * version, and stages three groups: new entities, updates to existing
+ * entities, and facts the new version no longer supports.
  */
 export async function POST(
   request: Request,
@@ -59,9 +69,21 @@ export async function POST(
     })
   }
 
+  // Refuse new extractions once the monthly AI budget is spent
+  const budget = await checkUsageBudget(params.campaignId, campaign.settings)
+  if (budget.exceeded) {
+    return new Response(JSON.stringify({ error: budget.message }), {
+      status: 402,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+
+  const isDM = membership?.role === 'dm' || campaign.ownerId === session.user.id
+
   try {
     const formData = await request.formData()
     const file = formData.get('file') as File
+    const requestedDocumentId = (formData.get('documentId') as string | null) || null
 
     if (!file) {
       return new Response(JSON.stringify({ error: 'No file provided' }), {
@@ -74,322 +96,51 @@ export async function POST(
     const fileType = file.type
     const buffer = Buffer.from(await file.arrayBuffer())
 
-    // Use ReadableStream with start() to keep the stream alive
-    const encoder = new TextEncoder()
-
-    const stream = new ReadableStream({
-      async start(controller) {
-        // Helper to send SSE event
-        const sendEvent = (event: string, data: any) => {
-          const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
-          controller.enqueue(encoder.encode(message))
-        }
-
-        try {
-          sendEvent('progress', { stage: 'parsing', message: `Parsing ${fileName}...` })
-
-          // Parse file content
-          let content = ''
-          if (fileType === 'application/pdf' || fileName.endsWith('.pdf')) {
-            sendEvent('progress', { stage: 'parsing', message: 'Extracting text from PDF...' })
-            content = await parsePDF(buffer)
-          } else if (
-            fileType === 'text/plain' ||
-            fileName.endsWith('.txt') ||
-            fileName.endsWith('.md') ||
-            fileType === 'text/markdown'
-          ) {
-            content = buffer.toString('utf-8')
-          } else if (fileType === 'application/json' || fileName.endsWith('.json')) {
-            const json = JSON.parse(buffer.toString('utf-8'))
-            content = JSON.stringify(json, null, 2)
-          } else {
-            content = buffer.toString('utf-8')
-          }
-
-          content = content.trim()
-
-          if (!content) {
-            sendEvent('error', { message: 'No content extracted from file' })
-            controller.close()
-            return
-          }
-
-          sendEvent('progress', {
-            stage: 'parsed',
-            message: `Parsed ${content.length.toLocaleString()} characters`,
-            contentLength: content.length,
-          })
-
-          // Get language from campaign settings
-          const language = (campaign as any).language || 'en'
-
-          // Get existing entity names for deduplication
-          sendEvent('progress', { stage: 'loading', message: 'Loading existing entities...' })
-          const existingNames = await getExistingEntityNames(params.campaignId)
-          sendEvent('progress', {
-            stage: 'loaded',
-            message: `Found ${existingNames.length} existing entities`,
-            existingCount: existingNames.length,
-          })
-
-          // Get campaign settings for extraction
-          const campaignSettings = getCampaignSettings((campaign as any).settings)
-
-          // Use smaller chunks for faster processing within Vercel timeout
-          // Cap at 2000 chars to ensure each chunk processes quickly
-          const chunkSize = Math.min(campaignSettings.extraction.chunkSize, 2000)
-
-          const extractionSettings: ExtractionSettings = {
-            chunkSize,
-            aggressiveness: campaignSettings.extraction.aggressiveness,
-            confidenceThreshold: campaignSettings.extraction.confidenceThreshold,
-            enableRelationships: campaignSettings.extraction.enableRelationships,
-            extractionModel: campaignSettings.model.extractionModel,
-            customPrompts: {
-              extractionConservativePrompt: campaignSettings.prompts.extractionConservativePrompt,
-              extractionBalancedPrompt: campaignSettings.prompts.extractionBalancedPrompt,
-              extractionObsessivePrompt: campaignSettings.prompts.extractionObsessivePrompt,
-            },
-          }
-
-          sendEvent('progress', {
-            stage: 'starting',
-            message: `Starting AI extraction (${extractionSettings.aggressiveness} mode, ${campaignSettings.model.extractionModel})...`,
-            mode: extractionSettings.aggressiveness,
-          })
-
-          // Run extraction pipeline with progress callback
-          // Note: Vercel Hobby plan has 10s limit, Pro has 60s
-          // Individual chunks have 45s timeout, we process all in parallel
-          const extraction = await runExtractionPipeline(
-            content,
-            fileName,
-            existingNames,
-            language,
-            (progress: ExtractionProgress) => {
-              sendEvent('extraction', {
-                stage: progress.stage,
-                current: progress.current,
-                total: progress.total,
-                message: progress.message,
-              })
-            },
-            {
-              ...extractionSettings,
-              maxChunks: 4, // Limit chunks to stay within timeout
-              parallelBatchSize: 4, // Process all chunks in parallel (single batch)
-            }
-          )
-
-          sendEvent('progress', {
-            stage: 'processing',
-            message: `Processing ${extraction.entities.length} entities...`,
-            entityCount: extraction.entities.length,
-          })
-
-          // Convert extracted entities to staged entities with tempIds
-          const stagedEntities: StagedEntity[] = extraction.entities.map((entity) => ({
-            tempId: uuidv4(),
-            name: entity.name,
-            canonicalName: entity.canonicalName,
-            entityType: entity.type,
-            content: entity.content,
-            aliases: entity.aliases,
-            tags: entity.tags,
-            confidence: 0.8,
-            excerpt: entity.content.slice(0, 300),
-            status: 'pending' as const,
-          }))
-
-          // Send entity discovery events (batch to reduce overhead)
-          sendEvent('progress', {
-            stage: 'entities',
-            message: `Found ${stagedEntities.length} entities`,
-            entityCount: stagedEntities.length,
-          })
-
-          // Create tempId lookup for relationships
-          const nameToTempId = new Map<string, string>()
-          stagedEntities.forEach((e) => {
-            nameToTempId.set(e.name.toLowerCase(), e.tempId)
-            e.aliases.forEach((alias) => nameToTempId.set(alias.toLowerCase(), e.tempId))
-          })
-
-          // Convert relationships to staged relationships
-          const stagedRelationships: StagedRelationship[] = []
-          for (const rel of extraction.relationships) {
-            const sourceTempId = nameToTempId.get(rel.sourceEntity.toLowerCase())
-            const targetTempId = nameToTempId.get(rel.targetEntity.toLowerCase())
-
-            if (!sourceTempId || !targetTempId) {
-              continue
-            }
-
-            stagedRelationships.push({
-              tempId: uuidv4(),
-              sourceEntityTempId: sourceTempId,
-              targetEntityTempId: targetTempId,
-              sourceEntityName: rel.sourceEntity,
-              targetEntityName: rel.targetEntity,
-              relationshipType: rel.relationshipType,
-              reverseLabel: rel.reverseLabel,
-              excerpt: rel.excerpt || '',
-              status: 'pending' as const,
-            })
-          }
-
-          sendEvent('progress', {
-            stage: 'relationships',
-            message: `Found ${stagedRelationships.length} relationships`,
-            relationshipCount: stagedRelationships.length,
-          })
-
-          // Find existing entity matches for duplicates - batch query for efficiency
-          sendEvent('progress', { stage: 'duplicates', message: 'Checking for duplicates...' })
-          const existingEntityMatches: EntityMatch[] = []
-
-          // Get all existing entities in one query
-          const existingEntities = await db.query.entities.findMany({
-            where: eq(entities.campaignId, params.campaignId),
-            columns: {
-              id: true,
-              name: true,
-              entityType: true,
-              aliases: true,
-              canonicalName: true,
-            },
-          })
-
-          // Build lookup map for fast matching
-          const canonicalMap = new Map<string, (typeof existingEntities)[0]>()
-          for (const entity of existingEntities) {
-            canonicalMap.set(entity.canonicalName.toLowerCase(), entity)
-          }
-
-          // Check each staged entity against the map
-          for (const staged of stagedEntities) {
-            const exactMatch = canonicalMap.get(staged.canonicalName.toLowerCase())
-            if (exactMatch) {
-              existingEntityMatches.push({
-                stagedTempId: staged.tempId,
-                existingEntity: {
-                  id: exactMatch.id,
-                  name: exactMatch.name,
-                  entityType: exactMatch.entityType,
-                  aliases: exactMatch.aliases || [],
-                  canonicalName: exactMatch.canonicalName,
-                },
-                matchType: 'exact',
-                confidence: 1.0,
-              })
-              continue
-            }
-
-            // Check aliases
-            for (const alias of staged.aliases) {
-              const aliasCanonical = alias
-                .toLowerCase()
-                .replace(/[^a-z0-9]+/g, '-')
-                .replace(/^-|-$/g, '')
-
-              const aliasMatch = canonicalMap.get(aliasCanonical)
-              if (aliasMatch) {
-                existingEntityMatches.push({
-                  stagedTempId: staged.tempId,
-                  existingEntity: {
-                    id: aliasMatch.id,
-                    name: aliasMatch.name,
-                    entityType: aliasMatch.entityType,
-                    aliases: aliasMatch.aliases || [],
-                    canonicalName: aliasMatch.canonicalName,
-                  },
-                  matchType: 'alias',
-                  confidence: 0.8,
-                })
-                break
-              }
-            }
-          }
-
-          if (existingEntityMatches.length > 0) {
-            sendEvent('progress', {
-              stage: 'duplicates',
-              message: `Found ${existingEntityMatches.length} potential duplicates`,
-              duplicateCount: existingEntityMatches.length,
-            })
-          }
-
-          // Send entities in batches to avoid SSE message size issues
-          const BATCH_SIZE = 20
-          const documentId = uuidv4()
-
-          // First, send metadata
-          sendEvent('result_meta', {
-            success: true,
-            documentId,
-            fileName,
-            totalEntities: stagedEntities.length,
-            totalRelationships: stagedRelationships.length,
-            totalMatches: existingEntityMatches.length,
-          })
-
-          // Send entities in batches
-          for (let i = 0; i < stagedEntities.length; i += BATCH_SIZE) {
-            const batch = stagedEntities.slice(i, i + BATCH_SIZE)
-            sendEvent('entities_batch', {
-              entities: batch,
-              batchIndex: Math.floor(i / BATCH_SIZE),
-              totalBatches: Math.ceil(stagedEntities.length / BATCH_SIZE),
-            })
-          }
+    // Parse file content
+    let content = ''
+    if (fileType === 'application/pdf' || fileName.endsWith('.pdf')) {
+      content = await parsePDF(buffer)
+    } else if (
+      fileType === 'text/plain' ||
+      fileName.endsWith('.txt') ||
+      fileName.endsWith('.md') ||
+      fileType === 'text/markdown'
+    ) {
+      content = buffer.toString('utf-8')
+    } else if (fileType === 'application/json' || fileName.endsWith('.json')) {
+      const json = JSON.parse(buffer.toString('utf-8'))
+      content = JSON.stringify(json, null, 2)
+    } else {
+      content = buffer.toString('utf-8')
+    }
 
-          // Send relationships in batches
-          for (let i = 0; i < stagedRelationships.length; i += BATCH_SIZE) {
-            const batch = stagedRelationships.slice(i, i + BATCH_SIZE)
-            sendEvent('relationships_batch', {
-              relationships: batch,
-              batchIndex: Math.floor(i / BATCH_SIZE),
-              totalBatches: Math.ceil(stagedRelationships.length / BATCH_SIZE),
-            })
-          }
+    content = content.trim()
 
-          // Send matches
-          if (existingEntityMatches.length > 0) {
-            sendEvent('matches', { matches: existingEntityMatches })
-          }
+    if (!content) {
+      return new Response(JSON.stringify({ error: 'No content extracted from file' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
 
-          // Final complete signal
-          sendEvent('complete', {
-            success: true,
-            documentId,
-            entityCount: stagedEntities.length,
-            relationshipCount: stagedRelationships.length,
-            matchCount: existingEntityMatches.length,
-          })
+    if (requestedDocumentId) {
+      const previous = await findPreviousDocument(params.campaignId, requestedDocumentId, fileName)
+      if (!previous || (previous.isDmOnly && !isDM)) {
+        return new Response(JSON.stringify({ error: 'Document not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+    }
 
-          controller.close()
-        } catch (error) {
-          console.error('[Extract-Stream] Error:', error)
-          const sendEvent = (event: string, data: any) => {
-            const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
-            controller.enqueue(encoder.encode(message))
-          }
-          sendEvent('error', {
-            message: error instanceof Error ? error.message : 'Extraction failed',
-          })
-          controller.close()
-        }
-      },
+    const input: DocumentExtractionInput = { fileName, content, documentId: requestedDocumentId, isDM }
+    const job = await startJob(params.campaignId, 'document-extraction', {
+      title: `Extract ${fileName}`,
+      input,
+      createdBy: session.user.id,
     })
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        Connection: 'keep-alive',
-      },
-    })
+    return subscribeToJob(params.campaignId, job.id, '[Extract-Stream]')
   } catch (error) {
     console.error('[Extract-Stream] Error:', error)
     return new Response(
@@ -5,8 +5,11 @@ import { eq, and, or, ilike } from 'drizzle-orm'
 import { runExtractionPipeline, ExtractionSettings } from '@/lib/ai/extraction/pipeline'
 import { getExistingEntityNames } from '@/lib/ai/extraction/dedup'
 import { getCampaignSettings } from '@/lib/campaign-settings'
+import { checkUsageBudget } from '@/lib/ai/usage'
+import { getExtractionResilienceOptions } from '@/lib/ai/resilience'
 import { v4 as uuidv4 } from 'uuid'
 import type { StagedEntity, StagedRelationship, EntityMatch, ExtractPreviewResponse } from '@/lib/types'
+import { canonicalizeName } from '@/lib/canonical-names'
 
 // Dynamic import for pdf-parse
 async function parsePDF(buffer: Buffer): Promise<string> {
@@ -51,6 +54,12 @@ export async function POST(
     return NextResponse.json({ error: 'Not a member' }, { status: 403 })
   }
 
+  // Refuse new extractions once the monthly AI budget is spent
+  const budget = await checkUsageBudget(params.campaignId, campaign.settings)
+  if (budget.exceeded) {
+    return NextResponse.json({ error: budget.message }, { status: 402 })
+  }
+
   try {
     const formData = await request.formData()
     const file = formData.get('file') as File
@@ -115,6 +124,8 @@ export async function POST(
         extractionBalancedPrompt: campaignSettings.prompts.extractionBalancedPrompt,
         extractionObsessivePrompt: campaignSettings.prompts.extractionObsessivePrompt,
       },
+      usage: { campaignId: params.campaignId, userId: session.user.id, purpose: 'extraction' },
+      resilience: getExtractionResilienceOptions((campaign as any).settings),
     }
 
     // Run extraction pipeline
@@ -136,6 +147,7 @@ export async function POST(
       content: entity.content,
       aliases: entity.aliases,
       tags: entity.tags,
+      properties: entity.properties,
       confidence: 0.8, // Default confidence
       excerpt: entity.content.slice(0, 300),
       status: 'pending' as const,
@@ -209,10 +221,7 @@ export async function POST(
 
       // Check for alias match
       for (const alias of staged.aliases) {
-        const aliasCanonical = alias
-          .toLowerCase()
-          .replace(/[^a-z0-9]+/g, '-')
-          .replace(/^-|-$/g, '')
+        const aliasCanonical = canonicalizeName(alias)
 
         const aliasMatch = await db.query.entities.findFirst({
           where: and(
@@ -6,6 +6,9 @@ import { runExtractionPipeline, ExtractionSettings } from '@/lib/ai/extraction/p
 import { findExistingEntity, getExistingEntityNames, mergeAliases } from '@/lib/ai/extraction/dedup'
 import { ensureKnowledgeGraphTables } from '@/lib/db/migrations'
 import { getCampaignSettings } from '@/lib/campaign-settings'
+import { checkUsageBudget } from '@/lib/ai/usage'
+import { getExtractionResilienceOptions } from '@/lib/ai/resilience'
+import { syncDocumentEmbeddings } from '@/lib/ai/document-embeddings'
 
 // Dynamic import for pdf-parse
 async function parsePDF(buffer: Buffer): Promise<string> {
@@ -48,6 +51,12 @@ export async function POST(
     return NextResponse.json({ error: 'Not a member' }, { status: 403 })
   }
 
+  // Refuse new extractions once the monthly AI budget is spent
+  const budget = await checkUsageBudget(params.campaignId, campaign.settings)
+  if (budget.exceeded) {
+    return NextResponse.json({ error: budget.message }, { status: 402 })
+  }
+
   try {
     // Auto-migrate tables if needed
     const migration = await ensureKnowledgeGraphTables()
@@ -77,6 +86,8 @@ export async function POST(
 
     progress.push(`Campaign language: ${language}`)
 
+    const campaignSettings = getCampaignSettings((campaign as any).settings)
+
     for (const file of files) {
       const fileName = file.name
       progress.push(`Processing: ${fileName}`)
@@ -132,6 +143,7 @@ export async function POST(
           name: fileName,
           content,
           fileType: fileType || 'text/plain',
+          isDmOnly: true, // Raw text; the DM shares it with players from the Sources card
           uploadedBy: session.user.id,
         })
         .returning()
@@ -139,8 +151,7 @@ export async function POST(
       // 2. Get existing entity names for deduplication
       const existingNames = await getExistingEntityNames(params.campaignId)
 
-      // 3. Get campaign settings for extraction
-      const campaignSettings = getCampaignSettings((campaign as any).settings)
+      // 3. Build extraction settings
       const extractionSettings: ExtractionSettings = {
         chunkSize: campaignSettings.extraction.chunkSize,
         aggressiveness: campaignSettings.extraction.aggressiveness,
@@ -151,6 +162,8 @@ export async function POST(
           extractionBalancedPrompt: campaignSettings.prompts.extractionBalancedPrompt,
           extractionObsessivePrompt: campaignSettings.prompts.extractionObsessivePrompt,
         },
+        usage: { campaignId: params.campaignId, userId: session.user.id, purpose: 'extraction' },
+        resilience: getExtractionResilienceOptions((campaign as any).settings),
       }
 
       // 4. Run extraction pipeline
@@ -284,10 +297,20 @@ export async function POST(
         }
       }
 
+      // 7. Embed the raw passages so the Oracle can cite details the extractor dropped
+      let passagesIndexed = 0
+      try {
+        passagesIndexed = await syncDocumentEmbeddings(doc.id, params.campaignId, fileName, content)
+        progress.push(`Indexed ${passagesIndexed} passages for search`)
+      } catch (embedError) {
+        console.error(`[Documents] Failed to index passages for ${fileName}:`, embedError)
+      }
+
       results.push({
         file: fileName,
         success: true,
         documentId: doc.id,
+        passagesIndexed,
         entitiesCreated: createdEntities.length,
         entities: createdEntities,
         relationshipsCreated: createdRelationships.length,
@@ -354,6 +377,7 @@ export async function GET(
       id: documents.id,
       name: documents.name,
       fileType: documents.fileType,
+      isDmOnly: documents.isDmOnly,
       createdAt: documents.createdAt,
     })
     .from(documents)
@@ -9,6 +9,9 @@ import {
 import { eq, and } from 'drizzle-orm'
 import { syncEntityEmbeddings, deleteEntityChunks } from '@/lib/ai/entity-embeddings'
 import { withCampaignAuth, withDMAuth } from '@/lib/api/auth'
+import { getVisibleContent, stripSecretBlocks, extractSecretBlocks } from '@/lib/secret-blocks'
+import { canonicalizeName } from '@/lib/canonical-names'
+import { sanitizeProperties } from '@/lib/entity-properties'
 
 type Params = { campaignId: string; entityId: string }
 
@@ -110,7 +113,7 @@ export const GET = withCampaignAuth<Params>(async (request, { access, campaignId
   // Filter content backlinks (entities that mention this entity in wikilinks)
   const backlinkEntities = allCampaignEntities.filter((e) => {
     if (e.id === entity.id) return false
-    const content = e.content?.toLowerCase() || ''
+    const content = getVisibleContent(e.content || '', access.isDM).toLowerCase()
     return searchTerms.some(
       (term) =>
         content.includes(`[[${term.toLowerCase()}]]`) ||
@@ -119,7 +122,7 @@ export const GET = withCampaignAuth<Params>(async (request, { access, campaignId
   })
 
   return NextResponse.json({
-    entity,
+    entity: { ...entity, content: getVisibleContent(entity.content || '', access.isDM) },
     outgoingRelationships: outgoingRelationships.map((r) => ({
       id: r.id,
       type: r.relationshipType,
@@ -152,7 +155,7 @@ export const GET = withCampaignAuth<Params>(async (request, { access, campaignId
  * Update an entity
  * PUT /api/campaigns/{campaignId}/entities/{entityId}
  */
-export const PUT = withCampaignAuth<Params>(async (request, { user, campaignId }, params) => {
+export const PUT = withCampaignAuth<Params>(async (request, { user, access, campaignId }, params) => {
   // Get the entity
   const entity = await db.query.entities.findFirst({
     where: and(
@@ -166,7 +169,16 @@ export const PUT = withCampaignAuth<Params>(async (request, { user, campaignId }
   }
 
   const body = await request.json()
-  const { name, entityType, content, aliases, tags, isDmOnly, playerId } = body
+  const { name, entityType, isDmOnly, aliases, tags, properties, playerId } = body
+
+  // Players edit the page without its secret blocks; keep them rather than lose them on save
+  let content: string | undefined = body.content
+  if (content !== undefined && !access.isDM) {
+    const current = entity.content || ''
+    content = content === stripSecretBlocks(current)
+      ? current
+      : [content.trim(), ...extractSecretBlocks(current)].filter(Boolean).join('\n\n')
+  }
 
   // Save current version before updating
   await db.insert(entityVersions).values({
@@ -179,10 +191,7 @@ export const PUT = withCampaignAuth<Params>(async (request, { user, campaignId }
   // Update canonical name if name changed
   let canonicalName = entity.canonicalName
   if (name && name !== entity.name) {
-    canonicalName = name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '')
+    canonicalName = canonicalizeName(name)
 
     // Check for duplicate
     const existing = await db.query.entities.findFirst({
@@ -213,6 +222,7 @@ export const PUT = withCampaignAuth<Params>(async (request, { user, campaignId }
       content: content !== undefined ? content : entity.content,
       aliases: aliases !== undefined ? aliases : entity.aliases,
       tags: tags !== undefined ? tags : entity.tags,
+      properties: properties !== undefined ? sanitizeProperties(properties) : entity.properties,
       isDmOnly: isDmOnly !== undefined ? isDmOnly : entity.isDmOnly,
       playerId: finalEntityType === 'player_character'
         ? (playerId !== undefined ? playerId : entity.playerId)
@@ -236,7 +246,7 @@ export const PUT = withCampaignAuth<Params>(async (request, { user, campaignId }
     }
   }
 
-  return NextResponse.json(updated)
+  return NextResponse.json({ ...updated, content: getVisibleContent(updated.content || '', access.isDM) })
 })
 
 /**
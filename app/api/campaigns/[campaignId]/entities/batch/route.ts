@@ -1,10 +1,15 @@
 import { NextResponse } from 'next/server'
-import { db, documents, entities, relationships, entitySources } from '@/lib/db'
+import { db, documents, entities, relationships, entitySources, entityVersions, Document } from '@/lib/db'
 import { eq, and } from 'drizzle-orm'
 import { syncEntityEmbeddings } from '@/lib/ai/entity-embeddings'
+import { syncDocumentEmbeddings } from '@/lib/ai/document-embeddings'
+import { ensureDocumentVisibilityColumn } from '@/lib/db/migrations'
 import { mergeAliases } from '@/lib/ai/extraction/dedup'
+import { findPreviousDocument, createDocumentVersion, recordFirstVersion } from '@/lib/ai/extraction/document-versions'
 import { withCampaignAuth } from '@/lib/api/auth'
 import type { BatchCommitRequest, BatchCommitResponse } from '@/lib/types'
+import { canonicalizeName } from '@/lib/canonical-names'
+import { sanitizeProperties, mergeProperties } from '@/lib/entity-properties'
 
 // Sanitize text to remove null bytes and problematic characters for PostgreSQL
 function sanitizeText(text: string | null | undefined): string {
@@ -17,27 +22,57 @@ type Params = { campaignId: string }
 /**
  * Batch commit approved entities from staging
  * POST /api/campaigns/{campaignId}/entities/batch
+ *
+ * With a documentId the document content is stored as that document's next
+ * version, and approved updates and retractions from the re-extraction apply.
  */
 export const POST = withCampaignAuth<Params>(async (request, { user, access, campaignId }) => {
   const body: BatchCommitRequest = await request.json()
-  const { documentName, documentContent, entities: approvedEntities, relationships: approvedRelationships } = body
+  const { documentName, documentContent, documentId, entities: approvedEntities, relationships: approvedRelationships } = body
+  const approvedUpdates = body.updates || []
+  const approvedRetractions = body.retractions || []
 
-  if (!approvedEntities || approvedEntities.length === 0) {
+  // A new version is worth recording even when nothing in it was approved
+  if (!documentId && (!approvedEntities || approvedEntities.length === 0)) {
     return NextResponse.json({ error: 'No entities to commit' }, { status: 400 })
   }
 
   try {
-    // 1. Create the document record (sanitize content)
-    const [doc] = await db
-      .insert(documents)
-      .values({
-        campaignId,
-        name: sanitizeText(documentName),
-        content: sanitizeText(documentContent),
-        fileType: 'text/plain',
-        uploadedBy: user.id,
+    await ensureDocumentVisibilityColumn()
+
+    // 1. Store the document: a new version of an existing one, or a new record (sanitize content)
+    let doc: Document
+    let version = 1
+    if (documentId) {
+      const previous = await findPreviousDocument(campaignId, documentId, documentName)
+      if (!previous || (previous.isDmOnly && !access.isDM)) {
+        return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+      }
+
+      version = await createDocumentVersion(previous, sanitizeText(documentContent), user.id)
+      doc = { ...previous, content: sanitizeText(documentContent) }
+    } else {
+      const [created] = await db
+        .insert(documents)
+        .values({
+          campaignId,
+          name: sanitizeText(documentName),
+          content: sanitizeText(documentContent),
+          fileType: 'text/plain',
+          isDmOnly: true, // Raw text; the DM shares it with players from the Sources card
+          uploadedBy: user.id,
+        })
+        .returning()
+      await recordFirstVersion(created)
+      doc = created
+    }
+
+    // Index the raw passages alongside the entity embeddings
+    const passagesPromise = syncDocumentEmbeddings(doc.id, campaignId, doc.name, doc.content)
+      .catch((err) => {
+        console.error(`[Batch] Passage indexing error for ${doc.name}:`, err)
+        return 0
       })
-      .returning()
 
     // 2. Process entities - track tempId to real ID mapping
     const tempIdToRealId = new Map<string, string>()
@@ -45,7 +80,7 @@ export const POST = withCampaignAuth<Params>(async (request, { user, access, cam
     const mergedEntities: { tempId: string; id: string; name: string }[] = []
     const embeddingPromises: Promise<{ name: string; success: boolean }>[] = []
 
-    for (const approved of approvedEntities) {
+    for (const approved of approvedEntities || []) {
       try {
         // Check if this is a merge operation
         if (approved.mergeTargetId) {
@@ -61,6 +96,15 @@ export const POST = withCampaignAuth<Params>(async (request, { user, access, cam
             // Merge aliases
             await mergeAliases(existingEntity.id, approved.aliases)
 
+            // Add the properties it does not have yet
+            const incoming = sanitizeProperties(approved.properties)
+            if (Object.keys(incoming).length > 0) {
+              await db
+                .update(entities)
+                .set({ properties: mergeProperties(existingEntity.properties || {}, incoming) })
+                .where(eq(entities.id, existingEntity.id))
+            }
+
             // Add source reference
             await db
               .insert(entitySources)
@@ -94,11 +138,12 @@ export const POST = withCampaignAuth<Params>(async (request, { user, access, cam
           .values({
             campaignId,
             name: sanitizedName,
-            canonicalName: approved.canonicalName,
+            canonicalName: canonicalizeName(sanitizedName),
             entityType: approved.entityType,
             content: sanitizedContent,
             aliases: sanitizedAliases,
             tags: sanitizedTags,
+            properties: sanitizeProperties(approved.properties),
             isDmOnly: approved.isDmOnly,
           })
           .returning()
@@ -137,7 +182,94 @@ export const POST = withCampaignAuth<Params>(async (request, { user, access, cam
       }
     }
 
-    // 3. Create relationships
+    // 3. Append approved updates to the entities they belong to
+    const updatedEntities: { tempId: string; id: string; name: string }[] = []
+
+    for (const update of approvedUpdates) {
+      try {
+        const existingEntity = await db.query.entities.findFirst({
+          where: and(eq(entities.id, update.entityId), eq(entities.campaignId, campaignId)),
+        })
+        if (!existingEntity || (existingEntity.isDmOnly && !access.isDM)) continue
+
+        // Keep the page as it was in the entity's history
+        await db.insert(entityVersions).values({
+          entityId: existingEntity.id,
+          name: existingEntity.name,
+          content: existingEntity.content || '',
+          editedBy: user.id,
+        })
+
+        const content = [existingEntity.content, sanitizeText(update.addition)].filter(Boolean).join('\n\n')
+        await db
+          .update(entities)
+          .set({
+            content,
+            properties: mergeProperties(existingEntity.properties || {}, sanitizeProperties(update.properties)),
+            updatedAt: new Date(),
+          })
+          .where(eq(entities.id, existingEntity.id))
+        await mergeAliases(existingEntity.id, update.aliases.map(a => sanitizeText(a)).filter(Boolean))
+
+        await db
+          .insert(entitySources)
+          .values({
+            entityId: existingEntity.id,
+            documentId: doc.id,
+            excerpt: sanitizeText(update.addition).slice(0, 500),
+            confidence: '0.9',
+          })
+          .onConflictDoNothing()
+
+        tempIdToRealId.set(update.tempId, existingEntity.id)
+        updatedEntities.push({ tempId: update.tempId, id: existingEntity.id, name: existingEntity.name })
+
+        embeddingPromises.push(
+          syncEntityEmbeddings(existingEntity.id, campaignId, existingEntity.name, content)
+            .then(() => ({ name: existingEntity.name, success: true }))
+            .catch((err) => {
+              console.error(`[Batch] Embedding error for ${existingEntity.name}:`, err)
+              return { name: existingEntity.name, success: false }
+            })
+        )
+      } catch (updateError) {
+        console.error(`[Batch] Failed to update entity ${update.entityId}:`, updateError)
+      }
+    }
+
+    // 4. Drop facts the new version no longer supports: the entity's link to this
+    // document, or the relationship recorded from it
+    let retractedFacts = 0
+
+    for (const retraction of approvedRetractions) {
+      try {
+        const entity = await db.query.entities.findFirst({
+          where: and(eq(entities.id, retraction.entityId), eq(entities.campaignId, campaignId)),
+          columns: { id: true, isDmOnly: true },
+        })
+        if (!entity || (entity.isDmOnly && !access.isDM)) continue
+
+        const removed = retraction.kind === 'relationship' && retraction.relationshipId
+          ? await db
+              .delete(relationships)
+              .where(and(
+                eq(relationships.id, retraction.relationshipId),
+                eq(relationships.sourceEntityId, entity.id),
+                eq(relationships.documentId, doc.id)
+              ))
+              .returning({ id: relationships.id })
+          : await db
+              .delete(entitySources)
+              .where(and(eq(entitySources.entityId, entity.id), eq(entitySources.documentId, doc.id)))
+              .returning({ id: entitySources.id })
+
+        retractedFacts += removed.length
+      } catch (retractionError) {
+        console.error(`[Batch] Failed to retract ${retraction.kind} ${retraction.relationshipId || retraction.entityId}:`, retractionError)
+      }
+    }
+
+    // 5. Create relationships
     let createdRelationshipsCount = 0
 
     for (const rel of approvedRelationships) {
@@ -168,31 +300,31 @@ export const POST = withCampaignAuth<Params>(async (request, { user, access, cam
       }
     }
 
-    // Wait for embeddings to complete (with timeout)
-    let embeddingsSucceeded = 0
-    let embeddingsFailed = 0
-    if (embeddingPromises.length > 0) {
-      const embeddingResults = await Promise.race([
-        Promise.all(embeddingPromises),
-        new Promise<{ name: string; success: boolean }[]>((resolve) =>
-          setTimeout(() => resolve([]), 30000) // 30s timeout
-        ),
-      ])
-      embeddingsSucceeded = embeddingResults.filter((r) => r.success).length
-      embeddingsFailed = embeddingResults.filter((r) => !r.success).length
-    }
+    // Wait for entity and passage embeddings to complete (with timeout)
+    const [embeddingResults, passagesIndexed] = await Promise.race([
+      Promise.all([Promise.all(embeddingPromises), passagesPromise]),
+      new Promise<[{ name: string; success: boolean }[], number]>((resolve) =>
+        setTimeout(() => resolve([[], 0]), 30000) // 30s timeout
+      ),
+    ])
+    const embeddingsSucceeded = embeddingResults.filter((r) => r.success).length
+    const embeddingsFailed = embeddingResults.filter((r) => !r.success).length
 
     const response: BatchCommitResponse = {
       success: true,
       documentId: doc.id,
       createdEntities,
       mergedEntities,
+      updatedEntities,
+      retractedFacts,
+      version,
       createdRelationships: createdRelationshipsCount,
       embeddingsStatus: {
         total: embeddingPromises.length,
         succeeded: embeddingsSucceeded,
         failed: embeddingsFailed,
       },
+      passagesIndexed,
     }
 
     return NextResponse.json(response)
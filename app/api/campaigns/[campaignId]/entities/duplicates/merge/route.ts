@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { db, entities } from '@/lib/db'
+import { eq, and, inArray } from 'drizzle-orm'
+import { withDMAuth } from '@/lib/api/auth'
+import { mergeEntities } from '@/lib/entity-merge'
+import type { DuplicateMergeGroup } from '@/lib/types'
+
+/**
+ * Merge several groups of duplicates at once (DM only)
+ * POST /api/campaigns/{campaignId}/entities/duplicates/merge
+ * Body: { groups: [{ primaryEntityId, secondaryEntityIds }] }
+ *
+ * Each group is merged like the single merge route does, into its primary.
+ * Each group runs in its own transaction: a group that fails is rolled back
+ * and reported, and the rest are still merged.
+ */
+export const POST = withDMAuth(async (request, { campaignId }) => {
+  const body = await request.json()
+  const groups: DuplicateMergeGroup[] = Array.isArray(body.groups) ? body.groups : []
+
+  const isValid = (group: DuplicateMergeGroup) =>
+    typeof group?.primaryEntityId === 'string' &&
+    Array.isArray(group.secondaryEntityIds) &&
+    group.secondaryEntityIds.length > 0 &&
+    !group.secondaryEntityIds.includes(group.primaryEntityId)
+
+  if (groups.length === 0 || !groups.every(isValid)) {
+    return NextResponse.json(
+      { error: 'Each group needs a primaryEntityId and at least one other secondaryEntityId' },
+      { status: 400 }
+    )
+  }
+
+  // An entity merged away in one group can't take part in another
+  const allIds = groups.flatMap((group) => [group.primaryEntityId, ...group.secondaryEntityIds])
+  if (new Set(allIds).size !== allIds.length) {
+    return NextResponse.json({ error: 'An entity appears in more than one group' }, { status: 400 })
+  }
+
+  const found = await db.query.entities.findMany({
+    where: and(eq(entities.campaignId, campaignId), inArray(entities.id, allIds)),
+  })
+  const entitiesById = new Map(found.map((entity) => [entity.id, entity]))
+
+  const merged: Array<{ entityId: string; name: string; mergedNames: string[] }> = []
+  const failed: Array<{ primaryEntityId: string; error: string }> = []
+
+  for (const group of groups) {
+    const primary = entitiesById.get(group.primaryEntityId)
+    const secondaries = group.secondaryEntityIds.map((id) => entitiesById.get(id))
+
+    if (!primary || secondaries.some((entity) => !entity)) {
+      failed.push({ primaryEntityId: group.primaryEntityId, error: 'Entity not found' })
+      continue
+    }
+
+    try {
+      const entity = await mergeEntities(campaignId, primary, group.secondaryEntityIds)
+      merged.push({
+        entityId: entity.id,
+        name: entity.name,
+        mergedNames: secondaries.map((secondary) => secondary!.name),
+      })
+    } catch (error) {
+      console.error('[Merge] Error merging into', primary.name + ':', error)
+      failed.push({ primaryEntityId: group.primaryEntityId, error: 'Failed to merge entities' })
+    }
+  }
+
+  console.log('[Merge] Bulk merge:', merged.length, 'groups merged,', failed.length, 'failed')
+
+  return NextResponse.json({ merged, failed })
+})
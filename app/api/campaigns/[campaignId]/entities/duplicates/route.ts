@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { withDMAuth } from '@/lib/api/auth'
+import { findDuplicateClusters, DEFAULT_DUPLICATE_MIN_SCORE } from '@/lib/ai/duplicates'
+
+/**
+ * Scan the campaign for likely duplicate entities (DM only)
+ * GET /api/campaigns/{campaignId}/entities/duplicates?minScore=0.5
+ * Returns clusters ranked by their strongest pair, each with the signals behind it.
+ */
+export const GET = withDMAuth(async (request, { campaignId }) => {
+  const { searchParams } = new URL(request.url)
+  const minScore = Number(searchParams.get('minScore') ?? DEFAULT_DUPLICATE_MIN_SCORE)
+
+  if (!Number.isFinite(minScore) || minScore <= 0 || minScore > 1) {
+    return NextResponse.json({ error: 'minScore must be between 0 and 1' }, { status: 400 })
+  }
+
+  try {
+    const clusters = await findDuplicateClusters(campaignId, { minScore })
+    return NextResponse.json({ clusters })
+  } catch (error) {
+    console.error('[Duplicates] Error scanning for duplicates:', error)
+    return NextResponse.json(
+      { error: 'Failed to scan for duplicates' },
+      { status: 500 }
+    )
+  }
+})
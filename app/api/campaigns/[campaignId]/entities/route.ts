@@ -3,6 +3,9 @@ import { db, entities } from '@/lib/db'
 import { eq, and, desc } from 'drizzle-orm'
 import { syncEntityEmbeddings } from '@/lib/ai/entity-embeddings'
 import { withCampaignAuth } from '@/lib/api/auth'
+import { getVisibleContent } from '@/lib/secret-blocks'
+import { canonicalizeName } from '@/lib/canonical-names'
+import { sanitizeProperties, parsePropertyFilters, matchesPropertyFilters } from '@/lib/entity-properties'
 
 type Params = { campaignId: string }
 
@@ -12,6 +15,7 @@ type Params = { campaignId: string }
  * Query params:
  *   - type: Filter by entity type
  *   - search: Search by name
+ *   - prop.<key>: Filter by property value, e.g. prop.status=dead (empty: has the property)
  *   - limit: Max results (default 100, max 500)
  *   - offset: Skip N results for pagination
  */
@@ -19,6 +23,7 @@ export const GET = withCampaignAuth<Params>(async (request, { access, campaignId
   const { searchParams } = new URL(request.url)
   const type = searchParams.get('type')
   const search = searchParams.get('search')
+  const propertyFilters = parsePropertyFilters(searchParams)
   const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500)
   const offset = parseInt(searchParams.get('offset') || '0')
 
@@ -49,12 +54,17 @@ export const GET = withCampaignAuth<Params>(async (request, { access, campaignId
     )
   }
 
+  // Filter by properties if specified
+  if (Object.keys(propertyFilters).length > 0) {
+    result = result.filter((e) => matchesPropertyFilters(e.properties, propertyFilters))
+  }
+
   // Apply pagination
   const totalCount = result.length
   const paginatedResult = result.slice(offset, offset + limit)
 
   return NextResponse.json({
-    entities: paginatedResult,
+    entities: paginatedResult.map((e) => ({ ...e, content: getVisibleContent(e.content || '', access.isDM) })),
     isDM: access.isDM,
     pagination: {
       total: totalCount,
@@ -71,7 +81,7 @@ export const GET = withCampaignAuth<Params>(async (request, { access, campaignId
  */
 export const POST = withCampaignAuth<Params>(async (request, { campaignId }) => {
   const body = await request.json()
-  const { name, entityType, content, aliases, tags, isDmOnly, playerId } = body
+  const { name, entityType, content, aliases, tags, properties, isDmOnly, playerId } = body
 
   if (!name) {
     return NextResponse.json({ error: 'Name is required' }, { status: 400 })
@@ -82,10 +92,7 @@ export const POST = withCampaignAuth<Params>(async (request, { campaignId }) =>
   }
 
   // Generate canonical name
-  const canonicalName = name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-|-$/g, '')
+  const canonicalName = canonicalizeName(name)
 
   // Check for duplicate
   const existing = await db.query.entities.findFirst({
@@ -112,6 +119,7 @@ export const POST = withCampaignAuth<Params>(async (request, { campaignId }) =>
       content: content || '',
       aliases: aliases || [],
       tags: tags || [],
+      properties: sanitizeProperties(properties),
       isDmOnly: isDmOnly || false,
       playerId: entityType === 'player_character' ? playerId || null : null,
     })
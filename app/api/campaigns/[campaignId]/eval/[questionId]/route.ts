@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server'
+import { withDMAuth } from '@/lib/api/auth'
+import { db, retrievalEvalQuestions } from '@/lib/db'
+import { eq, and } from 'drizzle-orm'
+import { resolveEntityNames } from '@/lib/ai/retrieval-eval'
+import { ensureRetrievalEvalTable } from '@/lib/db/migrations'
+
+type Params = { campaignId: string; questionId: string }
+
+/**
+ * Update a golden question (DM only)
+ * PUT /api/campaigns/{campaignId}/eval/{questionId}
+ * Body: { question?: string, expectedEntities?: string[] } - entity names or aliases
+ */
+export const PUT = withDMAuth<Params>(async (request, { campaignId }, params) => {
+  const body = await request.json()
+  const updates: { question?: string; expectedEntityIds?: string[]; updatedAt: Date } = { updatedAt: new Date() }
+
+  if (body.question !== undefined) {
+    const question = typeof body.question === 'string' ? body.question.trim() : ''
+    if (!question) {
+      return NextResponse.json({ error: 'Question is required' }, { status: 400 })
+    }
+    updates.question = question
+  }
+
+  if (body.expectedEntities !== undefined) {
+    const { ids, unknown } = await resolveEntityNames(campaignId, Array.isArray(body.expectedEntities) ? body.expectedEntities : [])
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Unknown entities: ${unknown.join(', ')}` }, { status: 400 })
+    }
+    if (ids.length === 0) {
+      return NextResponse.json({ error: 'At least one expected entity is required' }, { status: 400 })
+    }
+    updates.expectedEntityIds = ids
+  }
+
+  await ensureRetrievalEvalTable()
+
+  const [updated] = await db
+    .update(retrievalEvalQuestions)
+    .set(updates)
+    .where(and(eq(retrievalEvalQuestions.id, params.questionId), eq(retrievalEvalQuestions.campaignId, campaignId)))
+    .returning()
+
+  if (!updated) {
+    return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ question: updated })
+})
+
+/**
+ * Delete a golden question (DM only)
+ * DELETE /api/campaigns/{campaignId}/eval/{questionId}
+ */
+export const DELETE = withDMAuth<Params>(async (request, { campaignId }, params) => {
+  await ensureRetrievalEvalTable()
+
+  const [deleted] = await db
+    .delete(retrievalEvalQuestions)
+    .where(and(eq(retrievalEvalQuestions.id, params.questionId), eq(retrievalEvalQuestions.campaignId, campaignId)))
+    .returning({ id: retrievalEvalQuestions.id })
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+})
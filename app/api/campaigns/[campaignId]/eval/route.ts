@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { withDMAuth } from '@/lib/api/auth'
+import { db, retrievalEvalQuestions } from '@/lib/db'
+import { listEvalQuestions, resolveEntityNames } from '@/lib/ai/retrieval-eval'
+import { ensureRetrievalEvalTable } from '@/lib/db/migrations'
+
+/**
+ * List the campaign's golden retrieval questions (DM only)
+ * GET /api/campaigns/{campaignId}/eval
+ */
+export const GET = withDMAuth(async (request, { campaignId }) => {
+  try {
+    const questions = await listEvalQuestions(campaignId)
+    return NextResponse.json({ questions })
+  } catch (error) {
+    console.error('[RetrievalEval] List error:', error)
+    return NextResponse.json({ error: 'Failed to load evaluation questions' }, { status: 500 })
+  }
+})
+
+/**
+ * Add a golden question with the entities search should retrieve for it (DM only)
+ * POST /api/campaigns/{campaignId}/eval
+ * Body: { question: string, expectedEntities: string[] } - entity names or aliases
+ */
+export const POST = withDMAuth(async (request, { user, campaignId }) => {
+  const body = await request.json()
+  const question = typeof body.question === 'string' ? body.question.trim() : ''
+  const names: string[] = Array.isArray(body.expectedEntities) ? body.expectedEntities : []
+
+  if (!question) {
+    return NextResponse.json({ error: 'Question is required' }, { status: 400 })
+  }
+
+  const { ids, unknown } = await resolveEntityNames(campaignId, names)
+  if (unknown.length > 0) {
+    return NextResponse.json({ error: `Unknown entities: ${unknown.join(', ')}` }, { status: 400 })
+  }
+  if (ids.length === 0) {
+    return NextResponse.json({ error: 'At least one expected entity is required' }, { status: 400 })
+  }
+
+  try {
+    await ensureRetrievalEvalTable()
+
+    const [created] = await db
+      .insert(retrievalEvalQuestions)
+      .values({
+        campaignId,
+        question,
+        expectedEntityIds: ids,
+        createdBy: user.id,
+      })
+      .returning()
+
+    return NextResponse.json({ question: created }, { status: 201 })
+  } catch (error) {
+    console.error('[RetrievalEval] Create error:', error)
+    return NextResponse.json({ error: 'Failed to save evaluation question' }, { status: 500 })
+  }
+})
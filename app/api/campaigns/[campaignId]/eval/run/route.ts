@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { withDMAuth } from '@/lib/api/auth'
+import { runRetrievalEval, EvalConfig } from '@/lib/ai/retrieval-eval'
+
+/**
+ * Run the golden questions through search and report recall@k, MRR and misses (DM only)
+ * POST /api/campaigns/{campaignId}/eval/run
+ * Body: { configs?: EvalConfig[] } - search settings to compare; defaults to the current settings
+ */
+export const POST = withDMAuth(async (request, { user, access }) => {
+  const body = await request.json().catch(() => ({}))
+  const configs: EvalConfig[] | undefined = Array.isArray(body.configs) && body.configs.length > 0
+    ? body.configs.map((config: EvalConfig, i: number) => ({ ...config, label: config.label || `config ${i + 1}` }))
+    : undefined
+
+  try {
+    const report = await runRetrievalEval(access.campaign, configs, user.id)
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('[RetrievalEval] Run error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run evaluation' },
+      { status: 500 }
+    )
+  }
+})
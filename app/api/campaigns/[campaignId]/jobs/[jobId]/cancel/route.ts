@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { withCampaignAuth } from '@/lib/api/auth'
+import { getJob, cancelJob, appendJobEvent, canAccessJob, toJobSummary } from '@/lib/jobs/queue'
+
+/**
+ * Cancel a queued or running job; a running one stops at its next heartbeat
+ * POST /api/campaigns/{campaignId}/jobs/{jobId}/cancel
+ */
+export const POST = withCampaignAuth<{ campaignId: string; jobId: string }>(
+  async (request, { user, access, campaignId }, params) => {
+    try {
+      const job = await getJob(campaignId, params.jobId)
+      if (!job || !canAccessJob(job, user.id, access.isDM)) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+      }
+
+      const cancelled = await cancelJob(job.id)
+      if (!cancelled) {
+        return NextResponse.json({ error: `Job is already ${job.status}` }, { status: 409 })
+      }
+
+      await appendJobEvent(job.id, 'progress', { message: `Cancelled by ${user.name || user.email || 'a member'}` })
+      return NextResponse.json({ job: toJobSummary(cancelled) })
+    } catch (error) {
+      console.error('[Jobs] Cancel error:', error)
+      return NextResponse.json({ error: 'Failed to cancel job' }, { status: 500 })
+    }
+  }
+)
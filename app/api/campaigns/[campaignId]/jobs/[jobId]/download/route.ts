@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { withCampaignAuth } from '@/lib/api/auth'
+import { getJob, getJobArtifact, canAccessJob } from '@/lib/jobs/queue'
+
+// Quoted ASCII name for old clients, the exact name as RFC 5987 filename*.
+// Quotes, backslashes and control characters (CR/LF) never reach the header.
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  const encoded = encodeURIComponent(filename)
+    .replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`
+}
+
+/**
+ * Download the file a finished export job produced
+ * GET /api/campaigns/{campaignId}/jobs/{jobId}/download
+ */
+export const GET = withCampaignAuth<{ campaignId: string; jobId: string }>(
+  async (request, { user, access, campaignId }, params) => {
+    try {
+      const job = await getJob(campaignId, params.jobId)
+      if (!job || !canAccessJob(job, user.id, access.isDM)) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+      }
+
+      const artifact = job.status === 'completed' ? await getJobArtifact(job.id) : null
+      if (!artifact) {
+        return NextResponse.json({ error: 'This job has no file to download' }, { status: 404 })
+      }
+
+      const body = artifact.encoding === 'base64'
+        ? new Uint8Array(Buffer.from(artifact.content, 'base64'))
+        : artifact.content
+
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': artifact.contentType,
+          'Content-Disposition': contentDisposition(artifact.filename),
+        },
+      })
+    } catch (error) {
+      console.error('[Jobs] Download error:', error)
+      return NextResponse.json({ error: 'Failed to download export' }, { status: 500 })
+    }
+  }
+)
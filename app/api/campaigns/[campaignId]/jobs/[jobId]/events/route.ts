@@ -0,0 +1,41 @@
+import { getSession } from '@/lib/auth'
+import { checkCampaignAccess, isAccessError } from '@/lib/api/access'
+import { getJob, canAccessJob } from '@/lib/jobs/queue'
+import { subscribeToJob } from '@/lib/jobs/subscribe'
+
+/**
+ * Follow a job's progress as Server-Sent Events, replaying what it reported so far
+ * Used to reattach to an extraction after the page was closed.
+ * GET /api/campaigns/{campaignId}/jobs/{jobId}/events
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { campaignId: string; jobId: string } }
+) {
+  const session = await getSession()
+
+  if (!session?.user?.id) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+
+  const access = await checkCampaignAccess(params.campaignId, session.user.id)
+  if (isAccessError(access)) {
+    return new Response(JSON.stringify({ error: access.error }), {
+      status: access.status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+
+  const job = await getJob(params.campaignId, params.jobId)
+  if (!job || !canAccessJob(job, session.user.id, access.isDM)) {
+    return new Response(JSON.stringify({ error: 'Job not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+
+  return subscribeToJob(params.campaignId, job.id, '[Job-Events]')
+}
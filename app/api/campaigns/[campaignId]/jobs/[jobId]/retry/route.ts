@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { withCampaignAuth } from '@/lib/api/auth'
+import { getJob, retryJob, canAccessJob, toJobSummary } from '@/lib/jobs/queue'
+import { runJob } from '@/lib/jobs/runner'
+import { checkUsageBudget } from '@/lib/ai/usage'
+
+/**
+ * Run a failed or cancelled job again, from its last checkpoint
+ * POST /api/campaigns/{campaignId}/jobs/{jobId}/retry
+ */
+export const POST = withCampaignAuth<{ campaignId: string; jobId: string }>(
+  async (request, { user, access, campaignId }, params) => {
+    try {
+      const job = await getJob(campaignId, params.jobId)
+      if (!job || !canAccessJob(job, user.id, access.isDM)) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+      }
+
+      // Everything but exports calls models again
+      if (job.type !== 'export') {
+        const budget = await checkUsageBudget(campaignId, access.campaign.settings)
+        if (budget.exceeded) {
+          return NextResponse.json({ error: budget.message }, { status: 402 })
+        }
+      }
+
+      const queued = await retryJob(job.id)
+      if (!queued) {
+        return NextResponse.json({ error: `A ${job.status} job cannot be retried` }, { status: 409 })
+      }
+
+      void runJob(queued.id)
+      return NextResponse.json({ job: toJobSummary(queued) }, { status: 202 })
+    } catch (error) {
+      console.error('[Jobs] Retry error:', error)
+      return NextResponse.json({ error: 'Failed to retry job' }, { status: 500 })
+    }
+  }
+)
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { withCampaignAuth } from '@/lib/api/auth'
+import { getJob, getJobLog, canAccessJob, toJobSummary } from '@/lib/jobs/queue'
+
+/**
+ * A job with its log
+ * GET /api/campaigns/{campaignId}/jobs/{jobId}
+ */
+export const GET = withCampaignAuth<{ campaignId: string; jobId: string }>(
+  async (request, { user, access, campaignId }, params) => {
+    try {
+      const job = await getJob(campaignId, params.jobId)
+      if (!job || !canAccessJob(job, user.id, access.isDM)) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({ job: toJobSummary(job), log: await getJobLog(job.id) })
+    } catch (error) {
+      console.error('[Jobs] Get error:', error)
+      return NextResponse.json({ error: 'Failed to load job' }, { status: 500 })
+    }
+  }
+)
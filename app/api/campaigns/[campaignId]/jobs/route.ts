@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { withCampaignAuth } from '@/lib/api/auth'
+import { listJobs, toJobSummary } from '@/lib/jobs/queue'
+import { resumeStaleJobs } from '@/lib/jobs/runner'
+
+/**
+ * Recent background jobs: extractions, reindexing and exports
+ * DMs see every job of the campaign, players only their own.
+ * Jobs whose runner died are resumed from their checkpoint.
+ * GET /api/campaigns/{campaignId}/jobs
+ */
+export const GET = withCampaignAuth(async (request, { user, access, campaignId }) => {
+  try {
+    await resumeStaleJobs(campaignId)
+
+    const jobs = await listJobs(campaignId, access.isDM ? undefined : user.id)
+    return NextResponse.json({ jobs: jobs.map(toJobSummary) })
+  } catch (error) {
+    console.error('[Jobs] List error:', error)
+    return NextResponse.json({ error: 'Failed to load jobs' }, { status: 500 })
+  }
+})
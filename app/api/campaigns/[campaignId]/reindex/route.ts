@@ -1,95 +1,53 @@
 import { NextResponse } from 'next/server'
-import { getSession } from '@/lib/auth'
-import { db, campaigns, campaignMembers, entities } from '@/lib/db'
-import { eq, and } from 'drizzle-orm'
-import { syncEntityEmbeddings } from '@/lib/ai/entity-embeddings'
-
-// Regenerate embeddings for all entities in a campaign
-export async function POST(
-  request: Request,
-  { params }: { params: { campaignId: string } }
-) {
-  const session = await getSession()
-
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+import { withDMAuth } from '@/lib/api/auth'
+import { getCampaignSettings } from '@/lib/campaign-settings'
+import { isEmbeddingConfigured } from '@/lib/ai/embeddings'
+import { getEmbeddingIndexStatus } from '@/lib/ai/embedding-builds'
+import { startReindexJob, adoptStalledBuild } from '@/lib/jobs/reindex'
+import { resumeStaleJobs } from '@/lib/jobs/runner'
+
+/**
+ * Embedding index status: active version, build progress, last failure (DM only)
+ * A build whose job stopped is resumed from its cursor.
+ * GET /api/campaigns/{campaignId}/reindex
+ */
+export const GET = withDMAuth(async (request, { campaignId }) => {
+  try {
+    await resumeStaleJobs(campaignId)
+    const status = await getEmbeddingIndexStatus(campaignId)
+    await adoptStalledBuild(campaignId, status.building)
+    return NextResponse.json(status)
+  } catch (error) {
+    console.error('[Reindex] Status error:', error)
+    return NextResponse.json({ error: 'Failed to load embedding status' }, { status: 500 })
   }
-
-  // Check if JINA_API_KEY is configured
-  if (!process.env.JINA_API_KEY) {
+})
+
+/**
+ * Rebuild embeddings for all entities and document passages with the configured backend (DM only)
+ * The rebuild runs as a background job building a new version; poll GET or the jobs panel for progress.
+ * POST /api/campaigns/{campaignId}/reindex
+ */
+export const POST = withDMAuth(async (request, { user, access, campaignId }) => {
+  const embeddingConfig = getCampaignSettings(access.campaign.settings).embedding
+  if (!isEmbeddingConfigured(embeddingConfig)) {
     return NextResponse.json({
-      error: 'JINA_API_KEY is not configured. Embeddings cannot be generated.',
+      error: `Embedding provider "${embeddingConfig.provider}" is not configured. Embeddings cannot be generated.`,
     }, { status: 400 })
   }
 
-  // Check ownership/membership
-  const campaign = await db.query.campaigns.findFirst({
-    where: eq(campaigns.id, params.campaignId),
-  })
-
-  if (!campaign) {
-    return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
-  }
-
-  const membership = await db.query.campaignMembers.findFirst({
-    where: and(
-      eq(campaignMembers.campaignId, params.campaignId),
-      eq(campaignMembers.userId, session.user.id)
-    ),
-  })
-
-  const isDM = membership?.role === 'dm' || campaign.ownerId === session.user.id
-  if (!isDM) {
-    return NextResponse.json({ error: 'Only DMs can regenerate embeddings' }, { status: 403 })
-  }
-
-  const results: Array<{
-    id: string
-    name: string
-    success: boolean
-    error?: string
-  }> = []
-
-  // Reindex all entities
-  const allEntities = await db
-    .select()
-    .from(entities)
-    .where(eq(entities.campaignId, params.campaignId))
-
-  console.log(`[Reindex] Found ${allEntities.length} entities to process`)
-
-  for (const entity of allEntities) {
-    try {
-      console.log(`[Reindex] Processing entity: ${entity.name}`)
-
-      await syncEntityEmbeddings(
-        entity.id,
-        params.campaignId,
-        entity.name,
-        entity.content || ''
-      )
-
-      results.push({ id: entity.id, name: entity.name, success: true })
-    } catch (error) {
-      console.error(`[Reindex] Failed to process entity ${entity.id}:`, error)
-      results.push({
-        id: entity.id,
-        name: entity.name,
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      })
-    }
+  try {
+    const build = await startReindexJob(campaignId, embeddingConfig, user.id)
+    return NextResponse.json({
+      success: true,
+      message: `Rebuilding ${build.totalItems} entities and documents as version ${build.version}`,
+      build,
+    }, { status: 202 })
+  } catch (error) {
+    console.error('[Reindex] Failed to start rebuild:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start reindex' },
+      { status: 500 }
+    )
   }
-
-  const successCount = results.filter((r) => r.success).length
-
-  return NextResponse.json({
-    success: true,
-    message: `Processed ${successCount} of ${allEntities.length} entities`,
-    entities: {
-      total: allEntities.length,
-      success: successCount,
-    },
-    results,
-  })
-}
+})
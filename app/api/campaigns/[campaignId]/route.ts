@@ -2,6 +2,9 @@ import { NextResponse } from 'next/server'
 import { getSession } from '@/lib/auth'
 import { db, campaigns, campaignMembers, users } from '@/lib/db'
 import { eq, and } from 'drizzle-orm'
+import { getCampaignSettings } from '@/lib/campaign-settings'
+import { getEmbeddingIndexStatus } from '@/lib/ai/embedding-builds'
+import { startReindexJob } from '@/lib/jobs/reindex'
 
 export async function GET(
   request: Request,
@@ -93,6 +96,18 @@ export async function PUT(
     .where(eq(campaigns.id, params.campaignId))
     .returning()
 
+  // A new embedding model or dimension needs every vector rebuilt; search keeps the old ones until then
+  if (settings !== undefined) {
+    try {
+      const status = await getEmbeddingIndexStatus(params.campaignId)
+      if (status.settingsPending) {
+        await startReindexJob(params.campaignId, getCampaignSettings(updated.settings).embedding, session.user.id)
+      }
+    } catch (error) {
+      console.error('[Campaign] Failed to start embedding rebuild:', error)
+    }
+  }
+
   return NextResponse.json(updated)
 }
 
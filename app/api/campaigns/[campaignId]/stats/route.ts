@@ -3,6 +3,7 @@ import { getSession } from '@/lib/auth'
 import { db, campaigns, campaignMembers, entities, relationships, documents } from '@/lib/db'
 import { eq, and, desc, sql } from 'drizzle-orm'
 import { ensureKnowledgeGraphTables } from '@/lib/db/migrations'
+import { getUsageSummary } from '@/lib/ai/usage'
 
 export async function GET(
   request: Request,
@@ -26,8 +27,10 @@ export async function GET(
   }
 
   // Check if user has access
-  const isMember = campaign.members.some((m) => m.userId === session.user!.id)
+  const membership = campaign.members.find((m) => m.userId === session.user!.id)
+  const isMember = !!membership
   const isOwner = campaign.ownerId === session.user.id
+  const isDM = isOwner || membership?.role === 'dm'
 
   if (!isMember && !isOwner) {
     return NextResponse.json({ error: 'Access denied' }, { status: 403 })
@@ -44,6 +47,7 @@ export async function GET(
     entityTypeCounts,
     recentEntitiesResult,
     recentDocumentsResult,
+    usage,
   ] = await Promise.all([
     // Total entity count
     db
@@ -96,6 +100,9 @@ export async function GET(
         uploader: true,
       },
     }),
+
+    // AI usage this month (DM only)
+    isDM ? getUsageSummary(params.campaignId) : Promise.resolve(null),
   ])
 
   return NextResponse.json({
@@ -114,5 +121,6 @@ export async function GET(
         name: doc.uploader?.name,
       },
     })),
+    ...(usage ? { usage } : {}),
   })
 }
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { getSession } from '@/lib/auth'
 import { db, entities, entityComments, campaignMembers, campaigns, users } from '@/lib/db'
 import { eq, and, desc } from 'drizzle-orm'
+import { getVisibleContent } from '@/lib/secret-blocks'
 
 // GET comments for an entity
 export async function GET(
@@ -63,8 +64,13 @@ export async function GET(
       orderBy: [desc(entityComments.createdAt)],
     })
 
+    // Secret blocks are for the DM; a comment that was nothing but secrets is left out
+    const visibleComments = comments
+      .map((c) => ({ ...c, content: getVisibleContent(c.content, isDM) }))
+      .filter((c) => c.content.trim())
+
     return NextResponse.json({
-      comments: comments.map((c) => ({
+      comments: visibleComments.map((c) => ({
         id: c.id,
         content: c.content,
         createdAt: c.createdAt.toISOString(),
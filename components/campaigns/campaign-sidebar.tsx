@@ -4,6 +4,7 @@ import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
+import { JobsPanel } from './jobs-panel'
 import {
   Home,
   MessageSquare,
@@ -95,6 +96,8 @@ export function CampaignSidebar({ campaignId, isDM }: CampaignSidebarProps) {
             )
           })}
         </nav>
+
+        <JobsPanel campaignId={campaignId} />
       </div>
     </aside>
   )
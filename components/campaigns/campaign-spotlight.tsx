@@ -5,9 +5,10 @@ import Link from 'next/link'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Sparkles, RefreshCw, Loader2, AlertTriangle, Swords, Flame } from 'lucide-react'
+import { Sparkles, RefreshCw, Loader2, AlertTriangle, Swords, Flame, History } from 'lucide-react'
 
 interface SpotlightData {
+  id: string | null
   summary: string
   keyTension: string
   atStake: string
@@ -16,18 +17,23 @@ interface SpotlightData {
     name: string
     entityType: string
   }>
+  model: string | null
   lastUpdated: string
 }
 
 interface CampaignSpotlightProps {
   campaignId: string
+  isDM?: boolean
 }
 
-export function CampaignSpotlight({ campaignId }: CampaignSpotlightProps) {
+export function CampaignSpotlight({ campaignId, isDM = false }: CampaignSpotlightProps) {
   const [spotlight, setSpotlight] = useState<SpotlightData | null>(null)
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
+  const [refreshError, setRefreshError] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [history, setHistory] = useState<SpotlightData[] | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
 
   useEffect(() => {
     fetchSpotlight()
@@ -52,22 +58,48 @@ export function CampaignSpotlight({ campaignId }: CampaignSpotlightProps) {
 
   const handleRefresh = async () => {
     setRefreshing(true)
+    setRefreshError(null)
     try {
       const res = await fetch(`/api/campaigns/${campaignId}/spotlight`, {
         method: 'POST',
       })
+      const data = await res.json()
       if (res.ok) {
-        const data = await res.json()
         setSpotlight(data)
         setError(null)
+        // Refetch history next time it is opened
+        setHistory(null)
+        setShowHistory(false)
+      } else {
+        setRefreshError(data.error || 'Failed to refresh spotlight')
       }
     } catch (err) {
       console.error('Failed to refresh spotlight:', err)
+      setRefreshError('Failed to refresh spotlight')
     } finally {
       setRefreshing(false)
     }
   }
 
+  const toggleHistory = async () => {
+    if (showHistory) {
+      setShowHistory(false)
+      return
+    }
+    setShowHistory(true)
+    if (history) return
+
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/spotlight?history=true`)
+      if (res.ok) {
+        const data = await res.json()
+        setHistory(data.history)
+      }
+    } catch (err) {
+      console.error('Failed to load spotlight history:', err)
+    }
+  }
+
   if (loading) {
     return (
       <Card className="relative overflow-hidden">
@@ -107,17 +139,37 @@ export function CampaignSpotlight({ campaignId }: CampaignSpotlightProps) {
                 Summary
               </h2>
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={handleRefresh}
-              disabled={refreshing}
-              className="text-muted-foreground hover:text-foreground"
-            >
-              <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
-            </Button>
+            <div className="flex items-center gap-1">
+              {spotlight.id && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={toggleHistory}
+                  title="Past summaries"
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+              )}
+              {isDM && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleRefresh}
+                  disabled={refreshing}
+                  title="Regenerate"
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                </Button>
+              )}
+            </div>
           </div>
 
+          {refreshError && (
+            <p className="text-sm text-destructive">{refreshError}</p>
+          )}
+
           {/* Summary */}
           <p className="text-lg leading-relaxed italic text-foreground/90">
             "{spotlight.summary}"
@@ -166,6 +218,32 @@ export function CampaignSpotlight({ campaignId }: CampaignSpotlightProps) {
               ))}
             </div>
           )}
+
+          {/* History */}
+          {showHistory && (
+            <div className="space-y-3 pt-4 border-t">
+              {!history ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Loading...</span>
+                </div>
+              ) : history.filter((past) => past.id !== spotlight.id).length === 0 ? (
+                <p className="text-sm text-muted-foreground">No earlier summaries yet.</p>
+              ) : (
+                history
+                  .filter((past) => past.id !== spotlight.id)
+                  .map((past) => (
+                    <div key={past.id} className="space-y-1">
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(past.lastUpdated).toLocaleDateString()}
+                        {past.model && ` · ${past.model}`}
+                      </p>
+                      <p className="text-sm italic text-foreground/80">"{past.summary}"</p>
+                    </div>
+                  ))
+              )}
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
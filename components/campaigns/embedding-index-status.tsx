@@ -0,0 +1,152 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { useToast } from '@/components/ui/use-toast'
+import { Loader2, RefreshCw } from 'lucide-react'
+
+interface EmbeddingVersion {
+  id: string
+  version: number
+  provider: string
+  model: string
+  dimensions: number | null
+  phase: 'entities' | 'documents'
+  totalItems: number
+  processedItems: number
+  failedItems: number
+  lastError: string | null
+}
+
+interface IndexStatus {
+  active: EmbeddingVersion
+  building: EmbeddingVersion | null
+  lastFailed: EmbeddingVersion | null
+  settingsPending: boolean
+}
+
+interface EmbeddingIndexStatusProps {
+  campaignId: string
+  refreshKey?: number // Bump to reload, e.g. after settings were saved
+}
+
+// How often to check on a build in progress
+const POLL_INTERVAL_MS = 3000
+
+function describeVersion(version: EmbeddingVersion): string {
+  const size = version.dimensions ? `, ${version.dimensions} dimensions` : ''
+  return `version ${version.version} (${version.provider}:${version.model}${size})`
+}
+
+/**
+ * Which embedding version search uses, progress of a rebuild, and the Reindex button
+ */
+export function EmbeddingIndexStatus({ campaignId, refreshKey }: EmbeddingIndexStatusProps) {
+  const [status, setStatus] = useState<IndexStatus | null>(null)
+  const [starting, setStarting] = useState(false)
+  const { toast } = useToast()
+
+  const fetchStatus = async () => {
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/reindex`)
+      if (res.ok) {
+        setStatus(await res.json())
+      }
+    } catch (err) {
+      console.error('Failed to fetch embedding status:', err)
+    }
+  }
+
+  useEffect(() => {
+    fetchStatus()
+  }, [campaignId, refreshKey])
+
+  const isBuilding = !!status?.building
+
+  useEffect(() => {
+    if (!isBuilding) return
+    const interval = setInterval(fetchStatus, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [campaignId, isBuilding])
+
+  const handleReindex = async () => {
+    setStarting(true)
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/reindex`, { method: 'POST' })
+      const data = await res.json()
+
+      if (!res.ok) {
+        toast({
+          title: 'Error',
+          description: data.error || 'Failed to reindex notes',
+          variant: 'destructive',
+        })
+      } else {
+        toast({
+          title: 'Reindex Started',
+          description: data.message,
+        })
+        await fetchStatus()
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to reindex notes',
+        variant: 'destructive',
+      })
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const building = status?.building
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label>Regenerate Embeddings</Label>
+          <p className="text-sm text-muted-foreground">
+            {status
+              ? `Search uses ${describeVersion(status.active)}.`
+              : 'Reindex all entities for AI search. Use if search isn\'t working.'}
+          </p>
+        </div>
+        <Button onClick={handleReindex} disabled={starting} variant="outline" size="sm">
+          {starting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          {building ? 'Restart' : 'Reindex'}
+        </Button>
+      </div>
+
+      {building && (
+        <div className="space-y-1">
+          <Progress value={building.totalItems > 0 ? (building.processedItems / building.totalItems) * 100 : 0} />
+          <p className="text-xs text-muted-foreground">
+            Building {describeVersion(building)}: {building.processedItems} of {building.totalItems} entities and
+            documents{building.failedItems > 0 ? `, ${building.failedItems} failed` : ''}. Search keeps using
+            version {status.active.version} until it finishes.
+          </p>
+        </div>
+      )}
+
+      {!building && status?.lastFailed && (
+        <p className="text-xs text-destructive">
+          Building version {status.lastFailed.version} failed after {status.lastFailed.processedItems} of{' '}
+          {status.lastFailed.totalItems} items: {status.lastFailed.lastError}
+        </p>
+      )}
+
+      {status?.settingsPending && (
+        <p className="text-xs text-muted-foreground">
+          The saved embedding backend differs from the one search uses. Reindex to switch.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -15,6 +15,10 @@ import { Label } from '@/components/ui/label'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Download, FileJson, FileText, FolderArchive, Loader2 } from 'lucide-react'
+import type { JobSummary } from '@/lib/types'
+
+// How often to check on the export job
+const JOB_POLL_INTERVAL_MS = 1500
 
 interface ExportDialogProps {
   campaignId: string
@@ -32,39 +36,40 @@ export function ExportDialog({ campaignId, campaignName }: ExportDialogProps) {
     setLoading(true)
 
     try {
-      const params = new URLSearchParams()
-      params.set('type', exportType)
-
-      if (exportType === 'compiled') {
-        params.set('format', format)
-        params.set('includeDmOnly', String(includeDmOnly))
-      }
-
-      const response = await fetch(
-        `/api/campaigns/${campaignId}/export?${params.toString()}`
-      )
+      const response = await fetch(`/api/campaigns/${campaignId}/export`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          exportType === 'compiled' ? { type: exportType, format, includeDmOnly } : { type: exportType }
+        ),
+      })
 
       if (!response.ok) {
         throw new Error('Export failed')
       }
 
-      // Get filename from Content-Disposition header
-      const contentDisposition = response.headers.get('Content-Disposition')
-      let filename = `${campaignName}-export`
-      if (contentDisposition) {
-        const match = contentDisposition.match(/filename="(.+)"/)
-        if (match) filename = match[1]
+      // The export runs as a job; it also shows in the sidebar's jobs panel if the dialog is closed
+      const { job } = (await response.json()) as { job: JobSummary }
+      let status = job.status
+      while (status === 'queued' || status === 'running') {
+        await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+        const jobResponse = await fetch(`/api/campaigns/${campaignId}/jobs/${job.id}`)
+        if (!jobResponse.ok) {
+          throw new Error('Export failed')
+        }
+        status = ((await jobResponse.json()).job as JobSummary).status
+      }
+
+      if (status !== 'completed') {
+        throw new Error(`Export ${status}`)
       }
 
-      // Download the file
-      const blob = await response.blob()
-      const url = window.URL.createObjectURL(blob)
+      // Download the file; the server names it
       const a = document.createElement('a')
-      a.href = url
-      a.download = filename
+      a.href = `/api/campaigns/${campaignId}/jobs/${job.id}/download`
+      a.download = `${campaignName}-export`
       document.body.appendChild(a)
       a.click()
-      window.URL.revokeObjectURL(url)
       document.body.removeChild(a)
 
       setOpen(false)
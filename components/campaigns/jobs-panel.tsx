@@ -0,0 +1,209 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Loader2, CheckCircle, XCircle, Ban, Clock, RotateCcw, Download, ExternalLink } from 'lucide-react'
+import type { JobSummary, JobLogEntry } from '@/lib/types'
+
+interface JobsPanelProps {
+  campaignId: string
+}
+
+// How often to check on jobs while any is queued or running
+const POLL_INTERVAL_MS = 4000
+
+// Jobs shown in the sidebar
+const MAX_JOBS = 5
+
+const statusIcons = {
+  queued: Clock,
+  running: Loader2,
+  completed: CheckCircle,
+  failed: XCircle,
+  cancelled: Ban,
+}
+
+const statusColors = {
+  queued: 'text-muted-foreground',
+  running: 'text-primary animate-spin',
+  completed: 'text-green-600',
+  failed: 'text-red-600',
+  cancelled: 'text-muted-foreground',
+}
+
+// Where to review an extraction job's results
+function reviewHref(campaignId: string, job: JobSummary): string | null {
+  if (job.type === 'document-extraction') {
+    return `/campaigns/${campaignId}/entities/upload?job=${job.id}`
+  }
+  if (job.type === 'entity-extraction' && job.input.entityId) {
+    return `/campaigns/${campaignId}/entities/${job.input.entityId}/extract?job=${job.id}`
+  }
+  return null
+}
+
+/**
+ * Background jobs of the campaign: extractions, reindexing and exports
+ * Shows progress, the log of the selected job, and cancel, retry and download actions.
+ */
+export function JobsPanel({ campaignId }: JobsPanelProps) {
+  const [jobs, setJobs] = useState<JobSummary[]>([])
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null)
+  const [log, setLog] = useState<JobLogEntry[]>([])
+  const [busyJobId, setBusyJobId] = useState<string | null>(null)
+
+  const fetchJobs = async () => {
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/jobs`)
+      if (res.ok) {
+        const data = await res.json()
+        setJobs(data.jobs || [])
+      }
+    } catch (err) {
+      console.error('Failed to fetch jobs:', err)
+    }
+  }
+
+  const fetchLog = async (jobId: string) => {
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/jobs/${jobId}`)
+      if (res.ok) {
+        const data = await res.json()
+        setLog(data.log || [])
+      }
+    } catch (err) {
+      console.error('Failed to fetch job log:', err)
+    }
+  }
+
+  useEffect(() => {
+    fetchJobs()
+  }, [campaignId])
+
+  const hasActiveJobs = jobs.some((job) => job.status === 'queued' || job.status === 'running')
+
+  useEffect(() => {
+    if (!hasActiveJobs) return
+    const interval = setInterval(() => {
+      fetchJobs()
+      if (expandedJobId) fetchLog(expandedJobId)
+    }, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [campaignId, hasActiveJobs, expandedJobId])
+
+  const handleToggle = (jobId: string) => {
+    if (expandedJobId === jobId) {
+      setExpandedJobId(null)
+      return
+    }
+    setExpandedJobId(jobId)
+    setLog([])
+    fetchLog(jobId)
+  }
+
+  const handleAction = async (jobId: string, action: 'cancel' | 'retry') => {
+    setBusyJobId(jobId)
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/jobs/${jobId}/${action}`, { method: 'POST' })
+      if (!res.ok) {
+        const data = await res.json()
+        console.error(`Failed to ${action} job:`, data.error)
+      }
+      await fetchJobs()
+    } finally {
+      setBusyJobId(null)
+    }
+  }
+
+  if (jobs.length === 0) return null
+
+  return (
+    <div className="space-y-1.5">
+      <div className="h-px w-full bg-gradient-to-r from-transparent via-primary/40 to-transparent" />
+      <p className="px-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">Jobs</p>
+
+      <ul className="space-y-1">
+        {jobs.slice(0, MAX_JOBS).map((job) => {
+          const StatusIcon = statusIcons[job.status]
+          const isActive = job.status === 'queued' || job.status === 'running'
+          const href = reviewHref(campaignId, job)
+          const percent = job.progress && job.progress.total > 0
+            ? Math.round((job.progress.current / job.progress.total) * 100)
+            : null
+
+          return (
+            <li key={job.id} className="rounded-sm border border-border/60 p-1.5 text-xs space-y-1">
+              <button
+                type="button"
+                className="flex w-full items-center gap-1.5 text-left"
+                onClick={() => handleToggle(job.id)}
+                title={job.error || job.progress?.message || job.title}
+              >
+                <StatusIcon className={cn('h-3.5 w-3.5 shrink-0', statusColors[job.status])} />
+                <span className="flex-1 truncate">{job.title}</span>
+              </button>
+
+              {job.status === 'running' && percent !== null && <Progress value={percent} className="h-1" />}
+              {job.status === 'failed' && job.error && (
+                <p className="text-red-600 line-clamp-2">{job.error}</p>
+              )}
+
+              {expandedJobId === job.id && log.length > 0 && (
+                <div className="max-h-32 overflow-y-auto rounded bg-muted/50 p-1 font-mono text-[10px] leading-tight space-y-0.5">
+                  {log.map((entry) => (
+                    <p key={entry.id}>{entry.message}</p>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-1">
+                {href && job.status !== 'failed' && job.status !== 'cancelled' && (
+                  <Link href={href} className="inline-flex items-center gap-1 text-primary hover:underline">
+                    <ExternalLink className="h-3 w-3" />
+                    {job.status === 'completed' ? 'Review' : 'Follow'}
+                  </Link>
+                )}
+                {job.type === 'export' && job.status === 'completed' && (
+                  <a
+                    href={`/api/campaigns/${campaignId}/jobs/${job.id}/download`}
+                    className="inline-flex items-center gap-1 text-primary hover:underline"
+                  >
+                    <Download className="h-3 w-3" />
+                    Download
+                  </a>
+                )}
+                <span className="flex-1" />
+                {isActive && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-1.5 text-xs"
+                    disabled={busyJobId === job.id}
+                    onClick={() => handleAction(job.id, 'cancel')}
+                  >
+                    Cancel
+                  </Button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-1.5 text-xs"
+                    disabled={busyJobId === job.id}
+                    onClick={() => handleAction(job.id, 'retry')}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Retry
+                  </Button>
+                )}
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
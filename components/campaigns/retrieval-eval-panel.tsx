@@ -0,0 +1,222 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/use-toast'
+import { FlaskConical, Loader2, Plus, Play, Trash2 } from 'lucide-react'
+import type { DEFAULT_SETTINGS } from '@/lib/campaign-settings'
+import type { EvalQuestion, EvalReport } from '@/lib/ai/retrieval-eval'
+
+interface RetrievalEvalPanelProps {
+  campaignId: string
+  savedSearch: typeof DEFAULT_SETTINGS.search // Settings stored on the campaign
+  draftSearch: typeof DEFAULT_SETTINGS.search // Settings being edited on the page
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+/**
+ * Golden questions for search and a side-by-side run of saved vs. unsaved search settings
+ */
+export function RetrievalEvalPanel({ campaignId, savedSearch, draftSearch }: RetrievalEvalPanelProps) {
+  const [questions, setQuestions] = useState<EvalQuestion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [question, setQuestion] = useState('')
+  const [expected, setExpected] = useState('')
+  const [adding, setAdding] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [report, setReport] = useState<EvalReport | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchQuestions()
+  }, [campaignId])
+
+  const fetchQuestions = async () => {
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/eval`)
+      if (res.ok) {
+        const data = await res.json()
+        setQuestions(data.questions || [])
+      }
+    } catch (err) {
+      console.error('Failed to fetch eval questions:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const hasUnsavedChanges =
+    savedSearch.similarityThreshold !== draftSearch.similarityThreshold ||
+    savedSearch.resultLimit !== draftSearch.resultLimit
+
+  const handleAdd = async () => {
+    setAdding(true)
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/eval`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          question,
+          expectedEntities: expected.split(',').map((name) => name.trim()).filter(Boolean),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast({ title: 'Error', description: data.error || 'Failed to add question', variant: 'destructive' })
+        return
+      }
+      // The list resolves expected entity names
+      await fetchQuestions()
+      setQuestion('')
+      setExpected('')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const handleDelete = async (questionId: string) => {
+    const res = await fetch(`/api/campaigns/${campaignId}/eval/${questionId}`, { method: 'DELETE' })
+    if (res.ok) {
+      setQuestions((prev) => prev.filter((q) => q.id !== questionId))
+    } else {
+      toast({ title: 'Error', description: 'Failed to delete question', variant: 'destructive' })
+    }
+  }
+
+  const handleRun = async () => {
+    setRunning(true)
+    try {
+      const configs = hasUnsavedChanges
+        ? [
+            { label: 'saved', similarityThreshold: savedSearch.similarityThreshold, resultLimit: savedSearch.resultLimit },
+            { label: 'unsaved changes', similarityThreshold: draftSearch.similarityThreshold, resultLimit: draftSearch.resultLimit },
+          ]
+        : [{ label: 'saved' }]
+
+      const res = await fetch(`/api/campaigns/${campaignId}/eval/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ configs }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast({ title: 'Error', description: data.error || 'Failed to run evaluation', variant: 'destructive' })
+        return
+      }
+      setReport(data)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          Retrieval Evaluation
+        </CardTitle>
+        <CardDescription>
+          Questions with the entities search should find for them. Run them to measure
+          recall and MRR before changing search settings. Chunk size and embedding model
+          changes need a reindex, so compare runs from before and after.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : questions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No questions yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {questions.map((q) => (
+              <li key={q.id} className="flex items-start justify-between gap-2 rounded-md border p-2">
+                <div className="space-y-1">
+                  <p className="text-sm">{q.question}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {q.expected.map((entity) => (
+                      <Badge key={entity.id} variant="secondary">{entity.name}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(q.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="eval-question">Question</Label>
+          <Input
+            id="eval-question"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Who rules the port city?"
+          />
+          <Label htmlFor="eval-expected">Expected entities</Label>
+          <Input
+            id="eval-expected"
+            value={expected}
+            onChange={(e) => setExpected(e.target.value)}
+            placeholder="Comma-separated names, e.g. Lady Veyra, Port Sable"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleAdd}
+            disabled={adding || !question.trim() || !expected.trim()}
+          >
+            {adding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Question
+          </Button>
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {hasUnsavedChanges
+                ? 'Compares the saved search settings with your unsaved changes.'
+                : 'Runs the questions with the saved search settings.'}
+            </p>
+            <Button onClick={handleRun} disabled={running || questions.length === 0} size="sm">
+              {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+              Run Evaluation
+            </Button>
+          </div>
+
+          {report && report.configs.map((config) => (
+            <div key={config.label} className="rounded-md border p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{config.label}</span>
+                <Badge variant="outline">recall@{config.k} {formatPercent(config.recallAtK)}</Badge>
+                <Badge variant="outline">MRR {config.mrr.toFixed(2)}</Badge>
+                <span className="text-muted-foreground">
+                  threshold {config.settings.similarityThreshold}, {config.settings.embeddingModel}
+                </span>
+              </div>
+              {config.questions.filter((q) => q.missed.length > 0).map((q) => (
+                <p key={q.questionId} className="text-xs text-muted-foreground">
+                  {q.question} — missed: {q.missed.map((entity) => entity.name).join(', ')}
+                </p>
+              ))}
+              {config.missedCount === 0 && (
+                <p className="text-xs text-muted-foreground">Every expected entity was found.</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,21 +4,35 @@ import { useMemo } from 'react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import Link from 'next/link'
+import { SearchResult } from '@/lib/types'
+import { linkCitations, getCitationFromHref } from '@/lib/citations'
 
 interface ChatContentProps {
   content: string
   campaignId: string
   className?: string
+  // Sources [n] markers may point at; markers become buttons calling onCite
+  citableSources?: SearchResult[]
+  onCite?: (citation: number) => void
 }
 
 /**
  * Renders chat content with markdown and wikilink support
  * Wikilinks [[Entity Name]] are converted to search links
+ * Citation markers [n] become clickable when a matching source is given
  */
-export function ChatContent({ content, campaignId, className = '' }: ChatContentProps) {
-  // Pre-process content to convert wikilinks to markdown links
+export function ChatContent({ content, campaignId, className = '', citableSources, onCite }: ChatContentProps) {
+  const sourcesByCitation = useMemo(() => {
+    const map = new Map<number, SearchResult>()
+    for (const source of citableSources || []) {
+      if (source.citation_index) map.set(source.citation_index, source)
+    }
+    return map
+  }, [citableSources])
+
+  // Pre-process content to convert wikilinks (and citations) to markdown links
   const processedContent = useMemo(() => {
-    return content.replace(
+    const linked = content.replace(
       /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g,
       (match, target, display) => {
         const displayText = (display || target).trim()
@@ -27,7 +41,10 @@ export function ChatContent({ content, campaignId, className = '' }: ChatContent
         return `[${displayText}](/campaigns/${campaignId}/entities?search=${searchQuery})`
       }
     )
-  }, [content, campaignId])
+    return sourcesByCitation.size > 0
+      ? linkCitations(linked, new Set(sourcesByCitation.keys()))
+      : linked
+  }, [content, campaignId, sourcesByCitation])
 
   return (
     <div className={`prose-chat ${className}`}>
@@ -36,6 +53,20 @@ export function ChatContent({ content, campaignId, className = '' }: ChatContent
         components={{
           // Render links
           a: ({ href, children }) => {
+            const citation = getCitationFromHref(href)
+            if (citation !== null) {
+              const source = sourcesByCitation.get(citation)
+              return (
+                <button
+                  type="button"
+                  onClick={() => onCite?.(citation)}
+                  title={source?.document_name || source?.entity_name}
+                  className="citation-marker align-super text-[0.7em] text-primary hover:underline font-medium px-px"
+                >
+                  [{citation}]
+                </button>
+              )
+            }
             if (href?.startsWith('/campaigns/')) {
               return (
                 <Link
@@ -6,21 +6,21 @@ import { Textarea } from '@/components/ui/textarea'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { ChatMessageComponent } from './chat-message'
 import { ChatMessage } from '@/lib/types'
-import { Send, Trash2, Loader2, Sparkles, BookOpen } from 'lucide-react'
+import { Send, Plus, Loader2, Sparkles, BookOpen } from 'lucide-react'
 
 export type ChatMode = 'rag' | 'direct'
 
 interface ChatInterfaceProps {
   messages: ChatMessage[]
   onSendMessage: (content: string, mode: ChatMode) => Promise<void>
-  onClearHistory: () => void
+  onNewConversation: () => void
   campaignId: string
 }
 
 export function ChatInterface({
   messages,
   onSendMessage,
-  onClearHistory,
+  onNewConversation,
   campaignId,
 }: ChatInterfaceProps) {
   const [input, setInput] = useState('')
@@ -28,6 +28,10 @@ export function ChatInterface({
   const [mode, setMode] = useState<ChatMode>('rag')
   const scrollRef = useRef<HTMLDivElement>(null)
 
+  // Once a streamed answer starts arriving it replaces the thinking indicator
+  const lastMessage = messages[messages.length - 1]
+  const awaitingFirstToken = sending && !(lastMessage?.role === 'assistant' && lastMessage.content)
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight
@@ -133,7 +137,7 @@ export function ChatInterface({
                   campaignId={campaignId}
                 />
               ))}
-              {sending && (
+              {awaitingFirstToken && (
                 <div className="baron-thinking">
                   <div className="thinking-stone">
                     <Loader2 className="w-5 h-5 animate-spin" />
@@ -186,11 +190,11 @@ export function ChatInterface({
           {messages.length > 0 && (
             <button
               type="button"
-              onClick={onClearHistory}
+              onClick={onNewConversation}
               className="clear-history-btn"
             >
-              <Trash2 className="w-3 h-3" />
-              <span>Limpar Conversa</span>
+              <Plus className="w-3 h-3" />
+              <span>Nova Conversa</span>
             </button>
           )}
         </div>
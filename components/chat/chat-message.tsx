@@ -1,6 +1,6 @@
 'use client'
 
-import { memo } from 'react'
+import { memo, useState, useRef, useCallback } from 'react'
 import { ChatMessage } from '@/lib/types'
 import { SourceReferences } from './source-references'
 import { ChatContent } from './chat-content'
@@ -17,6 +17,16 @@ export const ChatMessageComponent = memo(function ChatMessageComponent({
 }: ChatMessageComponentProps) {
   const isAssistant = message.role === 'assistant'
   const isSearchResult = message.content?.startsWith('Found ') || message.content?.startsWith('No matching')
+  const [activeCitation, setActiveCitation] = useState<number | null>(null)
+  const sourcesRef = useRef<HTMLDivElement>(null)
+
+  // Clicking [n] in the answer reveals the cited chunk in the source list
+  const handleCite = useCallback((citation: number) => {
+    setActiveCitation(citation)
+    sourcesRef.current
+      ?.querySelector(`[data-citations~="${citation}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+  }, [])
 
   if (!isAssistant) {
     // User message - styled as adventurer's query
@@ -56,12 +66,24 @@ export const ChatMessageComponent = memo(function ChatMessageComponent({
           content={message.content}
           campaignId={campaignId}
           className="oracle-text"
+          citableSources={message.sources}
+          onCite={handleCite}
         />
         <div className="oracle-quote-mark end">"</div>
       </div>
 
+      {/* Shown when the question was searched differently than typed */}
+      {message.searchQuery?.rewritten && (
+        <div className="oracle-search-query text-xs text-muted-foreground">
+          🔎 Pesquisado como: &ldquo;{message.searchQuery.query}&rdquo;
+          {message.searchQuery.subQueries.length > 0 && (
+            <span> + {message.searchQuery.subQueries.map((subQuery) => `“${subQuery}”`).join(', ')}</span>
+          )}
+        </div>
+      )}
+
       {message.sources && message.sources.length > 0 && (
-        <div className="oracle-sources">
+        <div className="oracle-sources" ref={sourcesRef}>
           <div className="sources-header">
             <span className="sources-icon">📜</span>
             <span>Fontes Consultadas</span>
@@ -70,6 +92,7 @@ export const ChatMessageComponent = memo(function ChatMessageComponent({
             sources={message.sources}
             campaignId={campaignId}
             showContent={isSearchResult}
+            activeCitation={activeCitation}
           />
         </div>
       )}
@@ -1,13 +1,15 @@
 'use client'
 
 import Link from 'next/link'
-import { SearchResult } from '@/lib/types'
+import { SearchResult, ToolCallRecord } from '@/lib/types'
+import { describeRelationshipPath } from '@/lib/utils'
 import { ChatContent } from './chat-content'
 
 interface SourceReferencesProps {
   sources: SearchResult[]
   campaignId: string
   showContent?: boolean
+  activeCitation?: number | null // Cited source to reveal and highlight
 }
 
 // Entity type to icon mapping
@@ -25,49 +27,148 @@ const typeIcons: Record<string, string> = {
   event: '⚡',
   player_character: '🛡',
   freeform: '📝',
+  document: '📄',
 }
 
-export function SourceReferences({ sources, campaignId, showContent = false }: SourceReferencesProps) {
-  // Deduplicate sources by entity_id
+// Passages are cited individually; entities once per entity
+function getSourceKey(source: SearchResult): string | undefined {
+  if (source.source_type === 'document') {
+    return `${source.document_id}:${source.chunk_text.slice(0, 80)}`
+  }
+  return source.entity_id || source.note_id
+}
+
+// e.g. search_entities(type: "npc", tag: "undead")
+function formatToolCall(call: ToolCallRecord): string {
+  const args = Object.entries(call.input)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join(', ')
+  return `${call.name}(${args})`
+}
+
+function CitationBadges({ citations }: { citations: number[] }) {
+  if (citations.length === 0) return null
+  return <span className="source-citations font-mono text-xs text-primary">{citations.map((n) => `[${n}]`).join('')}</span>
+}
+
+export function SourceReferences({ sources, campaignId, showContent = false, activeCitation = null }: SourceReferencesProps) {
+  // Deduplicate sources; tool-only results have nothing to link
   const uniqueSources = sources.reduce((acc, source) => {
-    const id = source.entity_id || source.note_id
-    if (!acc.find((s) => (s.entity_id || s.note_id) === id)) {
+    const key = getSourceKey(source)
+    if (key && !acc.find((s) => getSourceKey(s) === key)) {
       acc.push(source)
     }
     return acc
   }, [] as SearchResult[])
 
-  if (uniqueSources.length === 0) {
+  // Citation numbers per card; a deduplicated source keeps the numbers of its duplicates
+  const citationsByKey = sources.reduce((acc, source) => {
+    const key = getSourceKey(source)
+    if (key && source.citation_index) {
+      acc.set(key, [...(acc.get(key) || []), source.citation_index])
+    }
+    return acc
+  }, new Map<string, number[]>())
+
+  const getCardState = (source: SearchResult) => {
+    const citations = citationsByKey.get(getSourceKey(source) || '') || []
+    const active = activeCitation !== null && citations.includes(activeCitation)
+    return {
+      citations,
+      active,
+      className: `source-card ${active ? 'ring-1 ring-primary' : ''}`,
+      // Every cited chunk of this card, so the one clicked is on screen
+      excerpt: active
+        ? sources.filter((s) => s.citation_index && citations.includes(s.citation_index)).map((s) => s.chunk_text).join('\n\n…\n\n')
+        : source.chunk_text,
+    }
+  }
+
+  // Oracle tool calls made while answering, in call order
+  const toolCalls = sources.reduce((acc, source) => {
+    if (source.tool_call) {
+      const label = formatToolCall(source.tool_call)
+      if (!acc.includes(label)) acc.push(label)
+    }
+    return acc
+  }, [] as string[])
+
+  if (uniqueSources.length === 0 && toolCalls.length === 0) {
     return null
   }
 
   return (
     <div className="source-references">
+      {toolCalls.length > 0 && (
+        <div className="source-tool-calls text-xs text-muted-foreground space-y-0.5">
+          {toolCalls.map((label) => (
+            <div key={label} className="font-mono truncate">🔧 {label}</div>
+          ))}
+        </div>
+      )}
       {uniqueSources.map((source, index) => {
+        const card = getCardState(source)
+
+        if (source.source_type === 'document') {
+          return (
+            <div key={`${source.document_id}-${index}`} className={card.className} data-citations={card.citations.join(' ')}>
+              <div className="source-header">
+                <CitationBadges citations={card.citations} />
+                <span className="source-icon">{typeIcons.document}</span>
+                <span className="source-name">{source.document_name || 'Uploaded document'}</span>
+                <span className="source-type">passage</span>
+                {source.is_dm_only && <span className="source-type">DM only</span>}
+                {source.similarity > 0 && (
+                  <span className="source-similarity">
+                    {Math.round(source.similarity * 100)}% match
+                  </span>
+                )}
+              </div>
+              {(showContent || card.active) && card.excerpt && (
+                <div className="source-excerpt">
+                  <ChatContent
+                    content={card.excerpt}
+                    campaignId={campaignId}
+                  />
+                </div>
+              )}
+            </div>
+          )
+        }
+
         const entityId = source.entity_id || source.note_id
         const entityName = source.entity_name || source.note_title || 'Unknown'
         const entityType = source.entity_type || source.note_type || 'freeform'
         const icon = typeIcons[entityType] || '📝'
 
         return (
-          <div key={`${entityId}-${index}`} className="source-card">
+          <div key={`${entityId}-${index}`} className={card.className} data-citations={card.citations.join(' ')}>
             <Link
               href={`/campaigns/${campaignId}/entities/${entityId}`}
               className="source-header"
             >
+              <CitationBadges citations={card.citations} />
               <span className="source-icon">{icon}</span>
               <span className="source-name">{entityName}</span>
               <span className="source-type">{entityType}</span>
-              {source.similarity && (
+              {source.via_relationship && (
+                <span
+                  className="source-type"
+                  title={describeRelationshipPath(entityName, source.via_relationship)}
+                >
+                  via relationship
+                </span>
+              )}
+              {source.source_type !== 'tool' && source.similarity > 0 && (
                 <span className="source-similarity">
                   {Math.round(source.similarity * 100)}% match
                 </span>
               )}
             </Link>
-            {showContent && source.chunk_text && (
+            {(showContent || card.active) && card.excerpt && (
               <div className="source-excerpt">
                 <ChatContent
-                  content={source.chunk_text}
+                  content={card.excerpt}
                   campaignId={campaignId}
                 />
               </div>
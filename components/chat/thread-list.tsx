@@ -0,0 +1,136 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { MessageSquare, Pencil, Plus, Trash2 } from 'lucide-react'
+import { ChatThread } from '@/lib/types'
+
+interface ThreadListProps {
+  threads: ChatThread[]
+  activeThreadId: string | null
+  onSelect: (threadId: string) => void
+  onNew: () => void
+  onRename: (threadId: string, title: string) => Promise<void>
+  onDelete: (threadId: string) => Promise<void>
+}
+
+/**
+ * The user's saved Oracle conversations
+ */
+export function ThreadList({ threads, activeThreadId, onSelect, onNew, onRename, onDelete }: ThreadListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editTitle, setEditTitle] = useState('')
+  const [deleting, setDeleting] = useState<ChatThread | null>(null)
+
+  const startEditing = (thread: ChatThread) => {
+    setEditingId(thread.id)
+    setEditTitle(thread.title)
+  }
+
+  const finishEditing = async () => {
+    const threadId = editingId
+    setEditingId(null)
+    if (threadId && editTitle.trim()) {
+      await onRename(threadId, editTitle.trim())
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Button onClick={onNew} variant="outline" size="sm" className="w-full justify-start">
+        <Plus className="h-4 w-4 mr-2" />
+        Nova Conversa
+      </Button>
+
+      {threads.length === 0 ? (
+        <p className="text-xs text-muted-foreground px-1">Nenhuma conversa salva.</p>
+      ) : (
+        <ul className="space-y-1">
+          {threads.map((thread) => (
+            <li
+              key={thread.id}
+              className={`group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm ${
+                thread.id === activeThreadId ? 'bg-primary/10' : 'hover:bg-muted'
+              }`}
+            >
+              {editingId === thread.id ? (
+                <Input
+                  autoFocus
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onBlur={finishEditing}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishEditing()
+                    if (e.key === 'Escape') setEditingId(null)
+                  }}
+                  className="h-7 text-sm"
+                />
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(thread.id)}
+                    className="flex flex-1 min-w-0 items-center gap-2 text-left"
+                    title={thread.title}
+                  >
+                    <MessageSquare className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{thread.title}</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => startEditing(thread)}
+                    className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                    aria-label="Renomear conversa"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setDeleting(thread)}
+                    className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                    aria-label="Excluir conversa"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir &ldquo;{deleting?.title}&rdquo;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A conversa e as fontes de cada resposta serão apagadas. Isso não pode ser desfeito.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={async () => {
+                if (deleting) await onDelete(deleting.id)
+                setDeleting(null)
+              }}
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -3,13 +3,16 @@
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import Link from 'next/link'
+import { Lock } from 'lucide-react'
 import { renderWikilinks } from '@/lib/wikilinks/parser'
+import { splitSecretBlocks, stripSecretBlocks } from '@/lib/secret-blocks'
 
 interface MarkdownRendererProps {
   content: string
   campaignId: string
   noteMap: Map<string, string> // title.toLowerCase() -> slug or entityId
   isEntityMode?: boolean // Link to entities instead of notes
+  isDM?: boolean // Show :::secret blocks (highlighted) instead of removing them
 }
 
 export function MarkdownRenderer({
@@ -17,66 +20,97 @@ export function MarkdownRenderer({
   campaignId,
   noteMap,
   isEntityMode = false,
+  isDM = false,
 }: MarkdownRendererProps) {
   // Pre-process content to convert wikilinks to markdown links
-  const processedContent = renderWikilinks(content, noteMap, campaignId, isEntityMode)
+  const renderMarkdown = (text: string) => (
+    <Markdown content={renderWikilinks(text, noteMap, campaignId, isEntityMode)} />
+  )
+
+  if (!isDM) {
+    return <div className="prose-content">{renderMarkdown(stripSecretBlocks(content))}</div>
+  }
 
   return (
     <div className="prose-content">
-      <ReactMarkdown
-        remarkPlugins={[remarkGfm]}
-        components={{
-          a: ({ href, children }) => {
-            if (href?.startsWith('/campaigns/')) {
-              return (
-                <Link href={href} className="wikilink">
-                  {children}
-                </Link>
-              )
-            }
+      {splitSecretBlocks(content).map((segment, i) =>
+        segment.secret ? (
+          <aside
+            key={i}
+            className="my-4 rounded-lg border border-dashed border-amber-500/60 bg-amber-500/5 px-4 py-1"
+          >
+            <div className="flex items-center gap-1.5 pt-2 text-xs font-medium uppercase tracking-wide text-amber-600 dark:text-amber-400">
+              <Lock className="h-3 w-3" />
+              DM secret
+            </div>
+            {renderMarkdown(segment.text)}
+          </aside>
+        ) : (
+          <div key={i}>{renderMarkdown(segment.text)}</div>
+        )
+      )}
+    </div>
+  )
+}
+
+/**
+ * Markdown with wikilinks already turned into links
+ */
+function Markdown({ content }: { content: string }) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      components={{
+        a: ({ href, children }) => {
+          if (href?.startsWith('/campaigns/')) {
             return (
-              <a
-                href={href}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-primary hover:underline"
-              >
+              <Link href={href} className="wikilink">
                 {children}
-              </a>
+              </Link>
             )
-          },
-          // Custom rendering for code blocks
-          code: ({ className, children, ...props }) => {
-            const match = /language-(\w+)/.exec(className || '')
-            return match ? (
-              <pre className="bg-muted p-4 rounded-lg overflow-x-auto">
-                <code className={className} {...props}>
-                  {children}
-                </code>
-              </pre>
-            ) : (
-              <code className="bg-muted px-1.5 py-0.5 rounded text-sm" {...props}>
+          }
+          return (
+            <a
+              href={href}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary hover:underline"
+            >
+              {children}
+            </a>
+          )
+        },
+        // Custom rendering for code blocks
+        code: ({ className, children, ...props }) => {
+          const match = /language-(\w+)/.exec(className || '')
+          return match ? (
+            <pre className="bg-muted p-4 rounded-lg overflow-x-auto">
+              <code className={className} {...props}>
                 {children}
               </code>
+            </pre>
+          ) : (
+            <code className="bg-muted px-1.5 py-0.5 rounded text-sm" {...props}>
+              {children}
+            </code>
+          )
+        },
+        // Render broken wikilinks
+        p: ({ children, ...props }) => {
+          // Check if children contains our broken link marker
+          if (typeof children === 'string' && children.includes('wikilink-broken')) {
+            return (
+              <p
+                {...props}
+                dangerouslySetInnerHTML={{ __html: children }}
+              />
             )
-          },
-          // Render broken wikilinks
-          p: ({ children, ...props }) => {
-            // Check if children contains our broken link marker
-            if (typeof children === 'string' && children.includes('wikilink-broken')) {
-              return (
-                <p
-                  {...props}
-                  dangerouslySetInnerHTML={{ __html: children }}
-                />
-              )
-            }
-            return <p {...props}>{children}</p>
-          },
-        }}
-      >
-        {processedContent}
-      </ReactMarkdown>
-    </div>
+          }
+          return <p {...props}>{children}</p>
+        },
+      }}
+    >
+      {content}
+    </ReactMarkdown>
   )
 }
@@ -9,12 +9,15 @@ import {
   getEntityTypeLabel,
 } from '@/lib/entity-colors'
 import { CheckCircle, Loader2, FileText, Link2, ArrowRight } from 'lucide-react'
-import type { StagedEntity, StagedRelationship } from '@/lib/types'
+import type { StagedEntity, StagedRelationship, StagedUpdate, StagedRetraction } from '@/lib/types'
 import { cn } from '@/lib/utils'
 
 interface CommitPanelProps {
   entities: StagedEntity[]
   relationships: StagedRelationship[]
+  updates?: StagedUpdate[]
+  retractions?: StagedRetraction[]
+  version?: number // Set when committing a new version of an existing document
   fileName: string
   isCommitting: boolean
   onCommit: () => void
@@ -23,6 +26,9 @@ interface CommitPanelProps {
 export function CommitPanel({
   entities,
   relationships,
+  updates = [],
+  retractions = [],
+  version,
   fileName,
   isCommitting,
   onCommit,
@@ -36,8 +42,14 @@ export function CommitPanel({
   const mergedEntities = approvedEntities.filter((e) => e.mergeTargetId)
   const newEntities = approvedEntities.filter((e) => !e.mergeTargetId)
 
+  const approvedUpdates = updates.filter((u) => u.status === 'approved')
+  const approvedRetractions = retractions.filter((r) => r.status === 'approved')
+
   // Count relationships that can be created (both entities must be approved)
-  const approvedTempIds = new Set(approvedEntities.map((e) => e.tempId))
+  const approvedTempIds = new Set([
+    ...approvedEntities.map((e) => e.tempId),
+    ...approvedUpdates.map((u) => u.tempId),
+  ])
   const validRelationships = relationships.filter(
     (r) =>
       approvedTempIds.has(r.sourceEntityTempId) &&
@@ -52,7 +64,8 @@ export function CommitPanel({
 
   const sortedTypes = Object.entries(typeGroups).sort(([, a], [, b]) => b - a)
 
-  const canCommit = approvedEntities.length > 0
+  // A new version is saved even when none of its changes are approved
+  const canCommit = approvedEntities.length > 0 || version !== undefined
 
   return (
     <Card className="sticky top-4">
@@ -67,6 +80,9 @@ export function CommitPanel({
         <div>
           <p className="text-xs text-muted-foreground mb-1">Source Document:</p>
           <p className="text-sm font-medium truncate">{fileName}</p>
+          {version !== undefined && (
+            <p className="text-xs text-muted-foreground">Saved as version {version}</p>
+          )}
         </div>
 
         {/* Entity summary */}
@@ -123,6 +139,18 @@ export function CommitPanel({
           </div>
         )}
 
+        {/* New version summary */}
+        {(approvedUpdates.length > 0 || approvedRetractions.length > 0) && (
+          <div className="space-y-1 text-sm">
+            {approvedUpdates.length > 0 && (
+              <p>{approvedUpdates.length} existing entities updated</p>
+            )}
+            {approvedRetractions.length > 0 && (
+              <p>{approvedRetractions.length} unsupported facts removed</p>
+            )}
+          </div>
+        )}
+
         {/* Total summary */}
         <div className="pt-3 border-t">
           <div className="flex items-center justify-between text-sm font-medium">
@@ -149,7 +177,9 @@ export function CommitPanel({
           ) : (
             <>
               <CheckCircle className="mr-2 h-4 w-4" />
-              Commit {approvedEntities.length} Entities
+              {version !== undefined && approvedEntities.length === 0
+                ? `Save Version ${version}`
+                : `Commit ${approvedEntities.length} Entities`}
             </>
           )}
         </Button>
@@ -15,11 +15,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { Upload, FileText, Loader2, CheckCircle, ArrowLeft, Search, GitMerge } from 'lucide-react'
+import { Upload, FileText, FilePlus2, FileMinus2, Loader2, CheckCircle, ArrowLeft, Search, GitMerge } from 'lucide-react'
 import { EntityReviewCard } from './entity-review-card'
 import { EntityEditModal } from './entity-edit-modal'
 import { ReviewToolbar } from './review-toolbar'
 import { CommitPanel } from './commit-panel'
+import { UpdateReviewCard, RetractionReviewCard } from './version-review'
 import {
   getEntityTypeIcon,
   getEntityTypeColor,
@@ -29,8 +30,10 @@ import {
 import type {
   StagedEntity,
   StagedRelationship,
+  StagedUpdate,
+  StagedRetraction,
   EntityMatch,
-  ExtractPreviewResponse,
+  DocumentVersionDiff,
   BatchCommitRequest,
   BatchCommitResponse,
   ApprovedEntity,
@@ -39,14 +42,18 @@ import type {
 
 interface DocumentUploadWithReviewProps {
   campaignId: string
+  initialJobId?: string // Extraction job to reattach to, e.g. from the jobs panel
 }
 
 type ReviewPhase = 'upload' | 'extracting' | 'review' | 'committing' | 'complete'
 
 interface CommitResult {
   documentId: string
+  version: number
   createdCount: number
   mergedCount: number
+  updatedCount: number
+  retractedCount: number
   relationshipsCount: number
   embeddingsStatus?: {
     total: number
@@ -55,7 +62,7 @@ interface CommitResult {
   }
 }
 
-export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithReviewProps) {
+export function DocumentUploadWithReview({ campaignId, initialJobId }: DocumentUploadWithReviewProps) {
   const router = useRouter()
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -84,6 +91,11 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
   const [existingMatches, setExistingMatches] = useState<EntityMatch[]>([])
   const [selectedType, setSelectedType] = useState<string | null>(null)
 
+  // Re-upload state: how the file compares with the document's previous version
+  const [versionInfo, setVersionInfo] = useState<DocumentVersionDiff | null>(null)
+  const [updates, setUpdates] = useState<StagedUpdate[]>([])
+  const [retractions, setRetractions] = useState<StagedRetraction[]>([])
+
   // Edit modal state
   const [editingEntity, setEditingEntity] = useState<StagedEntity | null>(null)
   const [editModalOpen, setEditModalOpen] = useState(false)
@@ -150,38 +162,22 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
       )
     : existingEntities
 
-  // Handle file upload and extraction with streaming progress
-  const handleFiles = async (files: FileList | null) => {
-    if (!files || files.length === 0) return
-
-    const file = files[0]
-    setFileName(file.name)
-    setPhase('extracting')
-    setProgressSteps([])
+  // Clear what an extraction staged, before a new one or another attempt of the job
+  const resetResults = () => {
     setExtractionProgress(null)
     setDiscoveredEntities([])
     // Reset entities and relationships for batched SSE accumulation
     setEntities([])
     setRelationships([])
     setExistingMatches([])
+    setVersionInfo(null)
+    setUpdates([])
+    setRetractions([])
+  }
 
-    // Read file content for later commit
-    const buffer = await file.arrayBuffer()
-    const content = new TextDecoder().decode(buffer)
-    setFileContent(content)
-
+  // Follow an extraction job's event stream until it completes
+  const readExtractionStream = async (response: Response) => {
     try {
-      setProgressSteps((prev) => [...prev, `Uploading ${file.name}...`])
-
-      // Send to streaming extract endpoint
-      const formData = new FormData()
-      formData.append('file', file)
-
-      const response = await fetch(`/api/campaigns/${campaignId}/documents/extract-stream`, {
-        method: 'POST',
-        body: formData,
-      })
-
       if (!response.ok) {
         const data = await response.json()
         throw new Error(data.error || 'Extraction failed')
@@ -195,82 +191,115 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
         throw new Error('No response stream')
       }
 
-      let buffer2 = ''
+      let buffer = ''
 
       while (true) {
         const { done, value } = await reader.read()
         if (done) break
 
-        buffer2 += decoder.decode(value, { stream: true })
-        const lines = buffer2.split('\n')
-        buffer2 = lines.pop() || ''
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
 
         let currentEvent = ''
         for (const line of lines) {
           if (line.startsWith('event: ')) {
             currentEvent = line.slice(7)
           } else if (line.startsWith('data: ') && currentEvent) {
+            let data: any
             try {
-              const data = JSON.parse(line.slice(6))
-
-              switch (currentEvent) {
-                case 'progress':
-                  setProgressSteps((prev) => [...prev, data.message])
-                  break
-
-                case 'extraction':
-                  setExtractionProgress({
-                    stage: data.stage,
-                    current: data.current,
-                    total: data.total,
-                    message: data.message,
-                  })
-                  break
-
-                case 'entity':
-                  setDiscoveredEntities((prev) => [
-                    ...prev,
-                    { name: data.name, type: data.type },
-                  ])
-                  break
-
-                case 'result_meta':
-                  // Metadata about the extraction - prepare for batched results
-                  setProgressSteps((prev) => [
-                    ...prev,
-                    `Receiving ${data.totalEntities} entities...`,
-                  ])
-                  break
-
-                case 'entities_batch':
-                  // Batched entities - accumulate them
-                  setEntities((prev) => [...prev, ...data.entities])
-                  break
-
-                case 'relationships_batch':
-                  // Batched relationships - accumulate them
-                  setRelationships((prev) => [...prev, ...data.relationships])
-                  break
-
-                case 'matches':
-                  // Existing entity matches
-                  setExistingMatches(data.matches)
-                  break
-
-                case 'error':
-                  throw new Error(data.message)
-
-                case 'complete':
-                  // Final completion signal
-                  setProgressSteps((prev) => [
-                    ...prev,
-                    `Extraction complete: ${data.entityCount} entities, ${data.relationshipCount} relationships`,
-                  ])
-                  setPhase('review')
-                  break
-              }
+              data = JSON.parse(line.slice(6))
             } catch (e) {
               // Skip invalid JSON
+              currentEvent = ''
+              continue
+            }
+
+            switch (currentEvent) {
+              case 'job':
+                // Reloading the page reattaches to the job
+                window.history.replaceState(null, '', `?job=${data.jobId}`)
+                break
+
+              case 'attempt':
+                if (data.attempt > 1) {
+                  resetResults()
+                  setProgressSteps((prev) => [...prev, `Retrying (attempt ${data.attempt} of ${data.maxAttempts})...`])
+                }
+                break
+
+              case 'progress':
+                setProgressSteps((prev) => [...prev, data.message])
+                break
+
+              case 'extraction':
+                setExtractionProgress({
+                  stage: data.stage,
+                  current: data.current,
+                  total: data.total,
+                  message: data.message,
+                })
+                break
+
+              case 'entity':
+                setDiscoveredEntities((prev) => [
+                  ...prev,
+                  { name: data.name, type: data.type },
+                ])
+                break
+
+              case 'document_content':
+                // Commit the text the server parsed (PDFs), so the next version diffs against it
+                setFileContent(data.content)
+                break
+
+              case 'version':
+                setVersionInfo(data)
+                break
+
+              case 'result_meta':
+                // Metadata about the extraction - prepare for batched results
+                setFileName(data.fileName)
+                setProgressSteps((prev) => [
+                  ...prev,
+                  `Receiving ${data.totalEntities} entities...`,
+                ])
+                break
+
+              case 'entities_batch':
+                // Batched entities - accumulate them
+                setEntities((prev) => [...prev, ...data.entities])
+                break
+
+              case 'updates_batch':
+                setUpdates((prev) => [...prev, ...data.updates])
+                break
+
+              case 'retractions':
+                setRetractions(data.retractions)
+                break
+
+              case 'relationships_batch':
+                // Batched relationships - accumulate them
+                setRelationships((prev) => [...prev, ...data.relationships])
+                break
+
+              case 'matches':
+                // Existing entity matches
+                setExistingMatches(data.matches)
+                break
+
+              case 'error':
+                throw new Error(data.message)
+
+              case 'complete':
+                // Final completion signal
+                setProgressSteps((prev) => [
+                  ...prev,
+                  `Extraction complete: ${data.entityCount} entities, ${data.relationshipCount} relationships`,
+                ])
+                setPhase('review')
+                break
             }
             currentEvent = ''
           }
@@ -286,6 +315,58 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
     }
   }
 
+  // Reattach to a running or finished extraction job; its events are replayed from the start
+  useEffect(() => {
+    if (!initialJobId) return
+    setPhase('extracting')
+    setProgressSteps(['Reattaching to extraction job...'])
+    resetResults()
+    fetch(`/api/campaigns/${campaignId}/jobs/${initialJobId}/events`)
+      .then(readExtractionStream)
+      .catch((error) => {
+        console.error('Failed to reattach to job:', error)
+        setProgressSteps((prev) => [...prev, 'Error: Could not reattach to the extraction job'])
+      })
+  }, [campaignId, initialJobId])
+
+  // Handle file upload and extraction with streaming progress
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+
+    const file = files[0]
+    setFileName(file.name)
+    setPhase('extracting')
+    setProgressSteps([])
+    resetResults()
+
+    // Read file content for later commit
+    const buffer = await file.arrayBuffer()
+    const content = new TextDecoder().decode(buffer)
+    setFileContent(content)
+
+    try {
+      setProgressSteps((prev) => [...prev, `Uploading ${file.name}...`])
+
+      // Send to streaming extract endpoint; the extraction runs as a job the stream follows
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch(`/api/campaigns/${campaignId}/documents/extract-stream`, {
+        method: 'POST',
+        body: formData,
+      })
+
+      await readExtractionStream(response)
+    } catch (error) {
+      console.error('Extraction error:', error)
+      setProgressSteps((prev) => [
+        ...prev,
+        `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      ])
+      setExtractionProgress(null)
+    }
+  }
+
   // Entity actions
   const handleApprove = useCallback((tempId: string) => {
     setEntities((prev) =>
@@ -331,6 +412,19 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
     )
   }, [])
 
+  // Re-upload actions
+  const setUpdateStatus = useCallback((tempId: string, status: StagedUpdate['status']) => {
+    setUpdates((prev) => prev.map((u) => (u.tempId === tempId ? { ...u, status } : u)))
+  }, [])
+  const handleApproveUpdate = useCallback((tempId: string) => setUpdateStatus(tempId, 'approved'), [setUpdateStatus])
+  const handleRejectUpdate = useCallback((tempId: string) => setUpdateStatus(tempId, 'rejected'), [setUpdateStatus])
+
+  const setRetractionStatus = useCallback((tempId: string, status: StagedRetraction['status']) => {
+    setRetractions((prev) => prev.map((r) => (r.tempId === tempId ? { ...r, status } : r)))
+  }, [])
+  const handleApproveRetraction = useCallback((tempId: string) => setRetractionStatus(tempId, 'approved'), [setRetractionStatus])
+  const handleRejectRetraction = useCallback((tempId: string) => setRetractionStatus(tempId, 'rejected'), [setRetractionStatus])
+
   // Bulk actions
   const handleApproveAll = useCallback(() => {
     setEntities((prev) =>
@@ -362,11 +456,27 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
       const approvedEntities = entities.filter(
         (e) => e.status === 'approved' || e.status === 'edited'
       )
+      const approvedUpdates = updates.filter((u) => u.status === 'approved')
+      const approvedTempIds = new Set([
+        ...approvedEntities.map((e) => e.tempId),
+        ...approvedUpdates.map((u) => u.tempId),
+      ])
 
       // Build request
       const request: BatchCommitRequest = {
         documentName: fileName,
         documentContent: fileContent,
+        documentId: versionInfo?.documentId ?? undefined,
+        updates: approvedUpdates.map((u) => ({
+          tempId: u.tempId,
+          entityId: u.entityId,
+          addition: u.addition,
+          aliases: u.aliases,
+          properties: u.properties,
+        })),
+        retractions: retractions
+          .filter((r) => r.status === 'approved')
+          .map((r) => ({ kind: r.kind, entityId: r.entityId, relationshipId: r.relationshipId })),
         entities: approvedEntities.map((e): ApprovedEntity => ({
           tempId: e.tempId,
           name: e.name,
@@ -375,17 +485,15 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
           content: e.content,
           aliases: e.aliases,
           tags: e.tags,
+          properties: e.properties,
           isDmOnly: false, // Default for AI extraction
           mergeTargetId: e.mergeTargetId,
         })),
         relationships: relationships
-          .filter((r) => {
-            const approvedTempIds = new Set(approvedEntities.map((e) => e.tempId))
-            return (
-              approvedTempIds.has(r.sourceEntityTempId) &&
-              approvedTempIds.has(r.targetEntityTempId)
-            )
-          })
+          .filter((r) =>
+            approvedTempIds.has(r.sourceEntityTempId) &&
+            approvedTempIds.has(r.targetEntityTempId)
+          )
           .map((r): ApprovedRelationship => ({
             sourceEntityTempId: r.sourceEntityTempId,
             targetEntityTempId: r.targetEntityTempId,
@@ -409,12 +517,17 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
 
       setCommitResult({
         documentId: result.documentId,
+        version: result.version,
         createdCount: result.createdEntities.length,
         mergedCount: result.mergedEntities.length,
+        updatedCount: result.updatedEntities.length,
+        retractedCount: result.retractedFacts,
         relationshipsCount: result.createdRelationships,
         embeddingsStatus: result.embeddingsStatus,
       })
 
+      // The job's results are committed; reloading should not offer them again
+      window.history.replaceState(null, '', window.location.pathname)
       setPhase('complete')
     } catch (error) {
       console.error('Commit error:', error)
@@ -450,6 +563,9 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
     ? entities.filter((e) => e.entityType === selectedType)
     : entities
 
+  // A re-upload of a document the campaign already has
+  const isNewVersion = !!versionInfo?.documentId
+
   // Get existing match for an entity
   const getMatchForEntity = (tempId: string) =>
     existingMatches.find((m) => m.stagedTempId === tempId)
@@ -462,6 +578,9 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
     setEntities([])
     setRelationships([])
     setExistingMatches([])
+    setVersionInfo(null)
+    setUpdates([])
+    setRetractions([])
     setSelectedType(null)
     setCommitResult(null)
     setProgressSteps([])
@@ -628,10 +747,12 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
               <CardHeader className="pb-3">
                 <CardTitle className="flex items-center gap-2">
                   <FileText className="h-5 w-5" />
-                  Review Extracted Entities
+                  {isNewVersion ? 'New Entities' : 'Review Extracted Entities'}
                 </CardTitle>
                 <CardDescription>
-                  Review, edit, or reject entities before adding them to your wiki.
+                  {isNewVersion && versionInfo
+                    ? `Version ${versionInfo.version} of ${fileName}: ${versionInfo.addedParagraphs} new or changed paragraphs, ${versionInfo.removedParagraphs} removed, ${versionInfo.unchangedParagraphs} unchanged. Only the changes were extracted.`
+                    : 'Review, edit, or reject entities before adding them to your wiki.'}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -662,11 +783,73 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
 
                 {filteredEntities.length === 0 && (
                   <div className="text-center py-8 text-muted-foreground">
-                    No entities match the current filter.
+                    {entities.length === 0 ? 'No new entities.' : 'No entities match the current filter.'}
                   </div>
                 )}
               </CardContent>
             </Card>
+
+            {isNewVersion && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center gap-2">
+                    <FilePlus2 className="h-5 w-5" />
+                    Updated Facts
+                  </CardTitle>
+                  <CardDescription>
+                    What the changed paragraphs say about entities already in the wiki. Approved
+                    updates are added to the end of their page.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {updates.length === 0 ? (
+                    <p className="text-center py-4 text-sm text-muted-foreground">No updates to existing entities.</p>
+                  ) : (
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      {updates.map((update) => (
+                        <UpdateReviewCard
+                          key={update.tempId}
+                          update={update}
+                          onApprove={handleApproveUpdate}
+                          onReject={handleRejectUpdate}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {isNewVersion && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center gap-2">
+                    <FileMinus2 className="h-5 w-5" />
+                    No Longer Supported
+                  </CardTitle>
+                  <CardDescription>
+                    Facts recorded from removed paragraphs that the new version no longer mentions.
+                    Unlinking keeps the entity but drops this document as its source.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {retractions.length === 0 ? (
+                    <p className="text-center py-4 text-sm text-muted-foreground">Everything recorded is still supported.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {retractions.map((retraction) => (
+                        <RetractionReviewCard
+                          key={retraction.tempId}
+                          retraction={retraction}
+                          onApprove={handleApproveRetraction}
+                          onReject={handleRejectRetraction}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Commit panel sidebar */}
@@ -674,6 +857,9 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
             <CommitPanel
               entities={entities}
               relationships={relationships}
+              updates={updates}
+              retractions={retractions}
+              version={isNewVersion ? versionInfo?.version : undefined}
               fileName={fileName}
               isCommitting={false}
               onCommit={handleCommit}
@@ -710,10 +896,17 @@ export function DocumentUploadWithReview({ campaignId }: DocumentUploadWithRevie
                 <p className="text-muted-foreground">
                   Created {commitResult.createdCount} new entities
                   {commitResult.mergedCount > 0 && `, merged ${commitResult.mergedCount}`}
+                  {commitResult.updatedCount > 0 && `, updated ${commitResult.updatedCount}`}
                   {commitResult.relationshipsCount > 0 &&
                     `, and ${commitResult.relationshipsCount} relationships`}
                   .
                 </p>
+                {commitResult.version > 1 && (
+                  <p className="text-sm text-muted-foreground">
+                    Saved as version {commitResult.version} of {fileName}
+                    {commitResult.retractedCount > 0 && `; ${commitResult.retractedCount} unsupported facts removed`}.
+                  </p>
+                )}
                 {commitResult.embeddingsStatus && (
                   <p className="text-xs text-muted-foreground mt-1">
                     Search embeddings: {commitResult.embeddingsStatus.succeeded}/{commitResult.embeddingsStatus.total} generated
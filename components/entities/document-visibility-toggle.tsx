@@ -0,0 +1,64 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Eye, EyeOff, Loader2 } from 'lucide-react'
+
+interface DocumentVisibilityToggleProps {
+  campaignId: string
+  documentId: string
+  isDmOnly: boolean
+}
+
+/**
+ * DM switch between sharing a source document's passages with players and keeping them DM-only
+ */
+export function DocumentVisibilityToggle({ campaignId, documentId, isDmOnly }: DocumentVisibilityToggleProps) {
+  const router = useRouter()
+  const [isSaving, setIsSaving] = useState(false)
+
+  async function handleToggle() {
+    setIsSaving(true)
+
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/documents/${documentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isDmOnly: !isDmOnly }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to update document')
+      }
+
+      router.refresh()
+    } catch (error) {
+      console.error('Error updating document visibility:', error)
+      alert(error instanceof Error ? error.message : 'Failed to update document')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 px-2 text-xs"
+      onClick={handleToggle}
+      disabled={isSaving}
+      title={isDmOnly ? 'Players cannot see this document. Click to share it.' : 'Shared with players. Click to make it DM only.'}
+    >
+      {isSaving ? (
+        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+      ) : isDmOnly ? (
+        <EyeOff className="h-3 w-3 mr-1" />
+      ) : (
+        <Eye className="h-3 w-3 mr-1" />
+      )}
+      {isDmOnly ? 'DM only' : 'Shared'}
+    </Button>
+  )
+}
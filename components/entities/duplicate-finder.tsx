@@ -0,0 +1,333 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2, GitMerge, RefreshCw, Crown, EyeOff, CheckCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  getEntityTypeIcon,
+  getEntityTypeBadgeClasses,
+  getEntityTypeLabel,
+} from '@/lib/entity-colors'
+import type { DuplicateCluster, DuplicatePair, DuplicateMergeGroup } from '@/lib/types'
+
+interface DuplicateFinderProps {
+  campaignId: string
+}
+
+// What the DM picked in one cluster
+interface ClusterSelection {
+  selected: boolean // Part of the bulk merge
+  primaryId: string
+  memberIds: string[] // Entities to merge, the primary included
+}
+
+const SENSITIVITY_OPTIONS = [
+  { value: '0.4', label: 'More matches' },
+  { value: '0.5', label: 'Balanced' },
+  { value: '0.7', label: 'Only strong matches' },
+]
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+// Why a pair was flagged, one phrase per signal that fired
+function describePair(pair: DuplicatePair): string {
+  const reasons: string[] = []
+  if (pair.signals.aliases > 0) reasons.push('shared name or alias')
+  if (pair.signals.name > 0 && pair.signals.aliases < 1) reasons.push(`similar names ${percent(pair.signals.name)}`)
+  if (pair.signals.content > 0) reasons.push(`similar pages ${percent(pair.signals.content)}`)
+  if (pair.signals.relationships > 0) reasons.push(`${percent(pair.signals.relationships)} shared relations`)
+  return reasons.join(', ')
+}
+
+/**
+ * Campaign-wide duplicate review
+ * Lists ranked clusters of likely duplicates; the DM picks the entity to keep
+ * and the ones to fold into it, then merges the selected clusters in one go.
+ */
+export function DuplicateFinder({ campaignId }: DuplicateFinderProps) {
+  const router = useRouter()
+  const [minScore, setMinScore] = useState('0.5')
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([])
+  const [selections, setSelections] = useState<Record<string, ClusterSelection>>({})
+  const [isScanning, setIsScanning] = useState(false)
+  const [isMerging, setIsMerging] = useState(false)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [lastResult, setLastResult] = useState<string | null>(null)
+
+  async function scan() {
+    setIsScanning(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/entities/duplicates?minScore=${minScore}`)
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to scan for duplicates')
+      }
+
+      const found: DuplicateCluster[] = data.clusters || []
+      setClusters(found)
+      setSelections(Object.fromEntries(found.map((cluster) => [cluster.suggestedPrimaryId, {
+        selected: false,
+        primaryId: cluster.suggestedPrimaryId,
+        memberIds: cluster.entities.map((entity) => entity.id),
+      }])))
+    } catch (err) {
+      console.error('Error scanning for duplicates:', err)
+      setError(err instanceof Error ? err.message : 'Failed to scan for duplicates')
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  useEffect(() => {
+    scan()
+  }, [campaignId, minScore])
+
+  const updateSelection = (key: string, update: (selection: ClusterSelection) => ClusterSelection) => {
+    setSelections((prev) => ({ ...prev, [key]: update(prev[key]) }))
+  }
+
+  const toggleMember = (key: string, entityId: string) => {
+    updateSelection(key, (selection) => ({
+      ...selection,
+      memberIds: selection.memberIds.includes(entityId)
+        ? selection.memberIds.filter((id) => id !== entityId)
+        : [...selection.memberIds, entityId],
+    }))
+  }
+
+  const setPrimary = (key: string, entityId: string) => {
+    updateSelection(key, (selection) => ({
+      ...selection,
+      primaryId: entityId,
+      memberIds: selection.memberIds.includes(entityId) ? selection.memberIds : [...selection.memberIds, entityId],
+    }))
+  }
+
+  const toGroup = (selection: ClusterSelection): DuplicateMergeGroup => ({
+    primaryEntityId: selection.primaryId,
+    secondaryEntityIds: selection.memberIds.filter((id) => id !== selection.primaryId),
+  })
+
+  const groups = Object.values(selections)
+    .filter((selection) => selection.selected)
+    .map(toGroup)
+    .filter((group) => group.secondaryEntityIds.length > 0)
+  const mergeCount = groups.reduce((count, group) => count + group.secondaryEntityIds.length, 0)
+
+  async function handleMerge() {
+    setIsMerging(true)
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/entities/duplicates/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ groups }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to merge entities')
+      }
+
+      const failed = data.failed?.length || 0
+      setLastResult(
+        `Merged ${data.merged.length} ${data.merged.length === 1 ? 'group' : 'groups'}` +
+        (failed > 0 ? `; ${failed} failed` : '')
+      )
+      setConfirmOpen(false)
+      router.refresh()
+      await scan()
+    } catch (err) {
+      console.error('Error merging duplicates:', err)
+      alert(err instanceof Error ? err.message : 'Failed to merge entities')
+    } finally {
+      setIsMerging(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Find Duplicates</h1>
+          <p className="text-muted-foreground">
+            Entities that look like the same thing by name, aliases, page content and relationships
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={minScore} onValueChange={setMinScore}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SENSITIVITY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={scan} disabled={isScanning} title="Scan again">
+            <RefreshCw className={cn('h-4 w-4', isScanning && 'animate-spin')} />
+          </Button>
+          <Button onClick={() => setConfirmOpen(true)} disabled={groups.length === 0 || isMerging}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            Merge {groups.length > 0 ? `${groups.length} selected` : 'selected'}
+          </Button>
+        </div>
+      </div>
+
+      {lastResult && (
+        <p className="flex items-center gap-2 text-sm text-green-600">
+          <CheckCircle className="h-4 w-4" />
+          {lastResult}
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {isScanning && clusters.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : clusters.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <CheckCircle className="h-10 w-10 mx-auto mb-3" />
+          <p>No likely duplicates found</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {clusters.map((cluster) => {
+            const key = cluster.suggestedPrimaryId
+            const selection = selections[key]
+            if (!selection) return null
+            const namesById = new Map(cluster.entities.map((entity) => [entity.id, entity.name]))
+
+            return (
+              <div
+                key={key}
+                className={cn('rounded-lg border p-3 space-y-2', selection.selected && 'border-primary')}
+              >
+                <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+                  <Checkbox
+                    checked={selection.selected}
+                    onCheckedChange={(checked) => updateSelection(key, (s) => ({ ...s, selected: checked === true }))}
+                  />
+                  {cluster.entities.length} entities
+                  <Badge variant="secondary">{percent(cluster.score)} likely</Badge>
+                </label>
+
+                <ul className="divide-y rounded-md border">
+                  {cluster.entities.map((entity) => {
+                    const Icon = getEntityTypeIcon(entity.entityType)
+                    const isPrimary = selection.primaryId === entity.id
+                    const isMember = selection.memberIds.includes(entity.id)
+
+                    return (
+                      <li key={entity.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                        <Checkbox
+                          checked={isMember}
+                          disabled={isPrimary}
+                          onCheckedChange={() => toggleMember(key, entity.id)}
+                        />
+                        <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+                        <Link
+                          href={`/campaigns/${campaignId}/entities/${entity.id}`}
+                          className={cn('flex-1 truncate font-medium hover:underline', !isMember && 'text-muted-foreground')}
+                          title={entity.aliases.length > 0 ? `Also: ${entity.aliases.join(', ')}` : undefined}
+                        >
+                          {entity.name}
+                        </Link>
+                        {entity.isDmOnly && <EyeOff className="h-3.5 w-3.5 text-muted-foreground" />}
+                        <span className="hidden sm:inline text-xs text-muted-foreground">
+                          {entity.relationshipCount} relations · {entity.contentLength} chars
+                        </span>
+                        <Badge variant="outline" className={`shrink-0 text-xs ${getEntityTypeBadgeClasses(entity.entityType)}`}>
+                          {getEntityTypeLabel(entity.entityType)}
+                        </Badge>
+                        <Button
+                          variant={isPrimary ? 'secondary' : 'ghost'}
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => setPrimary(key, entity.id)}
+                        >
+                          <Crown className="h-3 w-3 mr-1" />
+                          {isPrimary ? 'Keep' : 'Keep this'}
+                        </Button>
+                      </li>
+                    )
+                  })}
+                </ul>
+
+                <ul className="text-xs text-muted-foreground space-y-0.5">
+                  {cluster.pairs.slice(0, 3).map((pair) => (
+                    <li key={pair.entityIds.join(':')}>
+                      {namesById.get(pair.entityIds[0])} and {namesById.get(pair.entityIds[1])}: {describePair(pair)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Merge {mergeCount} {mergeCount === 1 ? 'entity' : 'entities'} in {groups.length} {groups.length === 1 ? 'group' : 'groups'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              In each group the other entities are merged into the one marked Keep: their content is
+              appended, their names become aliases and their relationships move over. They are then
+              deleted. A kept entity that absorbs a DM-only one becomes DM-only. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMerging}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleMerge()
+              }}
+              disabled={isMerging}
+            >
+              {isMerging ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Merging...
+                </>
+              ) : (
+                'Merge'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
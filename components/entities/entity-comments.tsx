@@ -5,7 +5,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
-import { MessageSquare, Send, Loader2, Trash2 } from 'lucide-react'
+import { MessageSquare, Send, Loader2, Trash2, Lock } from 'lucide-react'
+import { splitSecretBlocks, stripSecretBlocks } from '@/lib/secret-blocks'
 
 interface Comment {
   id: string
@@ -226,9 +227,27 @@ export function EntityComments({ entityId, currentUserId, isDM }: EntityComments
                       </Button>
                     )}
                   </div>
-                  <p className="text-sm whitespace-pre-wrap break-words">
-                    {comment.content}
-                  </p>
+                  {isDM ? (
+                    splitSecretBlocks(comment.content).map((segment, i) =>
+                      segment.secret ? (
+                        <p
+                          key={i}
+                          className="text-sm whitespace-pre-wrap break-words rounded border border-dashed border-amber-500/60 bg-amber-500/5 px-2 py-1 my-1"
+                        >
+                          <Lock className="inline h-3 w-3 mr-1 text-amber-600 dark:text-amber-400" />
+                          {segment.text.trim()}
+                        </p>
+                      ) : (
+                        <p key={i} className="text-sm whitespace-pre-wrap break-words">
+                          {segment.text.trim()}
+                        </p>
+                      )
+                    )
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap break-words">
+                      {stripSecretBlocks(comment.content)}
+                    </p>
+                  )}
                 </div>
               </div>
             ))}
@@ -16,6 +16,8 @@ import { Textarea } from '@/components/ui/textarea'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Pencil } from 'lucide-react'
 import type { StagedEntity } from '@/lib/types'
+import { canonicalizeName } from '@/lib/canonical-names'
+import { PropertiesEditor, PropertyRow, toPropertyRows, fromPropertyRows } from './properties-editor'
 
 const DEFAULT_ENTITY_TYPES = [
   { value: 'artwork', label: 'Artwork' },
@@ -52,6 +54,7 @@ export function EntityEditModal({
   const [content, setContent] = useState('')
   const [aliases, setAliases] = useState('')
   const [tags, setTags] = useState('')
+  const [propertyRows, setPropertyRows] = useState<PropertyRow[]>([])
   const [isDmOnly, setIsDmOnly] = useState(false)
   const [showCustomType, setShowCustomType] = useState(false)
   const [customType, setCustomType] = useState('')
@@ -64,6 +67,7 @@ export function EntityEditModal({
       setContent(entity.content)
       setAliases(entity.aliases.join(', '))
       setTags(entity.tags.join(', '))
+      setPropertyRows(toPropertyRows(entity.properties))
       setIsDmOnly(false) // Default to not DM-only
       setShowCustomType(false)
       setCustomType('')
@@ -94,10 +98,7 @@ export function EntityEditModal({
   const handleSave = () => {
     if (!entity) return
 
-    const canonicalName = name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '')
+    const canonicalName = canonicalizeName(name)
 
     onSave(entity.tempId, {
       name: name.trim(),
@@ -112,6 +113,7 @@ export function EntityEditModal({
         .split(',')
         .map((t) => t.trim())
         .filter(Boolean),
+      properties: fromPropertyRows(propertyRows),
     })
 
     onOpenChange(false)
@@ -233,6 +235,12 @@ export function EntityEditModal({
             </div>
           </div>
 
+          {/* Properties */}
+          <div className="space-y-2">
+            <Label>Properties</Label>
+            <PropertiesEditor rows={propertyRows} onChange={setPropertyRows} />
+          </div>
+
           {/* DM Only */}
           <div className="flex items-center space-x-2">
             <Checkbox
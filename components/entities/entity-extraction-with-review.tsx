@@ -42,6 +42,7 @@ interface EntityExtractionWithReviewProps {
   entityName: string
   entityContent: string
   entityType: string
+  initialJobId?: string // Extraction job to reattach to instead of starting one, e.g. from the jobs panel
 }
 
 type ReviewPhase = 'extracting' | 'review' | 'committing' | 'complete'
@@ -64,6 +65,7 @@ export function EntityExtractionWithReview({
   entityName,
   entityContent,
   entityType,
+  initialJobId,
 }: EntityExtractionWithReviewProps) {
   // Phase management
   const [phase, setPhase] = useState<ReviewPhase>('extracting')
@@ -167,12 +169,15 @@ export function EntityExtractionWithReview({
     setDiscoveredEntities([])
 
     try {
-      setProgressSteps((prev) => [...prev, `Starting extraction for "${entityName}"...`])
+      // The extraction runs as a job the stream follows; reattaching replays its events
+      setProgressSteps((prev) => [
+        ...prev,
+        initialJobId ? 'Reattaching to extraction job...' : `Starting extraction for "${entityName}"...`,
+      ])
 
-      const response = await fetch(
-        `/api/campaigns/${campaignId}/entities/${entityId}/extract-stream`,
-        { method: 'POST' }
-      )
+      const response = initialJobId
+        ? await fetch(`/api/campaigns/${campaignId}/jobs/${initialJobId}/events`)
+        : await fetch(`/api/campaigns/${campaignId}/entities/${entityId}/extract-stream`, { method: 'POST' })
 
       if (!response.ok) {
         const data = await response.json()
@@ -202,44 +207,60 @@ export function EntityExtractionWithReview({
           if (line.startsWith('event: ')) {
             currentEvent = line.slice(7)
           } else if (line.startsWith('data: ') && currentEvent) {
+            let data: any
             try {
-              const data = JSON.parse(line.slice(6))
-
-              switch (currentEvent) {
-                case 'progress':
-                  setProgressSteps((prev) => [...prev, data.message])
-                  break
-
-                case 'extraction':
-                  setExtractionProgress({
-                    stage: data.stage,
-                    current: data.current,
-                    total: data.total,
-                    message: data.message,
-                  })
-                  break
-
-                case 'entity':
-                  setDiscoveredEntities((prev) => [...prev, { name: data.name, type: data.type }])
-                  break
-
-                case 'error':
-                  throw new Error(data.message)
-
-                case 'complete':
-                  const result = data as ExtractPreviewResponse
-                  setEntities(result.extractedEntities)
-                  setRelationships(result.extractedRelationships)
-                  setExistingMatches(result.existingEntityMatches)
-                  setProgressSteps((prev) => [
-                    ...prev,
-                    `Extraction complete: ${result.extractedEntities.length} entities`,
-                  ])
-                  setPhase('review')
-                  break
-              }
+              data = JSON.parse(line.slice(6))
             } catch (e) {
               // Skip invalid JSON
+              currentEvent = ''
+              continue
+            }
+
+            switch (currentEvent) {
+              case 'job':
+                // Reloading the page reattaches to the job
+                window.history.replaceState(null, '', `?job=${data.jobId}`)
+                break
+
+              case 'attempt':
+                if (data.attempt > 1) {
+                  setExtractionProgress(null)
+                  setDiscoveredEntities([])
+                  setProgressSteps((prev) => [...prev, `Retrying (attempt ${data.attempt} of ${data.maxAttempts})...`])
+                }
+                break
+
+              case 'progress':
+                setProgressSteps((prev) => [...prev, data.message])
+                break
+
+              case 'extraction':
+                setExtractionProgress({
+                  stage: data.stage,
+                  current: data.current,
+                  total: data.total,
+                  message: data.message,
+                })
+                break
+
+              case 'entity':
+                setDiscoveredEntities((prev) => [...prev, { name: data.name, type: data.type }])
+                break
+
+              case 'error':
+                throw new Error(data.message)
+
+              case 'complete':
+                const result = data as ExtractPreviewResponse
+                setEntities(result.extractedEntities)
+                setRelationships(result.extractedRelationships)
+                setExistingMatches(result.existingEntityMatches)
+                setProgressSteps((prev) => [
+                  ...prev,
+                  `Extraction complete: ${result.extractedEntities.length} entities`,
+                ])
+                setPhase('review')
+                break
             }
             currentEvent = ''
           }
@@ -334,6 +355,7 @@ export function EntityExtractionWithReview({
             content: e.content,
             aliases: e.aliases,
             tags: e.tags,
+            properties: e.properties,
             isDmOnly: false,
             mergeTargetId: e.mergeTargetId,
           })
@@ -376,6 +398,8 @@ export function EntityExtractionWithReview({
         embeddingsStatus: result.embeddingsStatus,
       })
 
+      // The job's results are committed; reloading should not offer them again
+      window.history.replaceState(null, '', window.location.pathname)
       setPhase('complete')
     } catch (error) {
       console.error('Commit error:', error)
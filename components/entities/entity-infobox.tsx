@@ -0,0 +1,52 @@
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { formatPropertyKey, formatPropertyValue } from '@/lib/entity-properties'
+import type { EntityProperties } from '@/lib/types'
+
+interface EntityInfoboxProps {
+  campaignId: string
+  properties: EntityProperties
+  entityMap: Map<string, string> // Lowercased entity name -> id, to link values that name an entity
+}
+
+/**
+ * Sidebar card with an entity's properties
+ */
+export function EntityInfobox({ campaignId, properties, entityMap }: EntityInfoboxProps) {
+  const entries = Object.entries(properties)
+  if (entries.length === 0) return null
+
+  return (
+    <Card className="mb-4">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <span className="section-ornament">❖</span>
+          Infobox
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5 text-sm">
+          {entries.map(([key, value]) => {
+            const text = formatPropertyValue(value)
+            const linkedId = typeof value === 'string' ? entityMap.get(value.toLowerCase()) : undefined
+
+            return (
+              <div key={key} className="contents">
+                <dt className="text-muted-foreground">{formatPropertyKey(key)}</dt>
+                <dd className="font-medium break-words">
+                  {linkedId ? (
+                    <Link href={`/campaigns/${campaignId}/entities/${linkedId}`} className="text-primary hover:underline">
+                      {text}
+                    </Link>
+                  ) : (
+                    text
+                  )}
+                </dd>
+              </div>
+            )
+          })}
+        </dl>
+      </CardContent>
+    </Card>
+  )
+}
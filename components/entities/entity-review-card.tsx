@@ -19,6 +19,7 @@ import {
   ChevronUp,
   RotateCcw,
 } from 'lucide-react'
+import { formatPropertyKey, formatPropertyValue } from '@/lib/entity-properties'
 import type { StagedEntity, EntityMatch } from '@/lib/types'
 
 interface EntityReviewCardProps {
@@ -158,7 +159,9 @@ export const EntityReviewCard = memo(function EntityReviewCard({
           {existingMatch && (
             <div className="flex items-center gap-1.5 ml-auto text-xs text-amber-600">
               <AlertTriangle className="h-3.5 w-3.5" />
-              <span className="hidden sm:inline">Duplicate?</span>
+              <span className="hidden sm:inline">
+                {existingMatch.matchType === 'linked' ? `${existingMatch.existingEntity.name}?` : 'Duplicate?'}
+              </span>
             </div>
           )}
         </div>
@@ -182,6 +185,17 @@ export const EntityReviewCard = memo(function EntityReviewCard({
               </div>
             )}
 
+            {entity.properties && Object.keys(entity.properties).length > 0 && (
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-1">Properties:</p>
+                <p className="text-sm text-muted-foreground">
+                  {Object.entries(entity.properties)
+                    .map(([key, value]) => `${formatPropertyKey(key)}: ${formatPropertyValue(value)}`)
+                    .join(' · ')}
+                </p>
+              </div>
+            )}
+
             {entity.tags && entity.tags.length > 0 && (
               <div>
                 <p className="text-xs font-medium text-muted-foreground mb-1">Tags:</p>
@@ -201,10 +215,20 @@ export const EntityReviewCard = memo(function EntityReviewCard({
             )}
 
             {existingMatch && (
-              <div className="bg-amber-500/10 border border-amber-500/20 rounded p-2">
-                <p className="text-xs text-amber-700 dark:text-amber-400">
+              <div className="bg-amber-500/10 border border-amber-500/20 rounded p-2 flex items-center gap-2">
+                <p className="text-xs text-amber-700 dark:text-amber-400 flex-1">
                   Matches "{existingMatch.existingEntity.name}" ({existingMatch.matchType}, {Math.round(existingMatch.confidence * 100)}%)
                 </p>
+                {entity.mergeTargetId !== existingMatch.existingEntity.id && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => onMerge(entity.tempId, existingMatch.existingEntity.id)}
+                  >
+                    Merge into it
+                  </Button>
+                )}
               </div>
             )}
           </div>
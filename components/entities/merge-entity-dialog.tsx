@@ -196,6 +196,7 @@ export function MergeEntityDialog({
                 <strong>{selectedEntity.name}</strong> will be merged into{' '}
                 <strong>{currentEntityName}</strong>. Content will be concatenated,
                 aliases combined, and all relationships transferred.
+                {selectedEntity.isDmOnly && ` As ${selectedEntity.name} is DM-only, ${currentEntityName} will become DM-only too.`}
               </p>
             </div>
           )}
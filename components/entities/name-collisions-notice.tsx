@@ -0,0 +1,43 @@
+import Link from 'next/link'
+import { AlertTriangle } from 'lucide-react'
+import type { NameCollision } from '@/lib/canonical-names'
+
+interface NameCollisionsNoticeProps {
+  campaignId: string
+  collisions: NameCollision<{ id: string; name: string }>[]
+}
+
+/**
+ * Entities whose names fold to the same canonical name, for the DM to rename or merge
+ */
+export function NameCollisionsNotice({ campaignId, collisions }: NameCollisionsNoticeProps) {
+  if (collisions.length === 0) return null
+
+  return (
+    <div className="mb-4 rounded-lg border border-yellow-500/50 bg-yellow-500/5 p-3 text-sm">
+      <div className="flex items-center gap-2 font-medium">
+        <AlertTriangle className="h-4 w-4 text-yellow-500" />
+        {collisions.length === 1 ? '1 name collision' : `${collisions.length} name collisions`}
+      </div>
+      <p className="mt-1 text-muted-foreground">
+        These entities differ only by accents, case or punctuation, so extraction and imports cannot tell
+        them apart. Rename one of each group, or merge them from the entity page.
+      </p>
+      <ul className="mt-2 space-y-1">
+        {collisions.map((collision) => (
+          <li key={collision.canonicalName} className="flex flex-wrap items-center gap-x-2">
+            <code className="text-xs text-muted-foreground">{collision.canonicalName}</code>
+            {collision.entities.map((entity, i) => (
+              <span key={entity.id}>
+                {i > 0 && <span className="text-muted-foreground mr-2">·</span>}
+                <Link href={`/campaigns/${campaignId}/entities/${entity.id}`} className="hover:underline">
+                  {entity.name}
+                </Link>
+              </span>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Plus, X } from 'lucide-react'
+import {
+  normalizePropertyKey,
+  formatPropertyKey,
+  parsePropertyValue,
+  MAX_PROPERTIES,
+} from '@/lib/entity-properties'
+import type { EntityProperties } from '@/lib/types'
+
+// A property as typed in the editor; keys and values are parsed on save
+export interface PropertyRow {
+  key: string
+  value: string
+}
+
+export function toPropertyRows(properties: EntityProperties | null | undefined): PropertyRow[] {
+  return Object.entries(properties || {}).map(([key, value]) => ({
+    key: formatPropertyKey(key),
+    value: String(value),
+  }))
+}
+
+export function fromPropertyRows(rows: PropertyRow[]): EntityProperties {
+  const properties: EntityProperties = {}
+  for (const row of rows) {
+    const key = normalizePropertyKey(row.key)
+    if (key && row.value.trim()) {
+      properties[key] = parsePropertyValue(row.value)
+    }
+  }
+  return properties
+}
+
+interface PropertiesEditorProps {
+  rows: PropertyRow[]
+  onChange: (rows: PropertyRow[]) => void
+}
+
+/**
+ * Key/value rows of an entity's infobox
+ * Numbers and true/false are stored as numbers and yes/no; anything else as text.
+ */
+export function PropertiesEditor({ rows, onChange }: PropertiesEditorProps) {
+  const updateRow = (index: number, update: Partial<PropertyRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...update } : row)))
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            value={row.key}
+            onChange={(e) => updateRow(index, { key: e.target.value })}
+            placeholder="Status, Race, Hit points..."
+            className="w-2/5"
+          />
+          <Input
+            value={row.value}
+            onChange={(e) => updateRow(index, { value: e.target.value })}
+            placeholder="Alive, Elf, 45..."
+            className="flex-1"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            title="Remove property"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rows, { key: '', value: '' }])}
+        disabled={rows.length >= MAX_PROPERTIES}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add property
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import { memo } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { getEntityTypeIcon, getEntityTypeColor } from '@/lib/entity-colors'
+import { Check, X, RotateCcw, Link2Off, Unlink } from 'lucide-react'
+import { formatPropertyKey, formatPropertyValue } from '@/lib/entity-properties'
+import type { StagedUpdate, StagedRetraction } from '@/lib/types'
+
+const statusStripColor = {
+  pending: 'bg-muted-foreground/30',
+  approved: 'bg-green-500',
+  rejected: 'bg-red-500',
+  edited: 'bg-blue-500',
+}
+
+interface UpdateReviewCardProps {
+  update: StagedUpdate
+  onApprove: (tempId: string) => void
+  onReject: (tempId: string) => void
+}
+
+/**
+ * Facts a new document version adds to an existing entity
+ */
+export const UpdateReviewCard = memo(function UpdateReviewCard({
+  update,
+  onApprove,
+  onReject,
+}: UpdateReviewCardProps) {
+  const Icon = getEntityTypeIcon(update.entityType)
+  const typeColors = getEntityTypeColor(update.entityType)
+  const isApproved = update.status === 'approved'
+  const isRejected = update.status === 'rejected'
+
+  return (
+    <Card className={cn('relative overflow-hidden', isRejected && 'opacity-60')}>
+      <div className={cn('absolute left-0 top-0 bottom-0 w-1', statusStripColor[update.status])} />
+      <CardContent className="py-2.5 pl-4 pr-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <Icon className={cn('h-4 w-4 shrink-0', typeColors.text)} />
+          <span className={cn('font-medium text-sm flex-1 truncate', isRejected && 'line-through')}>
+            {update.entityName}
+          </span>
+          {isRejected ? (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onApprove(update.tempId)}>
+              <RotateCcw className="h-3.5 w-3.5 mr-1" />
+              Undo
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className={cn('h-7 w-7', isApproved && 'bg-green-500/10')}
+                onClick={() => onApprove(update.tempId)}
+                title="Add to page"
+              >
+                <Check className={cn('h-4 w-4', isApproved && 'text-green-600')} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground hover:text-red-600"
+                onClick={() => onReject(update.tempId)}
+                title="Reject"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+
+        {!isRejected && (
+          <>
+            <p className="text-sm whitespace-pre-wrap bg-muted/50 p-2 rounded max-h-40 overflow-y-auto">
+              {update.addition}
+            </p>
+            {update.aliases.length > 0 && (
+              <p className="text-xs text-muted-foreground">New aliases: {update.aliases.join(', ')}</p>
+            )}
+            {update.properties && Object.keys(update.properties).length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                New properties: {Object.entries(update.properties)
+                  .map(([key, value]) => `${formatPropertyKey(key)}: ${formatPropertyValue(value)}`)
+                  .join(', ')}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+})
+
+interface RetractionReviewCardProps {
+  retraction: StagedRetraction
+  onApprove: (tempId: string) => void
+  onReject: (tempId: string) => void
+}
+
+/**
+ * A fact from an earlier version that the new version no longer mentions
+ * Approving it drops the entity's link to the document, or the relationship.
+ */
+export const RetractionReviewCard = memo(function RetractionReviewCard({
+  retraction,
+  onApprove,
+  onReject,
+}: RetractionReviewCardProps) {
+  const isApproved = retraction.status === 'approved'
+  const isRejected = retraction.status === 'rejected'
+  const Icon = retraction.kind === 'relationship' ? Link2Off : Unlink
+
+  return (
+    <Card className={cn('relative overflow-hidden', isRejected && 'opacity-60')}>
+      <div className={cn('absolute left-0 top-0 bottom-0 w-1', statusStripColor[retraction.status])} />
+      <CardContent className="py-2.5 pl-4 pr-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className="font-medium text-sm flex-1 truncate">{retraction.label}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn('h-7 text-xs', isApproved && 'bg-red-500/10 text-red-600')}
+            onClick={() => onApprove(retraction.tempId)}
+            title={retraction.kind === 'relationship' ? 'Delete the relationship' : 'Unlink the entity from this document'}
+          >
+            {retraction.kind === 'relationship' ? 'Delete' : 'Unlink'}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn('h-7 text-xs', isRejected && 'bg-muted')}
+            onClick={() => onReject(retraction.tempId)}
+          >
+            Keep
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground line-clamp-3 border-l-2 pl-2 italic">
+          {retraction.excerpt}
+        </p>
+      </CardContent>
+    </Card>
+  )
+})
@@ -1,54 +1,183 @@
-import { searchSimilarChunks, buildContext } from './rag'
-import { generateResponse } from './client'
-import { ChatMessage, SearchResult } from '@/lib/types'
+import { searchSimilarChunks, buildContext, fuseRankings } from './rag'
+import { expandWithNeighbours } from './graph-expansion'
+import { isRerankEnabled, rerankResults } from './rerank'
+import { rewriteQuery } from './query-rewrite'
+import { generateWithTools, generateResponse, streamResponse, supportsTools, GenerateOptions, GenerateResult, TokenHandler } from './client'
+import { ORACLE_TOOLS, executeOracleTool } from './oracle-tools'
+import { ChatMessage, SearchResult, SearchQuery } from '@/lib/types'
 import { getCampaignSettings, DEFAULT_PROMPTS } from '@/lib/campaign-settings'
 import type { CampaignSettings } from '@/lib/db/schema'
 import { getModelProvider } from '@/lib/db/schema'
+import { checkUsageBudget } from './usage'
+import { isFixtureModeEnabled } from './fixtures'
+import { validateCitations } from '@/lib/citations'
+import { getResilienceOptions } from './resilience'
+import { loadThreadHistory, saveExchange } from './oracle-threads'
 
 export interface ChatOptions {
   isDM: boolean
+  userId?: string
   campaignName?: string
+  language?: string // Campaign language, picks the full-text search configuration
   settings?: CampaignSettings | null
+  signal?: AbortSignal // Cancels retrieval and generation, e.g. when the client disconnects
 }
 
 export interface ChatResponse {
   content: string
   sources: SearchResult[]
+  searchQuery?: SearchQuery
+  citations?: number[] // Source numbers the answer cites, all checked against sources
 }
 
+export interface RetrievalResult {
+  sources: SearchResult[]
+  searchQuery: SearchQuery
+}
+
+export interface ChatStreamHandlers {
+  // Called once the question is rewritten, before retrieval
+  onSearchQuery?: (searchQuery: SearchQuery) => void
+  // Called once retrieval finishes, before the first token
+  onSources?: (sources: SearchResult[]) => void
+  // Called after each Oracle tool call with the entities it surfaced
+  onToolCall?: (sources: SearchResult[]) => void
+  onToken: TokenHandler
+}
+
+const EMPTY_RESPONSE = 'I apologize, but I was unable to generate a response.'
+
+type PreparedChat =
+  | { ready: true; generateOptions: GenerateOptions; sources: SearchResult[]; searchQuery: SearchQuery; excludeDmOnly: boolean }
+  | { ready: false; response: ChatResponse }
+
+const TOOLS_PROMPT = `
+You can also call tools to look things up in the knowledge graph: read a full entity page, list an entity's relationships, list entities by type or tag, and see which documents an entity came from. Use them when the context above is not enough, e.g. to follow relationships or enumerate all entities of a kind. Tool results count as workspace context.`
+
+// Kept separate from the editable system prompt so custom prompts still cite
+const CITATIONS_PROMPT = `
+Cite the context sources you use with their number in square brackets right after the claim, e.g. "Mira lives in Port Azure [2]." or "[1][3]". Only cite numbers of the sources listed below; tool results have no number.`
+
 /**
- * Generate a chat response using RAG with Claude or Gemini
+ * Retrieval for one question: query rewriting, hybrid search, optional reranking, optional graph expansion
+ * Sub-query result lists are fused; reranking over-fetches candidates and keeps the search result limit.
  */
-export async function generateChatResponse(
+export async function retrieveSources(
   campaignId: string,
   userMessage: string,
   history: ChatMessage[],
-  options: ChatOptions
-): Promise<ChatResponse> {
-  // Get campaign settings with defaults
+  options: ChatOptions,
+  onSearchQuery?: (searchQuery: SearchQuery) => void
+): Promise<RetrievalResult> {
+  const settings = getCampaignSettings(options.settings)
+  const resilience = { ...getResilienceOptions(options.settings), signal: options.signal }
+  const rerank = isRerankEnabled(settings.rerank)
+  const limit = settings.search.resultLimit
+  const candidateLimit = rerank ? limit * Math.max(1, settings.rerank.candidateMultiplier) : limit
+
+  // Resolve follow-ups ("and what does she want?") against the conversation
+  const searchQuery = settings.search.enableQueryRewriting
+    ? await rewriteQuery(userMessage, history, {
+        model: settings.model.extractionModel,
+        maxSubQueries: settings.search.maxSubQueries,
+        usage: { campaignId, userId: options.userId, purpose: 'search' },
+        resilience,
+      })
+    : { query: userMessage, subQueries: [], rewritten: false }
+  onSearchQuery?.(searchQuery)
+
+  const rankings = await Promise.all(
+    [searchQuery.query, ...searchQuery.subQueries].map((query) =>
+      searchSimilarChunks(campaignId, query, {
+        limit: candidateLimit,
+        threshold: settings.search.similarityThreshold,
+        excludeDmOnly: !options.isDM,
+        language: options.language,
+        userId: options.userId,
+        resilience,
+      })
+    )
+  )
+  const candidates = rankings.length > 1
+    ? fuseRankings(rankings).slice(0, candidateLimit)
+    : rankings[0]
+
+  const matches = rerank
+    ? await rerankResults(searchQuery.query, candidates, limit, settings.rerank, {
+        judgeModel: settings.model.extractionModel,
+        usage: { campaignId, userId: options.userId, purpose: 'rerank' },
+        resilience,
+      })
+    : candidates.slice(0, limit)
+
+  // Pull in entities linked to the top hits
+  const sources = settings.search.enableGraphExpansion
+    ? await expandWithNeighbours(campaignId, matches, {
+        excludeDmOnly: !options.isDM,
+        tokenBudget: settings.search.graphExpansionTokenBudget,
+      })
+    : matches
+
+  return { sources, searchQuery }
+}
+
+/**
+ * The notice to answer with instead when a request cannot be served, or null
+ * Answers need the chat provider configured; both modes need budget left.
+ * The chat route checks this before starting a thread, so refusals leave none behind.
+ */
+export async function getChatRefusal(
+  campaignId: string,
+  options: ChatOptions,
+  mode: 'rag' | 'direct' = 'rag'
+): Promise<ChatResponse | null> {
   const settings = getCampaignSettings(options.settings)
   const provider = getModelProvider(settings.model.chatModel)
 
-  // Check if API key is configured for the selected provider
-  if (provider === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
-    return {
-      content: 'Chat is not configured. Please add ANTHROPIC_API_KEY to your environment variables.',
-      sources: [],
+  // Check if API key is configured for the selected provider (recordings need no key)
+  const fixtures = isFixtureModeEnabled()
+  if (mode === 'rag' && !fixtures) {
+    if (provider === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
+      return { content: 'Chat is not configured. Please add ANTHROPIC_API_KEY to your environment variables.', sources: [] }
     }
-  }
-  if (provider === 'google' && !process.env.GEMINI_API_KEY && !process.env.GOOGLE_API_KEY) {
-    return {
-      content: 'Gemini is not configured. Please add GEMINI_API_KEY to your environment variables.',
-      sources: [],
+    if (provider === 'google' && !process.env.GEMINI_API_KEY && !process.env.GOOGLE_API_KEY) {
+      return { content: 'Gemini is not configured. Please add GEMINI_API_KEY to your environment variables.', sources: [] }
+    }
+    if (provider === 'local' && !process.env.LOCAL_LLM_BASE_URL) {
+      return { content: 'The local model endpoint is not configured. Please add LOCAL_LLM_BASE_URL to your environment variables.', sources: [] }
     }
   }
 
+  // Politely refuse once the campaign's monthly AI budget is spent
+  const budget = await checkUsageBudget(campaignId, options.settings)
+  if (budget.exceeded) {
+    return { content: budget.message!, sources: [] }
+  }
+
+  return null
+}
+
+/**
+ * Check provider configuration, retrieve context and build the model request
+ */
+async function prepareChat(
+  campaignId: string,
+  userMessage: string,
+  history: ChatMessage[],
+  options: ChatOptions,
+  onSearchQuery?: (searchQuery: SearchQuery) => void
+): Promise<PreparedChat> {
+  const refusal = await getChatRefusal(campaignId, options)
+  if (refusal) {
+    return { ready: false, response: refusal }
+  }
+
+  // Get campaign settings with defaults
+  const settings = getCampaignSettings(options.settings)
+  const resilience = { ...getResilienceOptions(options.settings), signal: options.signal }
+
   // Search for relevant chunks using campaign settings
-  const chunks = await searchSimilarChunks(campaignId, userMessage, {
-    limit: settings.search.resultLimit,
-    threshold: settings.search.similarityThreshold,
-    excludeDmOnly: !options.isDM,
-  })
+  const { sources: chunks, searchQuery } = await retrieveSources(campaignId, userMessage, history, options, onSearchQuery)
 
   // Build context from chunks
   const context = buildContext(chunks)
@@ -58,7 +187,7 @@ export async function generateChatResponse(
 
   // Build the system prompt with context
   const systemPrompt = `${baseSystemPrompt}
-
+${supportsTools(settings.model.chatModel) ? TOOLS_PROMPT : ''}${chunks.length > 0 ? CITATIONS_PROMPT : ''}
 Campaign: ${options.campaignName || 'Unknown Campaign'}
 
 Context from campaign knowledge base:
@@ -69,7 +198,8 @@ ${context}`
     // Include recent history
     ...history.slice(-10).map((msg) => ({
       role: msg.role as 'user' | 'assistant',
-      content: msg.content,
+      // Earlier answers cite earlier sources; their numbers mean nothing now
+      content: msg.role === 'assistant' ? validateCitations(msg.content, 0).content : msg.content,
     })),
     {
       role: 'user' as const,
@@ -77,17 +207,163 @@ ${context}`
     },
   ]
 
-  // Generate response using unified client
-  const result = await generateResponse({
-    model: settings.model.chatModel,
-    systemPrompt,
-    messages,
-    maxTokens: settings.model.maxTokens,
-    temperature: settings.model.temperature,
-  })
+  return {
+    ready: true,
+    generateOptions: {
+      model: settings.model.chatModel,
+      systemPrompt,
+      messages,
+      maxTokens: settings.model.maxTokens,
+      temperature: settings.model.temperature,
+      usage: { campaignId, userId: options.userId, purpose: 'chat' },
+      resilience,
+    },
+    // Numbered as in buildContext
+    sources: chunks.map((chunk, i) => ({ ...chunk, citation_index: i + 1 })),
+    searchQuery,
+    excludeDmOnly: !options.isDM,
+  }
+}
+
+/**
+ * Run the model with Oracle tools, collecting every tool call as a source
+ */
+async function runWithOracleTools(
+  campaignId: string,
+  prepared: Extract<PreparedChat, { ready: true }>,
+  handlers?: Omit<ChatStreamHandlers, 'onSources' | 'onSearchQuery'>
+): Promise<{ result: GenerateResult; toolSources: SearchResult[] }> {
+  const { generateOptions } = prepared
+  const toolSources: SearchResult[] = []
+
+  if (!supportsTools(generateOptions.model)) {
+    const result = handlers
+      ? await streamResponse(generateOptions, handlers.onToken)
+      : await generateResponse(generateOptions)
+    return { result, toolSources }
+  }
+
+  const result = await generateWithTools(
+    generateOptions,
+    {
+      tools: ORACLE_TOOLS,
+      execute: async (call) => {
+        const { output, sources } = await executeOracleTool(call.name, call.input, {
+          campaignId,
+          excludeDmOnly: prepared.excludeDmOnly,
+        })
+        toolSources.push(...sources)
+        handlers?.onToolCall?.(sources)
+        return output
+      },
+    },
+    handlers?.onToken
+  )
+
+  return { result, toolSources }
+}
+
+/**
+ * Final answer with citations checked against the retrieved sources
+ */
+function finishResponse(
+  prepared: Extract<PreparedChat, { ready: true }>,
+  result: GenerateResult,
+  toolSources: SearchResult[]
+): ChatResponse {
+  const { content, citations, unsupported } = validateCitations(result.content || EMPTY_RESPONSE, prepared.sources.length)
+  if (unsupported.length > 0) {
+    console.log('[Chat] Stripped unsupported citations:', unsupported.join(', '))
+  }
 
   return {
-    content: result.content || 'I apologize, but I was unable to generate a response.',
-    sources: chunks,
+    content,
+    sources: [...prepared.sources, ...toolSources],
+    searchQuery: prepared.searchQuery,
+    citations,
+  }
+}
+
+/**
+ * Search only, no answer: the matching sources for a question, saved to the thread like an answer
+ * Query rewriting, reranking and the query embedding still call models, so the budget applies.
+ */
+export async function searchChatSources(
+  campaignId: string,
+  userMessage: string,
+  threadId: string,
+  options: ChatOptions
+): Promise<ChatResponse> {
+  const refusal = await getChatRefusal(campaignId, options, 'direct')
+  if (refusal) {
+    return refusal
+  }
+
+  const history = await loadThreadHistory(threadId)
+  const { sources, searchQuery } = await retrieveSources(campaignId, userMessage, history, options)
+
+  const content = sources.length > 0
+    ? `Found ${sources.length} matching result${sources.length === 1 ? '' : 's'}:`
+    : 'No matching results found. Try different search terms.'
+
+  await saveExchange(threadId, userMessage, { content, mode: 'direct', sources, searchQuery })
+  return { content, sources, searchQuery }
+}
+
+/**
+ * Generate a chat response using RAG with Claude, Gemini or a local model
+ * Claude and Gemini can also query the knowledge graph through Oracle tools
+ * The conversation so far is read from the thread; the answer is saved to it with its sources.
+ */
+export async function generateChatResponse(
+  campaignId: string,
+  userMessage: string,
+  threadId: string,
+  options: ChatOptions
+): Promise<ChatResponse> {
+  const history = await loadThreadHistory(threadId)
+  const prepared = await prepareChat(campaignId, userMessage, history, options)
+  if (!prepared.ready) {
+    return prepared.response
   }
+
+  // Generate response using unified client
+  const { result, toolSources } = await runWithOracleTools(campaignId, prepared)
+
+  const response = finishResponse(prepared, result, toolSources)
+  await saveExchange(threadId, userMessage, { ...response, mode: 'rag' })
+  return response
+}
+
+/**
+ * Streaming variant of generateChatResponse
+ * Reports the searched query, then sources as soon as retrieval finishes, then each token as it arrives
+ * Tokens are raw; the returned answer has its citations checked and should replace them
+ */
+export async function streamChatResponse(
+  campaignId: string,
+  userMessage: string,
+  threadId: string,
+  options: ChatOptions,
+  handlers: ChatStreamHandlers
+): Promise<ChatResponse> {
+  const history = await loadThreadHistory(threadId)
+  const prepared = await prepareChat(campaignId, userMessage, history, options, handlers.onSearchQuery)
+  if (!prepared.ready) {
+    handlers.onSources?.(prepared.response.sources)
+    handlers.onToken(prepared.response.content)
+    return prepared.response
+  }
+
+  handlers.onSources?.(prepared.sources)
+
+  const { result, toolSources } = await runWithOracleTools(campaignId, prepared, handlers)
+
+  if (!result.content) {
+    handlers.onToken(EMPTY_RESPONSE)
+  }
+
+  const response = finishResponse(prepared, result, toolSources)
+  await saveExchange(threadId, userMessage, { ...response, mode: 'rag' })
+  return response
 }
@@ -1,6 +1,9 @@
 import Anthropic from '@anthropic-ai/sdk'
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import { AIModel, getModelProvider } from '@/lib/db/schema'
+import { GoogleGenerativeAI, FunctionCallingMode, FunctionDeclaration } from '@google/generative-ai'
+import { AIModel, ModelProvider, LOCAL_MODEL_PREFIX, getModelProvider } from '@/lib/db/schema'
+import { recordUsage, estimateTokens, UsageContext, TokenUsage } from './usage'
+import { withFixture } from './fixtures'
+import { withResilience, ResilienceOptions } from './resilience'
 
 // Map deprecated model names to current ones
 const MODEL_ALIASES: Record<string, string> = {
@@ -23,6 +26,8 @@ function getAnthropicClient(): Anthropic {
   if (!anthropicClient) {
     anthropicClient = new Anthropic({
       apiKey: process.env.ANTHROPIC_API_KEY,
+      // Retries are handled by withResilience
+      maxRetries: 0,
     })
   }
   return anthropicClient
@@ -40,38 +45,171 @@ function getGoogleClient(): GoogleGenerativeAI {
   return googleClient
 }
 
+// Self-hosted OpenAI-compatible endpoint (llama.cpp server, vLLM, Ollama)
+function getLocalEndpoint(): { baseUrl: string; apiKey?: string } {
+  const baseUrl = process.env.LOCAL_LLM_BASE_URL
+  if (!baseUrl) {
+    throw new Error('LOCAL_LLM_BASE_URL is not configured')
+  }
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+  }
+}
+
 export interface GenerateOptions {
   model: AIModel
   systemPrompt: string
   messages: Array<{ role: 'user' | 'assistant'; content: string }>
   maxTokens?: number
   temperature?: number
+  responseFormat?: 'text' | 'json' // 'json' uses the provider's JSON mode where it has one
+  usage?: UsageContext // When set, the call is metered against this campaign
+  resilience?: ResilienceOptions // Retries, timeout, abort signal and concurrency limit
+}
+
+export type TokenHandler = (token: string) => void
+
+/**
+ * Provider-neutral tool definition; parameters is a JSON Schema object
+ */
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: {
+    type: 'object'
+    properties: Record<string, { type: 'string' | 'integer' | 'number' | 'boolean'; description: string }>
+    required?: string[]
+  }
+}
+
+export interface ToolCall {
+  id: string
+  name: string
+  input: Record<string, unknown>
+}
+
+export interface ToolOptions {
+  tools: ToolDefinition[]
+  // Runs a call and returns the text handed back to the model
+  execute: (call: ToolCall) => Promise<string>
+  maxRounds?: number
+}
+
+// Conversation of a tool loop, converted to each provider's message format per round
+type ToolTurn =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls: ToolCall[] }
+  | { role: 'tool'; results: Array<{ call: ToolCall; output: string }> }
+
+interface ToolRound {
+  content: string
+  toolCalls: ToolCall[]
+  usage: TokenUsage
 }
 
 export interface GenerateResult {
   content: string
   model: AIModel
-  provider: 'anthropic' | 'google'
+  provider: ModelProvider
+  usage: TokenUsage
 }
 
 /**
  * Generate a response using the specified AI model
- * Handles both Anthropic (Claude) and Google (Gemini) models
+ * Handles Anthropic (Claude), Google (Gemini) and local OpenAI-compatible models
  */
 export async function generateResponse(options: GenerateOptions): Promise<GenerateResult> {
   const provider = getModelProvider(options.model)
 
-  if (provider === 'google') {
-    return generateWithGemini(options)
-  } else {
-    return generateWithClaude(options)
+  const result = await withFixture('completion', getFixtureRequest(options), () =>
+    withResilience(provider, (signal) => {
+      if (provider === 'google') {
+        return generateWithGemini(options, signal)
+      } else if (provider === 'local') {
+        return generateWithLocal(options, signal)
+      } else {
+        return generateWithClaude(options, signal)
+      }
+    }, options.resilience)
+  )
+
+  await meterResult(options, result)
+  return result
+}
+
+/**
+ * Stream a response using the specified AI model
+ * Calls onToken with each text delta as it arrives and resolves with the full result
+ */
+export async function streamResponse(
+  options: GenerateOptions,
+  onToken: TokenHandler
+): Promise<GenerateResult> {
+  const provider = getModelProvider(options.model)
+
+  // Once tokens have reached the client a retry would repeat them
+  let emitted = false
+  const emit: TokenHandler = (token) => {
+    emitted = true
+    onToken(token)
   }
+
+  const result = await withFixture(
+    'completion',
+    getFixtureRequest(options),
+    () => withResilience(provider, (signal, touch) => {
+      // Each token restarts the timeout, so a long answer is not cut off
+      const onChunk: TokenHandler = (token) => {
+        touch()
+        emit(token)
+      }
+      if (provider === 'google') {
+        return streamWithGemini(options, onChunk, signal)
+      } else if (provider === 'local') {
+        return streamWithLocal(options, onChunk, signal)
+      } else {
+        return streamWithClaude(options, onChunk, signal)
+      }
+    }, { ...options.resilience, shouldRetry: () => !emitted }),
+    // Replay recordings word by word so the client still sees a stream
+    (recorded) => recorded.content.match(/\S+\s*|\s+/g)?.forEach(onToken)
+  )
+
+  await meterResult(options, result)
+  return result
 }
 
-async function generateWithClaude(options: GenerateOptions): Promise<GenerateResult> {
-  const anthropic = getAnthropicClient()
+// Everything that determines a completion; streaming and non-streaming calls share recordings
+function getFixtureRequest(options: GenerateOptions) {
+  return {
+    model: options.model,
+    systemPrompt: options.systemPrompt,
+    messages: options.messages,
+    maxTokens: options.maxTokens ?? null,
+    temperature: options.temperature ?? null,
+    responseFormat: options.responseFormat ?? 'text',
+  }
+}
+
+async function meterResult(options: GenerateOptions, result: GenerateResult): Promise<void> {
+  if (options.usage) {
+    await recordUsage(options.usage, result.model, result.provider, result.usage)
+  }
+}
+
+// Fallback when a provider does not report token counts
+function estimateUsage(options: GenerateOptions, content: string): TokenUsage {
+  const prompt = options.systemPrompt + options.messages.map((msg) => msg.content).join('\n')
+  return {
+    inputTokens: estimateTokens(prompt),
+    outputTokens: estimateTokens(content),
+  }
+}
 
-  const response = await anthropic.messages.create({
+// Claude has no JSON mode; callers asking for JSON rely on the prompt and validate the output
+function buildClaudeParams(options: GenerateOptions) {
+  return {
     model: options.model,
     max_tokens: options.maxTokens ?? 1024,
     temperature: options.temperature ?? 0.7,
@@ -80,7 +218,13 @@ async function generateWithClaude(options: GenerateOptions): Promise<GenerateRes
       role: msg.role,
       content: msg.content,
     })),
-  })
+  }
+}
+
+async function generateWithClaude(options: GenerateOptions, signal: AbortSignal): Promise<GenerateResult> {
+  const anthropic = getAnthropicClient()
+
+  const response = await anthropic.messages.create(buildClaudeParams(options), { signal })
 
   const textContent = response.content.find((block) => block.type === 'text')
   const content = textContent?.type === 'text' ? textContent.text : ''
@@ -89,10 +233,34 @@ async function generateWithClaude(options: GenerateOptions): Promise<GenerateRes
     content,
     model: options.model,
     provider: 'anthropic',
+    usage: {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    },
   }
 }
 
-async function generateWithGemini(options: GenerateOptions): Promise<GenerateResult> {
+async function streamWithClaude(options: GenerateOptions, onToken: TokenHandler, signal: AbortSignal): Promise<GenerateResult> {
+  const anthropic = getAnthropicClient()
+
+  const stream = anthropic.messages.stream(buildClaudeParams(options), { signal })
+  stream.on('text', (text) => onToken(text))
+
+  const content = await stream.finalText()
+  const message = await stream.finalMessage()
+
+  return {
+    content,
+    model: options.model,
+    provider: 'anthropic',
+    usage: {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+    },
+  }
+}
+
+function startGeminiChat(options: GenerateOptions) {
   const google = getGoogleClient()
   // Normalize model name to handle deprecated aliases
   const modelName = normalizeModelName(options.model)
@@ -106,6 +274,7 @@ async function generateWithGemini(options: GenerateOptions): Promise<GenerateRes
     generationConfig: {
       maxOutputTokens: options.maxTokens ?? 1024,
       temperature: options.temperature ?? 0.7,
+      ...(options.responseFormat === 'json' ? { responseMimeType: 'application/json' } : {}),
     },
   })
 
@@ -123,7 +292,13 @@ async function generateWithGemini(options: GenerateOptions): Promise<GenerateRes
     history: history as any,
   })
 
-  const result = await chat.sendMessage(lastMessage.content)
+  return { chat, lastMessage }
+}
+
+async function generateWithGemini(options: GenerateOptions, signal: AbortSignal): Promise<GenerateResult> {
+  const { chat, lastMessage } = startGeminiChat(options)
+
+  const result = await chat.sendMessage(lastMessage.content, { signal })
   const response = result.response
   const content = response.text()
 
@@ -131,6 +306,380 @@ async function generateWithGemini(options: GenerateOptions): Promise<GenerateRes
     content,
     model: options.model,
     provider: 'google',
+    usage: getGeminiUsage(response.usageMetadata) ?? estimateUsage(options, content),
+  }
+}
+
+async function streamWithGemini(options: GenerateOptions, onToken: TokenHandler, signal: AbortSignal): Promise<GenerateResult> {
+  const { chat, lastMessage } = startGeminiChat(options)
+
+  const result = await chat.sendMessageStream(lastMessage.content, { signal })
+
+  let content = ''
+  for await (const chunk of result.stream) {
+    const text = chunk.text()
+    if (text) {
+      content += text
+      onToken(text)
+    }
+  }
+
+  const response = await result.response
+
+  return {
+    content,
+    model: options.model,
+    provider: 'google',
+    usage: getGeminiUsage(response.usageMetadata) ?? estimateUsage(options, content),
+  }
+}
+
+function getGeminiUsage(
+  metadata?: { promptTokenCount?: number; candidatesTokenCount?: number }
+): TokenUsage | null {
+  if (!metadata) return null
+  return {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: metadata.candidatesTokenCount ?? 0,
+  }
+}
+
+async function requestLocalCompletion(options: GenerateOptions, stream: boolean, signal: AbortSignal): Promise<Response> {
+  const { baseUrl, apiKey } = getLocalEndpoint()
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: options.model.slice(LOCAL_MODEL_PREFIX.length),
+      max_tokens: options.maxTokens ?? 1024,
+      temperature: options.temperature ?? 0.7,
+      messages: [
+        { role: 'system', content: options.systemPrompt },
+        ...options.messages,
+      ],
+      stream,
+      ...(options.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+      // Ask for a final usage chunk when streaming
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+    }),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    // Keep the status so withResilience can tell 429/5xx from bad requests
+    throw Object.assign(new Error(`Local LLM error (${response.status}): ${errorText}`), { status: response.status })
+  }
+
+  return response
+}
+
+async function generateWithLocal(options: GenerateOptions, signal: AbortSignal): Promise<GenerateResult> {
+  const response = await requestLocalCompletion(options, false, signal)
+  const data = await response.json()
+  const content = data.choices?.[0]?.message?.content ?? ''
+
+  return {
+    content,
+    model: options.model,
+    provider: 'local',
+    usage: getLocalUsage(data.usage) ?? estimateUsage(options, content),
+  }
+}
+
+async function streamWithLocal(options: GenerateOptions, onToken: TokenHandler, signal: AbortSignal): Promise<GenerateResult> {
+  const response = await requestLocalCompletion(options, true, signal)
+
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('Local LLM returned no response stream')
+  }
+
+  // OpenAI-style SSE: "data: {json}" lines terminated by "data: [DONE]"
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let content = ''
+  let usage: TokenUsage | null = null
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      const trimmed = line.trim()
+      if (!trimmed.startsWith('data:')) continue
+
+      const payload = trimmed.slice(5).trim()
+      if (payload === '[DONE]') continue
+
+      const data = JSON.parse(payload)
+      usage = getLocalUsage(data.usage) ?? usage
+
+      const text = data.choices?.[0]?.delta?.content
+      if (text) {
+        content += text
+        onToken(text)
+      }
+    }
+  }
+
+  return {
+    content,
+    model: options.model,
+    provider: 'local',
+    usage: usage ?? estimateUsage(options, content),
+  }
+}
+
+function getLocalUsage(usage?: { prompt_tokens?: number; completion_tokens?: number } | null): TokenUsage | null {
+  if (!usage) return null
+  return {
+    inputTokens: usage.prompt_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? 0,
+  }
+}
+
+/**
+ * Whether a model can be given tools (Claude and Gemini; local models answer without them)
+ */
+export function supportsTools(model: AIModel): boolean {
+  return getModelProvider(model) !== 'local'
+}
+
+/**
+ * Generate a response, letting the model call tools until it answers
+ * Each round streams its text through onToken when given. The last round is
+ * made with tools disabled so the loop always ends in an answer.
+ */
+export async function generateWithTools(
+  options: GenerateOptions,
+  toolOptions: ToolOptions,
+  onToken?: TokenHandler
+): Promise<GenerateResult> {
+  const provider = getModelProvider(options.model)
+
+  if (provider === 'local') {
+    return onToken ? streamResponse(options, onToken) : generateResponse(options)
+  }
+
+  const maxRounds = toolOptions.maxRounds ?? 5
+  const turns: ToolTurn[] = options.messages.map((msg) =>
+    msg.role === 'user'
+      ? { role: 'user', content: msg.content }
+      : { role: 'assistant', content: msg.content, toolCalls: [] }
+  )
+
+  let content = ''
+  let separatorPending = false
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 }
+
+  // Text from successive rounds is separated by a blank line
+  const append: TokenHandler = (token) => {
+    if (separatorPending) {
+      separatorPending = false
+      content += '\n\n'
+      onToken?.('\n\n')
+    }
+    content += token
+    onToken?.(token)
+  }
+  const streamToken = onToken ? append : undefined
+
+  for (let round = 0; round < maxRounds; round++) {
+    const allowTools = round < maxRounds - 1
+    separatorPending = content.length > 0
+    const streamed = content.length
+
+    const result = await withFixture(
+      'completion',
+      { ...getFixtureRequest(options), turns, tools: toolOptions.tools.map((t) => t.name), allowTools },
+      () => withResilience(provider, (signal, touch) => {
+        const onChunk: TokenHandler | undefined = streamToken && ((token) => {
+          touch()
+          streamToken(token)
+        })
+        return provider === 'google'
+          ? runGeminiToolRound(options, turns, toolOptions.tools, allowTools, signal, onChunk)
+          : runClaudeToolRound(options, turns, toolOptions.tools, allowTools, signal, onChunk)
+      },
+      // A round may only be retried if it has not streamed anything yet
+      { ...options.resilience, shouldRetry: () => content.length === streamed }),
+      (recorded) => recorded.content && streamToken?.(recorded.content)
+    )
+
+    if (!onToken && result.content) {
+      append(result.content)
+    }
+    usage.inputTokens += result.usage.inputTokens
+    usage.outputTokens += result.usage.outputTokens
+
+    if (result.toolCalls.length === 0) {
+      break
+    }
+
+    const results = await Promise.all(
+      result.toolCalls.map(async (call) => ({ call, output: await toolOptions.execute(call) }))
+    )
+
+    turns.push({ role: 'assistant', content: result.content, toolCalls: result.toolCalls })
+    turns.push({ role: 'tool', results })
+  }
+
+  const final: GenerateResult = { content, model: options.model, provider, usage }
+  await meterResult(options, final)
+  return final
+}
+
+async function runClaudeToolRound(
+  options: GenerateOptions,
+  turns: ToolTurn[],
+  tools: ToolDefinition[],
+  allowTools: boolean,
+  signal: AbortSignal,
+  onToken?: TokenHandler
+): Promise<ToolRound> {
+  const anthropic = getAnthropicClient()
+
+  const messages: Anthropic.MessageParam[] = turns.map((turn) => {
+    if (turn.role === 'user') {
+      return { role: 'user', content: turn.content }
+    }
+    if (turn.role === 'assistant') {
+      return {
+        role: 'assistant',
+        content: [
+          ...(turn.content ? [{ type: 'text' as const, text: turn.content }] : []),
+          ...turn.toolCalls.map((call) => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.name,
+            input: call.input,
+          })),
+        ],
+      }
+    }
+    return {
+      role: 'user',
+      content: turn.results.map(({ call, output }) => ({
+        type: 'tool_result' as const,
+        tool_use_id: call.id,
+        content: output,
+      })),
+    }
+  })
+
+  const stream = anthropic.messages.stream({
+    ...buildClaudeParams(options),
+    messages,
+    tools: tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    })),
+    // Tools stay declared on the last round because earlier turns reference them
+    tool_choice: { type: allowTools ? 'auto' : 'none' },
+  }, { signal })
+  if (onToken) {
+    stream.on('text', (text) => onToken(text))
+  }
+
+  const message = await stream.finalMessage()
+
+  return {
+    content: message.content.map((block) => (block.type === 'text' ? block.text : '')).join(''),
+    toolCalls: message.content.flatMap((block) =>
+      block.type === 'tool_use'
+        ? [{ id: block.id, name: block.name, input: (block.input ?? {}) as Record<string, unknown> }]
+        : []
+    ),
+    usage: {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+    },
+  }
+}
+
+async function runGeminiToolRound(
+  options: GenerateOptions,
+  turns: ToolTurn[],
+  tools: ToolDefinition[],
+  allowTools: boolean,
+  signal: AbortSignal,
+  onToken?: TokenHandler
+): Promise<ToolRound> {
+  const google = getGoogleClient()
+  const model = google.getGenerativeModel({
+    model: normalizeModelName(options.model),
+    systemInstruction: {
+      role: 'user',
+      parts: [{ text: options.systemPrompt }],
+    },
+    generationConfig: {
+      maxOutputTokens: options.maxTokens ?? 1024,
+      temperature: options.temperature ?? 0.7,
+    },
+    tools: [{ functionDeclarations: tools as FunctionDeclaration[] }],
+    toolConfig: {
+      functionCallingConfig: { mode: allowTools ? FunctionCallingMode.AUTO : FunctionCallingMode.NONE },
+    },
+  })
+
+  const contents = turns.map((turn) => {
+    if (turn.role === 'user') {
+      return { role: 'user', parts: [{ text: turn.content }] }
+    }
+    if (turn.role === 'assistant') {
+      return {
+        role: 'model',
+        parts: [
+          ...(turn.content ? [{ text: turn.content }] : []),
+          ...turn.toolCalls.map((call) => ({ functionCall: { name: call.name, args: call.input } })),
+        ],
+      }
+    }
+    return {
+      role: 'function',
+      parts: turn.results.map(({ call, output }) => ({
+        functionResponse: { name: call.name, response: { name: call.name, content: output } },
+      })),
+    }
+  })
+
+  const result = await model.generateContentStream({ contents }, { signal })
+
+  let content = ''
+  for await (const chunk of result.stream) {
+    // Read text parts directly; chunk.text() warns on chunks that only hold function calls
+    const text = chunk.candidates?.[0]?.content?.parts?.map((part) => part.text ?? '').join('') ?? ''
+    if (text) {
+      content += text
+      onToken?.(text)
+    }
+  }
+
+  const response = await result.response
+  const calls = response.functionCalls() ?? []
+
+  return {
+    content,
+    // Gemini does not assign call ids
+    toolCalls: calls.map((call, index) => ({
+      id: `${call.name}-${turns.length}-${index}`,
+      name: call.name,
+      input: (call.args ?? {}) as Record<string, unknown>,
+    })),
+    usage: getGeminiUsage(response.usageMetadata) ?? {
+      inputTokens: estimateTokens(JSON.stringify(contents)),
+      outputTokens: estimateTokens(content),
+    },
   }
 }
 
@@ -141,13 +690,15 @@ export async function generateSimple(
   model: AIModel,
   systemPrompt: string,
   userMessage: string,
-  maxTokens?: number
+  maxTokens?: number,
+  usage?: UsageContext
 ): Promise<string> {
   const result = await generateResponse({
     model,
     systemPrompt,
     messages: [{ role: 'user', content: userMessage }],
     maxTokens,
+    usage,
   })
   return result.content
 }
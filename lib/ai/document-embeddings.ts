@@ -0,0 +1,86 @@
+import { db, documentChunks } from '@/lib/db'
+import { eq, and, or, isNull } from 'drizzle-orm'
+import {
+  generateEmbedding,
+  getEmbeddingModelId,
+  isEmbeddingConfigured,
+} from './embeddings'
+import { getEmbeddingTargets, EmbeddingTarget } from './embedding-versions'
+import { chunkContent } from './chunker'
+import { ensureDocumentChunksTable, ensureEmbeddingVersionsTable } from '@/lib/db/migrations'
+
+/**
+ * Sync passage embeddings for an uploaded document
+ * - Chunks the raw document text
+ * - Generates embeddings for each passage
+ * - Stores them in document_chunks so RAG can cite the original text
+ *
+ * Targets the same versions as syncEntityEmbeddings; builds pass theirs and get failures thrown.
+ *
+ * @returns Number of passages stored in the active version (or the given target)
+ */
+export async function syncDocumentEmbeddings(
+  documentId: string,
+  campaignId: string,
+  name: string,
+  content: string,
+  target?: EmbeddingTarget
+): Promise<number> {
+  console.log('[DocumentEmbeddings] Syncing embeddings for document:', name)
+
+  const targets = target ? [target] : await getEmbeddingTargets(campaignId)
+
+  await ensureDocumentChunksTable()
+  await ensureEmbeddingVersionsTable()
+
+  let storedCount = 0
+  for (const [targetIndex, { version, config }] of targets.entries()) {
+    if (!isEmbeddingConfigured(config)) {
+      console.log('[DocumentEmbeddings] Skipping version', version, '- embedding provider not configured:', config.provider)
+      continue
+    }
+
+    await db.delete(documentChunks).where(and(
+      eq(documentChunks.documentId, documentId),
+      or(eq(documentChunks.embeddingVersion, version), isNull(documentChunks.embeddingVersion))
+    ))
+
+    if (!content.trim()) {
+      console.log('[DocumentEmbeddings] Skipping: content is empty')
+      return 0
+    }
+
+    const passages = chunkContent(content, name)
+    console.log('[DocumentEmbeddings] Created', passages.length, 'passages from document')
+
+    let successCount = 0
+    for (const passage of passages) {
+      try {
+        const embedding = await generateEmbedding(passage.text, 'retrieval.passage', config, {
+          usage: { campaignId, purpose: 'embedding' },
+        })
+
+        await db.insert(documentChunks).values({
+          documentId,
+          campaignId,
+          content: passage.text,
+          chunkIndex: passage.index,
+          headerPath: passage.metadata?.headers || [],
+          embedding,
+          embeddingModel: getEmbeddingModelId(config),
+          embeddingDimensions: embedding.length,
+          embeddingVersion: version,
+        })
+        successCount++
+      } catch (error) {
+        if (target) throw error
+        console.error(`[DocumentEmbeddings] Failed to embed passage ${passage.index}:`, error)
+      }
+    }
+
+    console.log('[DocumentEmbeddings] Completed:', successCount, 'of', passages.length, 'passages stored for version', version)
+    if (targetIndex === 0) storedCount = successCount
+  }
+
+  return storedCount
+}
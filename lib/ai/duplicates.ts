@@ -0,0 +1,287 @@
+import { db, sql, entities, relationships } from '@/lib/db'
+import { eq } from 'drizzle-orm'
+import { getActiveEmbeddingVersion } from './embedding-versions'
+import { calculateNameSimilarity } from './extraction/dedup'
+import { canonicalizeName } from '@/lib/canonical-names'
+import { ensureChunkEmbeddingMetadata, ensureEmbeddingVersionsTable } from '@/lib/db/migrations'
+import type { DuplicateCluster, DuplicateClusterEntity, DuplicatePair, DuplicateSignals } from '@/lib/types'
+
+/**
+ * Campaign-wide duplicate finder
+ *
+ * Extraction review only compares new names with existing ones, so near-duplicates
+ * that came in under different names ("The Crimson Hand", "Red Hand Cult")
+ * pile up. This scans every pair of entities on four signals: name similarity,
+ * shared aliases, how close their pages are in embedding space, and how many
+ * entities they are both related to. Signals are combined as independent
+ * evidence, and pairs that clear the score are joined into clusters for the
+ * DM to merge.
+ */
+
+export interface DuplicateScanOptions {
+  minScore?: number // Pairs scoring below this are left out
+}
+
+export const DEFAULT_DUPLICATE_MIN_SCORE = 0.5
+
+// Names less alike than this say nothing; most unrelated names score 0.3-0.6
+const NAME_THRESHOLD = 0.75
+
+// Shorter names sit inside too many others; they still count as shared aliases
+const MIN_NAME_LENGTH = 4
+
+// Page embeddings of unrelated entities in one campaign are often this close
+const CONTENT_THRESHOLD = 0.8
+
+// One shared neighbour is common (two taverns in the same city)
+const MIN_SHARED_NEIGHBOURS = 2
+
+// How much each signal counts on its own. Shared neighbours alone never make a
+// pair, since siblings share them too.
+const NAME_WEIGHT = 0.85
+const ALIAS_WEIGHT = 0.95
+const CONTENT_WEIGHT = 0.8
+const RELATIONSHIP_WEIGHT = 0.45
+
+// Entities of different types are rarely the same thing
+const TYPE_MISMATCH_FACTOR = 0.7
+
+const MAX_CLUSTERS = 100
+
+interface ScannedEntity {
+  entity: DuplicateClusterEntity
+  names: string[] // Canonical name and aliases
+}
+
+/**
+ * Find clusters of entities that are likely the same thing, strongest first
+ */
+export async function findDuplicateClusters(
+  campaignId: string,
+  options: DuplicateScanOptions = {}
+): Promise<DuplicateCluster[]> {
+  const minScore = options.minScore ?? DEFAULT_DUPLICATE_MIN_SCORE
+
+  const rows = await db.query.entities.findMany({
+    where: eq(entities.campaignId, campaignId),
+    columns: { id: true, name: true, canonicalName: true, entityType: true, aliases: true, isDmOnly: true, content: true },
+  })
+  if (rows.length < 2) return []
+
+  const neighbours = await getNeighbours(campaignId)
+  const contentSimilarity = await getContentSimilarity(campaignId)
+
+  const scanned: ScannedEntity[] = rows.map((row) => ({
+    entity: {
+      id: row.id,
+      name: row.name,
+      entityType: row.entityType,
+      aliases: row.aliases || [],
+      isDmOnly: row.isDmOnly ?? false,
+      contentLength: (row.content || '').length,
+      relationshipCount: neighbours.get(row.id)?.size ?? 0,
+    },
+    names: Array.from(new Set(
+      [row.canonicalName, ...(row.aliases || []).map(canonicalizeName)].filter(Boolean)
+    )),
+  }))
+
+  const pairs: DuplicatePair[] = []
+  for (let i = 0; i < scanned.length; i++) {
+    for (let j = i + 1; j < scanned.length; j++) {
+      const a = scanned[i]
+      const b = scanned[j]
+      const signals: DuplicateSignals = {
+        name: nameSimilarity(a.names, b.names),
+        aliases: aliasOverlap(a.names, b.names),
+        content: contentSimilarity.get(pairKey(a.entity.id, b.entity.id)) ?? 0,
+        relationships: neighbourOverlap(a.entity.id, b.entity.id, neighbours),
+      }
+
+      const score = scoreSignals(signals) * (a.entity.entityType === b.entity.entityType ? 1 : TYPE_MISMATCH_FACTOR)
+      if (score >= minScore) {
+        pairs.push({ entityIds: [a.entity.id, b.entity.id], score, signals })
+      }
+    }
+  }
+
+  console.log('[Duplicates] Scanned', scanned.length, 'entities,', pairs.length, 'likely duplicate pairs')
+
+  return clusterPairs(pairs, new Map(scanned.map(({ entity }) => [entity.id, entity])))
+    .slice(0, MAX_CLUSTERS)
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`
+}
+
+// Combined as independent evidence: each signal removes part of the remaining doubt
+function scoreSignals(signals: DuplicateSignals): number {
+  const evidence = [
+    signals.name >= NAME_THRESHOLD ? signals.name * NAME_WEIGHT : 0,
+    signals.aliases * ALIAS_WEIGHT,
+    signals.content >= CONTENT_THRESHOLD
+      ? ((signals.content - CONTENT_THRESHOLD) / (1 - CONTENT_THRESHOLD)) * CONTENT_WEIGHT
+      : 0,
+    signals.relationships * RELATIONSHIP_WEIGHT,
+  ]
+  return 1 - evidence.reduce((doubt, value) => doubt * (1 - value), 1)
+}
+
+// Best match between any name of one and any name of the other
+function nameSimilarity(namesA: string[], namesB: string[]): number {
+  let best = 0
+  for (const a of namesA) {
+    for (const b of namesB) {
+      if (a.length < MIN_NAME_LENGTH || b.length < MIN_NAME_LENGTH) continue
+
+      // Edit distance can't bring names this different in length above the threshold
+      const lengthBound = 1 - Math.abs(a.length - b.length) / Math.max(a.length, b.length, 1)
+      if (lengthBound < NAME_THRESHOLD && !a.includes(b) && !b.includes(a)) continue
+
+      best = Math.max(best, calculateNameSimilarity(a, b))
+      if (best === 1) return best
+    }
+  }
+  return best
+}
+
+// Shared names over the names of the one with fewer
+function aliasOverlap(namesA: string[], namesB: string[]): number {
+  const shared = namesA.filter((name) => namesB.includes(name)).length
+  return shared / Math.max(Math.min(namesA.length, namesB.length), 1)
+}
+
+// Jaccard overlap of the entities each is related to, not counting each other
+function neighbourOverlap(a: string, b: string, neighbours: Map<string, Set<string>>): number {
+  if ((neighbours.get(a)?.size ?? 0) < MIN_SHARED_NEIGHBOURS) return 0
+  if ((neighbours.get(b)?.size ?? 0) < MIN_SHARED_NEIGHBOURS) return 0
+
+  const of = (id: string, other: string) =>
+    Array.from(neighbours.get(id) ?? []).filter((neighbour) => neighbour !== other)
+  const neighboursA = of(a, b)
+  const neighboursB = new Set(of(b, a))
+
+  const shared = neighboursA.filter((id) => neighboursB.has(id)).length
+  if (shared < MIN_SHARED_NEIGHBOURS) return 0
+  return shared / (neighboursA.length + neighboursB.size - shared)
+}
+
+// Entities each entity is related to, in either direction
+async function getNeighbours(campaignId: string): Promise<Map<string, Set<string>>> {
+  const rows = await db
+    .select({ source: relationships.sourceEntityId, target: relationships.targetEntityId })
+    .from(relationships)
+    .where(eq(relationships.campaignId, campaignId))
+
+  const neighbours = new Map<string, Set<string>>()
+  const add = (from: string, to: string) => {
+    if (!neighbours.has(from)) neighbours.set(from, new Set())
+    neighbours.get(from)!.add(to)
+  }
+  for (const { source, target } of rows) {
+    add(source, target)
+    add(target, source)
+  }
+  return neighbours
+}
+
+/**
+ * Cosine similarity of entity pages above the threshold, keyed by pair
+ * An entity's page is the average of its chunk vectors in the active version.
+ * Campaigns without embeddings get an empty map and are scanned on the other signals.
+ */
+async function getContentSimilarity(campaignId: string): Promise<Map<string, number>> {
+  const similarity = new Map<string, number>()
+
+  try {
+    await ensureChunkEmbeddingMetadata()
+    await ensureEmbeddingVersionsTable()
+
+    const { version } = await getActiveEmbeddingVersion(campaignId)
+    const [sample] = await sql`
+      SELECT embedding_dimensions FROM chunks
+      WHERE campaign_id = ${campaignId}
+        AND embedding_version = ${version}
+        AND embedding IS NOT NULL
+      LIMIT 1
+    `
+    const dimensions = Number(sample?.embedding_dimensions)
+    if (!Number.isInteger(dimensions) || dimensions <= 0) return similarity
+
+    const vectorType = sql.unsafe(`vector(${dimensions})`)
+    const rows = await sql`
+      WITH pages AS (
+        SELECT entity_id, avg(embedding::${vectorType}) AS embedding
+        FROM chunks
+        WHERE campaign_id = ${campaignId}
+          AND embedding_version = ${version}
+          AND embedding_dimensions = ${dimensions}
+          AND embedding IS NOT NULL
+        GROUP BY entity_id
+      )
+      SELECT a.entity_id AS a_id, b.entity_id AS b_id, 1 - (a.embedding <=> b.embedding) AS similarity
+      FROM pages a
+      JOIN pages b ON a.entity_id < b.entity_id
+      WHERE 1 - (a.embedding <=> b.embedding) >= ${CONTENT_THRESHOLD}
+    `
+
+    for (const row of rows) {
+      similarity.set(pairKey(row.a_id, row.b_id), Number(row.similarity))
+    }
+  } catch (error) {
+    // Content is one signal of four; the scan goes on without it
+    console.warn('[Duplicates] Content similarity failed:', error)
+  }
+
+  return similarity
+}
+
+/**
+ * Join pairs that share an entity into clusters (union-find)
+ * Clusters can chain (A like B, B like C); the DM picks which members to merge.
+ */
+function clusterPairs(
+  pairs: DuplicatePair[],
+  entitiesById: Map<string, DuplicateClusterEntity>
+): DuplicateCluster[] {
+  const parent = new Map<string, string>()
+  const find = (id: string): string => {
+    const up = parent.get(id) ?? id
+    if (up === id) return id
+    const root = find(up)
+    parent.set(id, root)
+    return root
+  }
+
+  for (const { entityIds: [a, b] } of pairs) {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA !== rootB) parent.set(rootA, rootB)
+  }
+
+  const pairsByRoot = new Map<string, DuplicatePair[]>()
+  for (const pair of pairs) {
+    const root = find(pair.entityIds[0])
+    pairsByRoot.set(root, [...(pairsByRoot.get(root) ?? []), pair])
+  }
+
+  const clusters: DuplicateCluster[] = []
+  for (const clusterPairs of Array.from(pairsByRoot.values())) {
+    const ids = Array.from(new Set(clusterPairs.flatMap((pair) => pair.entityIds)))
+    const members = ids
+      .map((id) => entitiesById.get(id))
+      .filter((entity): entity is DuplicateClusterEntity => !!entity)
+      .sort((a, b) => b.relationshipCount - a.relationshipCount || b.contentLength - a.contentLength)
+
+    clusterPairs.sort((a, b) => b.score - a.score)
+    clusters.push({
+      entities: members,
+      pairs: clusterPairs,
+      score: clusterPairs[0].score,
+      suggestedPrimaryId: members[0].id,
+    })
+  }
+
+  return clusters.sort((a, b) => b.score - a.score || b.entities.length - a.entities.length)
+}
@@ -0,0 +1,325 @@
+import { db, entities, documents, chunks, documentChunks, embeddingVersions, campaigns, EmbeddingVersion } from '@/lib/db'
+import { eq, and, gt, asc, desc, ne, or, isNull, max, sql } from 'drizzle-orm'
+import { isEmbeddingConfigured, EmbeddingConfig } from './embeddings'
+import {
+  getActiveEmbeddingVersion,
+  getVersionConfig,
+  isSameEmbeddingConfig,
+  EmbeddingTarget,
+} from './embedding-versions'
+import { syncEntityEmbeddings } from './entity-embeddings'
+import { syncDocumentEmbeddings } from './document-embeddings'
+import { getCampaignSettings } from '@/lib/campaign-settings'
+import { ensureVectorIndexes } from '@/lib/db/migrations'
+
+/**
+ * Embedding builds
+ *
+ * A build embeds every entity and document of a campaign into a new version,
+ * in id order, saving a cursor after each item. Search keeps reading the active
+ * version meanwhile; the build replaces it once every item is embedded and the
+ * old vectors are deleted. A pass that leaves failed items marks the build
+ * failed instead, and a retry runs the pass again. Builds run as reindex jobs (lib/jobs), so a build whose runner
+ * died is resumed from its cursor along with its job.
+ */
+
+export interface EmbeddingIndexStatus {
+  active: EmbeddingVersion
+  building: EmbeddingVersion | null
+  lastFailed: EmbeddingVersion | null // Most recent failed build, if newer than the active version
+  settingsPending: boolean // The configured backend matches neither the active version nor the build
+}
+
+export interface EmbeddingBuildOptions {
+  signal?: AbortSignal // Stop between items, leaving the build to be resumed
+  onProgress?: (build: EmbeddingVersion) => void | Promise<void> // After each batch
+}
+
+const BATCH_SIZE = 25
+
+// A build that has not saved progress for this long is considered dead
+export const STALE_BUILD_MS = 2 * 60 * 1000
+
+// The provider is probably down; stop rather than skip the whole campaign
+const MAX_CONSECUTIVE_FAILURES = 5
+
+// Builds running in this process
+const runningBuilds = new Set<string>()
+
+/**
+ * Start building a new version with the given backend
+ * Any build already in progress is abandoned in favour of this one.
+ */
+export async function startEmbeddingBuild(
+  campaignId: string,
+  config: EmbeddingConfig,
+  createdBy?: string
+): Promise<EmbeddingVersion> {
+  if (!isEmbeddingConfigured(config)) {
+    throw new Error(`Embedding provider "${config.provider}" is not configured. Embeddings cannot be generated.`)
+  }
+
+  // Make sure version 1 exists so existing vectors stay searchable during the build
+  await getActiveEmbeddingVersion(campaignId)
+
+  await db
+    .update(embeddingVersions)
+    .set({ status: 'superseded', updatedAt: new Date() })
+    .where(and(eq(embeddingVersions.campaignId, campaignId), eq(embeddingVersions.status, 'building')))
+
+  const [{ latest }] = await db
+    .select({ latest: max(embeddingVersions.version) })
+    .from(embeddingVersions)
+    .where(eq(embeddingVersions.campaignId, campaignId))
+
+  const [entityCount] = await db.select({ count: sql<number>`count(*)::int` }).from(entities).where(eq(entities.campaignId, campaignId))
+  const [documentCount] = await db.select({ count: sql<number>`count(*)::int` }).from(documents).where(eq(documents.campaignId, campaignId))
+
+  const [build] = await db
+    .insert(embeddingVersions)
+    .values({
+      campaignId,
+      version: (latest ?? 0) + 1,
+      provider: config.provider,
+      model: config.model,
+      dimensions: config.dimensions ?? null,
+      status: 'building',
+      totalItems: entityCount.count + documentCount.count,
+      createdBy: createdBy ?? null,
+    })
+    .returning()
+
+  console.log('[EmbeddingBuild] Created version', build.version, 'for campaign', campaignId, 'with', build.totalItems, 'items')
+
+  return build
+}
+
+/**
+ * Embed everything after the build's cursor, then make the build the active version
+ * Throws when the build fails, after marking it failed; see reviveEmbeddingBuild.
+ */
+export async function runEmbeddingBuild(versionId: string, options: EmbeddingBuildOptions = {}): Promise<void> {
+  if (runningBuilds.has(versionId)) return
+  runningBuilds.add(versionId)
+
+  try {
+    let consecutiveFailures = 0
+
+    while (true) {
+      options.signal?.throwIfAborted()
+
+      const build = await db.query.embeddingVersions.findFirst({
+        where: eq(embeddingVersions.id, versionId),
+      })
+      if (!build || build.status !== 'building') {
+        console.log('[EmbeddingBuild] Build', versionId, 'is no longer building, stopping')
+        return
+      }
+
+      const target: EmbeddingTarget = { version: build.version, config: getVersionConfig(build) }
+      const batch = build.phase === 'entities'
+        ? await db
+            .select({ id: entities.id, name: entities.name, content: entities.content })
+            .from(entities)
+            .where(and(eq(entities.campaignId, build.campaignId), build.cursor ? gt(entities.id, build.cursor) : undefined))
+            .orderBy(asc(entities.id))
+            .limit(BATCH_SIZE)
+        : await db
+            .select({ id: documents.id, name: documents.name, content: documents.content })
+            .from(documents)
+            .where(and(eq(documents.campaignId, build.campaignId), build.cursor ? gt(documents.id, build.cursor) : undefined))
+            .orderBy(asc(documents.id))
+            .limit(BATCH_SIZE)
+
+      if (batch.length === 0) {
+        if (build.phase === 'entities') {
+          await db
+            .update(embeddingVersions)
+            .set({ phase: 'documents', cursor: null, updatedAt: new Date() })
+            .where(eq(embeddingVersions.id, versionId))
+          continue
+        }
+
+        // Activating would drop the old vectors of the items that failed; keep the active version
+        if (build.failedItems > 0) {
+          await db
+            .update(embeddingVersions)
+            .set({
+              status: 'failed',
+              phase: 'entities',
+              cursor: null,
+              lastError: `${build.failedItems} items could not be embedded (last error: ${build.lastError}). Retry to embed them again.`,
+              updatedAt: new Date(),
+            })
+            .where(and(eq(embeddingVersions.id, versionId), eq(embeddingVersions.status, 'building')))
+          throw new Error(`${build.failedItems} items could not be embedded`)
+        }
+
+        await activateEmbeddingVersion(build)
+        return
+      }
+
+      for (const item of batch) {
+        let error: string | null = null
+        try {
+          if (build.phase === 'entities') {
+            await syncEntityEmbeddings(item.id, build.campaignId, item.name, item.content || '', target)
+          } else {
+            await syncDocumentEmbeddings(item.id, build.campaignId, item.name, item.content || '', target)
+          }
+          consecutiveFailures = 0
+        } catch (err) {
+          error = err instanceof Error ? err.message : String(err)
+          consecutiveFailures++
+          console.error(`[EmbeddingBuild] Failed to embed ${build.phase} ${item.id}:`, err)
+        }
+
+        await db
+          .update(embeddingVersions)
+          .set({
+            cursor: item.id,
+            processedItems: sql`${embeddingVersions.processedItems} + 1`,
+            ...(error ? { failedItems: sql`${embeddingVersions.failedItems} + 1`, lastError: error } : {}),
+            updatedAt: new Date(),
+          })
+          .where(eq(embeddingVersions.id, versionId))
+
+        if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+          throw new Error(`Stopped after ${consecutiveFailures} failures in a row: ${error}`)
+        }
+      }
+
+      await options.onProgress?.({ ...build, processedItems: build.processedItems + batch.length })
+    }
+  } catch (error) {
+    // A stopped runner leaves the build where it is; its job resumes it
+    if (options.signal?.aborted) throw error
+
+    console.error('[EmbeddingBuild] Build failed:', error)
+    await db
+      .update(embeddingVersions)
+      .set({
+        status: 'failed',
+        lastError: error instanceof Error ? error.message : String(error),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(embeddingVersions.id, versionId), eq(embeddingVersions.status, 'building')))
+    throw error
+  } finally {
+    runningBuilds.delete(versionId)
+  }
+}
+
+/**
+ * Put a failed build back to building, so a retry continues from its cursor
+ * A build that failed at the end of its pass starts the pass over, which embeds
+ * the failed items again. Returns false when it cannot continue: it is not
+ * failed, or a newer build exists.
+ */
+export async function reviveEmbeddingBuild(versionId: string): Promise<boolean> {
+  const build = await db.query.embeddingVersions.findFirst({
+    where: eq(embeddingVersions.id, versionId),
+  })
+  if (!build || build.status !== 'failed') return false
+
+  const newer = await db.query.embeddingVersions.findFirst({
+    where: and(eq(embeddingVersions.campaignId, build.campaignId), gt(embeddingVersions.version, build.version)),
+    columns: { id: true },
+  })
+  if (newer) return false
+
+  const restart = build.phase === 'entities' && !build.cursor
+  await db
+    .update(embeddingVersions)
+    .set({
+      status: 'building',
+      ...(restart ? { processedItems: 0, failedItems: 0 } : {}),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(embeddingVersions.id, versionId), eq(embeddingVersions.status, 'failed')))
+
+  console.log('[EmbeddingBuild] Resuming failed build', build.version, 'for campaign', build.campaignId)
+  return true
+}
+
+/**
+ * Swap a finished build in for the active version and drop the old vectors
+ */
+async function activateEmbeddingVersion(build: EmbeddingVersion): Promise<void> {
+  // Index the new vectors before search starts reading them
+  const [sample] = await db
+    .select({ dimensions: chunks.embeddingDimensions })
+    .from(chunks)
+    .where(and(eq(chunks.campaignId, build.campaignId), eq(chunks.embeddingVersion, build.version)))
+    .limit(1)
+  if (sample?.dimensions) {
+    await ensureVectorIndexes(sample.dimensions)
+  }
+
+  const activated = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .update(embeddingVersions)
+      .set({ status: 'active', cursor: null, completedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(embeddingVersions.id, build.id), eq(embeddingVersions.status, 'building')))
+      .returning()
+    if (!current) return false // Superseded at the last moment
+
+    await tx
+      .update(embeddingVersions)
+      .set({ status: 'retired', updatedAt: new Date() })
+      .where(and(
+        eq(embeddingVersions.campaignId, build.campaignId),
+        eq(embeddingVersions.status, 'active'),
+        ne(embeddingVersions.id, build.id)
+      ))
+
+    await tx.delete(chunks).where(and(
+      eq(chunks.campaignId, build.campaignId),
+      or(ne(chunks.embeddingVersion, build.version), isNull(chunks.embeddingVersion))
+    ))
+    await tx.delete(documentChunks).where(and(
+      eq(documentChunks.campaignId, build.campaignId),
+      or(ne(documentChunks.embeddingVersion, build.version), isNull(documentChunks.embeddingVersion))
+    ))
+    return true
+  })
+
+  if (activated) {
+    console.log('[EmbeddingBuild] Version', build.version, 'is now active for campaign', build.campaignId)
+  }
+}
+
+/**
+ * Active version, build progress and whether the settings call for a new build
+ */
+export async function getEmbeddingIndexStatus(campaignId: string): Promise<EmbeddingIndexStatus> {
+  const active = await getActiveEmbeddingVersion(campaignId)
+
+  const building = await db.query.embeddingVersions.findFirst({
+    where: and(eq(embeddingVersions.campaignId, campaignId), eq(embeddingVersions.status, 'building')),
+    orderBy: [desc(embeddingVersions.version)],
+  }) ?? null
+
+  const failed = await db.query.embeddingVersions.findFirst({
+    where: and(
+      eq(embeddingVersions.campaignId, campaignId),
+      eq(embeddingVersions.status, 'failed'),
+      gt(embeddingVersions.version, active.version)
+    ),
+    orderBy: [desc(embeddingVersions.version)],
+  })
+
+  const campaign = await db.query.campaigns.findFirst({
+    where: eq(campaigns.id, campaignId),
+    columns: { settings: true },
+  })
+  const configured = getCampaignSettings(campaign?.settings).embedding
+  const settingsPending = !isSameEmbeddingConfig(configured, getVersionConfig(building ?? active))
+
+  return {
+    active,
+    building,
+    lastFailed: failed ?? null,
+    settingsPending,
+  }
+}
@@ -0,0 +1,131 @@
+import { db, chunks, documentChunks, embeddingVersions, EmbeddingVersion } from '@/lib/db'
+import { eq, and, isNull, desc } from 'drizzle-orm'
+import { getCampaignEmbeddingConfig, getEmbeddingModelId, EmbeddingConfig } from './embeddings'
+import { ensureEmbeddingVersionsTable } from '@/lib/db/migrations'
+
+/**
+ * Embedding versions
+ *
+ * Vectors from different models (or dimensions) cannot be compared, so each
+ * set of vectors a campaign has belongs to a numbered version. Search reads the
+ * active version only. Switching model builds a new version next to it (see
+ * embedding-builds.ts), and the new one replaces it once every entity and
+ * document has been embedded.
+ */
+
+export interface EmbeddingTarget {
+  version: number
+  config: EmbeddingConfig
+}
+
+/**
+ * Embedding backend a version was built with
+ */
+export function getVersionConfig(version: EmbeddingVersion): EmbeddingConfig {
+  return {
+    provider: version.provider,
+    model: version.model,
+    ...(version.dimensions ? { dimensions: version.dimensions } : {}),
+  }
+}
+
+/**
+ * Check whether two configs produce comparable vectors
+ */
+export function isSameEmbeddingConfig(a: EmbeddingConfig, b: EmbeddingConfig): boolean {
+  return getEmbeddingModelId(a) === getEmbeddingModelId(b) && (a.dimensions ?? null) === (b.dimensions ?? null)
+}
+
+function toTarget(version: EmbeddingVersion): EmbeddingTarget {
+  return { version: version.version, config: getVersionConfig(version) }
+}
+
+/**
+ * The version search reads
+ * Campaigns from before versions existed get version 1 on first use, built
+ * with the configured model; it claims the vectors that model already produced.
+ */
+export async function getActiveEmbeddingVersion(campaignId: string): Promise<EmbeddingVersion> {
+  await ensureEmbeddingVersionsTable()
+
+  const active = await db.query.embeddingVersions.findFirst({
+    where: and(eq(embeddingVersions.campaignId, campaignId), eq(embeddingVersions.status, 'active')),
+    orderBy: [desc(embeddingVersions.version)],
+  })
+  if (active) return active
+
+  const config = await getCampaignEmbeddingConfig(campaignId)
+  const [created] = await db
+    .insert(embeddingVersions)
+    .values({
+      campaignId,
+      version: 1,
+      provider: config.provider,
+      model: config.model,
+      dimensions: config.dimensions ?? null,
+      status: 'active',
+      completedAt: new Date(),
+    })
+    .onConflictDoNothing()
+    .returning()
+
+  if (!created) {
+    // Another request created it first
+    const existing = await db.query.embeddingVersions.findFirst({
+      where: and(eq(embeddingVersions.campaignId, campaignId), eq(embeddingVersions.version, 1)),
+    })
+    if (!existing) {
+      throw new Error('Failed to create the first embedding version')
+    }
+    return existing
+  }
+
+  const modelId = getEmbeddingModelId(config)
+  await db
+    .update(chunks)
+    .set({ embeddingVersion: 1 })
+    .where(and(eq(chunks.campaignId, campaignId), isNull(chunks.embeddingVersion), eq(chunks.embeddingModel, modelId)))
+  await db
+    .update(documentChunks)
+    .set({ embeddingVersion: 1 })
+    .where(and(eq(documentChunks.campaignId, campaignId), isNull(documentChunks.embeddingVersion), eq(documentChunks.embeddingModel, modelId)))
+
+  console.log('[EmbeddingVersions] Created version 1 for campaign', campaignId, 'with', modelId)
+  return created
+}
+
+/**
+ * Version and backend search should use
+ */
+export async function getActiveEmbeddingTarget(campaignId: string): Promise<EmbeddingTarget> {
+  return toTarget(await getActiveEmbeddingVersion(campaignId))
+}
+
+/**
+ * A specific version, e.g. to evaluate a build before it replaces the active one
+ */
+export async function getEmbeddingTarget(campaignId: string, version: number): Promise<EmbeddingTarget> {
+  await ensureEmbeddingVersionsTable()
+
+  const found = await db.query.embeddingVersions.findFirst({
+    where: and(eq(embeddingVersions.campaignId, campaignId), eq(embeddingVersions.version, version)),
+  })
+  if (!found) {
+    throw new Error(`Embedding version ${version} not found`)
+  }
+  return toTarget(found)
+}
+
+/**
+ * Versions that new or edited content must be embedded into:
+ * the active one, plus the one being built so it does not miss the edit
+ */
+export async function getEmbeddingTargets(campaignId: string): Promise<EmbeddingTarget[]> {
+  const active = await getActiveEmbeddingVersion(campaignId)
+
+  const building = await db.query.embeddingVersions.findMany({
+    where: and(eq(embeddingVersions.campaignId, campaignId), eq(embeddingVersions.status, 'building')),
+  })
+
+  return [active, ...building].map(toTarget)
+}
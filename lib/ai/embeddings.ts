@@ -1,67 +1,238 @@
-// Helper for delay
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+import { db, campaigns } from '@/lib/db'
+import { eq } from 'drizzle-orm'
+import { getCampaignSettings, DEFAULT_SETTINGS } from '@/lib/campaign-settings'
+import type { EmbeddingProviderName } from '@/lib/db/schema'
+import { recordUsage, estimateTokens, UsageContext } from './usage'
+import { withFixture, isFixtureModeEnabled } from './fixtures'
+import { withResilience, ResilienceOptions } from './resilience'
 
 export type EmbeddingTask = 'retrieval.passage' | 'retrieval.query'
 
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName
+  model: string
+  dimensions?: number // Requested output size, for models that support it (Jina v3, OpenAI text-embedding-3)
+}
+
+export interface EmbeddingOutput {
+  embedding: number[]
+  tokens: number
+}
+
+export interface EmbeddingProvider {
+  isConfigured(): boolean
+  embed(text: string, task: EmbeddingTask, config: EmbeddingConfig, signal: AbortSignal): Promise<EmbeddingOutput>
+}
+
+export interface EmbeddingCallOptions {
+  usage?: UsageContext // Campaign to meter the call against
+  resilience?: ResilienceOptions
+}
+
+// Keep the status so withResilience can tell 429/5xx from bad requests
+function httpError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status })
+}
+
+export const DEFAULT_EMBEDDING_CONFIG: EmbeddingConfig = DEFAULT_SETTINGS.embedding
+
+// ============================================
+// Jina AI (hosted)
+// ============================================
+
 /**
- * Generate embedding using Jina AI
- * Uses jina-embeddings-v3 model which produces 1024-dimensional embeddings
+ * Jina AI embeddings
+ * jina-embeddings-v3 produces up to 1024-dimensional embeddings
  * Free tier: 1M tokens/month
- * Includes retry logic with exponential backoff for rate limit errors
- *
- * @param text - The text to embed
- * @param task - 'retrieval.passage' for documents, 'retrieval.query' for search queries
- * @param retries - Number of retries on rate limit
  */
-export async function generateEmbedding(
-  text: string,
-  task: EmbeddingTask = 'retrieval.passage',
-  retries = 3
-): Promise<number[]> {
-  const apiKey = process.env.JINA_API_KEY
+const jinaProvider: EmbeddingProvider = {
+  isConfigured: () => !!process.env.JINA_API_KEY,
 
-  if (!apiKey) {
-    throw new Error('JINA_API_KEY is not configured')
-  }
+  async embed(text, task, config, signal) {
+    const apiKey = process.env.JINA_API_KEY
 
-  console.log('[Embeddings] Generating embedding for text of length:', text.length, 'task:', task)
+    if (!apiKey) {
+      throw new Error('JINA_API_KEY is not configured')
+    }
 
-  for (let attempt = 0; attempt <= retries; attempt++) {
     const response = await fetch('https://api.jina.ai/v1/embeddings', {
       method: 'POST',
+      signal,
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${apiKey}`,
       },
       body: JSON.stringify({
         input: [text],
-        model: 'jina-embeddings-v3',
-        dimensions: 1024,
+        model: config.model,
+        dimensions: config.dimensions,
         task,
       }),
     })
 
-    if (response.ok) {
-      const data = await response.json()
-      console.log('[Embeddings] Generated embedding with', data.data[0].embedding.length, 'dimensions')
-      return data.data[0].embedding
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('[Embeddings] Jina AI error:', errorText)
+      throw httpError(`Jina AI error (${response.status}): ${errorText}`, response.status)
+    }
+
+    const data = await response.json()
+    return {
+      embedding: data.data[0].embedding,
+      tokens: data.usage?.total_tokens ?? estimateTokens(text),
+    }
+  },
+}
+
+// ============================================
+// OpenAI-compatible /embeddings endpoint
+// ============================================
+
+/**
+ * Any server implementing the OpenAI embeddings API
+ * (OpenAI, vLLM, Ollama, llama.cpp server, text-embeddings-inference)
+ */
+const openAICompatibleProvider: EmbeddingProvider = {
+  isConfigured: () => !!process.env.EMBEDDING_API_BASE_URL,
+
+  async embed(text, _task, config, signal) {
+    const baseUrl = process.env.EMBEDDING_API_BASE_URL
+    const apiKey = process.env.EMBEDDING_API_KEY
+
+    if (!baseUrl) {
+      throw new Error('EMBEDDING_API_BASE_URL is not configured')
     }
 
-    const errorText = await response.text()
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/embeddings`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        input: [text],
+        model: config.model,
+        ...(config.dimensions ? { dimensions: config.dimensions } : {}),
+      }),
+    })
 
-    // Check if it's a rate limit error
-    if (response.status === 429) {
-      if (attempt < retries) {
-        const waitTime = Math.pow(2, attempt + 1) * 1000 // 2s, 4s, 8s
-        console.log(`[Embeddings] Rate limited, waiting ${waitTime}ms before retry ${attempt + 1}/${retries}`)
-        await delay(waitTime)
-        continue
-      }
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('[Embeddings] OpenAI-compatible endpoint error:', errorText)
+      throw httpError(`Embedding endpoint error (${response.status}): ${errorText}`, response.status)
     }
 
-    console.error('[Embeddings] Jina AI error:', errorText)
-    throw new Error(`Jina AI error: ${errorText}`)
+    const data = await response.json()
+    return {
+      embedding: data.data[0].embedding,
+      tokens: data.usage?.prompt_tokens ?? estimateTokens(text),
+    }
+  },
+}
+
+// ============================================
+// Local in-process model (transformers.js)
+// ============================================
+
+// Feature-extraction pipelines are expensive to load, keep one per model
+const localPipelines = new Map<string, Promise<any>>()
+
+/**
+ * Runs a sentence-transformers model in-process via ONNX Runtime
+ * Models are downloaded from the Hugging Face hub on first use and cached on disk
+ * Inference cannot be interrupted, so the abort signal is ignored
+ */
+const localProvider: EmbeddingProvider = {
+  isConfigured: () => true,
+
+  async embed(text, task, config) {
+    let extractor = localPipelines.get(config.model)
+    if (!extractor) {
+      extractor = import('@huggingface/transformers').then(({ pipeline }) =>
+        pipeline('feature-extraction', config.model)
+      )
+      localPipelines.set(config.model, extractor)
+    }
+
+    // E5 models are trained with "query: " / "passage: " prefixes
+    const prefix = /e5/i.test(config.model)
+      ? (task === 'retrieval.query' ? 'query: ' : 'passage: ')
+      : ''
+
+    const output = await (await extractor)(prefix + text, { pooling: 'mean', normalize: true })
+    return {
+      embedding: Array.from(output.data as Float32Array),
+      tokens: estimateTokens(text),
+    }
+  },
+}
+
+const providers: Record<EmbeddingProviderName, EmbeddingProvider> = {
+  'jina': jinaProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'local': localProvider,
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Identifier stored with each chunk so vectors from different models are never compared
+ */
+export function getEmbeddingModelId(config: EmbeddingConfig): string {
+  return `${config.provider}:${config.model}`
+}
+
+/**
+ * Check whether the configured embedding backend can be used
+ */
+export function isEmbeddingConfigured(config: EmbeddingConfig = DEFAULT_EMBEDDING_CONFIG): boolean {
+  if (!providers[config.provider]) return false
+  return isFixtureModeEnabled() || providers[config.provider].isConfigured()
+}
+
+/**
+ * Resolve the embedding backend chosen in a campaign's settings
+ */
+export async function getCampaignEmbeddingConfig(campaignId: string): Promise<EmbeddingConfig> {
+  const campaign = await db.query.campaigns.findFirst({
+    where: eq(campaigns.id, campaignId),
+    columns: { settings: true },
+  })
+  return getCampaignSettings(campaign?.settings).embedding
+}
+
+/**
+ * Generate an embedding with the given backend (Jina by default)
+ *
+ * @param text - The text to embed
+ * @param task - 'retrieval.passage' for documents, 'retrieval.query' for search queries
+ * @param config - Embedding provider, model and optional output dimensions
+ * @param options - Usage metering and retry/timeout settings
+ */
+export async function generateEmbedding(
+  text: string,
+  task: EmbeddingTask = 'retrieval.passage',
+  config: EmbeddingConfig = DEFAULT_EMBEDDING_CONFIG,
+  options: EmbeddingCallOptions = {}
+): Promise<number[]> {
+  const provider = providers[config.provider]
+  if (!provider) {
+    throw new Error(`Unknown embedding provider: ${config.provider}`)
   }
 
-  throw new Error('Failed to generate embedding after retries')
+  console.log('[Embeddings] Generating embedding for text of length:', text.length, 'task:', task, 'model:', getEmbeddingModelId(config))
+
+  const { embedding, tokens } = await withFixture(
+    'embedding',
+    { text, task, provider: config.provider, model: config.model, dimensions: config.dimensions ?? null },
+    () => withResilience(config.provider, (signal) => provider.embed(text, task, config, signal), options.resilience)
+  )
+  if (options.usage) {
+    await recordUsage(options.usage, getEmbeddingModelId(config), config.provider, { inputTokens: tokens, outputTokens: 0 })
+  }
+  console.log('[Embeddings] Generated embedding with', embedding.length, 'dimensions')
+  return embedding
 }
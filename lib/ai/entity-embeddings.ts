@@ -1,69 +1,128 @@
 import { db, chunks } from '@/lib/db'
-import { eq } from 'drizzle-orm'
-import { generateEmbedding } from './embeddings'
-import { chunkContent } from './chunker'
+import { eq, and, or, isNull } from 'drizzle-orm'
+import {
+  generateEmbedding,
+  getEmbeddingModelId,
+  isEmbeddingConfigured,
+} from './embeddings'
+import { getEmbeddingTargets, EmbeddingTarget } from './embedding-versions'
+import { chunkContent, Chunk } from './chunker'
+import { splitSecretBlocks, stripSecretBlocks } from '@/lib/secret-blocks'
+import {
+  ensureChunkEmbeddingMetadata,
+  ensureChunkVisibilityColumn,
+  ensureEmbeddingVersionsTable,
+} from '@/lib/db/migrations'
 
 /**
  * Sync embeddings for an entity
  * - Chunks the entity content
  * - Generates embeddings for each chunk
- * - Stores in the chunks table for RAG
+ * - Stores in the chunks table for RAG, tagged with the embedding model and version
+ *
+ * Secret blocks are chunked apart from the public text and their chunks are
+ * flagged DM-only, so a chunk never mixes what players may and may not see.
+ *
+ * Without a target the entity is embedded into the active version and any
+ * version being built. Embedding builds pass their target; chunk failures are
+ * then thrown instead of skipped, so the build can count them.
  */
 export async function syncEntityEmbeddings(
   entityId: string,
   campaignId: string,
   name: string,
-  content: string
+  content: string,
+  target?: EmbeddingTarget
 ): Promise<void> {
   console.log('[EntityEmbeddings] Syncing embeddings for entity:', name)
 
-  // Check if Jina API key is configured
-  if (!process.env.JINA_API_KEY) {
-    console.log('[EntityEmbeddings] Skipping: JINA_API_KEY not configured')
-    return
-  }
+  const targets = target ? [target] : await getEmbeddingTargets(campaignId)
 
-  // Delete old chunks for this entity
-  console.log('[EntityEmbeddings] Deleting old chunks for entity:', entityId)
-  await db.delete(chunks).where(eq(chunks.entityId, entityId))
+  await ensureChunkEmbeddingMetadata()
+  await ensureEmbeddingVersionsTable()
+  await ensureChunkVisibilityColumn()
 
-  // Skip if content is empty
-  if (!content.trim()) {
-    console.log('[EntityEmbeddings] Skipping: content is empty')
-    return
-  }
+  for (const { version, config } of targets) {
+    // Check if the embedding backend is configured
+    if (!isEmbeddingConfigured(config)) {
+      console.log('[EntityEmbeddings] Skipping version', version, '- embedding provider not configured:', config.provider)
+      continue
+    }
 
-  // Chunk the content
-  const contentChunks = chunkContent(content, name)
-  console.log('[EntityEmbeddings] Created', contentChunks.length, 'chunks from content')
-
-  // Generate embeddings and store
-  let successCount = 0
-  for (const chunk of contentChunks) {
-    try {
-      console.log('[EntityEmbeddings] Processing chunk', chunk.index, '- length:', chunk.text.length)
-      const embedding = await generateEmbedding(chunk.text)
-
-      // Extract entity mentions from the chunk (wikilinks)
-      const entityMentions = extractEntityMentions(chunk.text)
-
-      await db.insert(chunks).values({
-        entityId,
-        campaignId,
-        content: chunk.text,
-        chunkIndex: chunk.index,
-        headerPath: chunk.metadata?.headers || [],
-        entityMentions,
-        embedding,
-      })
-      successCount++
-      console.log('[EntityEmbeddings] Stored chunk', chunk.index, 'successfully')
-    } catch (error) {
-      console.error(`[EntityEmbeddings] Failed to embed chunk ${chunk.index}:`, error)
+    // Delete old chunks of this version (and any from before versions existed)
+    console.log('[EntityEmbeddings] Deleting old chunks for entity:', entityId, 'version:', version)
+    await db.delete(chunks).where(and(
+      eq(chunks.entityId, entityId),
+      or(eq(chunks.embeddingVersion, version), isNull(chunks.embeddingVersion))
+    ))
+
+    // Skip if content is empty
+    if (!content.trim()) {
+      console.log('[EntityEmbeddings] Skipping: content is empty')
+      return
     }
+
+    // Chunk the content
+    const contentChunks = chunkEntityContent(content, name)
+    console.log('[EntityEmbeddings] Created', contentChunks.length, 'chunks from content')
+
+    // Generate embeddings and store
+    let successCount = 0
+    for (const { chunk, isDmOnly } of contentChunks) {
+      try {
+        console.log('[EntityEmbeddings] Processing chunk', chunk.index, '- length:', chunk.text.length)
+        const embedding = await generateEmbedding(chunk.text, 'retrieval.passage', config, {
+          usage: { campaignId, purpose: 'embedding' },
+        })
+
+        // Extract entity mentions from the chunk (wikilinks)
+        const entityMentions = extractEntityMentions(chunk.text)
+
+        await db.insert(chunks).values({
+          entityId,
+          campaignId,
+          content: chunk.text,
+          chunkIndex: chunk.index,
+          headerPath: chunk.metadata?.headers || [],
+          entityMentions,
+          embedding,
+          embeddingModel: getEmbeddingModelId(config),
+          embeddingDimensions: embedding.length,
+          embeddingVersion: version,
+          isDmOnly,
+        })
+        successCount++
+        console.log('[EntityEmbeddings] Stored chunk', chunk.index, 'successfully')
+      } catch (error) {
+        if (target) throw error
+        console.error(`[EntityEmbeddings] Failed to embed chunk ${chunk.index}:`, error)
+      }
+    }
+
+    console.log('[EntityEmbeddings] Completed:', successCount, 'of', contentChunks.length, 'chunks stored for version', version)
   }
+}
+
+/**
+ * Chunk the public text, then the secret blocks, numbering them in one sequence
+ */
+function chunkEntityContent(content: string, name: string): { chunk: Chunk; isDmOnly: boolean }[] {
+  const publicChunks = chunkContent(stripSecretBlocks(content), name)
+    .filter((chunk) => chunk.text !== `# ${name}`)
+    .map((chunk) => ({ chunk, isDmOnly: false }))
+
+  const secretText = splitSecretBlocks(content)
+    .filter((segment) => segment.secret)
+    .map((segment) => segment.text.trim())
+    .join('\n\n')
+  const secretChunks = secretText
+    ? chunkContent(secretText, name).map((chunk) => ({ chunk, isDmOnly: true }))
+    : []
 
-  console.log('[EntityEmbeddings] Completed:', successCount, 'of', contentChunks.length, 'chunks stored')
+  return [...publicChunks, ...secretChunks].map(({ chunk, isDmOnly }, index) => ({
+    chunk: { ...chunk, index },
+    isDmOnly,
+  }))
 }
 
 /**
@@ -1,5 +1,6 @@
 import { db, entities, Entity } from '@/lib/db'
 import { eq, and, or, sql, ilike } from 'drizzle-orm'
+import { canonicalizeName } from '@/lib/canonical-names'
 
 /**
  * Find existing entity by name, canonical name, or aliases
@@ -9,10 +10,7 @@ export async function findExistingEntity(
   name: string,
   aliases: string[] = []
 ): Promise<Entity | null> {
-  const canonicalName = name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-|-$/g, '')
+  const canonicalName = canonicalizeName(name)
 
   // Search by canonical name first (fastest)
   const byCanonical = await db.query.entities.findFirst({
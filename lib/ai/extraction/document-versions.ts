@@ -0,0 +1,259 @@
+import { db, documents, documentVersions, entities, entitySources, relationships, Document } from '@/lib/db'
+import { eq, and, desc, inArray, sql } from 'drizzle-orm'
+import { v4 as uuidv4 } from 'uuid'
+import { ensureDocumentVersionsTable, ensureDocumentVisibilityColumn } from '@/lib/db/migrations'
+import { canonicalizeName } from '@/lib/canonical-names'
+import type { StagedRetraction } from '@/lib/types'
+
+/**
+ * Document versions
+ *
+ * Uploading a document again (same name, or an explicit documentId) makes a
+ * new version of it rather than a new document. Versions are compared
+ * paragraph by paragraph: only new or changed paragraphs go to the extractor,
+ * and facts recorded from paragraphs that are gone are offered for retraction.
+ */
+
+export interface ParagraphDiff {
+  added: string[] // Paragraphs of the new version that are new or changed
+  removed: string[] // Paragraphs of the previous version that are gone or changed
+  unchanged: number
+}
+
+/**
+ * Split content into paragraphs, on blank lines like the extractor's chunker
+ */
+export function splitParagraphs(content: string): string[] {
+  return content
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+}
+
+// Re-wrapping a paragraph does not change it
+function paragraphKey(paragraph: string): string {
+  return paragraph.replace(/\s+/g, ' ')
+}
+
+/**
+ * Compare two versions of a document; a changed paragraph counts as removed and added
+ */
+export function diffParagraphs(previous: string, next: string): ParagraphDiff {
+  const previousParagraphs = splitParagraphs(previous)
+  const remaining = new Map<string, number>()
+  for (const paragraph of previousParagraphs) {
+    const key = paragraphKey(paragraph)
+    remaining.set(key, (remaining.get(key) || 0) + 1)
+  }
+
+  const added: string[] = []
+  let unchanged = 0
+  for (const paragraph of splitParagraphs(next)) {
+    const key = paragraphKey(paragraph)
+    const count = remaining.get(key) || 0
+    if (count > 0) {
+      remaining.set(key, count - 1)
+      unchanged++
+    } else {
+      added.push(paragraph)
+    }
+  }
+
+  const removed: string[] = []
+  for (const paragraph of previousParagraphs) {
+    const key = paragraphKey(paragraph)
+    const count = remaining.get(key) || 0
+    if (count > 0) {
+      remaining.set(key, count - 1)
+      removed.push(paragraph)
+    }
+  }
+
+  return { added, removed, unchanged }
+}
+
+/**
+ * Whether a paragraph mentions any of the names
+ * Compared as canonical names, so case and accents do not matter. The match is
+ * loose on purpose (no word boundaries, which some scripts lack): a fact is
+ * only offered for retraction when nothing in the new version mentions it.
+ */
+function mentionsAny(paragraph: string, names: string[]): boolean {
+  const text = canonicalizeName(paragraph)
+  return names.some((name) => {
+    const canonical = canonicalizeName(name)
+    return canonical.length > 0 && text.includes(canonical)
+  })
+}
+
+/**
+ * The document an upload is a new version of: the given one, or the latest with the same name
+ */
+export async function findPreviousDocument(
+  campaignId: string,
+  documentId: string | null,
+  name: string
+): Promise<Document | null> {
+  await ensureDocumentVisibilityColumn()
+
+  const document = await db.query.documents.findFirst({
+    where: documentId
+      ? and(eq(documents.id, documentId), eq(documents.campaignId, campaignId))
+      : and(eq(documents.name, name), eq(documents.campaignId, campaignId)),
+    orderBy: [desc(documents.createdAt)],
+  })
+
+  return document ?? null
+}
+
+/**
+ * The document's latest version number; documents uploaded before versioning are version 1
+ */
+export async function getCurrentVersion(documentId: string): Promise<number> {
+  await ensureDocumentVersionsTable()
+
+  const latest = await db.query.documentVersions.findFirst({
+    where: eq(documentVersions.documentId, documentId),
+    orderBy: [desc(documentVersions.version)],
+  })
+
+  return latest?.version ?? 1
+}
+
+/**
+ * Record a document's first version
+ */
+export async function recordFirstVersion(document: Document): Promise<void> {
+  await ensureDocumentVersionsTable()
+
+  await db
+    .insert(documentVersions)
+    .values({
+      documentId: document.id,
+      version: 1,
+      content: document.content,
+      uploadedBy: document.uploadedBy,
+      createdAt: document.createdAt,
+    })
+    .onConflictDoNothing()
+}
+
+/**
+ * Store new content as the document's next version, and make it the current content
+ * Runs in one transaction holding the document's row lock, so two commits of the
+ * same document get consecutive versions and the content matches the latest one.
+ */
+export async function createDocumentVersion(document: Document, content: string, userId: string): Promise<number> {
+  await ensureDocumentVersionsTable()
+
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT id FROM documents WHERE id = ${document.id} FOR UPDATE`)
+
+    // Keep the history complete for documents created without a version row
+    await tx
+      .insert(documentVersions)
+      .values({
+        documentId: document.id,
+        version: 1,
+        content: document.content,
+        uploadedBy: document.uploadedBy,
+        createdAt: document.createdAt,
+      })
+      .onConflictDoNothing()
+
+    const [latest] = await tx
+      .select({ version: documentVersions.version })
+      .from(documentVersions)
+      .where(eq(documentVersions.documentId, document.id))
+      .orderBy(desc(documentVersions.version))
+      .limit(1)
+
+    const version = (latest?.version ?? 1) + 1
+    await tx.insert(documentVersions).values({ documentId: document.id, version, content, uploadedBy: userId })
+    await tx.update(documents).set({ content }).where(eq(documents.id, document.id))
+
+    return version
+  })
+}
+
+/**
+ * Facts recorded from the document that the new version no longer supports
+ * An entity sourced from the document is retracted when a removed paragraph
+ * mentioned it and no paragraph of the new version does; a relationship when
+ * a removed paragraph mentioned both ends and no paragraph still does.
+ */
+export async function findRetractions(
+  documentId: string,
+  diff: ParagraphDiff,
+  nextContent: string,
+  includeDmOnly: boolean
+): Promise<StagedRetraction[]> {
+  if (diff.removed.length === 0) return []
+
+  const nextParagraphs = splitParagraphs(nextContent)
+  const retractions: StagedRetraction[] = []
+
+  const namesOf = (entity: { name: string; aliases: string[] | null }) => [entity.name, ...(entity.aliases || [])]
+  const isRetracted = (names: string[][]) => {
+    const supports = (paragraph: string) => names.every((n) => mentionsAny(paragraph, n))
+    const removedSupport = diff.removed.find(supports)
+    if (!removedSupport || nextParagraphs.some(supports)) return null
+    return removedSupport
+  }
+
+  const sourced = await db
+    .select({ id: entities.id, name: entities.name, aliases: entities.aliases, isDmOnly: entities.isDmOnly })
+    .from(entitySources)
+    .innerJoin(entities, eq(entitySources.entityId, entities.id))
+    .where(eq(entitySources.documentId, documentId))
+
+  for (const entity of sourced) {
+    if (entity.isDmOnly && !includeDmOnly) continue
+
+    const excerpt = isRetracted([namesOf(entity)])
+    if (excerpt) {
+      retractions.push({
+        tempId: uuidv4(),
+        kind: 'entity',
+        entityId: entity.id,
+        label: entity.name,
+        excerpt: excerpt.slice(0, 300),
+        status: 'pending',
+      })
+    }
+  }
+
+  const recorded = await db.query.relationships.findMany({
+    where: eq(relationships.documentId, documentId),
+  })
+  if (recorded.length === 0) return retractions
+
+  const endpointIds = Array.from(new Set(recorded.flatMap((r) => [r.sourceEntityId, r.targetEntityId])))
+  const endpoints = await db.query.entities.findMany({
+    where: inArray(entities.id, endpointIds),
+    columns: { id: true, name: true, aliases: true, isDmOnly: true },
+  })
+  const endpointById = new Map(endpoints.map((e) => [e.id, e]))
+
+  for (const relationship of recorded) {
+    const source = endpointById.get(relationship.sourceEntityId)
+    const target = endpointById.get(relationship.targetEntityId)
+    if (!source || !target) continue
+    if ((source.isDmOnly || target.isDmOnly) && !includeDmOnly) continue
+
+    const excerpt = isRetracted([namesOf(source), namesOf(target)])
+    if (excerpt) {
+      retractions.push({
+        tempId: uuidv4(),
+        kind: 'relationship',
+        entityId: source.id,
+        relationshipId: relationship.id,
+        label: `${source.name} → ${relationship.relationshipType.replace(/_/g, ' ')} → ${target.name}`,
+        excerpt: excerpt.slice(0, 300),
+        status: 'pending',
+      })
+    }
+  }
+
+  return retractions
+}
@@ -0,0 +1,131 @@
+import { db, entities } from '@/lib/db'
+import { eq } from 'drizzle-orm'
+import { searchSimilarChunks } from '@/lib/ai/rag'
+import type { ResilienceOptions } from '@/lib/ai/resilience'
+import { canonicalizeName } from '@/lib/canonical-names'
+import { getVisibleContent } from '@/lib/secret-blocks'
+
+/**
+ * Entity linking
+ *
+ * Before a chunk is extracted, the existing entities it most likely mentions
+ * are picked: those whose name or an alias appears in it, then the nearest
+ * ones by hybrid search. They go into the prompt as a catalog, and the model
+ * refers to one by id when the text mentions it under another name ("Lord
+ * Varn" for "Varnhold the Elder"). Such references become review matches
+ * of type 'linked'.
+ */
+
+export interface LinkCandidate {
+  id: string
+  name: string
+  entityType: string
+  aliases: string[]
+  summary: string // Start of the page, so the model can tell namesakes apart
+}
+
+export interface LinkingOptions {
+  includeDmOnly: boolean // Offer DM-only entities; only for extractions a DM reviews
+  userId?: string | null // Who the search embeddings are metered against
+  resilience?: ResilienceOptions
+}
+
+export type FindLinkCandidates = (chunk: string) => Promise<LinkCandidate[]>
+
+// Entities in one chunk's catalog
+const MAX_CANDIDATES = 20
+
+// Nearest entities added by search, after the ones mentioned by name
+const SEARCH_CANDIDATES = 10
+
+// Shorter names match inside too many words
+const MIN_NAME_LENGTH = 3
+
+const SUMMARY_LENGTH = 160
+
+// The search query is the start of the chunk; embedding backends cap their input
+const QUERY_LENGTH = 4000
+
+/**
+ * Load the campaign's entities once and return a per-chunk candidate lookup
+ */
+export async function createLinkCandidateFinder(
+  campaignId: string,
+  options: LinkingOptions
+): Promise<FindLinkCandidates> {
+  const rows = await db.query.entities.findMany({
+    where: eq(entities.campaignId, campaignId),
+    columns: { id: true, name: true, entityType: true, aliases: true, content: true, isDmOnly: true },
+  })
+  const visible = rows.filter((entity) => options.includeDmOnly || !entity.isDmOnly)
+  if (visible.length === 0) return async () => []
+
+  const candidates = new Map<string, LinkCandidate>(visible.map((entity) => [entity.id, {
+    id: entity.id,
+    name: entity.name,
+    entityType: entity.entityType,
+    aliases: entity.aliases || [],
+    summary: summarize(getVisibleContent(entity.content || '', options.includeDmOnly)),
+  }]))
+
+  const namesById = visible.map((entity) => ({
+    id: entity.id,
+    names: [entity.name, ...(entity.aliases || [])]
+      .map(canonicalizeName)
+      .filter((name) => name.length >= MIN_NAME_LENGTH),
+  }))
+
+  return async (chunk) => {
+    const text = canonicalizeName(chunk)
+    const picked = namesById
+      .filter((entity) => entity.names.some((name) => text.includes(name)))
+      .map((entity) => entity.id)
+
+    try {
+      const results = await searchSimilarChunks(campaignId, chunk.slice(0, QUERY_LENGTH), {
+        limit: SEARCH_CANDIDATES,
+        excludeDmOnly: !options.includeDmOnly,
+        includeDocuments: false,
+        userId: options.userId ?? undefined,
+        resilience: options.resilience,
+      })
+      for (const result of results) {
+        if (!picked.includes(result.entity_id)) picked.push(result.entity_id)
+      }
+    } catch (error) {
+      // Linking is an aid; the chunk is still extracted with the name matches alone
+      console.warn('[Linking] Candidate search failed:', error)
+    }
+
+    return picked
+      .map((id) => candidates.get(id))
+      .filter((candidate): candidate is LinkCandidate => !!candidate)
+      .slice(0, MAX_CANDIDATES)
+  }
+}
+
+// First words of a page, without its title and alias lines
+function summarize(content: string): string {
+  const text = content
+    .replace(/^#.*$/gm, '')
+    .replace(/^\*Also known as:.*\*$/gm, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH)}...` : text
+}
+
+/**
+ * The catalog section of the extraction prompt
+ */
+export function formatLinkCatalog(candidates: LinkCandidate[]): string {
+  const lines = candidates.map((candidate) => {
+    const aliases = candidate.aliases.length > 0 ? `; also: ${candidate.aliases.join(', ')}` : ''
+    const summary = candidate.summary ? ` - ${candidate.summary}` : ''
+    return `- id "${candidate.id}": ${candidate.name} (${candidate.entityType}${aliases})${summary}`
+  })
+
+  return `EXISTING WIKI ENTITIES - The campaign wiki already has these entities, which this text may mention:
+${lines.join('\n')}
+
+When an entity you extract is one of these, even under another name, title, nickname or spelling, add "existingId" with its id to the entity. Keep "name" as the text writes it. Only use ids from this list, and leave "existingId" out for anything that is not on it.`
+}
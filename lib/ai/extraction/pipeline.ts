@@ -1,45 +1,53 @@
-import { CampaignSettings, AIModel, getModelProvider } from '@/lib/db/schema'
+import { CampaignSettings, AIModel, EntityProperties, getModelProvider } from '@/lib/db/schema'
 import { getCampaignSettings, DEFAULT_PROMPTS, DEFAULT_SETTINGS } from '@/lib/campaign-settings'
-import { generateSimple } from '@/lib/ai/client'
+import { generateResponse } from '@/lib/ai/client'
+import type { UsageContext } from '@/lib/ai/usage'
+import type { ResilienceOptions } from '@/lib/ai/resilience'
+import {
+  chunkExtractionSchema,
+  formatSchemaIssues,
+  salvageChunkExtraction,
+  EntityMention,
+  RelationshipMention,
+} from './schemas'
+import { canonicalizeName } from '@/lib/canonical-names'
+import { mergeProperties } from '@/lib/entity-properties'
+import { formatLinkCatalog, FindLinkCandidates, LinkCandidate } from './linking'
 
 // ============================================
 // Types
 // ============================================
 
-export interface EntityMention {
-  name: string
-  type: string // Dynamic type decided by AI (e.g., 'npc', 'location', 'spell', 'creature', etc.)
-  aliases: string[]
-  description: string
-  confidence: number
-}
-
-export interface RelationshipMention {
-  sourceEntity: string
-  targetEntity: string
-  relationshipType: string
-  reverseLabel?: string
-  excerpt: string
-}
+// Entity type is dynamic, decided by the AI (e.g., 'npc', 'location', 'spell', 'creature', etc.)
+export type { EntityMention, RelationshipMention }
 
 export interface ExtractedEntity {
   name: string
   canonicalName: string
   type: string // Dynamic type decided by AI
   content: string
+  description: string // The content's description paragraph, with [[wikilinks]]
   aliases: string[]
   tags: string[]
+  properties: EntityProperties
   relationships: RelationshipMention[]
+  linkedEntityId?: string // The existing entity the model said this is, from the linking catalog
+}
+
+export interface ChunkFailure {
+  chunkIndex: number
+  reason: string
 }
 
 export interface ExtractionResult {
   entities: ExtractedEntity[]
   relationships: RelationshipMention[]
   documentSummary: string
+  chunkFailures: ChunkFailure[]
 }
 
 // Language code to name mapping
-function getLanguageName(code: string): string {
+export function getLanguageName(code: string): string {
   const languages: Record<string, string> = {
     en: 'English',
     es: 'Spanish',
@@ -112,11 +120,15 @@ function chunkDocument(content: string, maxChunkSize: number = 4000): string[] {
 // Fast Entity + Relationship Extraction (Single Haiku call per chunk)
 // ============================================
 
-interface ChunkExtraction {
+export interface ChunkExtraction {
   entities: EntityMention[]
   relationships: RelationshipMention[]
+  failure?: string // Why the chunk yielded nothing (or only a partial result)
 }
 
+// Extra attempts after the first response fails to parse or validate
+const MAX_REPAIR_ATTEMPTS = 2
+
 // Entity types description - used in all extraction prompts
 const ENTITY_TYPES_DESCRIPTION = `
 ENTITY TYPES - Use the most specific type that fits. Common types include:
@@ -143,6 +155,15 @@ ENTITY TYPES - Use the most specific type that fits. Common types include:
 
 You can also create NEW types if none of these fit well (e.g., "vehicle", "mount", "language", "ritual", "title", "currency", etc.)`
 
+// Infobox facts - used in all extraction prompts, custom ones included
+const ENTITY_PROPERTIES_DESCRIPTION = `
+PROPERTIES - Give each entity a "properties" object with the short facts the text states about it, as an infobox:
+- npc/creature: race, class, level, status ("alive", "dead", "missing"), alignment, occupation, hit_points, armor_class
+- location/region: ruler, population, region, climate
+- faction/organization: leader, headquarters, alignment
+- item/artifact: rarity, owner, value, attunement
+Use snake_case keys. Values are short text, numbers (hit_points: 45) or true/false. Only include facts the text states; leave out anything you would have to guess, and use {} when there are none.`
+
 interface CustomPrompts {
   extractionConservativePrompt?: string
   extractionBalancedPrompt?: string
@@ -171,7 +192,8 @@ function getExtractionSystemPrompt(
   return `${basePrompt}
 ${languageInstruction}
 
-${ENTITY_TYPES_DESCRIPTION}`
+${ENTITY_TYPES_DESCRIPTION}
+${ENTITY_PROPERTIES_DESCRIPTION}`
 }
 
 async function extractFromChunk(
@@ -181,7 +203,10 @@ async function extractFromChunk(
   language: string = 'en',
   aggressiveness: 'conservative' | 'balanced' | 'obsessive' = 'obsessive',
   customPrompts?: CustomPrompts,
-  extractionModel: AIModel = DEFAULT_SETTINGS.model.extractionModel
+  extractionModel: AIModel = DEFAULT_SETTINGS.model.extractionModel,
+  usage?: UsageContext,
+  resilience?: ResilienceOptions,
+  linkCandidates: LinkCandidate[] = []
 ): Promise<ChunkExtraction> {
   console.log(`[Extraction] Processing chunk ${chunkIndex + 1}/${totalChunks} (${content.length} chars, lang: ${language}, mode: ${aggressiveness}, model: ${extractionModel})`)
 
@@ -189,40 +214,123 @@ async function extractFromChunk(
     ? `IMPORTANT: The content is in ${getLanguageName(language)}. Extract entity names as they appear in the original language, but you may provide descriptions in ${getLanguageName(language)} as well.`
     : ''
 
-  const systemPrompt = getExtractionSystemPrompt(aggressiveness, languageInstruction, customPrompts)
+  const basePrompt = getExtractionSystemPrompt(aggressiveness, languageInstruction, customPrompts)
+  const systemPrompt = linkCandidates.length > 0
+    ? `${basePrompt}\n\n${formatLinkCatalog(linkCandidates)}`
+    : basePrompt
+  const linkableIds = new Set(linkCandidates.map((candidate) => candidate.id))
+
+  // Use unified client that supports Claude, Gemini and local OpenAI-compatible models
+  const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [{ role: 'user', content }]
+  let lastRaw: unknown = null
+  let lastError = ''
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const result = await generateResponse({
+      model: extractionModel,
+      systemPrompt,
+      messages,
+      maxTokens: 8192,
+      responseFormat: 'json',
+      usage,
+      resilience,
+    })
+    const responseText = result.content
+
+    if (!responseText.trim()) {
+      return { entities: [], relationships: [], failure: 'The model returned an empty response' }
+    }
+
+    const parsed = parseExtractionResponse(responseText)
 
-  // Use unified client that supports both Claude and Gemini
-  const responseText = await generateSimple(extractionModel, systemPrompt, content, 8192)
+    if (parsed.success) {
+      console.log(`[Extraction] Chunk ${chunkIndex + 1}: ${parsed.data.entities.length} entities, ${parsed.data.relationships.length} relationships${attempt > 0 ? ` (after ${attempt} repair${attempt === 1 ? '' : 's'})` : ''}`)
+      return keepKnownLinks(parsed.data, linkableIds)
+    }
+
+    lastRaw = parsed.raw
+    lastError = parsed.error
+    console.warn(`[Extraction] Chunk ${chunkIndex + 1} attempt ${attempt + 1} invalid: ${parsed.error}`)
 
-  if (!responseText) {
-    return { entities: [], relationships: [] }
+    // Re-ask with the validation errors
+    messages.push(
+      { role: 'assistant', content: responseText },
+      { role: 'user', content: buildRepairPrompt(parsed.error, parsed.truncated) }
+    )
   }
 
-  try {
-    let jsonStr = responseText.trim()
+  // Out of attempts: keep whatever items were valid on their own
+  const salvaged = keepKnownLinks(salvageChunkExtraction(lastRaw), linkableIds)
+  const kept = salvaged.entities.length + salvaged.relationships.length
+  return {
+    ...salvaged,
+    failure: `Invalid output after ${MAX_REPAIR_ATTEMPTS + 1} attempts (${kept > 0 ? `kept ${kept} valid items` : 'nothing usable'}): ${lastError}`,
+  }
+}
 
-    // Extract JSON from code blocks or raw
-    const codeBlockMatch = jsonStr.match(/```(?:json)?[\s\n]*([\s\S]*?)```/)
-    if (codeBlockMatch) {
-      jsonStr = codeBlockMatch[1].trim()
-    } else {
-      const objMatch = jsonStr.match(/\{[\s\S]*\}/)
-      if (objMatch) {
-        jsonStr = objMatch[0]
-      }
+// Drop links to ids that were not in the chunk's catalog (made up, or mangled)
+function keepKnownLinks<T extends { entities: EntityMention[] }>(extraction: T, linkableIds: Set<string>): T {
+  for (const entity of extraction.entities) {
+    if (entity.existingId && !linkableIds.has(entity.existingId)) {
+      entity.existingId = undefined
     }
+  }
+  return extraction
+}
 
-    const result = JSON.parse(jsonStr) as ChunkExtraction
-    console.log(`[Extraction] Chunk ${chunkIndex + 1}: ${result.entities?.length || 0} entities, ${result.relationships?.length || 0} relationships`)
+type ParsedExtraction =
+  | { success: true; data: ChunkExtraction }
+  | { success: false; error: string; raw: unknown; truncated: boolean }
 
-    return {
-      entities: (result.entities || []).filter(e => e.name && e.type),
-      relationships: (result.relationships || []).filter(r => r.sourceEntity && r.targetEntity),
+function parseExtractionResponse(responseText: string): ParsedExtraction {
+  let jsonStr = responseText.trim()
+
+  // Extract JSON from code blocks or raw
+  const codeBlockMatch = jsonStr.match(/```(?:json)?[\s\n]*([\s\S]*?)```/)
+  if (codeBlockMatch) {
+    jsonStr = codeBlockMatch[1].trim()
+  } else {
+    const objMatch = jsonStr.match(/\{[\s\S]*\}/)
+    if (objMatch) {
+      jsonStr = objMatch[0]
     }
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(jsonStr)
   } catch (error) {
-    console.error(`[Extraction] Chunk ${chunkIndex + 1} parsing error:`, error)
-    return { entities: [], relationships: [] }
+    // An object that never closes usually means the output hit the token limit
+    const truncated = !/\}\s*(```)?\s*$/.test(responseText.trim())
+    return {
+      success: false,
+      error: `Invalid JSON${truncated ? ' (response appears truncated)' : ''}: ${error instanceof Error ? error.message : String(error)}`,
+      raw: null,
+      truncated,
+    }
+  }
+
+  const validated = chunkExtractionSchema.safeParse(raw)
+  if (!validated.success) {
+    return {
+      success: false,
+      error: `Schema validation failed:\n${formatSchemaIssues(validated.error)}`,
+      raw,
+      truncated: false,
+    }
   }
+
+  return { success: true, data: validated.data }
+}
+
+function buildRepairPrompt(error: string, truncated: boolean): string {
+  return `Your previous response could not be used.
+
+${error}
+
+${truncated
+    ? 'It was cut off before the JSON ended. Return a complete JSON object with fewer entities and shorter descriptions.'
+    : 'Return the corrected result.'} Respond with ONLY the JSON object in the same format ({"entities": [...], "relationships": [...]}), no commentary.`
 }
 
 // ============================================
@@ -231,7 +339,8 @@ async function extractFromChunk(
 
 function mergeExtractions(
   extractions: ChunkExtraction[],
-  existingEntityNames: string[]
+  existingEntityNames: string[],
+  keepExistingEntities: boolean = false
 ): { entities: ExtractedEntity[], relationships: RelationshipMention[] } {
   const entityMentionMap = new Map<string, EntityMention>()
   const allRelationships: RelationshipMention[] = []
@@ -243,8 +352,8 @@ function mergeExtractions(
       const key = mention.name.toLowerCase()
 
       // Skip if already exists in campaign
-      const canonicalName = mention.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
-      if (existingNamesLower.has(key) || existingNamesLower.has(canonicalName)) {
+      const canonicalName = canonicalizeName(mention.name)
+      if (!keepExistingEntities && (existingNamesLower.has(key) || existingNamesLower.has(canonicalName))) {
         continue
       }
 
@@ -261,6 +370,9 @@ function mergeExtractions(
         if (mention.description && !existing.description.includes(mention.description)) {
           existing.description += ' ' + mention.description
         }
+        existing.existingId = existing.existingId || mention.existingId
+        // Earlier chunks win; later ones only add facts
+        existing.properties = mergeProperties(existing.properties, mention.properties)
       } else {
         entityMentionMap.set(key, { ...mention, aliases: mention.aliases || [] })
       }
@@ -292,7 +404,7 @@ function mergeExtractions(
   // Second pass: generate wiki content with relationships and wikilinks
   const entities: ExtractedEntity[] = []
   for (const [key, mention] of entityMentionMap) {
-    const canonicalName = mention.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+    const canonicalName = canonicalizeName(mention.name)
 
     // Get relationships for this entity
     const outgoingRelationships: EntityRelationship[] = uniqueRelationships
@@ -314,7 +426,7 @@ function mergeExtractions(
       }))
 
     // Generate wiki content with wikilinks
-    const wikiContent = generateWikiContent(
+    const { content: wikiContent, description } = generateWikiContent(
       mention,
       outgoingRelationships,
       incomingRelationships,
@@ -326,8 +438,10 @@ function mergeExtractions(
       canonicalName,
       type: mention.type,
       content: wikiContent,
+      description,
       aliases: mention.aliases,
       tags: [mention.type],
+      properties: mention.properties,
       relationships: outgoingRelationships.map(r => ({
         sourceEntity: mention.name,
         targetEntity: r.targetName,
@@ -335,6 +449,7 @@ function mergeExtractions(
         reverseLabel: r.reverseLabel,
         excerpt: r.excerpt || '',
       })),
+      linkedEntityId: mention.existingId,
     })
   }
 
@@ -360,7 +475,7 @@ function generateWikiContent(
   outgoingRelationships: EntityRelationship[],
   incomingRelationships: EntityRelationship[],
   allEntityNames: Set<string>
-): string {
+): { content: string; description: string } {
   const typeLabels: Record<string, string> = {
     npc: 'Character',
     location: 'Location',
@@ -461,7 +576,7 @@ function generateWikiContent(
     }
   }
 
-  return content
+  return { content, description }
 }
 
 // ============================================
@@ -473,6 +588,7 @@ export interface ExtractionProgress {
   current: number
   total: number
   message: string
+  chunkFailure?: ChunkFailure // Set when stage is 'chunk_failed'
 }
 
 export interface ExtractionSettings {
@@ -483,9 +599,19 @@ export interface ExtractionSettings {
   maxChunks?: number // Limit chunks to avoid timeout (default: 15)
   parallelBatchSize?: number // Process N chunks in parallel (default: 3)
   customPrompts?: CustomPrompts // Custom extraction prompts
-  extractionModel?: AIModel // Model to use for extraction (Claude or Gemini)
+  extractionModel?: AIModel // Model to use for extraction (Claude, Gemini or a local model)
+  usage?: UsageContext // Campaign and user to meter extraction calls against
+  resilience?: ResilienceOptions // Retries, per-call timeout and provider concurrency limit
+  keepExistingEntities?: boolean // Also return entities the campaign already has, e.g. to update them from a new document version
+  completedChunks?: Record<number, ChunkExtraction> // Chunks extracted by an earlier run, by index; they are not sent again
+  onChunkExtracted?: (chunkIndex: number, extraction: ChunkExtraction) => void // A chunk finished without failing, e.g. to checkpoint it
+  beforeBatch?: () => Promise<void> // Called before each batch of chunks; throw to stop, e.g. once the usage budget is spent
+  findLinkCandidates?: FindLinkCandidates // Existing entities to offer each chunk for linking (see linking.ts)
 }
 
+// Overall budget for one chunk, repairs and retries included; at least two calls' worth
+const CHUNK_TIMEOUT_MS = 120_000
+
 export async function runExtractionPipeline(
   content: string,
   fileName: string,
@@ -530,11 +656,26 @@ export async function runExtractionPipeline(
 
   // Process chunks in parallel batches
   const extractions: ChunkExtraction[] = []
+  const chunkFailures: ChunkFailure[] = []
+
+  const reportChunkFailure = (chunkIndex: number, reason: string) => {
+    const failure = { chunkIndex, reason }
+    chunkFailures.push(failure)
+    onProgress?.({
+      stage: 'chunk_failed',
+      current: chunkIndex + 1,
+      total: totalChunks,
+      message: `Chunk ${chunkIndex + 1}/${totalChunks}: ${reason}`,
+      chunkFailure: failure,
+    })
+  }
 
   for (let batchStart = 0; batchStart < chunks.length; batchStart += parallelBatchSize) {
     const batchEnd = Math.min(batchStart + parallelBatchSize, chunks.length)
     const batchChunks = chunks.slice(batchStart, batchEnd)
 
+    await settings?.beforeBatch?.()
+
     onProgress?.({
       stage: 'extracting',
       current: batchStart + 1,
@@ -542,19 +683,31 @@ export async function runExtractionPipeline(
       message: `Extracting entities from chunks ${batchStart + 1}-${batchEnd}/${totalChunks}`
     })
 
-    // Process batch in parallel with per-chunk timeout
+    // Process batch in parallel; the provider's concurrency limit queues calls beyond it
     const batchPromises = batchChunks.map(async (chunk, idx) => {
       const chunkIndex = batchStart + idx
+      const completed = settings?.completedChunks?.[chunkIndex]
+      if (completed) return completed
+
+      // Abort the in-flight call (rather than abandon it) when the chunk runs out of time
+      const controller = new AbortController()
+      const chunkTimeoutMs = Math.max(CHUNK_TIMEOUT_MS, 2 * (settings?.resilience?.timeoutMs ?? 0))
+      const timer = setTimeout(() => controller.abort(new Error(`Chunk ${chunkIndex + 1} timed out`)), chunkTimeoutMs)
+      const callerSignal = settings?.resilience?.signal
+      const signal = callerSignal ? AbortSignal.any([callerSignal, controller.signal]) : controller.signal
+
       try {
-        // Timeout for individual chunk (45 seconds - allows for API queue time and network latency)
-        const chunkTimeout = new Promise<ChunkExtraction>((_, reject) =>
-          setTimeout(() => reject(new Error(`Chunk ${chunkIndex + 1} timed out`)), 45000)
+        const linkCandidates = settings?.findLinkCandidates ? await settings.findLinkCandidates(chunk) : []
+        const extraction = await extractFromChunk(
+          chunk, chunkIndex, totalChunks, language, aggressiveness, customPrompts, extractionModel,
+          settings?.usage,
+          { ...settings?.resilience, signal },
+          linkCandidates
         )
 
-        const extraction = await Promise.race([
-          extractFromChunk(chunk, chunkIndex, totalChunks, language, aggressiveness, customPrompts, extractionModel),
-          chunkTimeout,
-        ])
+        if (extraction.failure) {
+          reportChunkFailure(chunkIndex, extraction.failure)
+        }
 
         // Filter entities by confidence threshold
         extraction.entities = extraction.entities.filter(e => e.confidence >= confidenceThreshold)
@@ -564,10 +717,17 @@ export async function runExtractionPipeline(
           extraction.relationships = []
         }
 
+        if (!extraction.failure) {
+          settings?.onChunkExtracted?.(chunkIndex, extraction)
+        }
+
         return extraction
       } catch (error) {
         console.error(`[Extraction] Failed to process chunk ${chunkIndex + 1}:`, error)
+        reportChunkFailure(chunkIndex, error instanceof Error ? error.message : String(error))
         return { entities: [], relationships: [] }
+      } finally {
+        clearTimeout(timer)
       }
     })
 
@@ -576,7 +736,7 @@ export async function runExtractionPipeline(
   }
 
   // Merge and deduplicate
-  const { entities, relationships } = mergeExtractions(extractions, existingEntityNames)
+  const { entities, relationships } = mergeExtractions(extractions, existingEntityNames, settings?.keepExistingEntities)
 
   console.log(`[Extraction] Pipeline complete: ${entities.length} entities, ${relationships.length} relationships`)
 
@@ -584,6 +744,7 @@ export async function runExtractionPipeline(
     entities,
     relationships,
     documentSummary: `Extracted ${entities.length} entities and ${relationships.length} relationships from ${fileName}`,
+    chunkFailures,
   }
 }
 
@@ -0,0 +1,71 @@
+import { z } from 'zod'
+import { sanitizeProperties } from '@/lib/entity-properties'
+
+// ============================================
+// Extraction output schemas
+// ============================================
+
+// Models often emit numbers as strings ("0.8") or leave optional fields null
+const optionalString = z.string().nullish().transform((value) => value ?? '')
+
+export const entityMentionSchema = z.object({
+  name: z.string().trim().min(1, 'name must not be empty'),
+  type: z.string().trim().min(1, 'type must not be empty'),
+  aliases: z.array(z.string()).nullish().transform((value) => value ?? []),
+  description: optionalString,
+  confidence: z.coerce.number().min(0).max(1).default(0.7),
+  existingId: z.string().nullish().transform((value) => value?.trim() || undefined), // Linked entity from the prompt's catalog
+  // Infobox facts; malformed ones are dropped rather than failing the entity
+  properties: z.unknown().transform((value) => sanitizeProperties(value)),
+})
+
+export const relationshipMentionSchema = z.object({
+  sourceEntity: z.string().trim().min(1, 'sourceEntity must not be empty'),
+  targetEntity: z.string().trim().min(1, 'targetEntity must not be empty'),
+  relationshipType: z.string().trim().min(1, 'relationshipType must not be empty'),
+  reverseLabel: z.string().nullish().transform((value) => value ?? undefined),
+  excerpt: optionalString,
+})
+
+export const chunkExtractionSchema = z.object({
+  entities: z.array(entityMentionSchema).default([]),
+  relationships: z.array(relationshipMentionSchema).default([]),
+})
+
+export type EntityMention = z.infer<typeof entityMentionSchema>
+export type RelationshipMention = z.infer<typeof relationshipMentionSchema>
+export type ChunkExtractionOutput = z.infer<typeof chunkExtractionSchema>
+
+/**
+ * Human-readable validation errors to send back to the model, capped so
+ * one bad array does not blow up the repair prompt
+ */
+export function formatSchemaIssues(error: z.ZodError, limit: number = 15): string {
+  const lines = error.issues.slice(0, limit).map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)'
+    return `- ${path}: ${issue.message}`
+  })
+  if (error.issues.length > limit) {
+    lines.push(`- ...and ${error.issues.length - limit} more`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Keep the items of a failed extraction that are valid on their own
+ */
+export function salvageChunkExtraction(raw: unknown): ChunkExtractionOutput {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const keepValid = <T>(items: unknown, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T[] =>
+    Array.isArray(items)
+      ? items.flatMap((item) => {
+          const parsed = schema.safeParse(item)
+          return parsed.success ? [parsed.data] : []
+        })
+      : []
+
+  return {
+    entities: keepValid(value.entities, entityMentionSchema),
+    relationships: keepValid(value.relationships, relationshipMentionSchema),
+  }
+}
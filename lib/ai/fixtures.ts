@@ -0,0 +1,110 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/**
+ * Record/replay layer for AI calls, for offline development and deterministic runs
+ *
+ * AI_FIXTURE_MODE=replay  Serve recorded responses; on a miss, call the real
+ *                         provider (if its key is set) and record the result
+ * AI_FIXTURE_MODE=record  Always call the real provider and overwrite the recording
+ *
+ * Recordings are JSON files under AI_FIXTURE_DIR (default: fixtures/ai),
+ * one per request, named by a hash of everything that affects the output.
+ */
+
+export type FixtureMode = 'off' | 'replay' | 'record'
+
+export type FixtureKind = 'completion' | 'embedding' | 'rerank'
+
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.AI_FIXTURE_MODE
+  return mode === 'replay' || mode === 'record' ? mode : 'off'
+}
+
+/**
+ * Whether AI calls are served from recordings, so missing API keys are not an error
+ */
+export function isFixtureModeEnabled(): boolean {
+  return getFixtureMode() !== 'off'
+}
+
+function getFixtureDir(): string {
+  return path.resolve(process.cwd(), process.env.AI_FIXTURE_DIR || 'fixtures/ai')
+}
+
+/**
+ * Stable hash of a request. Object keys are sorted so field order does not matter.
+ */
+export function hashFixtureRequest(request: unknown): string {
+  const canonical = JSON.stringify(request, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  )
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 32)
+}
+
+function getFixturePath(kind: FixtureKind, hash: string): string {
+  return path.join(getFixtureDir(), kind, `${hash}.json`)
+}
+
+async function readFixture<T>(kind: FixtureKind, hash: string): Promise<T | null> {
+  try {
+    const file = await fs.readFile(getFixturePath(kind, hash), 'utf-8')
+    return (JSON.parse(file) as { response: T }).response
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+async function writeFixture<T>(kind: FixtureKind, hash: string, request: unknown, response: T): Promise<void> {
+  const file = getFixturePath(kind, hash)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  // The request is stored alongside the response so recordings can be inspected and diffed
+  await fs.writeFile(file, JSON.stringify({ request, response }, null, 2) + '\n')
+}
+
+/**
+ * Run an AI call through the fixture store
+ *
+ * @param kind - Recording namespace
+ * @param request - Everything that determines the response; hashed to form the key
+ * @param live - Performs the real provider call
+ * @param onReplay - Called when a recording is served instead (e.g. to replay stream tokens)
+ */
+export async function withFixture<T>(
+  kind: FixtureKind,
+  request: unknown,
+  live: () => Promise<T>,
+  onReplay?: (response: T) => void
+): Promise<T> {
+  const mode = getFixtureMode()
+  if (mode === 'off') {
+    return live()
+  }
+
+  const hash = hashFixtureRequest(request)
+
+  if (mode === 'replay') {
+    const recorded = await readFixture<T>(kind, hash)
+    if (recorded !== null) {
+      console.log(`[Fixtures] Replaying ${kind} ${hash}`)
+      onReplay?.(recorded)
+      return recorded
+    }
+  }
+
+  let response: T
+  try {
+    response = await live()
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new Error(`No recorded ${kind} fixture ${hash} and the live call failed: ${reason}`)
+  }
+
+  await writeFixture(kind, hash, request, response)
+  console.log(`[Fixtures] Recorded ${kind} ${hash}`)
+  return response
+}
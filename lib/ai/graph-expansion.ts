@@ -0,0 +1,271 @@
+import { db, entities, relationships, chunks } from '@/lib/db'
+import { eq, and, or, inArray, ilike, SQL } from 'drizzle-orm'
+import { getUniqueLinkTargets } from '@/lib/wikilinks/parser'
+import { getVisibleContent } from '@/lib/secret-blocks'
+import { estimateTokens } from './usage'
+import type { SearchResult, RelationshipPath } from '@/lib/types'
+
+/**
+ * Graph-expanded retrieval
+ *
+ * Questions like "who rules the city where Mira lives" need facts that live on
+ * a neighbour of the matched entity. After search, the top entity hits are used
+ * as seeds and the lead chunk of each one-hop neighbour (relationships in both
+ * directions, [[wikilinks]] in both directions) is added, best-weighted first,
+ * until the token budget is spent.
+ */
+
+export interface GraphExpansionOptions {
+  excludeDmOnly?: boolean
+  tokenBudget?: number // Estimated tokens of neighbour text to add
+  seedCount?: number // How many top entity hits to expand from
+}
+
+const DEFAULT_TOKEN_BUDGET = 1500
+const DEFAULT_SEED_COUNT = 3
+const MAX_NEIGHBOURS = 8
+
+// Neighbour text beyond this is cut, so one long page cannot take the whole budget
+const MAX_NEIGHBOUR_CHARS = 1500
+
+// How likely a neighbour over this edge holds facts the question needs
+const RELATIONSHIP_WEIGHTS: Record<string, number> = {
+  lives_in: 1.0,
+  located_in: 1.0,
+  member_of: 0.9,
+  owns: 0.8,
+  ally_of: 0.8,
+  enemy_of: 0.8,
+  created: 0.7,
+  participated_in: 0.7,
+  related_to: 0.5,
+  mentioned_in: 0.4,
+}
+
+const DEFAULT_RELATIONSHIP_WEIGHT = 0.6
+const WIKILINK_WEIGHT = 0.5
+
+interface Candidate {
+  score: number
+  via: RelationshipPath
+}
+
+function getRelationshipWeight(relationshipType: string): number {
+  return RELATIONSHIP_WEIGHTS[relationshipType.toLowerCase()] ?? DEFAULT_RELATIONSHIP_WEIGHT
+}
+
+// Same rule as excludeDmOnly in searchSimilarChunks
+function visibleTo(excludeDmOnly: boolean): SQL | undefined {
+  return excludeDmOnly ? eq(entities.isDmOnly, false) : undefined
+}
+
+/**
+ * Add chunks of one-hop neighbours of the top entity results
+ * Neighbours already in the results are skipped; added results carry via_relationship.
+ */
+export async function expandWithNeighbours(
+  campaignId: string,
+  results: SearchResult[],
+  options: GraphExpansionOptions = {}
+): Promise<SearchResult[]> {
+  const {
+    excludeDmOnly = false,
+    tokenBudget = DEFAULT_TOKEN_BUDGET,
+    seedCount = DEFAULT_SEED_COUNT,
+  } = options
+
+  const seedIds = Array.from(new Set(
+    results
+      .filter((r) => r.source_type !== 'document' && r.entity_id)
+      .map((r) => r.entity_id)
+  )).slice(0, seedCount)
+
+  if (seedIds.length === 0 || tokenBudget <= 0) {
+    return results
+  }
+
+  try {
+    const seeds = await db.query.entities.findMany({
+      where: and(eq(entities.campaignId, campaignId), inArray(entities.id, seedIds)),
+      columns: { id: true, name: true, content: true },
+    })
+    if (seeds.length === 0) {
+      return results
+    }
+
+    // Links and text inside secret blocks do not count for players
+    const visibleText = (content: string | null) => getVisibleContent(content || '', !excludeDmOnly)
+
+    const seedById = new Map(seeds.map((seed) => [seed.id, seed]))
+    // Earlier hits count more: 1, 1/2, 1/3...
+    const seedScore = (seedId: string) => 1 / (seedIds.indexOf(seedId) + 1)
+
+    const candidates = new Map<string, Candidate>()
+    const known = new Set(results.map((r) => r.entity_id).filter(Boolean))
+    const consider = (entityId: string, score: number, via: RelationshipPath) => {
+      if (known.has(entityId)) return
+      const existing = candidates.get(entityId)
+      if (!existing || existing.score < score) {
+        candidates.set(entityId, { score, via })
+      }
+    }
+
+    // Relationships, in both directions
+    const edges = await db
+      .select({
+        sourceEntityId: relationships.sourceEntityId,
+        targetEntityId: relationships.targetEntityId,
+        relationshipType: relationships.relationshipType,
+      })
+      .from(relationships)
+      .where(
+        and(
+          eq(relationships.campaignId, campaignId),
+          or(inArray(relationships.sourceEntityId, seedIds), inArray(relationships.targetEntityId, seedIds))
+        )
+      )
+
+    for (const edge of edges) {
+      const weight = getRelationshipWeight(edge.relationshipType)
+      const source = seedById.get(edge.sourceEntityId)
+      const target = seedById.get(edge.targetEntityId)
+      if (source) {
+        consider(edge.targetEntityId, seedScore(source.id) * weight, {
+          entity_id: source.id,
+          entity_name: source.name,
+          relationship_type: edge.relationshipType,
+          direction: 'outgoing',
+        })
+      }
+      if (target) {
+        consider(edge.sourceEntityId, seedScore(target.id) * weight, {
+          entity_id: target.id,
+          entity_name: target.name,
+          relationship_type: edge.relationshipType,
+          direction: 'incoming',
+        })
+      }
+    }
+
+    // Wikilinks written in the seeds' pages
+    const linkTargets = new Map<string, string[]>() // lowercased link target -> seed ids
+    for (const seed of seeds) {
+      for (const target of getUniqueLinkTargets(visibleText(seed.content))) {
+        linkTargets.set(target, [...(linkTargets.get(target) || []), seed.id])
+      }
+    }
+
+    if (linkTargets.size > 0) {
+      const campaignEntities = await db.query.entities.findMany({
+        where: eq(entities.campaignId, campaignId),
+        columns: { id: true, name: true, aliases: true },
+      })
+
+      for (const entity of campaignEntities) {
+        const terms = [entity.name, ...(entity.aliases || [])].map((term) => term.toLowerCase())
+        const linkingSeeds = new Set(terms.flatMap((term) => linkTargets.get(term) || []))
+        for (const seedId of Array.from(linkingSeeds)) {
+          const seed = seedById.get(seedId)!
+          consider(entity.id, seedScore(seedId) * WIKILINK_WEIGHT, {
+            entity_id: seed.id,
+            entity_name: seed.name,
+            relationship_type: 'wikilink',
+            direction: 'outgoing',
+          })
+        }
+      }
+    }
+
+    // Pages that link to a seed
+    const backlinks = await db.query.entities.findMany({
+      where: and(
+        eq(entities.campaignId, campaignId),
+        or(
+          ...seeds.flatMap((seed) => [
+            ilike(entities.content, `%[[${seed.name}]]%`),
+            ilike(entities.content, `%[[${seed.name}|%`),
+          ])
+        )
+      ),
+      columns: { id: true, content: true },
+    })
+
+    for (const backlink of backlinks) {
+      const targets = getUniqueLinkTargets(visibleText(backlink.content))
+      for (const seed of seeds) {
+        if (targets.includes(seed.name.toLowerCase())) {
+          consider(backlink.id, seedScore(seed.id) * WIKILINK_WEIGHT, {
+            entity_id: seed.id,
+            entity_name: seed.name,
+            relationship_type: 'wikilink',
+            direction: 'incoming',
+          })
+        }
+      }
+    }
+
+    if (candidates.size === 0) {
+      return results
+    }
+
+    const neighbourIds = Array.from(candidates.keys())
+    const [neighbours, leadChunks] = await Promise.all([
+      db.query.entities.findMany({
+        where: and(
+          eq(entities.campaignId, campaignId),
+          inArray(entities.id, neighbourIds),
+          visibleTo(excludeDmOnly)
+        ),
+        columns: { id: true, name: true, entityType: true, content: true },
+      }),
+      db
+        .select({ entityId: chunks.entityId, content: chunks.content })
+        .from(chunks)
+        .where(and(
+          inArray(chunks.entityId, neighbourIds),
+          eq(chunks.chunkIndex, 0),
+          excludeDmOnly ? eq(chunks.isDmOnly, false) : undefined
+        )),
+    ])
+
+    const leadChunkByEntity = new Map(leadChunks.map((chunk) => [chunk.entityId, chunk.content]))
+
+    const ranked = neighbours
+      .map((neighbour) => ({ neighbour, ...candidates.get(neighbour.id)! }))
+      .sort((a, b) => b.score - a.score)
+
+    // Best-weighted first; a neighbour that does not fit leaves room for smaller ones
+    let remaining = tokenBudget
+    const expanded: SearchResult[] = []
+    for (const { neighbour, via } of ranked) {
+      if (expanded.length >= MAX_NEIGHBOURS) break
+
+      const text = (leadChunkByEntity.get(neighbour.id) || visibleText(neighbour.content)).slice(0, MAX_NEIGHBOUR_CHARS)
+      if (!text.trim()) continue
+
+      const tokens = estimateTokens(text)
+      if (tokens > remaining) continue
+      remaining -= tokens
+
+      expanded.push({
+        entity_id: neighbour.id,
+        entity_name: neighbour.name,
+        entity_type: neighbour.entityType,
+        chunk_text: text,
+        similarity: 0,
+        source_type: 'entity',
+        via_relationship: via,
+        // Legacy aliases for backward compatibility
+        note_id: neighbour.id,
+        note_title: neighbour.name,
+        note_type: neighbour.entityType,
+      })
+    }
+
+    console.log('[RAG/Graph] Expanded', seedIds.length, 'seeds with', expanded.length, 'of', candidates.size, 'neighbours,', tokenBudget - remaining, 'tokens')
+    return [...results, ...expanded]
+  } catch (error) {
+    console.error('[RAG/Graph] Expansion error:', error)
+    return results
+  }
+}
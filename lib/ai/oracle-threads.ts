@@ -0,0 +1,173 @@
+import { db, oracleThreads, oracleMessages, OracleThread, OracleMessage } from '@/lib/db'
+import { eq, and, desc, asc } from 'drizzle-orm'
+import type { ChatMessage, SearchResult, SearchQuery } from '@/lib/types'
+import { ensureOracleThreadsTables } from '@/lib/db/migrations'
+
+/**
+ * Saved Oracle conversations
+ *
+ * Each user has their own threads per campaign. The chat route loads a
+ * thread's history from here rather than trusting the client, and every answer
+ * is stored with the sources it was based on so it can be reviewed later.
+ */
+
+export interface OracleAnswer {
+  content: string
+  mode: 'rag' | 'direct'
+  sources: SearchResult[]
+  searchQuery?: SearchQuery
+}
+
+export const MAX_TITLE_LENGTH = 80
+
+// Turns the model sees; matches what prepareChat keeps
+const HISTORY_MESSAGES = 10
+
+const THREAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function toChatMessage(message: OracleMessage): ChatMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    mode: message.mode,
+    sources: message.sources,
+    searchQuery: message.searchQuery ?? undefined,
+  }
+}
+
+/**
+ * Thread title from its first question, cut at a word boundary
+ */
+export function titleFromMessage(message: string): string {
+  const text = message.replace(/\s+/g, ' ').trim()
+  if (text.length <= MAX_TITLE_LENGTH) return text || 'New conversation'
+
+  const cut = text.slice(0, MAX_TITLE_LENGTH)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`
+}
+
+/**
+ * Start a thread, titled after its first question
+ */
+export async function createThread(campaignId: string, userId: string, firstMessage: string): Promise<OracleThread> {
+  await ensureOracleThreadsTables()
+
+  const [thread] = await db
+    .insert(oracleThreads)
+    .values({ campaignId, userId, title: titleFromMessage(firstMessage) })
+    .returning()
+
+  return thread
+}
+
+/**
+ * A thread, only if it belongs to this user in this campaign
+ * Ids that are not UUIDs (client input) are not found rather than a query error.
+ */
+export async function getThread(campaignId: string, userId: string, threadId: string): Promise<OracleThread | null> {
+  if (!THREAD_ID_PATTERN.test(threadId)) return null
+
+  await ensureOracleThreadsTables()
+
+  const thread = await db.query.oracleThreads.findFirst({
+    where: and(
+      eq(oracleThreads.id, threadId),
+      eq(oracleThreads.campaignId, campaignId),
+      eq(oracleThreads.userId, userId)
+    ),
+  })
+
+  return thread ?? null
+}
+
+/**
+ * The user's threads in a campaign, most recently active first
+ */
+export async function listThreads(campaignId: string, userId: string): Promise<OracleThread[]> {
+  await ensureOracleThreadsTables()
+
+  return db.query.oracleThreads.findMany({
+    where: and(eq(oracleThreads.campaignId, campaignId), eq(oracleThreads.userId, userId)),
+    orderBy: [desc(oracleThreads.updatedAt)],
+  })
+}
+
+/**
+ * Every message of a thread with its stored sources, oldest first
+ */
+export async function getThreadMessages(threadId: string): Promise<ChatMessage[]> {
+  const rows = await db.query.oracleMessages.findMany({
+    where: eq(oracleMessages.threadId, threadId),
+    orderBy: [asc(oracleMessages.createdAt)],
+  })
+
+  return rows.map(toChatMessage)
+}
+
+/**
+ * Recent turns for the model, oldest first
+ * Search-only exchanges are left out: their answers are result lists, not replies.
+ */
+export async function loadThreadHistory(threadId: string): Promise<ChatMessage[]> {
+  const rows = await db.query.oracleMessages.findMany({
+    where: and(eq(oracleMessages.threadId, threadId), eq(oracleMessages.mode, 'rag')),
+    orderBy: [desc(oracleMessages.createdAt)],
+    limit: HISTORY_MESSAGES,
+  })
+
+  return rows.reverse().map((row) => ({ role: row.role, content: row.content }))
+}
+
+/**
+ * Store a question and its answer, and mark the thread as active
+ */
+export async function saveExchange(threadId: string, question: string, answer: OracleAnswer): Promise<ChatMessage[]> {
+  const askedAt = new Date()
+  // The answer must sort after the question even when both are saved in the same millisecond
+  const answeredAt = new Date(askedAt.getTime() + 1)
+
+  const saved = await db
+    .insert(oracleMessages)
+    .values([
+      { threadId, role: 'user', content: question, mode: answer.mode, createdAt: askedAt },
+      {
+        threadId,
+        role: 'assistant',
+        content: answer.content,
+        mode: answer.mode,
+        sources: answer.sources,
+        searchQuery: answer.searchQuery ?? null,
+        createdAt: answeredAt,
+      },
+    ])
+    .returning()
+
+  await db
+    .update(oracleThreads)
+    .set({ updatedAt: answeredAt })
+    .where(eq(oracleThreads.id, threadId))
+
+  return saved.map(toChatMessage)
+}
+
+/**
+ * Rename a thread
+ */
+export async function renameThread(threadId: string, title: string): Promise<OracleThread> {
+  const [updated] = await db
+    .update(oracleThreads)
+    .set({ title: title.trim().slice(0, MAX_TITLE_LENGTH) })
+    .where(eq(oracleThreads.id, threadId))
+    .returning()
+
+  return updated
+}
+
+/**
+ * Delete a thread and its messages
+ */
+export async function deleteThread(threadId: string): Promise<void> {
+  await db.delete(oracleThreads).where(eq(oracleThreads.id, threadId))
+}
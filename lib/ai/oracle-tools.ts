@@ -0,0 +1,336 @@
+import { db, entities, relationships, entitySources, Entity } from '@/lib/db'
+import { eq, and, or, ilike, sql, SQL } from 'drizzle-orm'
+import { alias } from 'drizzle-orm/pg-core'
+import type { ToolDefinition } from './client'
+import type { SearchResult, ToolCallRecord } from '@/lib/types'
+import { getVisibleContent } from '@/lib/secret-blocks'
+
+// ============================================
+// Types
+// ============================================
+
+export interface OracleToolContext {
+  campaignId: string
+  excludeDmOnly: boolean
+}
+
+export interface OracleToolResult {
+  output: string // JSON handed back to the model
+  sources: SearchResult[] // Entities the call surfaced, shown with the answer
+}
+
+// Keep tool results small enough that a few rounds fit in the context window
+const MAX_CONTENT_LENGTH = 4000
+const MAX_LIST_RESULTS = 50
+
+// ============================================
+// Definitions
+// ============================================
+
+export const ORACLE_TOOLS: ToolDefinition[] = [
+  {
+    name: 'get_entity',
+    description: 'Read the full wiki page of an entity (NPC, location, faction, item...) by its name or alias.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Entity name or alias' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'list_relationships',
+    description: 'List every relationship of an entity, in both directions, optionally filtered by relationship type (e.g. member_of, ally_of, located_in).',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Entity name or alias' },
+        relationship_type: { type: 'string', description: 'Only return relationships of this type' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'search_entities',
+    description: 'List entities by type and/or tag, optionally matching a word in the name. Use this to enumerate, e.g. all NPCs or everything tagged "undead".',
+    parameters: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', description: 'Entity type, e.g. npc, location, faction' },
+        tag: { type: 'string', description: 'Tag the entity must have' },
+        name_contains: { type: 'string', description: 'Text the entity name must contain' },
+        limit: { type: 'integer', description: `Maximum results (default 20, max ${MAX_LIST_RESULTS})` },
+      },
+    },
+  },
+  {
+    name: 'get_entity_sources',
+    description: 'List the uploaded documents an entity was extracted from, with the excerpt that mentions it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Entity name or alias' },
+      },
+      required: ['name'],
+    },
+  },
+]
+
+// ============================================
+// Helpers
+// ============================================
+
+// Same rule as excludeDmOnly in searchSimilarChunks
+function visibleTo(context: OracleToolContext): SQL | undefined {
+  return context.excludeDmOnly ? eq(entities.isDmOnly, false) : undefined
+}
+
+// Entity text with secret blocks removed for players
+function visibleContent(entity: Pick<Entity, 'content'>, context: OracleToolContext): string {
+  return getVisibleContent(entity.content || '', !context.excludeDmOnly)
+}
+
+function getString(input: Record<string, unknown>, key: string): string | undefined {
+  const value = input[key]
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+// Model input matched literally by ILIKE: % and _ are not wildcards
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&')
+}
+
+/**
+ * Resolve a name the model typed to a visible entity: exact name, alias, then partial name
+ * An empty name resolves to nothing rather than to whichever entity comes first.
+ */
+async function findVisibleEntity(name: string, context: OracleToolContext): Promise<Entity | null> {
+  if (!name.trim()) return null
+
+  const pattern = escapeLikePattern(name.trim())
+  const inCampaign = and(eq(entities.campaignId, context.campaignId), visibleTo(context))
+
+  const exact = await db.query.entities.findFirst({
+    where: and(
+      inCampaign,
+      or(
+        ilike(entities.name, pattern),
+        sql`EXISTS (SELECT 1 FROM unnest(${entities.aliases}) AS alias WHERE lower(alias) = lower(${name}))`
+      )
+    ),
+  })
+
+  if (exact) {
+    return exact
+  }
+
+  const partial = await db.query.entities.findFirst({
+    where: and(inCampaign, ilike(entities.name, `%${pattern}%`)),
+  })
+
+  return partial ?? null
+}
+
+function toSource(
+  entity: Pick<Entity, 'id' | 'name' | 'entityType' | 'content'>,
+  toolCall: ToolCallRecord,
+  context: OracleToolContext
+): SearchResult {
+  return {
+    entity_id: entity.id,
+    entity_name: entity.name,
+    entity_type: entity.entityType,
+    chunk_text: visibleContent(entity, context).slice(0, 500),
+    similarity: 0,
+    source_type: 'tool',
+    tool_call: toolCall,
+  }
+}
+
+// A call that surfaced no entity is still reported, so the answer shows what was looked up
+function toolCallOnly(toolCall: ToolCallRecord): SearchResult {
+  return {
+    entity_id: '',
+    entity_name: '',
+    entity_type: '',
+    chunk_text: '',
+    similarity: 0,
+    source_type: 'tool',
+    tool_call: toolCall,
+  }
+}
+
+function notFound(name: string, toolCall: ToolCallRecord): OracleToolResult {
+  return {
+    output: JSON.stringify({ error: `No entity named "${name}" was found` }),
+    sources: [toolCallOnly(toolCall)],
+  }
+}
+
+// ============================================
+// Tools
+// ============================================
+
+async function getEntity(input: Record<string, unknown>, context: OracleToolContext, toolCall: ToolCallRecord): Promise<OracleToolResult> {
+  const name = getString(input, 'name') ?? ''
+  const entity = await findVisibleEntity(name, context)
+  if (!entity) return notFound(name, toolCall)
+
+  const content = visibleContent(entity, context)
+  return {
+    output: JSON.stringify({
+      name: entity.name,
+      type: entity.entityType,
+      aliases: entity.aliases ?? [],
+      tags: entity.tags ?? [],
+      content: content.length > MAX_CONTENT_LENGTH
+        ? content.slice(0, MAX_CONTENT_LENGTH) + '\n[truncated]'
+        : content,
+    }),
+    sources: [toSource(entity, toolCall, context)],
+  }
+}
+
+async function listRelationships(input: Record<string, unknown>, context: OracleToolContext, toolCall: ToolCallRecord): Promise<OracleToolResult> {
+  const name = getString(input, 'name') ?? ''
+  const relationshipType = getString(input, 'relationship_type')
+
+  const entity = await findVisibleEntity(name, context)
+  if (!entity) return notFound(name, toolCall)
+
+  // Join the other end of each edge, so edges to entities the user may not see are
+  // dropped before the limit rather than after it
+  const other = alias(entities, 'other')
+  const rows = await db
+    .select({ rel: relationships, other })
+    .from(relationships)
+    .innerJoin(other, or(
+      and(eq(relationships.sourceEntityId, entity.id), eq(other.id, relationships.targetEntityId)),
+      and(eq(relationships.targetEntityId, entity.id), eq(other.id, relationships.sourceEntityId))
+    ))
+    .where(and(
+      eq(relationships.campaignId, context.campaignId),
+      relationshipType ? eq(relationships.relationshipType, relationshipType) : undefined,
+      context.excludeDmOnly ? eq(other.isDmOnly, false) : undefined
+    ))
+    .limit(MAX_LIST_RESULTS)
+
+  const visible = rows.map(({ rel, other }) => ({
+    rel,
+    outgoing: rel.sourceEntityId === entity.id,
+    other,
+  }))
+
+  return {
+    output: JSON.stringify({
+      entity: entity.name,
+      relationships: visible.map(({ rel, outgoing, other }) => ({
+        direction: outgoing ? 'outgoing' : 'incoming',
+        type: outgoing ? rel.relationshipType : (rel.reverseLabel || rel.relationshipType),
+        entity: other.name,
+        entityType: other.entityType,
+      })),
+    }),
+    sources: [entity, ...visible.map(({ other }) => other)].map((e) => toSource(e, toolCall, context)),
+  }
+}
+
+async function searchEntities(input: Record<string, unknown>, context: OracleToolContext, toolCall: ToolCallRecord): Promise<OracleToolResult> {
+  const type = getString(input, 'type')
+  const tag = getString(input, 'tag')
+  const nameContains = getString(input, 'name_contains')
+  const requestedLimit = typeof input.limit === 'number' ? input.limit : 20
+  const limit = Math.max(1, Math.min(Math.floor(requestedLimit), MAX_LIST_RESULTS))
+
+  const rows = await db.query.entities.findMany({
+    where: and(
+      eq(entities.campaignId, context.campaignId),
+      visibleTo(context),
+      type ? ilike(entities.entityType, escapeLikePattern(type)) : undefined,
+      tag ? sql`EXISTS (SELECT 1 FROM unnest(${entities.tags}) AS t WHERE lower(t) = lower(${tag}))` : undefined,
+      nameContains ? ilike(entities.name, `%${escapeLikePattern(nameContains)}%`) : undefined
+    ),
+    orderBy: entities.name,
+    limit,
+  })
+
+  return {
+    output: JSON.stringify({
+      count: rows.length,
+      entities: rows.map((e) => ({
+        name: e.name,
+        type: e.entityType,
+        tags: e.tags ?? [],
+        summary: visibleContent(e, context).slice(0, 200),
+      })),
+    }),
+    sources: rows.length > 0
+      ? rows.map((e) => toSource(e, toolCall, context))
+      : [toolCallOnly(toolCall)],
+  }
+}
+
+async function getEntitySources(input: Record<string, unknown>, context: OracleToolContext, toolCall: ToolCallRecord): Promise<OracleToolResult> {
+  const name = getString(input, 'name') ?? ''
+  const entity = await findVisibleEntity(name, context)
+  if (!entity) return notFound(name, toolCall)
+
+  const allRows = await db.query.entitySources.findMany({
+    where: eq(entitySources.entityId, entity.id),
+    with: {
+      document: true,
+    },
+  })
+
+  // Excerpts of DM-only documents stay with the DM, like their passages in search
+  const rows = allRows
+    .filter((row) => !(context.excludeDmOnly && row.document?.isDmOnly))
+    .slice(0, MAX_LIST_RESULTS)
+
+  return {
+    output: JSON.stringify({
+      entity: entity.name,
+      sources: rows.map((row) => ({
+        document: row.document?.name ?? 'Unknown document',
+        excerpt: getVisibleContent(row.excerpt ?? '', !context.excludeDmOnly),
+      })),
+    }),
+    sources: [toSource(entity, toolCall, context)],
+  }
+}
+
+const handlers: Record<string, typeof getEntity> = {
+  get_entity: getEntity,
+  list_relationships: listRelationships,
+  search_entities: searchEntities,
+  get_entity_sources: getEntitySources,
+}
+
+/**
+ * Run one Oracle tool call with the caller's visibility
+ * Errors are returned to the model as JSON rather than thrown, so it can recover
+ */
+export async function executeOracleTool(
+  name: string,
+  input: Record<string, unknown>,
+  context: OracleToolContext
+): Promise<OracleToolResult> {
+  const toolCall: ToolCallRecord = { name, input }
+  const handler = handlers[name]
+
+  if (!handler) {
+    return { output: JSON.stringify({ error: `Unknown tool: ${name}` }), sources: [toolCallOnly(toolCall)] }
+  }
+
+  try {
+    console.log('[Oracle] Tool call:', name, JSON.stringify(input))
+    return await handler(input, context, toolCall)
+  } catch (error) {
+    console.error(`[Oracle] Tool ${name} failed:`, error)
+    return {
+      output: JSON.stringify({ error: error instanceof Error ? error.message : 'Tool failed' }),
+      sources: [toolCallOnly(toolCall)],
+    }
+  }
+}
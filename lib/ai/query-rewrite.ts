@@ -0,0 +1,114 @@
+import type { AIModel } from '@/lib/db/schema'
+import type { ChatMessage, SearchQuery } from '@/lib/types'
+import { generateResponse } from './client'
+import type { UsageContext } from './usage'
+import type { ResilienceOptions } from './resilience'
+
+/**
+ * Query condensation for follow-up questions
+ *
+ * "And what does she want?" retrieves nothing on its own. A cheap model reads
+ * the recent conversation and rewrites the question as a standalone search
+ * query, optionally split into sub-queries for multi-part questions.
+ */
+
+export interface QueryRewriteOptions {
+  model: AIModel // Cheaper model that does the rewriting
+  maxSubQueries?: number
+  usage?: UsageContext
+  resilience?: ResilienceOptions
+}
+
+// Enough turns to resolve pronouns without paying for the whole conversation
+const HISTORY_TURNS = 6
+const MAX_TURN_CHARS = 600
+
+const MAX_QUERY_LENGTH = 300
+
+const REWRITE_PROMPT = `You turn the latest message of a conversation about a tabletop RPG campaign into search queries for the campaign wiki.
+
+Rules:
+- Write "query" as a standalone question: replace pronouns and references ("she", "that place", "the second one") with the names they refer to in the conversation.
+- Keep names exactly as written and keep the language of the latest message.
+- If the message is already standalone, return it unchanged.
+{subQueryRule}
+
+Respond with JSON only:
+{"query": "standalone question", "subQueries": []}`
+
+function getSubQueryRule(maxSubQueries: number): string {
+  return maxSubQueries > 0
+    ? `- If the question asks about several things, also list up to ${maxSubQueries} short "subQueries", one per thing. Otherwise leave the list empty.`
+    : '- Always leave "subQueries" empty.'
+}
+
+function formatHistory(history: ChatMessage[]): string {
+  return history
+    .slice(-HISTORY_TURNS)
+    .map((message) => {
+      const content = message.content.length > MAX_TURN_CHARS
+        ? `${message.content.slice(0, MAX_TURN_CHARS)}...`
+        : message.content
+      return `${message.role === 'user' ? 'User' : 'Assistant'}: ${content}`
+    })
+    .join('\n\n')
+}
+
+function cleanQuery(value: unknown): string {
+  return typeof value === 'string' ? value.trim().slice(0, MAX_QUERY_LENGTH) : ''
+}
+
+/**
+ * Standalone search query (and sub-queries) for the latest message
+ * The model is skipped when there is nothing to resolve; on failure the message is searched as-is.
+ */
+export async function rewriteQuery(
+  userMessage: string,
+  history: ChatMessage[],
+  options: QueryRewriteOptions
+): Promise<SearchQuery> {
+  const maxSubQueries = options.maxSubQueries ?? 0
+  const original: SearchQuery = { query: userMessage, subQueries: [], rewritten: false }
+
+  if (history.length === 0 && maxSubQueries === 0) {
+    return original
+  }
+
+  try {
+    const conversation = history.length > 0
+      ? `Conversation so far:\n${formatHistory(history)}\n\n`
+      : ''
+
+    const result = await generateResponse({
+      model: options.model,
+      systemPrompt: REWRITE_PROMPT.replace('{subQueryRule}', getSubQueryRule(maxSubQueries)),
+      messages: [{ role: 'user', content: `${conversation}Latest message: ${userMessage}` }],
+      maxTokens: 300,
+      temperature: 0,
+      responseFormat: 'json',
+      usage: options.usage,
+      resilience: options.resilience,
+    })
+
+    const jsonMatch = result.content.match(/\{[\s\S]*\}/)
+    const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : {}
+
+    const query = cleanQuery(parsed.query) || userMessage
+    const subQueries = (Array.isArray(parsed.subQueries) ? parsed.subQueries : [])
+      .map(cleanQuery)
+      .filter((subQuery: string) => subQuery && subQuery.toLowerCase() !== query.toLowerCase())
+      .slice(0, maxSubQueries)
+
+    const rewritten = query !== userMessage.trim() || subQueries.length > 0
+    console.log('[QueryRewrite] Query:', query, subQueries.length > 0 ? `sub-queries: ${subQueries.join(' | ')}` : '')
+
+    return { query, subQueries, rewritten }
+  } catch (error) {
+    // The client went away: do not carry on to retrieval
+    if (options.resilience?.signal?.aborted) {
+      throw error
+    }
+    console.error('[QueryRewrite] Rewriting failed, searching the message as-is:', error)
+    return original
+  }
+}
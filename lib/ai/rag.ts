@@ -1,17 +1,50 @@
-import { sql } from '@/lib/db'
-import { generateEmbedding } from './embeddings'
+import { db, sql, campaigns } from '@/lib/db'
+import { eq } from 'drizzle-orm'
+import {
+  generateEmbedding,
+  getEmbeddingModelId,
+  isEmbeddingConfigured,
+} from './embeddings'
+import { getActiveEmbeddingTarget, getEmbeddingTarget, EmbeddingTarget } from './embedding-versions'
+import type { ResilienceOptions } from './resilience'
+import {
+  getTextSearchConfig,
+  getSearchVectors,
+  getSearchQuery,
+  getConfigFragment,
+  ensureTextSearchIndexes,
+} from './text-search'
+import {
+  ensureChunkEmbeddingMetadata,
+  ensureChunkVisibilityColumn,
+  ensureDocumentChunksTable,
+  ensureEmbeddingVersionsTable,
+  ensureVectorIndexes,
+} from '@/lib/db/migrations'
 import { SearchResult } from '@/lib/types'
+import { describeRelationshipPath } from '@/lib/utils'
+import { SECRET_FENCE_SQL_PATTERN } from '@/lib/secret-blocks'
 
 export interface SearchOptions {
   limit?: number
   threshold?: number
   excludeDmOnly?: boolean
-  includeNotes?: boolean // Include note embeddings in search
-  enableKeywordFallback?: boolean // Fall back to keyword search if vector search has few results
+  includeDocuments?: boolean // Include passages of uploaded documents in search
+  enableKeywordFallback?: boolean // Fuse full-text matches with the vector results (hybrid search)
+  embeddingVersion?: number // Search this version's vectors instead of the active ones, e.g. a build in progress
+  language?: string // Campaign language, picks the full-text configuration; loaded when omitted
+  userId?: string // Who the query embedding is metered against
+  resilience?: ResilienceOptions // Retry/timeout settings for the query embedding
 }
 
+// Reciprocal rank fusion constant; 60 is the value from the original paper
+const RRF_K = 60
+
 /**
- * Search for similar content using vector search on entity chunks and note embeddings
+ * Hybrid search over entity chunks and document passages
+ * Runs vector search and language-aware full-text search, then merges the two
+ * rankings with reciprocal rank fusion. Without an embedding backend the
+ * full-text ranking is used on its own.
  */
 export async function searchSimilarChunks(
   campaignId: string,
@@ -20,10 +53,10 @@ export async function searchSimilarChunks(
 ): Promise<SearchResult[]> {
   const {
     limit = 8,
-    threshold = 0.2, // Low threshold - rely on keyword fallback for exact matches
+    threshold = 0.2, // Low threshold - full-text search covers exact matches
     excludeDmOnly = false,
-    includeNotes = true, // Include notes by default
-    enableKeywordFallback = true, // Enable keyword search fallback by default
+    includeDocuments = true, // Include document passages by default
+    enableKeywordFallback = true, // Enable hybrid search by default
   } = options
 
   // Sanitize query - remove null bytes and control characters
@@ -31,142 +64,260 @@ export async function searchSimilarChunks(
 
   console.log('[RAG] Starting search for campaign:', campaignId)
   console.log('[RAG] Query:', sanitizedQuery)
-  console.log('[RAG] JINA_API_KEY configured:', !!process.env.JINA_API_KEY)
 
-  // Check if Jina API key is configured
-  if (!process.env.JINA_API_KEY) {
-    console.log('[RAG] JINA_API_KEY not configured - using keyword search only')
+  // The query must be embedded with the model that produced the stored vectors, not the configured one
+  const embeddingTarget = options.embeddingVersion !== undefined
+    ? await getEmbeddingTarget(campaignId, options.embeddingVersion)
+    : await getActiveEmbeddingTarget(campaignId)
+  const embeddingConfig = embeddingTarget.config
+  console.log('[RAG] Embedding model:', getEmbeddingModelId(embeddingConfig), 'version:', embeddingTarget.version)
 
-    // Fall back to keyword-only search
-    const keywordResults = await searchByKeyword(campaignId, sanitizedQuery, {
-      limit,
-      excludeDmOnly,
-      excludeIds: [],
-    })
+  const language = options.language ?? await getCampaignLanguage(campaignId)
+  const searchOptions = { limit, threshold, excludeDmOnly, includeDocuments }
+
+  // Check if the embedding backend is configured
+  if (!isEmbeddingConfigured(embeddingConfig)) {
+    console.log('[RAG] Embedding provider not configured - using keyword search only')
+
+    const keywordResults = await searchByKeyword(campaignId, sanitizedQuery, language, embeddingTarget.version, searchOptions)
 
     console.log('[RAG] Keyword-only search results:', keywordResults.length)
-    return keywordResults
+    return keywordResults.slice(0, limit)
+  }
+
+  // Both rankings are over-fetched so fusion has candidates to promote
+  const fetchOptions = { ...searchOptions, limit: limit * 2 }
+  const [vectorResults, keywordResults] = await Promise.all([
+    searchByVector(campaignId, sanitizedQuery, embeddingTarget, fetchOptions, options),
+    enableKeywordFallback
+      ? searchByKeyword(campaignId, sanitizedQuery, language, embeddingTarget.version, fetchOptions)
+      : Promise.resolve([]),
+  ])
+
+  console.log('[RAG] Vector results:', vectorResults.length, 'keyword results:', keywordResults.length)
+
+  const topResults = fuseRankings([vectorResults, keywordResults]).slice(0, limit)
+
+  console.log('[RAG] Total search results:', topResults.length)
+  if (topResults.length > 0) {
+    console.log('[RAG] Top result:', {
+      name: topResults[0].entity_name,
+      type: topResults[0].entity_type,
+      similarity: topResults[0].similarity,
+      fusion: topResults[0].fusion_score,
+      source: topResults[0].source_type,
+      preview: topResults[0].chunk_text?.substring(0, 100)
+    })
   }
 
+  return topResults
+}
+
+interface RankingOptions {
+  limit: number
+  threshold: number
+  excludeDmOnly: boolean
+  includeDocuments: boolean
+}
+
+async function getCampaignLanguage(campaignId: string): Promise<string> {
+  const campaign = await db.query.campaigns.findFirst({
+    where: eq(campaigns.id, campaignId),
+    columns: { language: true },
+  })
+  return campaign?.language ?? 'en'
+}
+
+// An entity is one result however many of its chunks match; passages are results of their own
+function getResultKey(result: SearchResult): string {
+  return result.source_type === 'document'
+    ? `document:${result.document_id}:${result.chunk_text.slice(0, 80)}`
+    : `entity:${result.entity_id}`
+}
+
+/**
+ * Merge ranked lists with reciprocal rank fusion: score = sum of 1 / (k + rank)
+ * Ranks are comparable across lists even though their raw scores (cosine
+ * similarity, ts_rank) are not. The earliest list's text wins for each result.
+ */
+export function fuseRankings(rankings: SearchResult[][]): SearchResult[] {
+  const fused = new Map<string, SearchResult>()
+
+  for (const ranking of rankings) {
+    const seen = new Set<string>()
+    let rank = 0
+
+    for (const result of ranking) {
+      const key = getResultKey(result)
+      if (seen.has(key)) continue
+      seen.add(key)
+      rank++
+
+      const score = 1 / (RRF_K + rank)
+      const existing = fused.get(key)
+      if (existing) {
+        existing.fusion_score = (existing.fusion_score ?? 0) + score
+        existing.similarity = Math.max(existing.similarity, result.similarity)
+      } else {
+        fused.set(key, { ...result, fusion_score: score })
+      }
+    }
+  }
+
+  return Array.from(fused.values()).sort((a, b) => (b.fusion_score ?? 0) - (a.fusion_score ?? 0))
+}
+
+function toEntityResult(row: Record<string, any>, similarity: number): SearchResult {
+  return {
+    entity_id: row.entity_id,
+    entity_name: row.entity_name,
+    entity_type: row.entity_type,
+    chunk_text: row.chunk_text || 'No content',
+    similarity,
+    source_type: 'entity',
+    // Legacy aliases for backward compatibility
+    note_id: row.entity_id,
+    note_title: row.entity_name,
+    note_type: row.entity_type,
+  }
+}
+
+function toDocumentResult(row: Record<string, any>, similarity: number): SearchResult {
+  return {
+    entity_id: '',
+    entity_name: row.document_name,
+    entity_type: 'document',
+    chunk_text: row.chunk_text,
+    similarity,
+    source_type: 'document',
+    document_id: row.document_id,
+    document_name: row.document_name,
+    is_dm_only: row.is_dm_only,
+  }
+}
+
+// The HNSW indexes are global per dimension and the campaign filter applies after the
+// index scan, so with the default candidate list (ef_search 40) a small campaign in a
+// large database finds few or none of its rows. Campaigns this small scan exactly
+// instead; larger ones widen the candidate list.
+const EXACT_SCAN_MAX_ROWS = 20000
+const HNSW_EF_SEARCH = 400
+
+/**
+ * Run a vector query with index settings suited to the campaign's size
+ */
+async function withVectorScan<T>(
+  table: 'chunks' | 'document_chunks',
+  campaignId: string,
+  version: number,
+  query: (tx: typeof sql) => Promise<T>
+): Promise<T> {
+  const result = await sql.begin(async (transaction) => {
+    // postgres' TransactionSql type drops the tagged-template signature it has at runtime
+    const tx = transaction as unknown as typeof sql
+    const [{ count }] = await tx.unsafe(
+      `SELECT count(*)::int AS count FROM ${table} WHERE campaign_id = $1 AND embedding_version = $2`,
+      [campaignId, version]
+    )
+    if (count <= EXACT_SCAN_MAX_ROWS) {
+      await tx`SET LOCAL enable_indexscan = off`
+    } else {
+      await tx.unsafe(`SET LOCAL hnsw.ef_search = ${HNSW_EF_SEARCH}`)
+    }
+    return query(tx)
+  })
+  return result as T
+}
+
+/**
+ * Vector search on entity chunks and document passages, best match first
+ */
+async function searchByVector(
+  campaignId: string,
+  query: string,
+  embeddingTarget: EmbeddingTarget,
+  options: RankingOptions,
+  searchOptions: SearchOptions
+): Promise<SearchResult[]> {
+  const { limit, threshold, excludeDmOnly, includeDocuments } = options
+  const { version, config: embeddingConfig } = embeddingTarget
+
   try {
+    await ensureChunkEmbeddingMetadata()
+    await ensureEmbeddingVersionsTable()
+    await ensureChunkVisibilityColumn()
+
     // Generate embedding for query (use retrieval.query task for better matching)
     console.log('[RAG] Generating embedding for query...')
-    const queryEmbedding = await generateEmbedding(sanitizedQuery, 'retrieval.query')
+    const queryEmbedding = await generateEmbedding(query, 'retrieval.query', embeddingConfig, {
+      usage: { campaignId, userId: searchOptions.userId, purpose: 'search' },
+      resilience: searchOptions.resilience,
+    })
     console.log('[RAG] Query embedding generated, dimensions:', queryEmbedding.length)
 
     const embeddingStr = `[${queryEmbedding.join(',')}]`
-    const allResults: SearchResult[] = []
+    const results: SearchResult[] = []
+
+    // The HNSW indexes are partial, one per dimension over the column cast to it.
+    // Both the cast and the dimension filter are inlined so the planner can match them.
+    const dimensions = queryEmbedding.length
+    await ensureVectorIndexes(dimensions)
+    const vectorType = sql.unsafe(`vector(${dimensions})`)
+    const dimensionsLiteral = sql.unsafe(String(dimensions))
 
     // Search entity chunks
     console.log('[RAG] Running vector search on entity chunks with threshold:', threshold)
-    const entityRows = await sql`
+    const entityRows = await withVectorScan('chunks', campaignId, version, (tx) => tx`
       SELECT
         e.id as entity_id,
         e.name as entity_name,
         e.entity_type,
         c.content as chunk_text,
-        1 - (c.embedding <=> ${embeddingStr}::vector) as similarity,
-        'entity' as source_type
+        1 - (c.embedding::${vectorType} <=> ${embeddingStr}::${vectorType}) as similarity
       FROM chunks c
       JOIN entities e ON e.id = c.entity_id
       WHERE c.campaign_id = ${campaignId}
         AND c.embedding IS NOT NULL
-        AND (${!excludeDmOnly} OR e.is_dm_only = false)
-        AND 1 - (c.embedding <=> ${embeddingStr}::vector) > ${threshold}
-      ORDER BY c.embedding <=> ${embeddingStr}::vector
+        AND c.embedding_version = ${version}
+        AND c.embedding_dimensions = ${dimensionsLiteral}
+        AND (${!excludeDmOnly} OR (e.is_dm_only = false AND c.is_dm_only = false))
+        AND 1 - (c.embedding::${vectorType} <=> ${embeddingStr}::${vectorType}) > ${threshold}
+      ORDER BY c.embedding::${vectorType} <=> ${embeddingStr}::${vectorType}
       LIMIT ${limit}
-    `
+    `)
 
     console.log('[RAG] Entity chunks found:', entityRows.length)
+    results.push(...entityRows.map((row) => toEntityResult(row, row.similarity)))
 
-    for (const row of entityRows) {
-      allResults.push({
-        entity_id: row.entity_id,
-        entity_name: row.entity_name,
-        entity_type: row.entity_type,
-        chunk_text: row.chunk_text,
-        similarity: row.similarity,
-        source_type: 'entity',
-        // Legacy aliases for backward compatibility
-        note_id: row.entity_id,
-        note_title: row.entity_name,
-        note_type: row.entity_type,
-      })
-    }
+    // Search passages of the original uploads, for details the extractor dropped
+    if (includeDocuments) {
+      await ensureDocumentChunksTable()
 
-    // Search note embeddings if enabled
-    if (includeNotes) {
-      console.log('[RAG] Running vector search on note embeddings...')
-      const noteRows = await sql`
+      console.log('[RAG] Running vector search on document passages...')
+      const documentRows = await withVectorScan('document_chunks', campaignId, version, (tx) => tx`
         SELECT
-          n.id as note_id,
-          n.title as note_title,
-          n.note_type,
-          ne.chunk_text,
-          1 - (ne.embedding <=> ${embeddingStr}::vector) as similarity,
-          'note' as source_type
-        FROM note_embeddings ne
-        JOIN notes n ON n.id = ne.note_id
-        WHERE ne.campaign_id = ${campaignId}
-          AND ne.embedding IS NOT NULL
-          AND (${!excludeDmOnly} OR n.is_dm_only = false)
-          AND 1 - (ne.embedding <=> ${embeddingStr}::vector) > ${threshold}
-        ORDER BY ne.embedding <=> ${embeddingStr}::vector
+          d.id as document_id,
+          d.name as document_name,
+          d.is_dm_only,
+          dc.content as chunk_text,
+          1 - (dc.embedding::${vectorType} <=> ${embeddingStr}::${vectorType}) as similarity
+        FROM document_chunks dc
+        JOIN documents d ON d.id = dc.document_id
+        WHERE dc.campaign_id = ${campaignId}
+          AND dc.embedding IS NOT NULL
+          AND dc.embedding_version = ${version}
+          AND dc.embedding_dimensions = ${dimensionsLiteral}
+          AND (${!excludeDmOnly} OR d.is_dm_only = false)
+          AND 1 - (dc.embedding::${vectorType} <=> ${embeddingStr}::${vectorType}) > ${threshold}
+        ORDER BY dc.embedding::${vectorType} <=> ${embeddingStr}::${vectorType}
         LIMIT ${limit}
-      `
-
-      console.log('[RAG] Note embeddings found:', noteRows.length)
-
-      for (const row of noteRows) {
-        allResults.push({
-          entity_id: row.note_id,
-          entity_name: row.note_title,
-          entity_type: row.note_type,
-          chunk_text: row.chunk_text,
-          similarity: row.similarity,
-          source_type: 'note',
-          // Legacy aliases
-          note_id: row.note_id,
-          note_title: row.note_title,
-          note_type: row.note_type,
-        })
-      }
-    }
-
-    // Sort combined results by similarity and limit
-    allResults.sort((a, b) => (b.similarity || 0) - (a.similarity || 0))
-    let topResults = allResults.slice(0, limit)
+      `)
 
-    console.log('[RAG] Vector search results:', topResults.length)
-
-    // Always run keyword search to find exact content matches (hybrid search)
-    if (enableKeywordFallback) {
-      console.log('[RAG] Running keyword search for hybrid results...')
-      const keywordResults = await searchByKeyword(campaignId, sanitizedQuery, {
-        limit: Math.max(3, limit - topResults.length),
-        excludeDmOnly,
-        excludeIds: topResults.map(r => r.entity_id),
-      })
-
-      if (keywordResults.length > 0) {
-        console.log('[RAG] Keyword search found:', keywordResults.length, 'additional results')
-        // Add keyword results, they might be more relevant for exact matches
-        topResults = [...topResults, ...keywordResults].slice(0, limit)
-      }
+      console.log('[RAG] Document passages found:', documentRows.length)
+      results.push(...documentRows.map((row) => toDocumentResult(row, row.similarity)))
     }
 
-    console.log('[RAG] Total search results:', topResults.length)
-    if (topResults.length > 0) {
-      console.log('[RAG] Top result:', {
-        name: topResults[0].entity_name,
-        type: topResults[0].entity_type,
-        similarity: topResults[0].similarity,
-        source: topResults[0].source_type,
-        preview: topResults[0].chunk_text?.substring(0, 100)
-      })
-    }
-
-    return topResults
+    return results.sort((a, b) => b.similarity - a.similarity)
   } catch (error) {
     console.error('[RAG] Vector search error:', error)
     return []
@@ -185,8 +336,14 @@ export function buildContext(results: SearchResult[]): string {
 
   const context = results
     .map((r, i) => {
+      if (r.source_type === 'document') {
+        return `[Source ${i + 1}: Passage from "${r.document_name}" (uploaded document)]\n${r.chunk_text}`
+      }
       const name = r.entity_name || r.note_title || 'Unknown'
       const type = r.entity_type || r.note_type || 'unknown'
+      if (r.via_relationship) {
+        return `[Source ${i + 1}: ${name} (${type}), linked: ${describeRelationshipPath(name, r.via_relationship)}]\n${r.chunk_text}`
+      }
       return `[Source ${i + 1}: ${name} (${type})]\n${r.chunk_text}`
     })
     .join('\n\n---\n\n')
@@ -196,74 +353,107 @@ export function buildContext(results: SearchResult[]): string {
 }
 
 /**
- * Keyword-based search for entities (fallback when vector search has few results)
- * Uses PostgreSQL ILIKE for case-insensitive matching
+ * Full-text search on entities, entity chunks and document passages, best match first
+ * Uses the campaign language's stemming and stop words; similarity stays 0
+ * because ts_rank is not comparable to cosine similarity.
+ * Chunks and passages are read from the same embedding version as the vector
+ * search, so a rebuild in progress does not return (and fuse) each of them twice.
  */
 async function searchByKeyword(
   campaignId: string,
   query: string,
-  options: {
-    limit?: number
-    excludeDmOnly?: boolean
-    excludeIds?: string[]
-  } = {}
+  language: string,
+  version: number,
+  options: RankingOptions
 ): Promise<SearchResult[]> {
-  const { limit = 5, excludeDmOnly = false, excludeIds = [] } = options
+  const { limit, excludeDmOnly, includeDocuments } = options
+  const config = getTextSearchConfig(language)
 
   try {
-    // Sanitize query - remove null bytes and control characters
-    const sanitizedQuery = query.replace(/\x00/g, '').replace(/[\x00-\x1F\x7F]/g, ' ')
-
-    // Create search pattern - handle multi-word by using OR for each word
-    const words = sanitizedQuery.toLowerCase().trim().split(/\s+/).filter(w => w.length >= 2)
-    if (words.length === 0) {
-      console.log('[RAG/Keyword] No valid search words')
-      return []
-    }
+    await ensureDocumentChunksTable()
+    await ensureChunkVisibilityColumn()
+    await ensureTextSearchIndexes(config)
 
-    // Use the first word for primary search (most specific)
-    const searchPattern = `%${words[0]}%`
-    console.log('[RAG/Keyword] Searching with pattern:', searchPattern, 'from query:', query)
+    const vectors = getSearchVectors(config, { entity: 'e', chunk: 'c', documentChunk: 'dc' })
+    const tsQuery = getSearchQuery(config, query)
+    console.log('[RAG/Keyword] Full-text search with config:', config)
 
-    // Simple text search on entity content
-    const results = await sql`
+    // Whole entities: names weigh more, the excerpt is the best-matching fragments.
+    // Players skip entities with secret blocks here; their public chunks still match below.
+    const entityRows = await sql`
       SELECT
         e.id as entity_id,
         e.name as entity_name,
         e.entity_type,
-        COALESCE(SUBSTRING(e.content, 1, 500), '') as chunk_text,
-        CASE WHEN e.name ILIKE ${searchPattern} THEN 0.35 ELSE 0.25 END as similarity,
-        'entity' as source_type
-      FROM entities e
+        ts_headline(${getConfigFragment(config)}, coalesce(e.content, ''), q.query,
+          'MaxFragments=3, MinWords=15, MaxWords=50, StartSel="", StopSel="", FragmentDelimiter=" … "') as chunk_text,
+        ts_rank_cd(${vectors.entity}, q.query, 32) as rank
+      FROM entities e, (SELECT ${tsQuery} as query) q
       WHERE e.campaign_id = ${campaignId}
-        AND (e.is_dm_only = false OR ${!excludeDmOnly})
-        AND (
-          e.name ILIKE ${searchPattern}
-          OR e.content ILIKE ${searchPattern}
-        )
-      ORDER BY similarity DESC, e.name
+        AND (${!excludeDmOnly} OR (e.is_dm_only = false AND coalesce(e.content, '') !~* ${SECRET_FENCE_SQL_PATTERN}))
+        AND ${vectors.entity} @@ q.query
+      ORDER BY rank DESC, e.name
+      LIMIT ${limit}
+    `
+
+    // Chunks of long entities, where a single section holds the match
+    const chunkRows = await sql`
+      SELECT
+        e.id as entity_id,
+        e.name as entity_name,
+        e.entity_type,
+        c.content as chunk_text,
+        ts_rank_cd(${vectors.chunk}, q.query, 32) as rank
+      FROM chunks c
+      JOIN entities e ON e.id = c.entity_id,
+      (SELECT ${tsQuery} as query) q
+      WHERE c.campaign_id = ${campaignId}
+        AND c.embedding_version = ${version}
+        AND (${!excludeDmOnly} OR (e.is_dm_only = false AND c.is_dm_only = false))
+        AND ${vectors.chunk} @@ q.query
+      ORDER BY rank DESC
       LIMIT ${limit}
     `
 
-    console.log('[RAG/Keyword] Query returned:', results.length, 'rows')
-
-    // Filter out excluded IDs in JS (simpler than dynamic SQL)
-    const excludeSet = new Set(excludeIds)
-    const filtered = results.filter(row => !excludeSet.has(row.entity_id))
-
-    console.log('[RAG/Keyword] After excluding:', filtered.length, 'results')
-
-    return filtered.map(row => ({
-      entity_id: row.entity_id,
-      entity_name: row.entity_name,
-      entity_type: row.entity_type,
-      chunk_text: row.chunk_text || 'No content',
-      similarity: row.similarity,
-      source_type: 'entity' as const,
-      note_id: row.entity_id,
-      note_title: row.entity_name,
-      note_type: row.entity_type,
-    }))
+    const documentRows = includeDocuments
+      ? await sql`
+          SELECT
+            d.id as document_id,
+            d.name as document_name,
+            d.is_dm_only,
+            dc.content as chunk_text,
+            ts_rank_cd(${vectors.documentChunk}, q.query, 32) as rank
+          FROM document_chunks dc
+          JOIN documents d ON d.id = dc.document_id,
+          (SELECT ${tsQuery} as query) q
+          WHERE dc.campaign_id = ${campaignId}
+            AND dc.embedding_version = ${version}
+            AND (${!excludeDmOnly} OR d.is_dm_only = false)
+            AND ${vectors.documentChunk} @@ q.query
+          ORDER BY rank DESC
+          LIMIT ${limit}
+        `
+      : []
+
+    console.log('[RAG/Keyword] Matches:', entityRows.length, 'entities,', chunkRows.length, 'chunks,', documentRows.length, 'passages')
+
+    // One result per entity: whichever excerpt (whole entity or a chunk) ranks higher
+    const ranked = [
+      ...entityRows.map((row) => ({ rank: Number(row.rank), result: toEntityResult(row, 0) })),
+      ...chunkRows.map((row) => ({ rank: Number(row.rank), result: toEntityResult(row, 0) })),
+      ...documentRows.map((row) => ({ rank: Number(row.rank), result: toDocumentResult(row, 0) })),
+    ]
+    ranked.sort((a, b) => b.rank - a.rank)
+
+    const seen = new Set<string>()
+    return ranked
+      .map(({ result }) => result)
+      .filter((result) => {
+        const key = getResultKey(result)
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
   } catch (error) {
     console.error('[RAG/Keyword] Search error:', error)
     return []
@@ -0,0 +1,261 @@
+import type { AIModel, RerankProviderName } from '@/lib/db/schema'
+import type { SearchResult } from '@/lib/types'
+import { generateResponse } from './client'
+import { recordUsage, estimateTokens, UsageContext } from './usage'
+import { withFixture, isFixtureModeEnabled } from './fixtures'
+import { withResilience, ResilienceOptions } from './resilience'
+
+/**
+ * Reranking between retrieval and buildContext
+ *
+ * Retrieval over-fetches candidates; a reranker that reads the query and each
+ * candidate together scores them, and only the best are handed to the model.
+ */
+
+export interface RerankConfig {
+  provider: RerankProviderName
+  model: string // Unused by 'llm', which judges with the campaign's extraction model
+}
+
+export interface RerankContext {
+  judgeModel: AIModel // Cheaper model the 'llm' reranker uses
+  usage?: UsageContext
+  resilience?: ResilienceOptions
+}
+
+export interface Reranker {
+  isConfigured(): boolean
+  // One relevance score in [0, 1] per document, in input order
+  score(query: string, documents: string[], config: RerankConfig, context: RerankContext, signal?: AbortSignal): Promise<number[]>
+}
+
+// Candidates are cut to this many characters before scoring
+const MAX_DOCUMENT_CHARS = 1500
+
+// Keep the status so withResilience can tell 429/5xx from bad requests
+function httpError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status })
+}
+
+function describeCandidate(result: SearchResult): string {
+  const title = result.source_type === 'document'
+    ? `${result.document_name} (uploaded document)`
+    : `${result.entity_name} (${result.entity_type})`
+  return `${title}\n${result.chunk_text}`.slice(0, MAX_DOCUMENT_CHARS)
+}
+
+// ============================================
+// LLM judge
+// ============================================
+
+const LLM_RERANK_PROMPT = `You rate how useful passages from a tabletop RPG campaign wiki are for answering a question.
+
+For every passage, give a score from 0 (irrelevant) to 10 (directly answers the question). Passages that only share words with the question but are about something else score low.
+
+Respond with JSON only:
+{"scores": [{"passage": 1, "score": 7}, {"passage": 2, "score": 0}]}`
+
+/**
+ * Asks the campaign's cheaper model to grade all candidates in one call
+ * The judge call meters itself and applies resilience through generateResponse
+ */
+const llmReranker: Reranker = {
+  isConfigured: () => true,
+
+  async score(query, documents, _config, context) {
+    const passages = documents.map((document, i) => `[Passage ${i + 1}]\n${document}`).join('\n\n')
+
+    const result = await generateResponse({
+      model: context.judgeModel,
+      systemPrompt: LLM_RERANK_PROMPT,
+      messages: [{ role: 'user', content: `Question: ${query}\n\n${passages}` }],
+      maxTokens: 50 + documents.length * 20,
+      temperature: 0,
+      responseFormat: 'json',
+      usage: context.usage,
+      resilience: context.resilience,
+    })
+
+    const jsonMatch = result.content.match(/\{[\s\S]*\}/)
+    const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : {}
+    if (!Array.isArray(parsed.scores)) {
+      throw new Error('Reranker response has no scores')
+    }
+
+    // Passages the judge skipped score 0
+    const scores = new Array<number>(documents.length).fill(0)
+    for (const entry of parsed.scores) {
+      const index = Number(entry?.passage) - 1
+      const score = Number(entry?.score)
+      if (index >= 0 && index < documents.length && Number.isFinite(score)) {
+        scores[index] = Math.min(10, Math.max(0, score)) / 10
+      }
+    }
+    return scores
+  },
+}
+
+// ============================================
+// Reranking endpoint (hosted or self-hosted)
+// ============================================
+
+/**
+ * Any server implementing the common /rerank API
+ * (Jina, Cohere, Voyage, text-embeddings-inference, Infinity)
+ */
+const endpointReranker: Reranker = {
+  isConfigured: () => !!process.env.RERANK_API_BASE_URL,
+
+  async score(query, documents, config, _context, signal) {
+    const baseUrl = process.env.RERANK_API_BASE_URL
+    const apiKey = process.env.RERANK_API_KEY
+
+    if (!baseUrl) {
+      throw new Error('RERANK_API_BASE_URL is not configured')
+    }
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/rerank`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        query,
+        documents,
+        // text-embeddings-inference names it "texts"
+        texts: documents,
+        top_n: documents.length,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('[Rerank] Endpoint error:', errorText)
+      throw httpError(`Rerank endpoint error (${response.status}): ${errorText}`, response.status)
+    }
+
+    // { results: [{ index, relevance_score }] }, or a bare [{ index, score }] from text-embeddings-inference
+    const data = await response.json()
+    const results: Array<{ index: number; relevance_score?: number; score?: number }> = data.results ?? data
+
+    const scores = new Array<number>(documents.length).fill(0)
+    for (const result of results) {
+      scores[result.index] = result.relevance_score ?? result.score ?? 0
+    }
+    return scores
+  },
+}
+
+// ============================================
+// Local cross-encoder (transformers.js)
+// ============================================
+
+// Cross-encoders are expensive to load, keep one per model
+const localCrossEncoders = new Map<string, Promise<{ tokenizer: any; model: any }>>()
+
+/**
+ * Runs a cross-encoder in-process via ONNX Runtime, e.g. Xenova/bge-reranker-base
+ * Inference cannot be interrupted, so the abort signal is ignored
+ */
+const localReranker: Reranker = {
+  isConfigured: () => true,
+
+  async score(query, documents, config) {
+    let crossEncoder = localCrossEncoders.get(config.model)
+    if (!crossEncoder) {
+      crossEncoder = import('@huggingface/transformers').then(async ({ AutoTokenizer, AutoModelForSequenceClassification }) => ({
+        tokenizer: await AutoTokenizer.from_pretrained(config.model),
+        model: await AutoModelForSequenceClassification.from_pretrained(config.model),
+      }))
+      localCrossEncoders.set(config.model, crossEncoder)
+    }
+
+    const { tokenizer, model } = await crossEncoder
+    const inputs = tokenizer(new Array(documents.length).fill(query), {
+      text_pair: documents,
+      padding: true,
+      truncation: true,
+    })
+    const { logits } = await model(inputs)
+
+    // One logit per pair; squash to [0, 1]
+    return (Array.from(logits.data as Float32Array)).map((logit) => 1 / (1 + Math.exp(-logit)))
+  },
+}
+
+const rerankers: Record<Exclude<RerankProviderName, 'none'>, Reranker> = {
+  'llm': llmReranker,
+  'endpoint': endpointReranker,
+  'local': localReranker,
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Check whether results should be reranked with this config
+ */
+export function isRerankEnabled(config: RerankConfig): boolean {
+  if (config.provider === 'none' || !rerankers[config.provider]) return false
+  return isFixtureModeEnabled() || rerankers[config.provider].isConfigured()
+}
+
+/**
+ * Score candidates against the query, best first, trimmed to limit
+ * Each result gets rerank_score. If the reranker fails, the retrieval order is kept.
+ */
+export async function rerankResults(
+  query: string,
+  results: SearchResult[],
+  limit: number,
+  config: RerankConfig,
+  context: RerankContext
+): Promise<SearchResult[]> {
+  if (results.length === 0 || !isRerankEnabled(config)) {
+    return results.slice(0, limit)
+  }
+
+  const reranker = rerankers[config.provider as Exclude<RerankProviderName, 'none'>]
+  const documents = results.map(describeCandidate)
+
+  console.log('[Rerank] Scoring', documents.length, 'candidates with', config.provider)
+
+  try {
+    const scores = config.provider === 'llm'
+      // The judge call goes through generateResponse, which records and retries itself
+      ? await reranker.score(query, documents, config, context)
+      : await withFixture(
+          'rerank',
+          { query, documents, provider: config.provider, model: config.model },
+          () => withResilience(
+            config.provider === 'endpoint' ? 'rerank' : 'local-rerank',
+            (signal) => reranker.score(query, documents, config, context, signal),
+            context.resilience
+          )
+        )
+
+    if (context.usage && config.provider === 'endpoint') {
+      const tokens = estimateTokens(query) * documents.length + documents.reduce((sum, d) => sum + estimateTokens(d), 0)
+      await recordUsage(context.usage, `rerank:${config.model}`, 'rerank', { inputTokens: tokens, outputTokens: 0 })
+    }
+
+    const reranked = results
+      .map((result, i) => ({ ...result, rerank_score: scores[i] ?? 0 }))
+      .sort((a, b) => b.rerank_score - a.rerank_score)
+      .slice(0, limit)
+
+    console.log('[Rerank] Top result:', reranked[0]?.entity_name, 'score:', reranked[0]?.rerank_score)
+    return reranked
+  } catch (error) {
+    // Abort means the client went away; anything else falls back to retrieval order
+    if (context.resilience?.signal?.aborted) {
+      throw error
+    }
+    console.error('[Rerank] Reranking failed, keeping retrieval order:', error)
+    return results.slice(0, limit)
+  }
+}
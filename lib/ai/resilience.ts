@@ -0,0 +1,267 @@
+import { getCampaignSettings, DEFAULT_SETTINGS } from '@/lib/campaign-settings'
+import type { CampaignSettings } from '@/lib/db/schema'
+
+/**
+ * One wrapper for every AI call: per-provider concurrency limit, per-attempt
+ * timeout, caller abort signal, and retries with jittered exponential backoff
+ * for errors that are worth retrying (429, 5xx, 529 overloaded, network).
+ * Streaming calls report each chunk, so their timeout covers the wait for the
+ * first token and the gaps between tokens rather than the whole answer.
+ */
+
+export interface ResilienceOptions {
+  maxRetries?: number
+  timeoutMs?: number // Per attempt; for streams, without a new token
+  maxConcurrency?: number // In-flight calls to this provider, process-wide
+  signal?: AbortSignal // Cancels the call and any pending retry
+  shouldRetry?: () => boolean // Extra veto, e.g. once a stream has emitted tokens
+}
+
+const DEFAULT_RESILIENCE = {
+  maxRetries: DEFAULT_SETTINGS.resilience.maxRetries,
+  timeoutMs: DEFAULT_SETTINGS.resilience.timeoutSeconds * 1000,
+  maxConcurrency: DEFAULT_SETTINGS.resilience.maxConcurrency,
+}
+
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 30_000
+
+// HTTP statuses worth retrying; 529 is Anthropic's "overloaded"
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529])
+
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET'])
+
+/**
+ * Resolve a campaign's AI request limits
+ */
+export function getResilienceOptions(settings?: CampaignSettings | null): ResilienceOptions {
+  const { resilience } = getCampaignSettings(settings)
+  return {
+    maxRetries: resilience.maxRetries,
+    timeoutMs: resilience.timeoutSeconds * 1000,
+    maxConcurrency: resilience.maxConcurrency,
+  }
+}
+
+/**
+ * Request limits for extraction calls, which write long JSON answers in one go
+ */
+export function getExtractionResilienceOptions(settings?: CampaignSettings | null): ResilienceOptions {
+  const { resilience } = getCampaignSettings(settings)
+  return {
+    ...getResilienceOptions(settings),
+    timeoutMs: resilience.extractionTimeoutSeconds * 1000,
+  }
+}
+
+// ============================================
+// Concurrency limiter
+// ============================================
+
+interface Waiter {
+  limit: number
+  resolve: () => void
+}
+
+/**
+ * Semaphore where each caller brings its own limit, so campaigns with different
+ * settings share one provider queue: a call waits while the provider already
+ * has at least its campaign's limit in flight.
+ */
+class ConcurrencyLimiter {
+  private active = 0
+  private waiters: Waiter[] = []
+
+  acquire(limit: number, signal?: AbortSignal): Promise<void> {
+    if (this.active < limit) {
+      this.active++
+      return Promise.resolve()
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        limit,
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        },
+      }
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((w) => w !== waiter)
+        reject(getAbortError(signal))
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.waiters.push(waiter)
+    })
+  }
+
+  release(): void {
+    this.active--
+    const index = this.waiters.findIndex((w) => this.active < w.limit)
+    if (index !== -1) {
+      const [waiter] = this.waiters.splice(index, 1)
+      this.active++
+      waiter.resolve()
+    }
+  }
+}
+
+const limiters = new Map<string, ConcurrencyLimiter>()
+
+function getLimiter(provider: string): ConcurrencyLimiter {
+  let limiter = limiters.get(provider)
+  if (!limiter) {
+    limiter = new ConcurrencyLimiter()
+    limiters.set(provider, limiter)
+  }
+  return limiter
+}
+
+// ============================================
+// Error classification
+// ============================================
+
+function getAbortError(signal?: AbortSignal): Error {
+  return signal?.reason instanceof Error ? signal.reason : new Error('AI request was aborted')
+}
+
+function getStatus(error: any): number | undefined {
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status
+  return typeof status === 'number' ? status : undefined
+}
+
+/**
+ * Whether a failed AI call may succeed if repeated
+ */
+export function isRetryableError(error: unknown): boolean {
+  const err = error as any
+  const status = getStatus(err)
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.has(status)
+  }
+
+  // Error bodies that arrive mid-stream carry a type instead of a status
+  const type = err?.error?.type ?? err?.type
+  if (type === 'overloaded_error' || type === 'rate_limit_error' || type === 'api_error') {
+    return true
+  }
+
+  const code = err?.code ?? err?.cause?.code
+  if (typeof code === 'string' && RETRYABLE_CODES.has(code)) {
+    return true
+  }
+
+  const message = String(err?.message ?? '')
+  return /fetch failed|socket hang up|network|overloaded|timed out|\b(429|5\d\d)\b/i.test(message)
+}
+
+// Server-suggested wait, in ms
+function getRetryAfter(error: unknown): number | undefined {
+  const headers = (error as any)?.headers
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after']
+  const seconds = value ? Number(value) : NaN
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined
+}
+
+// Full jitter: uniform in [0, min(cap, base * 2^attempt)]
+function getBackoffDelay(attempt: number): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt)
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(getAbortError(signal))
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(getAbortError(signal))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// ============================================
+// Wrapper
+// ============================================
+
+/**
+ * Run an AI call with retries, timeouts, cancellation and a concurrency slot
+ *
+ * @param provider - Limiter key, e.g. 'anthropic', 'google', 'local', 'jina'
+ * @param call - Receives a signal that fires on timeout or caller abort; must pass it to the SDK/fetch.
+ *   Streaming calls also call `touch` on each chunk to restart the timeout.
+ *
+ * @example
+ * const data = await withResilience('jina', (signal) => fetch(url, { signal }), { timeoutMs: 10_000 })
+ */
+export async function withResilience<T>(
+  provider: string,
+  call: (signal: AbortSignal, touch: () => void) => Promise<T>,
+  options: ResilienceOptions = {}
+): Promise<T> {
+  const maxRetries = options.maxRetries ?? DEFAULT_RESILIENCE.maxRetries
+  const timeoutMs = options.timeoutMs ?? DEFAULT_RESILIENCE.timeoutMs
+  const maxConcurrency = Math.max(1, options.maxConcurrency ?? DEFAULT_RESILIENCE.maxConcurrency)
+  const limiter = getLimiter(provider)
+
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) {
+      throw getAbortError(options.signal)
+    }
+
+    await limiter.acquire(maxConcurrency, options.signal)
+    let released = false
+    const release = () => {
+      if (!released) {
+        released = true
+        limiter.release()
+      }
+    }
+
+    const controller = new AbortController()
+    let timedOut = false
+    const onTimeout = () => {
+      timedOut = true
+      controller.abort(new Error(`${provider} request timed out after ${Math.round(timeoutMs / 1000)}s without a response`))
+    }
+    let timer = setTimeout(onTimeout, timeoutMs)
+    const touch = () => {
+      if (controller.signal.aborted) return
+      clearTimeout(timer)
+      timer = setTimeout(onTimeout, timeoutMs)
+    }
+    const onAbort = () => controller.abort(getAbortError(options.signal))
+    options.signal?.addEventListener('abort', onAbort, { once: true })
+
+    try {
+      return await call(controller.signal, touch)
+    } catch (error) {
+      // The caller gave up: never retry
+      if (options.signal?.aborted) {
+        throw getAbortError(options.signal)
+      }
+
+      const failure = timedOut ? controller.signal.reason : error
+      const retryable = timedOut || isRetryableError(error)
+
+      if (!retryable || attempt >= maxRetries || options.shouldRetry?.() === false) {
+        throw failure
+      }
+
+      const delay = getRetryAfter(error) ?? getBackoffDelay(attempt)
+      console.log(`[AI] ${provider} call failed (${failure instanceof Error ? failure.message : failure}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`)
+
+      // Free the slot while waiting so other calls can proceed
+      clearTimeout(timer)
+      release()
+      await sleep(delay, options.signal)
+    } finally {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', onAbort)
+      release()
+    }
+  }
+}
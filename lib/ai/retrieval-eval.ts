@@ -0,0 +1,242 @@
+import { db, entities, retrievalEvalQuestions, Campaign } from '@/lib/db'
+import { eq, and, inArray, asc } from 'drizzle-orm'
+import { searchSimilarChunks } from './rag'
+import { getEmbeddingModelId } from './embeddings'
+import { getActiveEmbeddingTarget, getEmbeddingTarget } from './embedding-versions'
+import { getCampaignSettings } from '@/lib/campaign-settings'
+import { ensureRetrievalEvalTable } from '@/lib/db/migrations'
+
+/**
+ * Retrieval evaluation against golden questions
+ *
+ * DMs keep questions with the entities search should return for them. Each run
+ * searches every question under one or more search configurations and reports
+ * recall@k, MRR and the expected entities that were missed, so settings can be
+ * compared before switching. A new embedding model can be scored against its
+ * build (embeddingVersion) before it replaces the active version; chunk size
+ * changes need a reindex, so compare reports from before and after.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface EvalEntity {
+  id: string
+  name: string // "(deleted)" when the entity no longer exists
+}
+
+export interface EvalQuestion {
+  id: string
+  question: string
+  expected: EvalEntity[]
+}
+
+// Search settings to evaluate; anything left out comes from the campaign settings
+export interface EvalConfig {
+  label: string
+  similarityThreshold?: number
+  resultLimit?: number
+  enableKeywordFallback?: boolean
+  embeddingVersion?: number // Defaults to the active version
+}
+
+export interface EvalQuestionResult {
+  questionId: string
+  question: string
+  retrieved: EvalEntity[] // Top k entities, best first
+  missed: EvalEntity[]
+  recall: number
+  reciprocalRank: number // 1 / rank of the first expected entity, 0 if none retrieved
+}
+
+export interface EvalConfigReport {
+  label: string
+  settings: {
+    similarityThreshold: number
+    resultLimit: number
+    enableKeywordFallback: boolean
+    embeddingModel: string
+    embeddingVersion: number
+  }
+  k: number
+  recallAtK: number // Mean over questions
+  mrr: number
+  missedCount: number
+  questions: EvalQuestionResult[]
+}
+
+export interface EvalReport {
+  campaignId: string
+  ranAt: string
+  questionCount: number
+  configs: EvalConfigReport[]
+}
+
+const DELETED_ENTITY_NAME = '(deleted)'
+
+// ============================================
+// Questions
+// ============================================
+
+/**
+ * Golden questions of a campaign with their expected entities, oldest first
+ */
+export async function listEvalQuestions(campaignId: string): Promise<EvalQuestion[]> {
+  await ensureRetrievalEvalTable()
+
+  const questions = await db.query.retrievalEvalQuestions.findMany({
+    where: eq(retrievalEvalQuestions.campaignId, campaignId),
+    orderBy: [asc(retrievalEvalQuestions.createdAt)],
+  })
+
+  const entityIds = Array.from(new Set(questions.flatMap((q) => q.expectedEntityIds)))
+  const found = entityIds.length > 0
+    ? await db.query.entities.findMany({
+        where: and(eq(entities.campaignId, campaignId), inArray(entities.id, entityIds)),
+        columns: { id: true, name: true },
+      })
+    : []
+  const nameById = new Map(found.map((entity) => [entity.id, entity.name]))
+
+  return questions.map((q) => ({
+    id: q.id,
+    question: q.question,
+    expected: q.expectedEntityIds.map((id) => ({ id, name: nameById.get(id) ?? DELETED_ENTITY_NAME })),
+  }))
+}
+
+/**
+ * Resolve entity names typed by a DM (name or alias, case-insensitive) to ids
+ */
+export async function resolveEntityNames(
+  campaignId: string,
+  names: string[]
+): Promise<{ ids: string[]; unknown: string[] }> {
+  const campaignEntities = await db.query.entities.findMany({
+    where: eq(entities.campaignId, campaignId),
+    columns: { id: true, name: true, aliases: true },
+  })
+
+  const idByTerm = new Map<string, string>()
+  for (const entity of campaignEntities) {
+    for (const alias of entity.aliases || []) {
+      idByTerm.set(alias.toLowerCase(), entity.id)
+    }
+  }
+  // Names win over aliases
+  for (const entity of campaignEntities) {
+    idByTerm.set(entity.name.toLowerCase(), entity.id)
+  }
+
+  const ids: string[] = []
+  const unknown: string[] = []
+  for (const name of names.map((n) => n.trim()).filter(Boolean)) {
+    const id = idByTerm.get(name.toLowerCase())
+    if (!id) {
+      unknown.push(name)
+    } else if (!ids.includes(id)) {
+      ids.push(id)
+    }
+  }
+
+  return { ids, unknown }
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+/**
+ * Search every golden question under each configuration and score the results
+ *
+ * @param configs - Configurations to compare; defaults to the campaign's current settings
+ */
+export async function runRetrievalEval(
+  campaign: Pick<Campaign, 'id' | 'settings' | 'language'>,
+  configs: EvalConfig[] = [{ label: 'current' }],
+  userId?: string
+): Promise<EvalReport> {
+  const settings = getCampaignSettings(campaign.settings)
+  const questions = (await listEvalQuestions(campaign.id)).filter((q) => q.expected.length > 0)
+
+  console.log('[RetrievalEval] Running', questions.length, 'questions under', configs.length, 'configurations')
+
+  const reports: EvalConfigReport[] = []
+
+  for (const config of configs) {
+    const resolved = {
+      similarityThreshold: config.similarityThreshold ?? settings.search.similarityThreshold,
+      resultLimit: config.resultLimit ?? settings.search.resultLimit,
+      enableKeywordFallback: config.enableKeywordFallback ?? true,
+      embedding: config.embeddingVersion !== undefined
+        ? await getEmbeddingTarget(campaign.id, config.embeddingVersion)
+        : await getActiveEmbeddingTarget(campaign.id),
+    }
+    const k = resolved.resultLimit
+
+    // One question at a time: the embedding provider's rate limit is shared with live chat
+    const results: EvalQuestionResult[] = []
+    for (const question of questions) {
+      const matches = await searchSimilarChunks(campaign.id, question.question, {
+        limit: k,
+        threshold: resolved.similarityThreshold,
+        enableKeywordFallback: resolved.enableKeywordFallback,
+        embeddingVersion: resolved.embedding.version,
+        language: campaign.language,
+        userId,
+      })
+
+      // Entities only, once each, in rank order
+      const retrieved: EvalEntity[] = []
+      for (const match of matches) {
+        if (match.source_type === 'document' || !match.entity_id) continue
+        if (retrieved.some((entity) => entity.id === match.entity_id)) continue
+        retrieved.push({ id: match.entity_id, name: match.entity_name })
+      }
+      const topK = retrieved.slice(0, k)
+
+      const hits = question.expected.filter((entity) => topK.some((r) => r.id === entity.id))
+      const firstHit = topK.findIndex((r) => question.expected.some((entity) => entity.id === r.id))
+
+      results.push({
+        questionId: question.id,
+        question: question.question,
+        retrieved: topK,
+        missed: question.expected.filter((entity) => !hits.includes(entity)),
+        recall: hits.length / question.expected.length,
+        reciprocalRank: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+      })
+    }
+
+    const report: EvalConfigReport = {
+      label: config.label,
+      settings: {
+        similarityThreshold: resolved.similarityThreshold,
+        resultLimit: resolved.resultLimit,
+        enableKeywordFallback: resolved.enableKeywordFallback,
+        embeddingModel: getEmbeddingModelId(resolved.embedding.config),
+        embeddingVersion: resolved.embedding.version,
+      },
+      k,
+      recallAtK: mean(results.map((r) => r.recall)),
+      mrr: mean(results.map((r) => r.reciprocalRank)),
+      missedCount: results.reduce((sum, r) => sum + r.missed.length, 0),
+      questions: results,
+    }
+
+    console.log(`[RetrievalEval] ${config.label}: recall@${k}=${report.recallAtK.toFixed(3)} MRR=${report.mrr.toFixed(3)} missed=${report.missedCount}`)
+    reports.push(report)
+  }
+
+  return {
+    campaignId: campaign.id,
+    ranAt: new Date().toISOString(),
+    questionCount: questions.length,
+    configs: reports,
+  }
+}
@@ -0,0 +1,339 @@
+import { createHash } from 'crypto'
+import { db, sql, entities, campaignSpotlights, Campaign, CampaignSpotlight, SpotlightEntity } from '@/lib/db'
+import { eq, and, desc } from 'drizzle-orm'
+import { generateResponse } from './client'
+import { checkUsageBudget } from './usage'
+import { getResilienceOptions } from './resilience'
+import { getLanguageName } from './extraction/pipeline'
+import { getCampaignSettings } from '@/lib/campaign-settings'
+import { stripSecretBlocks } from '@/lib/secret-blocks'
+import { ensureCampaignSpotlightsTable } from '@/lib/db/migrations'
+
+// ============================================
+// Types
+// ============================================
+
+export interface SpotlightData {
+  id: string | null // null for the placeholder shown before there is any content
+  summary: string
+  keyTension: string
+  atStake: string
+  featuredEntities: SpotlightEntity[]
+  model: string | null
+  lastUpdated: string
+}
+
+interface SpotlightContext {
+  text: string
+  featuredEntities: SpotlightEntity[]
+  isEmpty: boolean
+}
+
+const HISTORY_LIMIT = 20
+
+// ============================================
+// Context
+// ============================================
+
+// Spotlights are shown to players: DM-only entities and secret blocks stay out of the prompt
+function describe(content: string | null, length: number): string {
+  return stripSecretBlocks(content || '').slice(0, length) || 'No description'
+}
+
+/**
+ * Gather the quests, NPCs, locations and player characters the spotlight is written from
+ */
+async function buildSpotlightContext(campaign: Campaign): Promise<SpotlightContext> {
+  const byType = (entityType: string, limit: number, recent: boolean) =>
+    db.query.entities.findMany({
+      where: and(
+        eq(entities.campaignId, campaign.id),
+        eq(entities.entityType, entityType),
+        eq(entities.isDmOnly, false)
+      ),
+      orderBy: recent ? [desc(entities.updatedAt)] : [entities.name],
+      limit,
+    })
+
+  const [quests, recentNPCs, playerCharacters, locations] = await Promise.all([
+    byType('quest', 5, false),
+    byType('npc', 5, true),
+    byType('player_character', 10, false),
+    byType('location', 5, true),
+  ])
+
+  let text = `Campaign: ${campaign.name}\n\n`
+
+  if (quests.length > 0) {
+    text += 'Active Quests:\n'
+    for (const quest of quests) {
+      text += `- ${quest.name}: ${describe(quest.content, 200)}...\n`
+    }
+    text += '\n'
+  }
+
+  if (recentNPCs.length > 0) {
+    text += 'Key NPCs:\n'
+    for (const npc of recentNPCs) {
+      text += `- ${npc.name}: ${describe(npc.content, 150)}...\n`
+    }
+    text += '\n'
+  }
+
+  if (locations.length > 0) {
+    text += 'Key Locations:\n'
+    for (const location of locations) {
+      text += `- ${location.name}: ${describe(location.content, 150)}...\n`
+    }
+    text += '\n'
+  }
+
+  if (playerCharacters.length > 0) {
+    text += 'Player Characters:\n'
+    for (const pc of playerCharacters) {
+      text += `- ${pc.name}\n`
+    }
+  }
+
+  // One featured quest, NPC and location
+  const featuredEntities = [quests[0], recentNPCs[0], locations[0]]
+    .filter((entity) => entity !== undefined)
+    .map((entity) => ({ id: entity.id, name: entity.name, entityType: entity.entityType }))
+
+  return {
+    text,
+    featuredEntities,
+    isEmpty: quests.length === 0 && recentNPCs.length === 0 && locations.length === 0,
+  }
+}
+
+// Edits that do not change what the model would see (timestamps, other entity types) keep the spotlight
+function hashSpotlightInput(context: SpotlightContext, model: string, language: string): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ context: context.text, model, language }))
+    .digest('hex')
+}
+
+// ============================================
+// Generation
+// ============================================
+
+const SPOTLIGHT_SYSTEM_PROMPT = `You are a dramatic narrator for a tabletop RPG campaign. Your role is to summarize the current state of the campaign in an engaging, dramatic way that captures the essence of the story.
+
+{languageInstruction}
+
+Based on the campaign context provided, generate:
+1. A dramatic 2-3 sentence summary of the current situation (capture the mood and stakes)
+2. The key tension or conflict currently driving the story
+3. What's at stake (the consequences if heroes fail)
+
+Format your response as JSON:
+{
+  "summary": "dramatic summary here",
+  "keyTension": "the main conflict",
+  "atStake": "what could be lost"
+}
+
+Be vivid and evocative but stay true to the content provided. If information is limited, work with what's available.`
+
+function getPlaceholder(language: string): SpotlightData {
+  const pt = language === 'pt-BR' || language === 'pt'
+  return {
+    id: null,
+    summary: pt
+      ? 'Uma nova aventura aguarda! Esta campanha está apenas começando sua jornada épica.'
+      : 'A new adventure awaits! This campaign is just beginning its epic journey.',
+    keyTension: pt ? 'A história ainda está por ser escrita...' : 'The story is yet to be written...',
+    atStake: pt ? 'O destino de mundos desconhecidos' : 'The fate of unknown worlds',
+    featuredEntities: [],
+    model: null,
+    lastUpdated: new Date().toISOString(),
+  }
+}
+
+function parseSpotlightResponse(responseText: string): { summary?: string; keyTension?: string; atStake?: string } {
+  try {
+    // Extract JSON from response (handle potential markdown code blocks)
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/)
+    return jsonMatch ? JSON.parse(jsonMatch[0]) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Generate a spotlight unless another request is already doing it
+ * Generation takes a per-campaign advisory lock without waiting for it: page
+ * loads that all find the spotlight stale after an edit get null while the
+ * first one calls the model, and serve the spotlight they already have. The
+ * lock lives on one reserved connection, and no transaction stays open
+ * during the model call.
+ *
+ * @param previousId - Latest spotlight seen before taking the lock
+ * @returns The new (or just generated) spotlight, or null if another request holds the lock
+ */
+async function generateSpotlightOnce(
+  campaign: Campaign,
+  context: SpotlightContext,
+  contentHash: string,
+  userId: string,
+  previousId: string | null,
+  force: boolean
+): Promise<CampaignSpotlight | null> {
+  const lockKey = `spotlight:${campaign.id}`
+  const connection = await sql.reserve()
+
+  try {
+    const [{ locked }] = await connection`SELECT pg_try_advisory_lock(hashtext(${lockKey})) AS locked`
+    if (!locked) {
+      return null
+    }
+
+    try {
+      // Another request may have finished between our read and the lock
+      const latest = await db.query.campaignSpotlights.findFirst({
+        where: eq(campaignSpotlights.campaignId, campaign.id),
+        orderBy: desc(campaignSpotlights.createdAt),
+      })
+      if (latest && latest.id !== previousId && (force || latest.contentHash === contentHash)) {
+        return latest
+      }
+
+      const values = await generateSpotlight(campaign, context, contentHash, userId)
+      const [spotlight] = await db.insert(campaignSpotlights).values(values).returning()
+      return spotlight
+    } finally {
+      await connection`SELECT pg_advisory_unlock(hashtext(${lockKey}))`
+    }
+  } finally {
+    connection.release()
+  }
+}
+
+async function generateSpotlight(
+  campaign: Campaign,
+  context: SpotlightContext,
+  contentHash: string,
+  userId: string
+): Promise<typeof campaignSpotlights.$inferInsert> {
+  const settings = getCampaignSettings(campaign.settings)
+  const model = settings.model.chatModel
+  const pt = campaign.language === 'pt-BR' || campaign.language === 'pt'
+
+  console.log('[Spotlight] Generating for campaign:', campaign.id, 'model:', model)
+
+  const result = await generateResponse({
+    model,
+    systemPrompt: SPOTLIGHT_SYSTEM_PROMPT.replace(
+      '{languageInstruction}',
+      `Respond in ${getLanguageName(campaign.language)}.`
+    ),
+    messages: [{ role: 'user', content: context.text }],
+    maxTokens: 500,
+    responseFormat: 'json',
+    usage: { campaignId: campaign.id, userId, purpose: 'spotlight' },
+    resilience: getResilienceOptions(campaign.settings),
+  })
+
+  const parsed = parseSpotlightResponse(result.content)
+
+  return {
+    campaignId: campaign.id,
+    summary: parsed.summary || (pt ? 'A aventura continua...' : 'The adventure continues...'),
+    keyTension: parsed.keyTension || (pt ? 'Forças misteriosas estão em movimento' : 'Mysterious forces are at play'),
+    atStake: parsed.atStake || (pt ? 'O futuro permanece incerto' : 'The future remains uncertain'),
+    featuredEntities: context.featuredEntities,
+    contentHash,
+    model,
+    language: campaign.language,
+    generatedBy: userId,
+  }
+}
+
+function toSpotlightData(spotlight: CampaignSpotlight): SpotlightData {
+  return {
+    id: spotlight.id,
+    summary: spotlight.summary,
+    keyTension: spotlight.keyTension,
+    atStake: spotlight.atStake,
+    featuredEntities: spotlight.featuredEntities,
+    model: spotlight.model,
+    lastUpdated: spotlight.createdAt.toISOString(),
+  }
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Current spotlight for a campaign
+ * Served from the database while the campaign content, chat model and language
+ * are unchanged; otherwise a new one is generated and added to the history.
+ * A stale spotlight is served when generation is not possible (budget, provider
+ * errors) or another request is already generating the new one.
+ *
+ * @param force - Regenerate even if nothing changed (DM request)
+ */
+export async function getCampaignSpotlight(
+  campaign: Campaign,
+  userId: string,
+  force: boolean = false
+): Promise<SpotlightData> {
+  await ensureCampaignSpotlightsTable()
+
+  const settings = getCampaignSettings(campaign.settings)
+  const context = await buildSpotlightContext(campaign)
+  if (context.isEmpty) {
+    return getPlaceholder(campaign.language)
+  }
+
+  const contentHash = hashSpotlightInput(context, settings.model.chatModel, campaign.language)
+
+  const latest = await db.query.campaignSpotlights.findFirst({
+    where: eq(campaignSpotlights.campaignId, campaign.id),
+    orderBy: desc(campaignSpotlights.createdAt),
+  })
+
+  if (latest && latest.contentHash === contentHash && !force) {
+    return toSpotlightData(latest)
+  }
+
+  const budget = await checkUsageBudget(campaign.id, campaign.settings)
+  if (budget.exceeded) {
+    if (force) {
+      throw new Error(budget.message)
+    }
+    return latest ? toSpotlightData(latest) : getPlaceholder(campaign.language)
+  }
+
+  try {
+    const spotlight = await generateSpotlightOnce(campaign, context, contentHash, userId, latest?.id ?? null, force)
+    if (!spotlight) {
+      console.log('[Spotlight] Already generating for campaign:', campaign.id, '- serving the previous spotlight')
+      return latest ? toSpotlightData(latest) : getPlaceholder(campaign.language)
+    }
+    return toSpotlightData(spotlight)
+  } catch (error) {
+    if (force || !latest) {
+      throw error
+    }
+    console.error('[Spotlight] Generation failed, serving the previous spotlight:', error)
+    return toSpotlightData(latest)
+  }
+}
+
+/**
+ * Past spotlights, newest first
+ */
+export async function getSpotlightHistory(campaignId: string): Promise<SpotlightData[]> {
+  await ensureCampaignSpotlightsTable()
+
+  const rows = await db.query.campaignSpotlights.findMany({
+    where: eq(campaignSpotlights.campaignId, campaignId),
+    orderBy: desc(campaignSpotlights.createdAt),
+    limit: HISTORY_LIMIT,
+  })
+
+  return rows.map(toSpotlightData)
+}
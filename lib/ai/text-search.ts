@@ -0,0 +1,102 @@
+import { sql } from '@/lib/db'
+
+/**
+ * Postgres full-text search helpers
+ *
+ * Each campaign searches with the text-search configuration of its language
+ * (stemming and stop words). Indexes are GIN expression indexes, one per
+ * configuration in use, created the first time a campaign with that language
+ * searches. Queries must use exactly the same expressions to hit them.
+ */
+
+// Postgres ships no Polish, Japanese, Korean or Chinese configuration
+const TEXT_SEARCH_CONFIGS: Record<string, string> = {
+  en: 'english',
+  'pt-BR': 'portuguese',
+  pt: 'portuguese',
+  es: 'spanish',
+  fr: 'french',
+  de: 'german',
+  it: 'italian',
+  nl: 'dutch',
+  ru: 'russian',
+}
+
+const FALLBACK_CONFIG = 'simple'
+
+/**
+ * Text-search configuration for a campaign language
+ * Always one of a fixed set of names, so it is safe to inline into SQL
+ */
+export function getTextSearchConfig(language: string | null | undefined): string {
+  return (language && TEXT_SEARCH_CONFIGS[language]) || FALLBACK_CONFIG
+}
+
+// Name weighs more than body text
+function entityVectorSql(config: string, prefix: string): string {
+  return `(setweight(to_tsvector('${config}'::regconfig, coalesce(${prefix}name, '')), 'A') || setweight(to_tsvector('${config}'::regconfig, coalesce(${prefix}content, '')), 'B'))`
+}
+
+function contentVectorSql(config: string, prefix: string): string {
+  return `to_tsvector('${config}'::regconfig, ${prefix}content)`
+}
+
+/**
+ * Search vector expressions as SQL fragments, for the given table aliases
+ */
+export function getSearchVectors(config: string, aliases: { entity: string; chunk: string; documentChunk: string }) {
+  return {
+    entity: sql.unsafe(entityVectorSql(config, `${aliases.entity}.`)),
+    chunk: sql.unsafe(contentVectorSql(config, `${aliases.chunk}.`)),
+    documentChunk: sql.unsafe(contentVectorSql(config, `${aliases.documentChunk}.`)),
+  }
+}
+
+/**
+ * Query matching any of the words (stemmed, stop words removed); ranking favours rows matching more of them
+ */
+export function getSearchQuery(config: string, text: string) {
+  return sql`replace(plainto_tsquery(${getConfigFragment(config)}, ${text})::text, '&', '|')::tsquery`
+}
+
+export function getConfigFragment(config: string) {
+  return sql.unsafe(`'${config}'::regconfig`)
+}
+
+const ensuredConfigs = new Set<string>()
+
+/**
+ * Create the GIN indexes for a text-search configuration
+ * This is safe to run multiple times
+ */
+export async function ensureTextSearchIndexes(config: string): Promise<{ migrated: boolean; error?: string }> {
+  if (ensuredConfigs.has(config)) {
+    return { migrated: false }
+  }
+
+  try {
+    const result = await sql`
+      SELECT EXISTS (
+        SELECT FROM pg_indexes
+        WHERE indexname = ${`document_chunks_fts_${config}_idx`}
+      ) as exists
+    `
+
+    if (!result[0]?.exists) {
+      console.log(`[Migration] Creating ${config} full-text search indexes...`)
+
+      await sql.unsafe(`CREATE INDEX IF NOT EXISTS entities_fts_${config}_idx ON entities USING GIN (${entityVectorSql(config, '')})`)
+      await sql.unsafe(`CREATE INDEX IF NOT EXISTS chunks_fts_${config}_idx ON chunks USING GIN (${contentVectorSql(config, '')})`)
+      // Created last: its existence marks the set as complete
+      await sql.unsafe(`CREATE INDEX IF NOT EXISTS document_chunks_fts_${config}_idx ON document_chunks USING GIN (${contentVectorSql(config, '')})`)
+
+      console.log(`[Migration] ${config} full-text search indexes created`)
+    }
+
+    ensuredConfigs.add(config)
+    return { migrated: !result[0]?.exists }
+  } catch (error) {
+    console.error(`[Migration] ${config} full-text search index migration failed:`, error)
+    return { migrated: false, error: String(error) }
+  }
+}
@@ -0,0 +1,231 @@
+import { db, aiUsage } from '@/lib/db'
+import { and, eq, gte, desc, sql } from 'drizzle-orm'
+import { ensureAiUsageTable } from '@/lib/db/migrations'
+import { getCampaignSettings } from '@/lib/campaign-settings'
+import type { AIUsagePurpose, CampaignSettings } from '@/lib/db/schema'
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Who an AI call is made on behalf of, passed down to the client so it can meter itself
+ */
+export interface UsageContext {
+  campaignId: string
+  userId?: string | null
+  purpose: AIUsagePurpose
+}
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number
+  costUsd: number
+}
+
+export interface UsageSummary {
+  periodStart: string
+  totals: UsageTotals
+  byPurpose: Array<UsageTotals & { purpose: string }>
+  byModel: Array<UsageTotals & { model: string; provider: string }>
+  recent: Array<TokenUsage & {
+    id: string
+    model: string
+    provider: string
+    purpose: string
+    costUsd: number
+    userName: string | null
+    createdAt: Date
+  }>
+}
+
+export interface BudgetStatus {
+  exceeded: boolean
+  message?: string
+}
+
+// ============================================
+// Pricing
+// ============================================
+
+// USD per 1M tokens [input, output]. Prefix matched so dated model ids resolve.
+const MODEL_PRICING: Array<[prefix: string, input: number, output: number]> = [
+  ['claude-opus', 15, 75],
+  ['claude-sonnet', 3, 15],
+  ['claude-3-5-haiku', 0.8, 4],
+  ['claude-haiku', 1, 5],
+  ['gemini-3-flash', 0.5, 3],
+  ['gemini-2.5-flash', 0.3, 2.5],
+  ['gemini-2.5-pro', 1.25, 10],
+  ['jina:', 0.02, 0],
+  ['openai-compatible:text-embedding-3-small', 0.02, 0],
+  ['openai-compatible:text-embedding-3-large', 0.13, 0],
+]
+
+/**
+ * Estimated cost of a call in USD. Local and unknown models are free.
+ */
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const pricing = MODEL_PRICING.find(([prefix]) => model.startsWith(prefix))
+  if (!pricing) return 0
+
+  const [, input, output] = pricing
+  return (usage.inputTokens * input + usage.outputTokens * output) / 1_000_000
+}
+
+/**
+ * Rough token count for providers that do not report usage (~4 chars per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Record one AI call against a campaign
+ * Never throws: metering must not break the call it measures
+ */
+export async function recordUsage(
+  context: UsageContext,
+  model: string,
+  provider: string,
+  usage: TokenUsage
+): Promise<void> {
+  try {
+    await ensureAiUsageTable()
+    await db.insert(aiUsage).values({
+      campaignId: context.campaignId,
+      userId: context.userId ?? null,
+      model,
+      provider,
+      purpose: context.purpose,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      costUsd: estimateCost(model, usage),
+    })
+  } catch (error) {
+    console.error('[Usage] Failed to record usage:', error)
+  }
+}
+
+// ============================================
+// Reporting and budgets
+// ============================================
+
+// Budgets reset on the first day of each calendar month (UTC)
+function getPeriodStart(): Date {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+const totalsColumns = {
+  calls: sql<number>`count(*)::int`,
+  inputTokens: sql<number>`coalesce(sum(${aiUsage.inputTokens}), 0)::int`,
+  outputTokens: sql<number>`coalesce(sum(${aiUsage.outputTokens}), 0)::int`,
+  costUsd: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)::float8`,
+}
+
+async function getMonthTotals(campaignId: string): Promise<UsageTotals> {
+  await ensureAiUsageTable()
+  const [totals] = await db
+    .select(totalsColumns)
+    .from(aiUsage)
+    .where(and(eq(aiUsage.campaignId, campaignId), gte(aiUsage.createdAt, getPeriodStart())))
+
+  return totals ?? { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+}
+
+/**
+ * Usage for the current month, broken down by purpose and model
+ */
+export async function getUsageSummary(campaignId: string): Promise<UsageSummary> {
+  await ensureAiUsageTable()
+  const periodStart = getPeriodStart()
+  const inPeriod = and(eq(aiUsage.campaignId, campaignId), gte(aiUsage.createdAt, periodStart))
+
+  const [totals, byPurpose, byModel, recent] = await Promise.all([
+    getMonthTotals(campaignId),
+    db
+      .select({ purpose: aiUsage.purpose, ...totalsColumns })
+      .from(aiUsage)
+      .where(inPeriod)
+      .groupBy(aiUsage.purpose)
+      .orderBy(desc(sql`sum(${aiUsage.costUsd})`)),
+    db
+      .select({ model: aiUsage.model, provider: aiUsage.provider, ...totalsColumns })
+      .from(aiUsage)
+      .where(inPeriod)
+      .groupBy(aiUsage.model, aiUsage.provider)
+      .orderBy(desc(sql`sum(${aiUsage.costUsd})`)),
+    db.query.aiUsage.findMany({
+      where: eq(aiUsage.campaignId, campaignId),
+      orderBy: desc(aiUsage.createdAt),
+      limit: 20,
+      with: {
+        user: true,
+      },
+    }),
+  ])
+
+  return {
+    periodStart: periodStart.toISOString(),
+    totals,
+    byPurpose,
+    byModel,
+    recent: recent.map((entry) => ({
+      id: entry.id,
+      model: entry.model,
+      provider: entry.provider,
+      purpose: entry.purpose,
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      costUsd: entry.costUsd,
+      userName: entry.user?.name ?? null,
+      createdAt: entry.createdAt,
+    })),
+  }
+}
+
+/**
+ * Check the campaign's monthly token and cost caps
+ */
+export async function checkUsageBudget(
+  campaignId: string,
+  settings?: CampaignSettings | null
+): Promise<BudgetStatus> {
+  const { budget } = getCampaignSettings(settings)
+  if (!budget.monthlyTokenLimit && !budget.monthlyCostLimit) {
+    return { exceeded: false }
+  }
+
+  try {
+    const totals = await getMonthTotals(campaignId)
+    const tokens = totals.inputTokens + totals.outputTokens
+
+    if (budget.monthlyTokenLimit && tokens >= budget.monthlyTokenLimit) {
+      return {
+        exceeded: true,
+        message: `This campaign has used its monthly AI allowance of ${budget.monthlyTokenLimit.toLocaleString()} tokens. It will reset at the start of next month, or the campaign owner can raise the limit in Settings → Usage.`,
+      }
+    }
+
+    if (budget.monthlyCostLimit && totals.costUsd >= budget.monthlyCostLimit) {
+      return {
+        exceeded: true,
+        message: `This campaign has reached its monthly AI budget of $${budget.monthlyCostLimit.toFixed(2)}. It will reset at the start of next month, or the campaign owner can raise the limit in Settings → Usage.`,
+      }
+    }
+  } catch (error) {
+    // Fail open: a metering outage should not lock users out
+    console.error('[Usage] Failed to check budget:', error)
+  }
+
+  return { exceeded: false }
+}
@@ -0,0 +1,61 @@
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+}
+
+export type SendEvent = (event: string, data: any) => void
+
+/**
+ * Format a single Server-Sent Event
+ */
+export function formatSSE(event: string, data: any): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Create a Server-Sent Events response driven by `run`.
+ * The stream closes when `run` settles; a thrown error is reported
+ * to the client as an `error` event first. `signal` aborts when the
+ * client disconnects, after which events are dropped.
+ *
+ * @example
+ * return createSSEResponse('[Chat-Stream]', async (sendEvent) => {
+ *   sendEvent('progress', { message: 'Working...' })
+ * })
+ */
+export function createSSEResponse(
+  logPrefix: string,
+  run: (sendEvent: SendEvent, signal: AbortSignal) => Promise<void>
+): Response {
+  const encoder = new TextEncoder()
+  const disconnected = new AbortController()
+
+  // Use ReadableStream with start() to keep the stream alive
+  const stream = new ReadableStream({
+    async start(controller) {
+      const sendEvent: SendEvent = (event, data) => {
+        if (disconnected.signal.aborted) return
+        controller.enqueue(encoder.encode(formatSSE(event, data)))
+      }
+
+      try {
+        await run(sendEvent, disconnected.signal)
+      } catch (error) {
+        console.error(`${logPrefix} Error:`, error)
+        sendEvent('error', {
+          message: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+
+      if (!disconnected.signal.aborted) {
+        controller.close()
+      }
+    },
+    cancel() {
+      disconnected.abort()
+    },
+  })
+
+  return new Response(stream, { headers: SSE_HEADERS })
+}
@@ -78,3 +78,16 @@ export async function getCurrentUser() {
     where: eq(users.id, session.user.id),
   })
 }
+
+/**
+ * Whether the signed-in user may run routes that touch every campaign
+ * Operators are listed by email in ADMIN_EMAILS (comma-separated); with none listed, nobody is one.
+ */
+export function isAdmin(email: string | null | undefined): boolean {
+  if (!email) return false
+  const admins = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+  return admins.includes(email.toLowerCase())
+}
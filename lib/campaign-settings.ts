@@ -1,4 +1,5 @@
-import type { CampaignSettings } from '@/lib/db/schema'
+import { LOCAL_MODEL_PREFIX } from '@/lib/db/schema'
+import type { CampaignSettings, LocalAIModel } from '@/lib/db/schema'
 
 /**
  * Default prompts for AI operations
@@ -12,7 +13,7 @@ Guidelines:
 - Answer ONLY with information from the provided context
 - If you don't have the information, say so clearly
 - Be concise (maximum 100 words)
-- Mention the source of information (entity name and type)
+- Cite the numbered sources you use inline, e.g. [1] or [2][3]
 - Use wikilinks [[Entity Name]] when mentioning entities from the workspace
 - For general knowledge outside the workspace, you can use your knowledge but make it clear it's not from the workspace`,
 
@@ -113,8 +114,12 @@ CRITICAL: Extract 20-50+ entities from typical notes. Use the MOST SPECIFIC type
 export const DEFAULT_SETTINGS: Required<{
   model: Required<NonNullable<CampaignSettings['model']>>
   extraction: Required<NonNullable<CampaignSettings['extraction']>>
+  embedding: Required<NonNullable<CampaignSettings['embedding']>>
+  rerank: Required<NonNullable<CampaignSettings['rerank']>>
   visibility: Required<NonNullable<CampaignSettings['visibility']>>
   search: Required<NonNullable<CampaignSettings['search']>>
+  budget: Required<NonNullable<CampaignSettings['budget']>>
+  resilience: Required<NonNullable<CampaignSettings['resilience']>>
   prompts: Required<NonNullable<CampaignSettings['prompts']>>
 }> = {
   model: {
@@ -130,6 +135,16 @@ export const DEFAULT_SETTINGS: Required<{
     enableAutoMerge: false,
     enableRelationships: true,
   },
+  embedding: {
+    provider: 'jina',
+    model: 'jina-embeddings-v3',
+    dimensions: 1024,
+  },
+  rerank: {
+    provider: 'none',
+    model: '',
+    candidateMultiplier: 3,
+  },
   visibility: {
     defaultDmOnly: false,
     dmOnlyEntityTypes: [],
@@ -138,6 +153,20 @@ export const DEFAULT_SETTINGS: Required<{
     similarityThreshold: 0.15,
     resultLimit: 8,
     enablePlayerChat: false,
+    enableGraphExpansion: false,
+    graphExpansionTokenBudget: 1500,
+    enableQueryRewriting: true,
+    maxSubQueries: 0,
+  },
+  budget: {
+    monthlyTokenLimit: 0,
+    monthlyCostLimit: 0,
+  },
+  resilience: {
+    maxConcurrency: 4,
+    timeoutSeconds: 60,
+    extractionTimeoutSeconds: 180,
+    maxRetries: 3,
   },
   prompts: {
     chatSystemPrompt: DEFAULT_PROMPTS.chatSystemPrompt,
@@ -162,6 +191,14 @@ export function getCampaignSettings(settings?: CampaignSettings | null): typeof
       ...DEFAULT_SETTINGS.extraction,
       ...(settings.extraction || {}),
     },
+    embedding: {
+      ...DEFAULT_SETTINGS.embedding,
+      ...(settings.embedding || {}),
+    },
+    rerank: {
+      ...DEFAULT_SETTINGS.rerank,
+      ...(settings.rerank || {}),
+    },
     visibility: {
       ...DEFAULT_SETTINGS.visibility,
       ...(settings.visibility || {}),
@@ -170,6 +207,14 @@ export function getCampaignSettings(settings?: CampaignSettings | null): typeof
       ...DEFAULT_SETTINGS.search,
       ...(settings.search || {}),
     },
+    budget: {
+      ...DEFAULT_SETTINGS.budget,
+      ...(settings.budget || {}),
+    },
+    resilience: {
+      ...DEFAULT_SETTINGS.resilience,
+      ...(settings.resilience || {}),
+    },
     prompts: {
       ...DEFAULT_SETTINGS.prompts,
       ...(settings.prompts || {}),
@@ -219,6 +264,74 @@ export const CHUNK_SIZE_OPTIONS = [
   },
 ]
 
+/**
+ * Embedding backends, with the model used when switching to each
+ */
+export const EMBEDDING_PROVIDER_OPTIONS = [
+  {
+    value: 'jina' as const,
+    label: 'Jina AI',
+    description: 'Hosted API (JINA_API_KEY), multilingual',
+    defaultModel: 'jina-embeddings-v3',
+    defaultDimensions: 1024,
+  },
+  {
+    value: 'openai-compatible' as const,
+    label: 'OpenAI-compatible',
+    description: 'Any /embeddings endpoint (EMBEDDING_API_BASE_URL)',
+    defaultModel: 'text-embedding-3-small',
+    defaultDimensions: 1024,
+  },
+  {
+    value: 'local' as const,
+    label: 'Local model',
+    description: 'Runs in-process, no API key needed',
+    defaultModel: 'Xenova/multilingual-e5-small',
+    defaultDimensions: 384,
+  },
+]
+
+export const RERANK_PROVIDER_OPTIONS = [
+  {
+    value: 'none' as const,
+    label: 'Off',
+    description: 'Keep the retrieval order',
+    defaultModel: '',
+  },
+  {
+    value: 'llm' as const,
+    label: 'AI judge',
+    description: 'The extraction model rates each result',
+    defaultModel: '',
+  },
+  {
+    value: 'endpoint' as const,
+    label: 'Rerank endpoint',
+    description: 'Any /rerank API (RERANK_API_BASE_URL)',
+    defaultModel: 'jina-reranker-v2-base-multilingual',
+  },
+  {
+    value: 'local' as const,
+    label: 'Local cross-encoder',
+    description: 'Runs in-process, no API key needed',
+    defaultModel: 'Xenova/bge-reranker-base',
+  },
+]
+
+/**
+ * Models served by the self-hosted OpenAI-compatible endpoint (LOCAL_LLM_BASE_URL)
+ * Listed as comma-separated model names in NEXT_PUBLIC_LOCAL_LLM_MODELS, e.g. "llama3.1:8b,qwen2.5:14b"
+ */
+export const LOCAL_MODEL_OPTIONS = (process.env.NEXT_PUBLIC_LOCAL_LLM_MODELS || '')
+  .split(',')
+  .map((name) => name.trim())
+  .filter(Boolean)
+  .map((name) => ({
+    value: `${LOCAL_MODEL_PREFIX}${name}` as LocalAIModel,
+    label: name,
+    description: 'Self-hosted, OpenAI-compatible endpoint',
+  }))
+
 /**
  * Available AI models for chat
  */
@@ -248,6 +361,7 @@ export const CHAT_MODEL_OPTIONS = [
     label: 'Gemini 2.5 Flash',
     description: 'Google AI, stable version',
   },
+  ...LOCAL_MODEL_OPTIONS,
 ]
 
 /**
@@ -274,4 +388,5 @@ export const EXTRACTION_MODEL_OPTIONS = [
     label: 'Gemini 2.5 Flash',
     description: 'Google AI, stable version',
   },
+  ...LOCAL_MODEL_OPTIONS,
 ]
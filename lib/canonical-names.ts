@@ -0,0 +1,67 @@
+/**
+ * Canonical entity names
+ *
+ * The canonical name is the key entities are deduplicated on (unique per
+ * campaign) and the slug used in exports. Accents on Latin letters are folded
+ * ("João" -> "joao", "Ærwyn" -> "aerwyn"), while other scripts are kept as
+ * they are: "Москва" -> "москва", "東京" -> "東京". Marks are only removed from
+ * Latin letters because elsewhere they tell letters apart (й/и, が/か).
+ */
+
+// Latin letters with no decomposition into base letter + accent
+const LATIN_FOLDS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  đ: 'd',
+  ð: 'd',
+  ħ: 'h',
+  ı: 'i',
+  ł: 'l',
+  þ: 'th',
+}
+
+const LATIN_MARKS = /(\p{Script=Latin})\p{M}+/gu
+const LATIN_FOLD_CHARS = new RegExp(`[${Object.keys(LATIN_FOLDS).join('')}]`, 'g')
+const SEPARATORS = /[^\p{L}\p{N}]+/gu
+
+/**
+ * Canonical form of an entity name, e.g. for findExistingEntity or the unique key
+ * Names made only of punctuation fall back to the lowercased name, so they
+ * do not all collapse to the same empty key.
+ */
+export function canonicalizeName(name: string): string {
+  const lower = name.normalize('NFKC').toLowerCase().trim()
+
+  const canonical = lower
+    .normalize('NFD')
+    .replace(LATIN_MARKS, '$1')
+    .normalize('NFC')
+    .replace(LATIN_FOLD_CHARS, (char) => LATIN_FOLDS[char])
+    .replace(SEPARATORS, '-')
+    .replace(/^-+|-+$/g, '')
+
+  return canonical || lower.replace(/\s+/g, ' ')
+}
+
+export interface NameCollision<T> {
+  canonicalName: string
+  entities: T[]
+}
+
+/**
+ * Groups of entities whose names canonicalize to the same key
+ * Only one of each group can hold that canonical name; the DM has to rename or merge the rest.
+ */
+export function findNameCollisions<T extends { name: string }>(entities: T[]): NameCollision<T>[] {
+  const groups = new Map<string, T[]>()
+  for (const entity of entities) {
+    const key = canonicalizeName(entity.name)
+    groups.set(key, [...(groups.get(key) || []), entity])
+  }
+
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length > 1)
+    .map(([canonicalName, group]) => ({ canonicalName, entities: group }))
+}
@@ -0,0 +1,68 @@
+/**
+ * Inline citations in chat answers
+ *
+ * The context the model reads labels each retrieved source "[Source n: ...]" and
+ * answers cite them inline as [n]. Markers are checked against the sources that
+ * were actually retrieved: answers are normalized to [n] and unsupported numbers
+ * are stripped before the answer is stored or shown.
+ */
+
+// [1], [1, 3], [Source 2], [Sources 2, 4]; not [[wikilinks]] or [text](links)
+const CITATION_PATTERN = /(?<!\[)\[(?:sources?\s+)?(\d+(?:\s*,\s*\d+)*)\](?![\](])/gi
+
+export interface CitationCheck {
+  content: string
+  citations: number[] // Valid source numbers, in order of first use
+  unsupported: number[] // Numbers that matched no source, removed from content
+}
+
+function parseNumbers(list: string): number[] {
+  return list.split(',').map((n) => parseInt(n.trim(), 10))
+}
+
+/**
+ * Normalize citation markers and strip those that point at no source
+ *
+ * @param sourceCount - Number of sources the answer could cite (numbered from 1)
+ */
+export function validateCitations(content: string, sourceCount: number): CitationCheck {
+  const citations: number[] = []
+  const unsupported: number[] = []
+
+  const checked = content.replace(CITATION_PATTERN, (_match, list: string) => {
+    const valid = parseNumbers(list).filter((n) => {
+      const ok = n >= 1 && n <= sourceCount
+      const seen = ok ? citations : unsupported
+      if (!seen.includes(n)) seen.push(n)
+      return ok
+    })
+    return valid.map((n) => `[${n}]`).join('')
+  })
+
+  return {
+    // Removing a marker can leave "claim ." behind
+    content: unsupported.length > 0 ? checked.replace(/[ \t]+([.,;:!?])/g, '$1') : checked,
+    citations,
+    unsupported,
+  }
+}
+
+/**
+ * Turn [n] markers into markdown links to "#cite-n" so a renderer can make them clickable
+ * Markers without a matching source (e.g. while an answer is still streaming) are left as text.
+ */
+export function linkCitations(content: string, citable: Set<number>): string {
+  return content.replace(CITATION_PATTERN, (match, list: string) => {
+    const numbers = parseNumbers(list)
+    if (!numbers.every((n) => citable.has(n))) return match
+    return numbers.map((n) => `[${n}](#cite-${n})`).join('')
+  })
+}
+
+/**
+ * Source number of a link produced by linkCitations, or null for other links
+ */
+export function getCitationFromHref(href: string | undefined): number | null {
+  const match = href?.match(/^#cite-(\d+)$/)
+  return match ? parseInt(match[1], 10) : null
+}
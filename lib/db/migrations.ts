@@ -1,4 +1,6 @@
 import { sql } from '@/lib/db'
+import { SECRET_FENCE_SQL_PATTERN } from '@/lib/secret-blocks'
+import { canonicalizeName, findNameCollisions } from '@/lib/canonical-names'
 
 /**
  * Ensure the language column exists on campaigns table
@@ -26,6 +28,32 @@ export async function ensureCampaignSettingsColumn(): Promise<void> {
   }
 }
 
+/**
+ * Ensure the is_dm_only column exists on documents table
+ * Existing documents become DM-only: they were never visible to players before
+ */
+export async function ensureDocumentVisibilityColumn(): Promise<void> {
+  try {
+    await sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS is_dm_only BOOLEAN NOT NULL DEFAULT true`
+  } catch (error) {
+    // Ignore if column already exists or other non-critical errors
+    console.log('[Migration] Document visibility column check:', error)
+  }
+}
+
+/**
+ * Ensure the properties JSONB column exists on entities table
+ * This is safe to run multiple times
+ */
+export async function ensureEntityPropertiesColumn(): Promise<void> {
+  try {
+    await sql`ALTER TABLE entities ADD COLUMN IF NOT EXISTS properties JSONB NOT NULL DEFAULT '{}'::jsonb`
+  } catch (error) {
+    // Ignore if column already exists or other non-critical errors
+    console.log('[Migration] Entity properties column check:', error)
+  }
+}
+
 /**
  * Ensure all v2 knowledge graph tables exist
  * This is safe to run multiple times
@@ -45,6 +73,8 @@ export async function ensureKnowledgeGraphTables(): Promise<{ migrated: boolean;
     await ensureCampaignSettingsColumn()
 
     if (result[0]?.exists) {
+      await ensureDocumentVisibilityColumn()
+      await ensureEntityPropertiesColumn()
       return { migrated: false }
     }
 
@@ -59,6 +89,7 @@ export async function ensureKnowledgeGraphTables(): Promise<{ migrated: boolean;
         name TEXT NOT NULL,
         content TEXT NOT NULL,
         file_type TEXT,
+        is_dm_only BOOLEAN NOT NULL DEFAULT true,
         uploaded_by UUID NOT NULL REFERENCES users(id),
         created_at TIMESTAMP DEFAULT NOW() NOT NULL
       )
@@ -77,6 +108,7 @@ export async function ensureKnowledgeGraphTables(): Promise<{ migrated: boolean;
         aliases TEXT[] DEFAULT '{}',
         tags TEXT[] DEFAULT '{}',
         is_dm_only BOOLEAN DEFAULT false,
+        properties JSONB NOT NULL DEFAULT '{}'::jsonb,
         source_note_id UUID REFERENCES notes(id),
         created_at TIMESTAMP DEFAULT NOW() NOT NULL,
         updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
@@ -212,6 +244,656 @@ export async function ensureCampaignMembersJoinedAt(): Promise<void> {
   }
 }
 
+/**
+ * Ensure chunks record which embedding model and dimension produced them
+ * Relaxes the embedding column from vector(1024) to vector so any model fits,
+ * and tags existing rows as Jina v3 (the only backend before this change)
+ * This is safe to run multiple times
+ */
+export async function ensureChunkEmbeddingMetadata(): Promise<{ migrated: boolean; error?: string }> {
+  try {
+    const result = await sql`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_name = 'chunks' AND column_name = 'embedding_model'
+      ) as exists
+    `
+
+    if (result[0]?.exists) {
+      return { migrated: false }
+    }
+
+    console.log('[Migration] Adding embedding model metadata to chunks...')
+
+    await sql`ALTER TABLE chunks ADD COLUMN IF NOT EXISTS embedding_model TEXT`
+    await sql`ALTER TABLE chunks ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER`
+    await sql`ALTER TABLE chunks ALTER COLUMN embedding TYPE vector`
+    await sql`
+      UPDATE chunks
+      SET embedding_model = 'jina:jina-embeddings-v3', embedding_dimensions = 1024
+      WHERE embedding IS NOT NULL AND embedding_model IS NULL
+    `
+    await sql`CREATE INDEX IF NOT EXISTS chunks_campaign_model_idx ON chunks(campaign_id, embedding_model, embedding_dimensions)`
+
+    console.log('[Migration] Chunk embedding metadata added')
+    return { migrated: true }
+  } catch (error) {
+    console.error('[Migration] Chunk embedding metadata migration failed:', error)
+    return { migrated: false, error: String(error) }
+  }
+}
+
+/**
+ * Ensure the ai_usage table exists for per-campaign metering and budgets
+ * This is safe to run multiple times
+ */
+export async function ensureAiUsageTable(): Promise<{ migrated: boolean; error?: string }> {
+  try {
+    const result = await sql`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'ai_usage'
+      ) as exists
+    `
+
+    if (result[0]?.exists) {
+      return { migrated: false }
+    }
+
+    console.log('[Migration] Creating ai_usage table...')
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS ai_usage (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+        user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        model TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        purpose TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd DOUBLE PRECISION NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `
+    await sql`CREATE INDEX IF NOT EXISTS ai_usage_campaign_time_idx ON ai_usage(campaign_id, created_at)`
+
+    console.log('[Migration] ai_usage table created')
+    return { migrated: true }
+  } catch (error) {
+    console.error('[Migration] ai_usage migration failed:', error)
+    return { migrated: false, error: String(error) }
+  }
+}
+
+/**
+ * Create campaign_spotlights table (persisted spotlight history)
+ */
+export async function ensureCampaignSpotlightsTable(): Promise<{ migrated: boolean; error?: string }> {
+  try {
+    const result = await sql`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'campaign_spotlights'
+      ) as exists
+    `
+
+    if (result[0]?.exists) {
+      return { migrated: false }
+    }
+
+    console.log('[Migration] Creating campaign_spotlights table...')
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS campaign_spotlights (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+        summary TEXT NOT NULL,
+        key_tension TEXT NOT NULL,
+        at_stake TEXT NOT NULL,
+        featured_entities JSONB NOT NULL DEFAULT '[]'::jsonb,
+        content_hash TEXT NOT NULL,
+        model TEXT NOT NULL,
+        language TEXT NOT NULL,
+        generated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `
+    await sql`CREATE INDEX IF NOT EXISTS campaign_spotlights_campaign_time_idx ON campaign_spotlights(campaign_id, created_at)`
+
+    console.log('[Migration] campaign_spotlights table created')
+    return { migrated: true }
+  } catch (error) {
+    console.error('[Migration] campaign_spotlights migration failed:', error)
+    return { migrated: false, error: String(error) }
+  }
+}
+
+/**
+ * Ensure the document_chunks table exists for passage search over uploads
+ * This is safe to run multiple times
+ */
+export async function ensureDocumentChunksTable(): Promise<{ migrated: boolean; error?: string }> {
+  try {
+    const result = await sql`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'document_chunks'
+      ) as exists
+    `
+
+    if (result[0]?.exists) {
+      return { migrated: false }
+    }
+
+    console.log('[Migration] Creating document_chunks table...')
+
+    await ensureDocumentVisibilityColumn()
+    await sql`
+      CREATE TABLE IF NOT EXISTS document_chunks (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+        campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        header_path TEXT[] DEFAULT '{}'::text[],
+        embedding vector,
+        embedding_model TEXT,
+        embedding_dimensions INTEGER,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `
+    await sql`CREATE INDEX IF NOT EXISTS document_chunks_document_idx ON document_chunks(document_id)`
+    await sql`CREATE INDEX IF NOT EXISTS document_chunks_campaign_model_idx ON document_chunks(campaign_id, embedding_model, embedding_dimensions)`
+
+    console.log('[Migration] document_chunks table created')
+    return { migrated: true }
+  } catch (error) {
+    console.error('[Migration] document_chunks migration failed:', error)
+    return { migrated: false, error: String(error) }
+  }
+}
+
+/**
+ * Ensure the retrieval_eval_questions table exists for golden-question evaluation
+ * This is safe to run multiple times
+ */
+export async function ensureRetrievalEvalTable(): Promise<{ migrated: boolean; error?: string }> {
+  try {
+    const result = await sql`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'retrieval_eval_questions'
+      ) as exists
+    `
+
+    if (result[0]?.exists) {
+      return { migrated: false }
+    }
+
+    console.log('[Migration] Creating retrieval_eval_questions table...')
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS retrieval_eval_questions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+        question TEXT NOT NULL,
+        expected_entity_ids UUID[] NOT NULL DEFAULT '{}'::uuid[],
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `
+    await sql`CREATE INDEX IF NOT EXISTS retrieval_eval_questions_campaign_idx ON retrieval_eval_questions(campaign_id)`
+
+    console.log('[Migration] retrieval_eval_questions table created')
+    return { migrated: true }
+  } catch (error) {
+    console.error('[Migration] retrieval_eval_questions migration failed:', error)
+    return { migrated: false, error: String(error) }
+  }
+}
+
+/**
+ * Ensure the embedding_versions table exists and chunks record their version
+ * Existing vectors are claimed by each campaign's first version when it is created
+ * This is safe to run multiple times
+ */
+export async function ensureEmbeddingVersionsTable(): Promise<{ migrated: boolean; error?: string }> {
+  try {
+    const result = await sql`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'embedding_versions'
+      ) as exists
+    `
+
+    if (result[0]?.exists) {
+      return { migrated: false }
+    }
+
+    console.log('[Migration] Creating embedding_versions table...')
+
+    await ensureChunkEmbeddingMetadata()
+    await ensureDocumentChunksTable()
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS embedding_versions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        dimensions INTEGER,
+        status TEXT NOT NULL,
+        phase TEXT NOT NULL DEFAULT 'entities',
+        cursor UUID,
+        total_items INTEGER NOT NULL DEFAULT 0,
+        processed_items INTEGER NOT NULL DEFAULT 0,
+        failed_items INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        completed_at TIMESTAMP,
+        UNIQUE(campaign_id, version)
+      )
+    `
+    await sql`CREATE INDEX IF NOT EXISTS embedding_versions_campaign_status_idx ON embedding_versions(campaign_id, status)`
+
+    await sql`ALTER TABLE chunks ADD COLUMN IF NOT EXISTS embedding_version INTEGER`
+    await sql`ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS embedding_version INTEGER`
+    await sql`CREATE INDEX IF NOT EXISTS chunks_campaign_version_idx ON chunks(campaign_id, embedding_version)`
+    await sql`CREATE INDEX IF NOT EXISTS document_chunks_campaign_version_idx ON document_chunks(campaign_id, embedding_version)`
+
+    console.log('[Migration] embedding_versions table created')
+    return { migrated: true }
+  } catch (error) {
+    console.error('[Migration] embedding_versions migration failed:', error)
+    return { migrated: false, error: String(error) }
+  }
+}
+
+/**
+ * Ensure the oracle_threads and oracle_messages tables exist for saved Oracle conversations
+ * This is safe to run multiple times
+ */
+export async function ensureOracleThreadsTables(): Promise<{ migrated: boolean; error?: string }> {
+  try {
+    const result = await sql`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'oracle_messages'
+      ) as exists
+    `
+
+    if (result[0]?.exists) {
+      return { migrated: false }
+    }
+
+    console.log('[Migration] Creating oracle_threads and oracle_messages tables...')
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS oracle_threads (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `
+    await sql`CREATE INDEX IF NOT EXISTS oracle_threads_campaign_user_idx ON oracle_threads(campaign_id, user_id, updated_at)`
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS oracle_messages (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        thread_id UUID NOT NULL REFERENCES oracle_threads(id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        mode TEXT NOT NULL DEFAULT 'rag',
+        sources JSONB NOT NULL DEFAULT '[]'::jsonb,
+        search_query JSONB,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `
+    await sql`CREATE INDEX IF NOT EXISTS oracle_messages_thread_time_idx ON oracle_messages(thread_id, created_at)`
+
+    console.log('[Migration] Oracle conversation tables created')
+    return { migrated: true }
+  } catch (error) {
+    console.error('[Migration] Oracle conversation migration failed:', error)
+    return { migrated: false, error: String(error) }
+  }
+}
+
+/**
+ * Ensure the document_versions table exists, for re-uploads of an updated document
+ * Every existing document is recorded as its own version 1.
+ * This is safe to run multiple times
+ */
+export async function ensureDocumentVersionsTable(): Promise<{ migrated: boolean; error?: string }> {
+  try {
+    const result = await sql`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'document_versions'
+      ) as exists
+    `
+
+    if (result[0]?.exists) {
+      return { migrated: false }
+    }
+
+    console.log('[Migration] Creating document_versions table...')
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS document_versions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        uploaded_by UUID NOT NULL REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        UNIQUE(document_id, version)
+      )
+    `
+
+    await sql`
+      INSERT INTO document_versions (document_id, version, content, uploaded_by, created_at)
+      SELECT id, 1, content, uploaded_by, created_at FROM documents
+      ON CONFLICT DO NOTHING
+    `
+
+    console.log('[Migration] document_versions table created')
+    return { migrated: true }
+  } catch (error) {
+    console.error('[Migration] document_versions migration failed:', error)
+    return { migrated: false, error: String(error) }
+  }
+}
+
+/**
+ * Ensure the jobs, job_events and job_artifacts tables exist for background jobs
+ * This is safe to run multiple times
+ */
+export async function ensureJobsTables(): Promise<{ migrated: boolean; error?: string }> {
+  try {
+    const result = await sql`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'job_artifacts'
+      ) as exists
+    `
+
+    if (result[0]?.exists) {
+      await ensureJobClaimColumn()
+      return { migrated: false }
+    }
+
+    console.log('[Migration] Creating jobs tables...')
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        title TEXT NOT NULL,
+        input JSONB NOT NULL DEFAULT '{}'::jsonb,
+        checkpoint JSONB,
+        progress JSONB,
+        result JSONB,
+        error TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 3,
+        claim_id UUID,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        started_at TIMESTAMP,
+        heartbeat_at TIMESTAMP,
+        completed_at TIMESTAMP
+      )
+    `
+    await sql`CREATE INDEX IF NOT EXISTS jobs_campaign_created_idx ON jobs(campaign_id, created_at)`
+    await sql`CREATE INDEX IF NOT EXISTS jobs_status_idx ON jobs(status)`
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS job_events (
+        id SERIAL PRIMARY KEY,
+        job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+        event TEXT NOT NULL,
+        data JSONB NOT NULL DEFAULT '{}'::jsonb,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `
+    await sql`CREATE INDEX IF NOT EXISTS job_events_job_idx ON job_events(job_id, id)`
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS job_artifacts (
+        job_id UUID PRIMARY KEY REFERENCES jobs(id) ON DELETE CASCADE,
+        filename TEXT NOT NULL,
+        content_type TEXT NOT NULL,
+        content TEXT NOT NULL,
+        encoding TEXT NOT NULL DEFAULT 'utf8',
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `
+
+    console.log('[Migration] Jobs tables created')
+    return { migrated: true }
+  } catch (error) {
+    console.error('[Migration] Jobs migration failed:', error)
+    return { migrated: false, error: String(error) }
+  }
+}
+
+/**
+ * Ensure jobs record which claim (runner) holds them
+ * This is safe to run multiple times
+ */
+export async function ensureJobClaimColumn(): Promise<void> {
+  try {
+    await sql`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS claim_id UUID`
+  } catch (error) {
+    // Ignore if column already exists or other non-critical errors
+    console.log('[Migration] Job claim column check:', error)
+  }
+}
+
+/**
+ * Ensure chunks can be flagged as DM-only, for the secret blocks of public entities
+ * Chunks of entities that already contain a secret fence mix secret and public
+ * text, so they are all flagged until the entity is re-embedded.
+ * This is safe to run multiple times
+ */
+export async function ensureChunkVisibilityColumn(): Promise<{ migrated: boolean; error?: string }> {
+  try {
+    const result = await sql`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_name = 'chunks' AND column_name = 'is_dm_only'
+      ) as exists
+    `
+
+    if (result[0]?.exists) {
+      return { migrated: false }
+    }
+
+    console.log('[Migration] Adding DM-only flag to chunks...')
+
+    await sql`ALTER TABLE chunks ADD COLUMN IF NOT EXISTS is_dm_only BOOLEAN NOT NULL DEFAULT false`
+    await sql`
+      UPDATE chunks c
+      SET is_dm_only = true
+      FROM entities e
+      WHERE e.id = c.entity_id AND e.content ~* ${SECRET_FENCE_SQL_PATTERN}
+    `
+
+    console.log('[Migration] Chunk DM-only flag added')
+    return { migrated: true }
+  } catch (error) {
+    console.error('[Migration] Chunk visibility migration failed:', error)
+    return { migrated: false, error: String(error) }
+  }
+}
+
+export interface CanonicalNameCollision {
+  campaignId: string
+  canonicalName: string
+  entities: { id: string; name: string }[]
+}
+
+export interface CanonicalNameMigrationReport {
+  checked: number
+  updated: number
+  collisions: CanonicalNameCollision[] // Entities left on their old canonical name for the DM to rename or merge
+}
+
+/**
+ * Recompute every entity's canonical name with canonicalizeName
+ * Names used to be reduced to ASCII, so accented and non-Latin names were
+ * mangled or empty. Entities whose names now share a key keep their old
+ * canonical name and are reported instead.
+ * This is safe to run multiple times
+ */
+export async function migrateCanonicalNames(): Promise<CanonicalNameMigrationReport> {
+  const rows = await sql`
+    SELECT id, campaign_id, name, canonical_name
+    FROM entities
+    ORDER BY campaign_id, created_at
+  `
+  const entities = rows.map((row) => ({
+    id: row.id as string,
+    campaignId: row.campaign_id as string,
+    name: row.name as string,
+    canonicalName: row.canonical_name as string,
+  }))
+
+  const byCampaign = new Map<string, typeof entities>()
+  for (const entity of entities) {
+    byCampaign.set(entity.campaignId, [...(byCampaign.get(entity.campaignId) || []), entity])
+  }
+
+  const collisions: CanonicalNameCollision[] = []
+  const colliding = new Set<string>()
+  for (const [campaignId, campaignEntities] of byCampaign) {
+    for (const collision of findNameCollisions(campaignEntities)) {
+      collisions.push({
+        campaignId,
+        canonicalName: collision.canonicalName,
+        entities: collision.entities.map(({ id, name }) => ({ id, name })),
+      })
+      collision.entities.forEach((entity) => colliding.add(entity.id))
+    }
+  }
+
+  // Current holder of each key, so a failed update can name who is in the way
+  const holders = new Map(entities.map((entity) => [`${entity.campaignId}:${entity.canonicalName}`, entity]))
+
+  let pending = entities.filter(
+    (entity) => !colliding.has(entity.id) && canonicalizeName(entity.name) !== entity.canonicalName
+  )
+  let updated = 0
+
+  // A key can be held by an entity that is about to move off it, so retry the failures once
+  for (let pass = 0; pass < 2 && pending.length > 0; pass++) {
+    const failed: typeof pending = []
+    for (const entity of pending) {
+      const canonicalName = canonicalizeName(entity.name)
+      try {
+        await sql`UPDATE entities SET canonical_name = ${canonicalName} WHERE id = ${entity.id}`
+        holders.delete(`${entity.campaignId}:${entity.canonicalName}`)
+        holders.set(`${entity.campaignId}:${canonicalName}`, entity)
+        updated++
+      } catch (error) {
+        failed.push(entity)
+      }
+    }
+    pending = failed
+  }
+
+  for (const entity of pending) {
+    const canonicalName = canonicalizeName(entity.name)
+    const holder = holders.get(`${entity.campaignId}:${canonicalName}`)
+    collisions.push({
+      campaignId: entity.campaignId,
+      canonicalName,
+      entities: [entity, ...(holder ? [holder] : [])].map(({ id, name }) => ({ id, name })),
+    })
+  }
+
+  for (const collision of collisions) {
+    console.log(
+      '[Migration] Canonical name collision in campaign', collision.campaignId, `"${collision.canonicalName}":`,
+      collision.entities.map((entity) => entity.name).join(', ')
+    )
+  }
+  console.log('[Migration] Canonical names recomputed:', updated, 'of', entities.length, 'updated,', collisions.length, 'collisions')
+
+  return { checked: entities.length, updated, collisions }
+}
+
+// pgvector cannot build HNSW indexes on vectors wider than this
+export const MAX_HNSW_DIMENSIONS = 2000
+
+const vectorIndexesEnsured = new Set<number>()
+
+/**
+ * Ensure HNSW indexes exist for vectors of one dimension
+ * The embedding columns hold any dimension, so each dimension gets a partial
+ * index over the column cast to its fixed size. Queries must filter on
+ * embedding_dimensions and order by the same cast for the planner to use it.
+ * This is safe to run multiple times
+ */
+export async function ensureVectorIndexes(dimensions: number): Promise<void> {
+  if (vectorIndexesEnsured.has(dimensions)) return
+
+  if (!Number.isInteger(dimensions) || dimensions <= 0 || dimensions > MAX_HNSW_DIMENSIONS) {
+    console.log('[Migration] No HNSW index for', dimensions, 'dimensions, searches will scan')
+    vectorIndexesEnsured.add(dimensions)
+    return
+  }
+
+  try {
+    console.log('[Migration] Ensuring HNSW indexes for', dimensions, 'dimensions...')
+    await ensureDocumentChunksTable()
+
+    for (const table of ['chunks', 'document_chunks']) {
+      await sql.unsafe(`
+        CREATE INDEX IF NOT EXISTS ${table}_embedding_hnsw_${dimensions}_idx
+        ON ${table} USING hnsw ((embedding::vector(${dimensions})) vector_cosine_ops)
+        WHERE embedding_dimensions = ${dimensions}
+      `)
+    }
+    vectorIndexesEnsured.add(dimensions)
+  } catch (error) {
+    // Older pgvector releases have no HNSW; search still works without an index
+    console.error('[Migration] HNSW index creation failed:', error)
+  }
+}
+
+/**
+ * Ensure HNSW indexes for every dimension that has stored vectors
+ */
+export async function ensureAllVectorIndexes(): Promise<void> {
+  try {
+    await ensureChunkEmbeddingMetadata()
+    await ensureDocumentChunksTable()
+
+    const rows = await sql`
+      SELECT DISTINCT embedding_dimensions AS dimensions FROM chunks WHERE embedding_dimensions IS NOT NULL
+      UNION
+      SELECT DISTINCT embedding_dimensions FROM document_chunks WHERE embedding_dimensions IS NOT NULL
+    `
+    for (const row of rows) {
+      await ensureVectorIndexes(Number(row.dimensions))
+    }
+  } catch (error) {
+    console.error('[Migration] Vector index check failed:', error)
+  }
+}
+
 /**
  * Run all migrations
  */
@@ -219,6 +901,19 @@ export async function runAllMigrations(): Promise<void> {
   await ensureCampaignLanguageColumn()
   await ensureCampaignSettingsColumn()
   await ensureKnowledgeGraphTables()
+  await ensureEntityPropertiesColumn()
   await ensureCampaignInvitesTable()
   await ensureCampaignMembersJoinedAt()
+  await ensureChunkEmbeddingMetadata()
+  await ensureAiUsageTable()
+  await ensureCampaignSpotlightsTable()
+  await ensureDocumentChunksTable()
+  await ensureRetrievalEvalTable()
+  await ensureEmbeddingVersionsTable()
+  await ensureAllVectorIndexes()
+  await ensureOracleThreadsTables()
+  await ensureChunkVisibilityColumn()
+  await migrateCanonicalNames()
+  await ensureDocumentVersionsTable()
+  await ensureJobsTables()
 }
@@ -10,13 +10,18 @@ import {
   index,
   customType,
   jsonb,
+  doublePrecision,
+  serial,
 } from 'drizzle-orm/pg-core'
 import { relations, sql } from 'drizzle-orm'
+import type { SearchResult, SearchQuery, JobProgress } from '@/lib/types'
 
 // Custom vector type for pgvector
 const vector = customType<{ data: number[]; driverData: string }>({
   dataType(config) {
-    return `vector(${(config as any)?.dimensions ?? 1536})`
+    // Without dimensions the column accepts vectors of any size
+    const dimensions = (config as any)?.dimensions
+    return dimensions ? `vector(${dimensions})` : 'vector'
   },
   fromDriver(value: string): number[] {
     return value
@@ -98,13 +103,32 @@ export const aiModels = [
   'gemini-3-flash-preview',
 ] as const
 
-export type AIModel = (typeof aiModels)[number]
+// Prefix for models served by a self-hosted OpenAI-compatible endpoint
+// (llama.cpp server, vLLM, Ollama), e.g. "local/llama3.1:8b"
+export const LOCAL_MODEL_PREFIX = 'local/'
+
+export type LocalAIModel = `${typeof LOCAL_MODEL_PREFIX}${string}`
+
+export type AIModel = (typeof aiModels)[number] | LocalAIModel
+
+export type ModelProvider = 'anthropic' | 'google' | 'local'
 
 // Helper to check model provider
-export function getModelProvider(model: AIModel): 'anthropic' | 'google' {
+export function getModelProvider(model: AIModel): ModelProvider {
+  if (model.startsWith(LOCAL_MODEL_PREFIX)) return 'local'
   return model.startsWith('gemini') ? 'google' : 'anthropic'
 }
 
+// Embedding backends (see lib/ai/embeddings.ts)
+export const embeddingProviders = ['jina', 'openai-compatible', 'local'] as const
+
+export type EmbeddingProviderName = (typeof embeddingProviders)[number]
+
+// Reranking backends (see lib/ai/rerank.ts)
+export const rerankProviders = ['none', 'llm', 'endpoint', 'local'] as const
+
+export type RerankProviderName = (typeof rerankProviders)[number]
+
 // Campaign settings type
 export interface CampaignSettings {
   model?: {
@@ -120,6 +144,16 @@ export interface CampaignSettings {
     enableAutoMerge?: boolean
     enableRelationships?: boolean
   }
+  embedding?: {
+    provider?: EmbeddingProviderName
+    model?: string
+    dimensions?: number       // Requested output size, where the model supports it
+  }
+  rerank?: {
+    provider?: RerankProviderName
+    model?: string              // Endpoint or local cross-encoder model; 'llm' uses the extraction model
+    candidateMultiplier?: number // Candidates retrieved per result kept
+  }
   visibility?: {
     defaultDmOnly?: boolean
     dmOnlyEntityTypes?: string[]
@@ -128,6 +162,20 @@ export interface CampaignSettings {
     similarityThreshold?: number
     resultLimit?: number
     enablePlayerChat?: boolean
+    enableGraphExpansion?: boolean   // Add linked entities of the top hits
+    graphExpansionTokenBudget?: number // Estimated tokens of linked-entity text
+    enableQueryRewriting?: boolean   // Resolve follow-ups into standalone queries
+    maxSubQueries?: number           // 0 = search the rewritten query only
+  }
+  budget?: {
+    monthlyTokenLimit?: number  // 0 = unlimited
+    monthlyCostLimit?: number   // USD, 0 = unlimited
+  }
+  resilience?: {
+    maxConcurrency?: number   // In-flight calls per provider
+    timeoutSeconds?: number   // Per attempt; for streams, wait for the next token
+    extractionTimeoutSeconds?: number // Per extraction attempt
+    maxRetries?: number       // For rate limits, overload and network errors
   }
   prompts?: {
     chatSystemPrompt?: string
@@ -285,6 +333,8 @@ export const documents = pgTable(
     name: text('name').notNull(),
     content: text('content').notNull(),
     fileType: text('file_type'),
+    // Raw uploads may hold DM secrets; their passages are only searchable by DMs unless shared
+    isDmOnly: boolean('is_dm_only').default(true).notNull(),
     uploadedBy: uuid('uploaded_by')
       .notNull()
       .references(() => users.id),
@@ -322,6 +372,11 @@ export const commonEntityTypes = [
 export const entityTypeEnum = commonEntityTypes
 
 // Entities (wiki pages)
+// Infobox facts of an entity, e.g. { race: 'Elf', status: 'dead', hit_points: 45 }
+// Keys are snake_case (see lib/entity-properties.ts)
+export type EntityPropertyValue = string | number | boolean
+export type EntityProperties = Record<string, EntityPropertyValue>
+
 export const entities = pgTable(
   'entities',
   {
@@ -340,6 +395,7 @@ export const entities = pgTable(
     aliases: text('aliases').array().default(sql`'{}'::text[]`),
     tags: text('tags').array().default(sql`'{}'::text[]`),
     isDmOnly: boolean('is_dm_only').default(false),
+    properties: jsonb('properties').$type<EntityProperties>().default({}).notNull(),
 
     // Player character ownership (only used when entityType = 'player_character')
     playerId: uuid('player_id').references(() => campaignMembers.id, { onDelete: 'set null' }),
@@ -444,13 +500,72 @@ export const chunks = pgTable(
     headerPath: text('header_path').array().default(sql`'{}'::text[]`),
     entityMentions: text('entity_mentions').array().default(sql`'{}'::text[]`),
 
-    embedding: vector('embedding', { dimensions: 1024 }),
+    // Vectors are only comparable within the same model and dimension
+    embedding: vector('embedding'),
+    embeddingModel: text('embedding_model'), // e.g. "jina:jina-embeddings-v3"
+    embeddingDimensions: integer('embedding_dimensions'),
+    embeddingVersion: integer('embedding_version'), // embedding_versions.version; search reads the active one
+
+    // Text from a :::secret block of the entity; hidden from players like DM-only entities
+    isDmOnly: boolean('is_dm_only').default(false).notNull(),
 
     createdAt: timestamp('created_at').defaultNow().notNull(),
   },
   (table) => ({
     entityIdx: index('chunks_entity_idx').on(table.entityId),
     campaignIdx: index('chunks_campaign_idx').on(table.campaignId),
+    campaignModelIdx: index('chunks_campaign_model_idx').on(table.campaignId, table.embeddingModel, table.embeddingDimensions),
+    campaignVersionIdx: index('chunks_campaign_version_idx').on(table.campaignId, table.embeddingVersion),
+  })
+)
+
+// Passages of uploaded documents, embedded so details the extractor dropped stay searchable
+export const documentChunks = pgTable(
+  'document_chunks',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    documentId: uuid('document_id')
+      .notNull()
+      .references(() => documents.id, { onDelete: 'cascade' }),
+    campaignId: uuid('campaign_id')
+      .notNull()
+      .references(() => campaigns.id, { onDelete: 'cascade' }),
+
+    content: text('content').notNull(),
+    chunkIndex: integer('chunk_index').notNull(),
+    headerPath: text('header_path').array().default(sql`'{}'::text[]`),
+
+    embedding: vector('embedding'),
+    embeddingModel: text('embedding_model'),
+    embeddingDimensions: integer('embedding_dimensions'),
+    embeddingVersion: integer('embedding_version'),
+
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    documentIdx: index('document_chunks_document_idx').on(table.documentId),
+    campaignModelIdx: index('document_chunks_campaign_model_idx').on(table.campaignId, table.embeddingModel, table.embeddingDimensions),
+    campaignVersionIdx: index('document_chunks_campaign_version_idx').on(table.campaignId, table.embeddingVersion),
+  })
+)
+
+// Versions of an uploaded document; documents.content is always the latest one
+export const documentVersions = pgTable(
+  'document_versions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    documentId: uuid('document_id')
+      .notNull()
+      .references(() => documents.id, { onDelete: 'cascade' }),
+    version: integer('version').notNull(),
+    content: text('content').notNull(),
+    uploadedBy: uuid('uploaded_by')
+      .notNull()
+      .references(() => users.id),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueVersion: unique().on(table.documentId, table.version),
   })
 )
 
@@ -482,6 +597,19 @@ export const documentsRelations = relations(documents, ({ one, many }) => ({
     references: [users.id],
   }),
   entitySources: many(entitySources),
+  chunks: many(documentChunks),
+  versions: many(documentVersions),
+}))
+
+export const documentVersionsRelations = relations(documentVersions, ({ one }) => ({
+  document: one(documents, {
+    fields: [documentVersions.documentId],
+    references: [documents.id],
+  }),
+  uploader: one(users, {
+    fields: [documentVersions.uploadedBy],
+    references: [users.id],
+  }),
 }))
 
 export const entitiesRelations = relations(entities, ({ one, many }) => ({
@@ -544,6 +672,17 @@ export const chunksRelations = relations(chunks, ({ one }) => ({
   }),
 }))
 
+export const documentChunksRelations = relations(documentChunks, ({ one }) => ({
+  document: one(documents, {
+    fields: [documentChunks.documentId],
+    references: [documents.id],
+  }),
+  campaign: one(campaigns, {
+    fields: [documentChunks.campaignId],
+    references: [campaigns.id],
+  }),
+}))
+
 export const entityVersionsRelations = relations(entityVersions, ({ one }) => ({
   entity: one(entities, {
     fields: [entityVersions.entityId],
@@ -571,6 +710,8 @@ export type Entity = typeof entities.$inferSelect
 export type EntitySource = typeof entitySources.$inferSelect
 export type Relationship = typeof relationships.$inferSelect
 export type Chunk = typeof chunks.$inferSelect
+export type DocumentChunk = typeof documentChunks.$inferSelect
+export type DocumentVersion = typeof documentVersions.$inferSelect
 export type EntityVersion = typeof entityVersions.$inferSelect
 export type EntityType = Entity['entityType']
 export type RelationshipType = (typeof relationshipTypeEnum)[number]
@@ -615,3 +756,342 @@ export const entityCommentsRelations = relations(entityComments, ({ one }) => ({
 }))
 
 export type EntityComment = typeof entityComments.$inferSelect
+
+// ============================================
+// AI Usage Metering
+// ============================================
+
+export const aiUsagePurposes = ['chat', 'extraction', 'spotlight', 'embedding', 'search', 'rerank'] as const
+
+export type AIUsagePurpose = (typeof aiUsagePurposes)[number]
+
+export const aiUsage = pgTable(
+  'ai_usage',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    campaignId: uuid('campaign_id')
+      .notNull()
+      .references(() => campaigns.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+    model: text('model').notNull(),
+    provider: text('provider').notNull(),
+    purpose: text('purpose').$type<AIUsagePurpose>().notNull(),
+    inputTokens: integer('input_tokens').default(0).notNull(),
+    outputTokens: integer('output_tokens').default(0).notNull(),
+    costUsd: doublePrecision('cost_usd').default(0).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    campaignTimeIdx: index('ai_usage_campaign_time_idx').on(table.campaignId, table.createdAt),
+  })
+)
+
+export const aiUsageRelations = relations(aiUsage, ({ one }) => ({
+  campaign: one(campaigns, {
+    fields: [aiUsage.campaignId],
+    references: [campaigns.id],
+  }),
+  user: one(users, {
+    fields: [aiUsage.userId],
+    references: [users.id],
+  }),
+}))
+
+export type AIUsage = typeof aiUsage.$inferSelect
+
+// ============================================
+// Campaign Spotlight
+// ============================================
+
+export interface SpotlightEntity {
+  id: string
+  name: string
+  entityType: string
+}
+
+export const campaignSpotlights = pgTable(
+  'campaign_spotlights',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    campaignId: uuid('campaign_id')
+      .notNull()
+      .references(() => campaigns.id, { onDelete: 'cascade' }),
+    summary: text('summary').notNull(),
+    keyTension: text('key_tension').notNull(),
+    atStake: text('at_stake').notNull(),
+    featuredEntities: jsonb('featured_entities').$type<SpotlightEntity[]>().default([]).notNull(),
+    // Hash of the prompt context, model and language; a mismatch means the campaign changed
+    contentHash: text('content_hash').notNull(),
+    model: text('model').notNull(),
+    language: text('language').notNull(),
+    generatedBy: uuid('generated_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    campaignTimeIdx: index('campaign_spotlights_campaign_time_idx').on(table.campaignId, table.createdAt),
+  })
+)
+
+export const campaignSpotlightsRelations = relations(campaignSpotlights, ({ one }) => ({
+  campaign: one(campaigns, {
+    fields: [campaignSpotlights.campaignId],
+    references: [campaigns.id],
+  }),
+  generatedByUser: one(users, {
+    fields: [campaignSpotlights.generatedBy],
+    references: [users.id],
+  }),
+}))
+
+export type CampaignSpotlight = typeof campaignSpotlights.$inferSelect
+
+// ============================================
+// Retrieval evaluation
+// ============================================
+
+// Golden questions a DM expects search to answer, with the entities it should retrieve
+export const retrievalEvalQuestions = pgTable(
+  'retrieval_eval_questions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    campaignId: uuid('campaign_id')
+      .notNull()
+      .references(() => campaigns.id, { onDelete: 'cascade' }),
+    question: text('question').notNull(),
+    expectedEntityIds: uuid('expected_entity_ids').array().default(sql`'{}'::uuid[]`).notNull(),
+    createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    campaignIdx: index('retrieval_eval_questions_campaign_idx').on(table.campaignId),
+  })
+)
+
+export const retrievalEvalQuestionsRelations = relations(retrievalEvalQuestions, ({ one }) => ({
+  campaign: one(campaigns, {
+    fields: [retrievalEvalQuestions.campaignId],
+    references: [campaigns.id],
+  }),
+}))
+
+export type RetrievalEvalQuestion = typeof retrievalEvalQuestions.$inferSelect
+
+// ============================================
+// Embedding versions
+// ============================================
+
+// building: vectors are being generated; active: the one search reads;
+// retired: replaced by a newer version; superseded: abandoned for a newer build; failed: gave up
+export const embeddingVersionStatuses = ['building', 'active', 'retired', 'superseded', 'failed'] as const
+
+export type EmbeddingVersionStatus = (typeof embeddingVersionStatuses)[number]
+
+// Every set of vectors a campaign has had. Switching model or dimensions builds
+// a new version next to the active one and swaps it in once complete.
+export const embeddingVersions = pgTable(
+  'embedding_versions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    campaignId: uuid('campaign_id')
+      .notNull()
+      .references(() => campaigns.id, { onDelete: 'cascade' }),
+    version: integer('version').notNull(),
+    provider: text('provider').$type<EmbeddingProviderName>().notNull(),
+    model: text('model').notNull(),
+    dimensions: integer('dimensions'), // Requested output size; null keeps the model's own
+    status: text('status').$type<EmbeddingVersionStatus>().notNull(),
+
+    // Progress of a build; it resumes after the cursor if the server restarts
+    phase: text('phase').$type<'entities' | 'documents'>().default('entities').notNull(),
+    cursor: uuid('cursor'), // Last entity or document embedded in the current phase
+    totalItems: integer('total_items').default(0).notNull(),
+    processedItems: integer('processed_items').default(0).notNull(),
+    failedItems: integer('failed_items').default(0).notNull(),
+    lastError: text('last_error'),
+
+    createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(), // Heartbeat while building
+    completedAt: timestamp('completed_at'),
+  },
+  (table) => ({
+    uniqueVersion: unique().on(table.campaignId, table.version),
+    campaignStatusIdx: index('embedding_versions_campaign_status_idx').on(table.campaignId, table.status),
+  })
+)
+
+export const embeddingVersionsRelations = relations(embeddingVersions, ({ one }) => ({
+  campaign: one(campaigns, {
+    fields: [embeddingVersions.campaignId],
+    references: [campaigns.id],
+  }),
+}))
+
+export type EmbeddingVersion = typeof embeddingVersions.$inferSelect
+
+// ============================================
+// Oracle conversations
+// ============================================
+
+// A user's conversation with the Oracle; private to that user
+export const oracleThreads = pgTable(
+  'oracle_threads',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    campaignId: uuid('campaign_id')
+      .notNull()
+      .references(() => campaigns.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    title: text('title').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(), // Last message
+  },
+  (table) => ({
+    campaignUserIdx: index('oracle_threads_campaign_user_idx').on(table.campaignId, table.userId, table.updatedAt),
+  })
+)
+
+export const oracleMessages = pgTable(
+  'oracle_messages',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    threadId: uuid('thread_id')
+      .notNull()
+      .references(() => oracleThreads.id, { onDelete: 'cascade' }),
+    role: text('role', { enum: ['user', 'assistant'] }).notNull(),
+    content: text('content').notNull(),
+    // 'direct' answers are search results only and are left out of the model's history
+    mode: text('mode', { enum: ['rag', 'direct'] }).notNull().default('rag'),
+    // What the answer was based on, as shown to the user at the time
+    sources: jsonb('sources').$type<SearchResult[]>().default([]).notNull(),
+    searchQuery: jsonb('search_query').$type<SearchQuery>(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    threadTimeIdx: index('oracle_messages_thread_time_idx').on(table.threadId, table.createdAt),
+  })
+)
+
+export const oracleThreadsRelations = relations(oracleThreads, ({ one, many }) => ({
+  campaign: one(campaigns, {
+    fields: [oracleThreads.campaignId],
+    references: [campaigns.id],
+  }),
+  user: one(users, {
+    fields: [oracleThreads.userId],
+    references: [users.id],
+  }),
+  messages: many(oracleMessages),
+}))
+
+export const oracleMessagesRelations = relations(oracleMessages, ({ one }) => ({
+  thread: one(oracleThreads, {
+    fields: [oracleMessages.threadId],
+    references: [oracleThreads.id],
+  }),
+}))
+
+export type OracleThread = typeof oracleThreads.$inferSelect
+export type OracleMessage = typeof oracleMessages.$inferSelect
+
+// ============================================
+// Background jobs
+// ============================================
+
+export const jobTypes = ['document-extraction', 'entity-extraction', 'reindex', 'export'] as const
+
+// queued: waiting for a runner (new, or retrying after a failed attempt); running: claimed by a runner;
+// completed, failed (out of attempts) and cancelled are final
+export const jobStatuses = ['queued', 'running', 'completed', 'failed', 'cancelled'] as const
+
+export type JobType = (typeof jobTypes)[number]
+export type JobStatus = (typeof jobStatuses)[number]
+
+// Long-running work that outlives the request that started it
+export const jobs = pgTable(
+  'jobs',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    campaignId: uuid('campaign_id')
+      .notNull()
+      .references(() => campaigns.id, { onDelete: 'cascade' }),
+    type: text('type').$type<JobType>().notNull(),
+    status: text('status').$type<JobStatus>().default('queued').notNull(),
+    title: text('title').notNull(),
+
+    input: jsonb('input').$type<Record<string, any>>().default({}).notNull(),
+    checkpoint: jsonb('checkpoint').$type<Record<string, any>>(), // Saved progress a retry resumes from
+    progress: jsonb('progress').$type<JobProgress>(),
+    result: jsonb('result').$type<Record<string, any>>(),
+    error: text('error'),
+
+    attempts: integer('attempts').default(0).notNull(),
+    maxAttempts: integer('max_attempts').default(3).notNull(),
+    claimId: uuid('claim_id'), // Set by each claim; a runner whose claim was taken over stops writing
+
+    createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    startedAt: timestamp('started_at'),
+    heartbeatAt: timestamp('heartbeat_at'), // Refreshed while running; a stale one means the runner died
+    completedAt: timestamp('completed_at'),
+  },
+  (table) => ({
+    campaignCreatedIdx: index('jobs_campaign_created_idx').on(table.campaignId, table.createdAt),
+    statusIdx: index('jobs_status_idx').on(table.status),
+  })
+)
+
+// Everything a job reported, in order; SSE subscribers replay and follow it
+export const jobEvents = pgTable(
+  'job_events',
+  {
+    id: serial('id').primaryKey(),
+    jobId: uuid('job_id')
+      .notNull()
+      .references(() => jobs.id, { onDelete: 'cascade' }),
+    event: text('event').notNull(),
+    data: jsonb('data').$type<Record<string, any>>().default({}).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    jobIdx: index('job_events_job_idx').on(table.jobId, table.id),
+  })
+)
+
+// Files a job produced, e.g. an export
+export const jobArtifacts = pgTable('job_artifacts', {
+  jobId: uuid('job_id')
+    .primaryKey()
+    .references(() => jobs.id, { onDelete: 'cascade' }),
+  filename: text('filename').notNull(),
+  contentType: text('content_type').notNull(),
+  content: text('content').notNull(), // Base64 for binary files
+  encoding: text('encoding').$type<'utf8' | 'base64'>().default('utf8').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+})
+
+export const jobsRelations = relations(jobs, ({ one, many }) => ({
+  campaign: one(campaigns, {
+    fields: [jobs.campaignId],
+    references: [campaigns.id],
+  }),
+  creator: one(users, {
+    fields: [jobs.createdBy],
+    references: [users.id],
+  }),
+  events: many(jobEvents),
+}))
+
+export const jobEventsRelations = relations(jobEvents, ({ one }) => ({
+  job: one(jobs, {
+    fields: [jobEvents.jobId],
+    references: [jobs.id],
+  }),
+}))
+
+export type Job = typeof jobs.$inferSelect
+export type JobEvent = typeof jobEvents.$inferSelect
+export type JobArtifact = typeof jobArtifacts.$inferSelect
@@ -0,0 +1,197 @@
+import { db, entities, relationships, Entity } from '@/lib/db'
+import { eq, and, or, sql } from 'drizzle-orm'
+import { syncEntityEmbeddings } from '@/lib/ai/entity-embeddings'
+import { mergeProperties } from '@/lib/entity-properties'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+/**
+ * Merge entities into a primary one
+ *
+ * The primary entity keeps its ID and receives, from each secondary in turn:
+ * - Its content, appended under a "Merged from" note
+ * - Its name, canonical name and aliases as aliases
+ * - Its tags and relationships, and the properties the primary does not have
+ * - Its DM-only flag: its page, names and relationships all move to the
+ *   primary, so merging a DM-only secondary makes the primary DM-only
+ * Wikilinks to the secondaries are rewritten to the primary and the
+ * secondaries are deleted, all in one transaction; the primary is embedded
+ * again once it commits.
+ */
+export async function mergeEntities(
+  campaignId: string,
+  primary: Entity,
+  secondaryIds: string[]
+): Promise<Entity> {
+  const merged = await db.transaction(async (tx) => {
+    let current = primary
+
+    for (const id of secondaryIds) {
+      // Read here, as earlier merges may have rewritten its wikilinks
+      const secondary = await tx.query.entities.findFirst({
+        where: and(eq(entities.id, id), eq(entities.campaignId, campaignId)),
+      })
+      if (!secondary) continue
+
+      // 1. Transfer relationships from secondary to primary
+      await transferRelationships(tx, primary.id, secondary.id)
+
+      // 2. Point wikilinks to the secondary at the primary
+      await rewriteWikilinks(tx, campaignId, secondary, current.name)
+
+      // Read the primary again so the rewrites to its own content are kept
+      const [fresh] = await tx
+        .select()
+        .from(entities)
+        .where(eq(entities.id, primary.id))
+        .for('update')
+      if (!fresh) throw new Error('Primary entity not found')
+
+      // 3. Concatenate content
+      const newContent = fresh.content
+        ? `${fresh.content}\n\n---\n\n*Merged from ${secondary.name}:*\n\n${secondary.content || ''}`
+        : secondary.content || ''
+
+      // 4. Merge aliases (unique set, excluding primary's name/canonicalName)
+      const allAliases = new Set([
+        ...(fresh.aliases || []),
+        secondary.name,
+        secondary.canonicalName,
+        ...(secondary.aliases || []),
+      ])
+      allAliases.delete(fresh.name)
+      allAliases.delete(fresh.canonicalName)
+      const newAliases = Array.from(allAliases).filter(Boolean)
+
+      // 5. Merge tags
+      const newTags = Array.from(new Set([
+        ...(fresh.tags || []),
+        ...(secondary.tags || []),
+      ])).filter(Boolean)
+
+      // 6. Fill in properties; the primary's values win
+      const newProperties = mergeProperties(fresh.properties || {}, secondary.properties || {})
+
+      // 7. Update the primary entity
+      const [updated] = await tx
+        .update(entities)
+        .set({
+          content: newContent,
+          aliases: newAliases,
+          tags: newTags,
+          properties: newProperties,
+          isDmOnly: fresh.isDmOnly || secondary.isDmOnly,
+          updatedAt: new Date(),
+        })
+        .where(eq(entities.id, primary.id))
+        .returning()
+      current = updated
+
+      // 8. Delete secondary entity (cascades to chunks, relationships, sources, versions)
+      await tx.delete(entities).where(eq(entities.id, secondary.id))
+
+      console.log('[Merge] Merged', secondary.name, 'into', current.name)
+    }
+
+    return current
+  })
+
+  // 9. Re-sync embeddings for the merged primary entity
+  try {
+    await syncEntityEmbeddings(merged.id, campaignId, merged.name, merged.content || '')
+  } catch (error) {
+    console.error('[Merge] Error syncing embeddings:', error)
+  }
+
+  return merged
+}
+
+/**
+ * Move the secondary's relationships to the primary
+ * Relationships between the two would point at itself, and ones the primary
+ * already has would break the unique constraint; both are dropped first.
+ */
+async function transferRelationships(tx: Transaction, primaryId: string, secondaryId: string): Promise<void> {
+  await tx.delete(relationships).where(or(
+    and(eq(relationships.sourceEntityId, secondaryId), eq(relationships.targetEntityId, primaryId)),
+    and(eq(relationships.sourceEntityId, primaryId), eq(relationships.targetEntityId, secondaryId))
+  ))
+
+  await tx.execute(sql`
+    DELETE FROM relationships r
+    WHERE r.source_entity_id = ${secondaryId}
+      AND EXISTS (
+        SELECT 1 FROM relationships p
+        WHERE p.source_entity_id = ${primaryId}
+          AND p.target_entity_id = r.target_entity_id
+          AND p.relationship_type = r.relationship_type
+      )
+  `)
+  await tx.execute(sql`
+    DELETE FROM relationships r
+    WHERE r.target_entity_id = ${secondaryId}
+      AND EXISTS (
+        SELECT 1 FROM relationships p
+        WHERE p.target_entity_id = ${primaryId}
+          AND p.source_entity_id = r.source_entity_id
+          AND p.relationship_type = r.relationship_type
+      )
+  `)
+
+  // Update outgoing relationships (secondary as source)
+  await tx
+    .update(relationships)
+    .set({ sourceEntityId: primaryId })
+    .where(eq(relationships.sourceEntityId, secondaryId))
+
+  // Update incoming relationships (secondary as target)
+  await tx
+    .update(relationships)
+    .set({ targetEntityId: primaryId })
+    .where(eq(relationships.targetEntityId, secondaryId))
+}
+
+/**
+ * Replace [[SecondaryName]] (and its aliases) with [[PrimaryName]] in all campaign entities
+ */
+async function rewriteWikilinks(tx: Transaction, campaignId: string, secondary: Entity, primaryName: string): Promise<void> {
+  const searchTerms = [
+    secondary.name,
+    secondary.canonicalName,
+    ...(secondary.aliases || []),
+  ].filter(Boolean)
+
+  const allCampaignEntities = await tx.query.entities.findMany({
+    where: eq(entities.campaignId, campaignId),
+    columns: { id: true, content: true },
+  })
+
+  for (const entity of allCampaignEntities) {
+    if (entity.id === secondary.id) continue // Skip the entity being merged
+    if (!entity.content) continue
+
+    let updatedContent = entity.content
+    let hasChanges = false
+
+    for (const term of searchTerms) {
+      // Case-insensitive replacement of wikilinks
+      const regex = new RegExp(`\\[\\[${escapeRegex(term)}\\]\\]`, 'gi')
+      if (regex.test(updatedContent)) {
+        updatedContent = updatedContent.replace(regex, `[[${primaryName}]]`)
+        hasChanges = true
+      }
+    }
+
+    if (hasChanges) {
+      await tx
+        .update(entities)
+        .set({ content: updatedContent, updatedAt: new Date() })
+        .where(eq(entities.id, entity.id))
+    }
+  }
+}
+
+// Helper to escape special regex characters
+function escapeRegex(string: string): string {
+  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,124 @@
+import type { EntityProperties, EntityPropertyValue } from '@/lib/db/schema'
+import { canonicalizeName } from '@/lib/canonical-names'
+
+/**
+ * Entity properties
+ *
+ * The infobox of an entity: short typed facts (race, status, hit points,
+ * ruler) kept next to its page so they can be filtered on and shown the same
+ * way everywhere. Keys are snake_case ("Hit Points" -> "hit_points") so the
+ * extractor, the editor and filters agree on them; values are text, numbers
+ * or yes/no.
+ */
+
+// Keeps the infobox an infobox; longer facts belong on the page
+export const MAX_PROPERTIES = 30
+export const MAX_PROPERTY_VALUE_LENGTH = 200
+
+// Query parameter prefix of property filters: ?prop.status=dead
+export const PROPERTY_FILTER_PREFIX = 'prop.'
+
+const KEY_SEPARATORS = /[^\p{L}\p{N}]+/gu
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/
+
+/**
+ * snake_case key of a property label, e.g. "Hit Points" -> "hit_points"
+ */
+export function normalizePropertyKey(key: string): string {
+  return key
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(KEY_SEPARATORS, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 60)
+}
+
+/**
+ * Label of a property key, e.g. "hit_points" -> "Hit points"
+ */
+export function formatPropertyKey(key: string): string {
+  const label = key.replace(/_/g, ' ')
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+/**
+ * Typed value of text typed in the editor: numbers and true/false become
+ * numbers and booleans, anything else ("1d8+2", "Elf") stays text
+ */
+export function parsePropertyValue(text: string): EntityPropertyValue {
+  const value = text.trim()
+  if (NUMBER_PATTERN.test(value)) return Number(value)
+  if (/^(true|false)$/i.test(value)) return value.toLowerCase() === 'true'
+  return value
+}
+
+export function formatPropertyValue(value: EntityPropertyValue): string {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return String(value)
+}
+
+/**
+ * Properties from untrusted input (request bodies, model output, imports)
+ * Keys are normalized; empty keys and values, and values that are not text,
+ * numbers or booleans, are dropped.
+ */
+export function sanitizeProperties(input: unknown): EntityProperties {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return {}
+
+  const properties: EntityProperties = {}
+  for (const [rawKey, rawValue] of Object.entries(input as Record<string, unknown>)) {
+    if (Object.keys(properties).length >= MAX_PROPERTIES) break
+
+    const key = normalizePropertyKey(rawKey)
+    if (!key) continue
+
+    if (typeof rawValue === 'number' && Number.isFinite(rawValue)) {
+      properties[key] = rawValue
+    } else if (typeof rawValue === 'boolean') {
+      properties[key] = rawValue
+    } else if (typeof rawValue === 'string' && rawValue.trim()) {
+      properties[key] = rawValue.trim().slice(0, MAX_PROPERTY_VALUE_LENGTH)
+    }
+  }
+  return properties
+}
+
+/**
+ * Add the properties an entity does not have yet; its own values are kept
+ */
+export function mergeProperties(base: EntityProperties, extra: EntityProperties): EntityProperties {
+  return { ...extra, ...base }
+}
+
+/**
+ * Property filters of a query string, keyed by normalized property key
+ */
+export function parsePropertyFilters(searchParams: URLSearchParams): Record<string, string> {
+  const filters: Record<string, string> = {}
+  searchParams.forEach((value, param) => {
+    if (!param.startsWith(PROPERTY_FILTER_PREFIX)) return
+    const key = normalizePropertyKey(param.slice(PROPERTY_FILTER_PREFIX.length))
+    if (key) filters[key] = value
+  })
+  return filters
+}
+
+/**
+ * Whether an entity has every filtered property with the filtered value
+ * Text compares like names do (case and accents ignored); an empty filter
+ * value only asks for the property to be set.
+ */
+export function matchesPropertyFilters(
+  properties: EntityProperties | null | undefined,
+  filters: Record<string, string>
+): boolean {
+  return Object.entries(filters).every(([key, wanted]) => {
+    const value = properties?.[key]
+    if (value === undefined) return false
+    if (!wanted.trim()) return true
+
+    const parsed = parsePropertyValue(wanted)
+    if (typeof value === 'string') return canonicalizeName(value) === canonicalizeName(wanted)
+    return value === parsed
+  })
+}
@@ -9,6 +9,7 @@ import {
   entityVersions,
   users,
 } from '@/lib/db/schema'
+import type { EntityProperties } from '@/lib/db/schema'
 import { eq } from 'drizzle-orm'
 
 export interface CampaignBackup {
@@ -40,6 +41,7 @@ export interface CampaignBackup {
     content: string | null
     aliases: string[] | null
     tags: string[] | null
+    properties?: EntityProperties // Missing in backups from before properties existed
     isDmOnly: boolean | null
     playerEmail: string | null
     createdAt: string
@@ -59,6 +61,7 @@ export interface CampaignBackup {
     name: string
     content: string
     fileType: string | null
+    isDmOnly?: boolean // Missing in older backups
     uploaderEmail: string
     createdAt: string
   }>
@@ -188,6 +191,7 @@ export async function generateBackupExport(
       content: e.content,
       aliases: e.aliases,
       tags: e.tags,
+      properties: e.properties,
       isDmOnly: e.isDmOnly,
       playerEmail: e.player?.user?.email || null,
       createdAt: e.createdAt.toISOString(),
@@ -207,6 +211,7 @@ export async function generateBackupExport(
       name: d.name,
       content: d.content,
       fileType: d.fileType,
+      isDmOnly: d.isDmOnly,
       uploaderEmail: d.uploader.email,
       createdAt: d.createdAt.toISOString(),
     })),
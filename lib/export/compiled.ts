@@ -2,6 +2,10 @@ import { db } from '@/lib/db'
 import { campaigns, entities, relationships } from '@/lib/db/schema'
 import { eq } from 'drizzle-orm'
 import AdmZip from 'adm-zip'
+import { getVisibleContent } from '@/lib/secret-blocks'
+import { canonicalizeName } from '@/lib/canonical-names'
+import { formatPropertyKey, formatPropertyValue } from '@/lib/entity-properties'
+import type { EntityProperties } from '@/lib/db/schema'
 
 interface EntityWithRelationships {
   id: string
@@ -10,6 +14,7 @@ interface EntityWithRelationships {
   entityType: string
   content: string | null
   aliases: string[] | null
+  properties: EntityProperties
   isDmOnly: boolean | null
   outgoingRelationships: Array<{
     relationshipType: string
@@ -79,11 +84,17 @@ function getEntityTypeLabel(type: string): string {
   return labels[type] || type.charAt(0).toUpperCase() + type.slice(1).replace('_', ' ')
 }
 
+// Anchors and folder names keep non-Latin scripts, like canonical names
 function slugify(text: string): string {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/(^-|-$)/g, '')
+  return canonicalizeName(text)
+}
+
+// The infobox as a bullet list
+function formatProperties(properties: EntityProperties): string {
+  const lines = Object.entries(properties).map(
+    ([key, value]) => `- **${formatPropertyKey(key)}:** ${formatPropertyValue(value)}`
+  )
+  return lines.length > 0 ? `${lines.join('\n')}\n\n` : ''
 }
 
 function resolveWikilinks(
@@ -217,8 +228,12 @@ export async function generateCompiledExport(
         markdown += `*Also known as: ${entity.aliases.join(', ')}*\n\n`
       }
 
-      if (entity.content) {
-        const resolvedContent = resolveWikilinks(entity.content, entityMap)
+      markdown += formatProperties(entity.properties || {})
+
+      // Player exports leave out the page's secret blocks
+      const content = getVisibleContent(entity.content || '', includeDmOnly)
+      if (content) {
+        const resolvedContent = resolveWikilinks(content, entityMap)
         markdown += `${resolvedContent}\n\n`
       }
 
@@ -356,8 +371,11 @@ export async function generateCompiledZip(
         entityMd += `*Also known as: ${entity.aliases.join(', ')}*\n\n`
       }
 
-      if (entity.content) {
-        const resolvedContent = resolveWikilinks(entity.content, entityMap)
+      entityMd += formatProperties(entity.properties || {})
+
+      const content = getVisibleContent(entity.content || '', includeDmOnly)
+      if (content) {
+        const resolvedContent = resolveWikilinks(content, entityMap)
         entityMd += `${resolvedContent}\n\n`
       }
 
@@ -10,7 +10,10 @@ import {
   users,
 } from '@/lib/db/schema'
 import { eq } from 'drizzle-orm'
+import { ensureDocumentVisibilityColumn } from '@/lib/db/migrations'
 import { CampaignBackup } from './backup'
+import { canonicalizeName } from '@/lib/canonical-names'
+import { sanitizeProperties } from '@/lib/entity-properties'
 
 interface ImportResult {
   campaignId: string
@@ -107,6 +110,7 @@ export async function importCampaignBackup(
   }
 
   // Import documents
+  await ensureDocumentVisibilityColumn()
   let documentsImported = 0
   const documentNameToId = new Map<string, string>()
 
@@ -120,6 +124,7 @@ export async function importCampaignBackup(
         name: doc.name,
         content: doc.content,
         fileType: doc.fileType,
+        isDmOnly: doc.isDmOnly ?? true,
         uploadedBy: uploaderId,
       })
       .returning()
@@ -130,9 +135,21 @@ export async function importCampaignBackup(
 
   // Import entities
   let entitiesImported = 0
-  const entityCanonicalToId = new Map<string, string>()
+  const entityCanonicalToId = new Map<string, string>() // Keyed by the backup's canonical names
+  const usedCanonicalNames = new Set<string>()
 
   for (const entity of backup.entities) {
+    // Backups from older versions carry ASCII-only canonical names; recompute them,
+    // keeping the old one when two names now fold to the same key
+    let canonicalName = canonicalizeName(entity.name)
+    if (usedCanonicalNames.has(canonicalName)) {
+      warnings.push(
+        `${entity.name} has the same canonical name as another entity (${canonicalName}); rename or merge them`
+      )
+      canonicalName = entity.canonicalName
+    }
+    usedCanonicalNames.add(canonicalName)
+
     // Get player ID if this is a player character
     let playerId: string | null = null
     if (entity.playerEmail) {
@@ -149,11 +166,12 @@ export async function importCampaignBackup(
       .values({
         campaignId: newCampaign.id,
         name: entity.name,
-        canonicalName: entity.canonicalName,
+        canonicalName,
         entityType: entity.entityType,
         content: entity.content || '',
         aliases: entity.aliases || [],
         tags: entity.tags || [],
+        properties: sanitizeProperties(entity.properties),
         isDmOnly: entity.isDmOnly || false,
         playerId,
       })
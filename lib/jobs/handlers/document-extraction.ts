@@ -0,0 +1,419 @@
+import { db, campaigns, entities } from '@/lib/db'
+import { eq } from 'drizzle-orm'
+import { runExtractionPipeline, ExtractionSettings, ExtractionResult, ExtractedEntity } from '@/lib/ai/extraction/pipeline'
+import { getExistingEntityNames } from '@/lib/ai/extraction/dedup'
+import { getCampaignSettings } from '@/lib/campaign-settings'
+import { getResilienceOptions, getExtractionResilienceOptions } from '@/lib/ai/resilience'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  findPreviousDocument,
+  getCurrentVersion,
+  diffParagraphs,
+  splitParagraphs,
+  findRetractions,
+  ParagraphDiff,
+} from '@/lib/ai/extraction/document-versions'
+import type {
+  StagedEntity,
+  StagedRelationship,
+  StagedUpdate,
+  StagedRetraction,
+  EntityMatch,
+  DocumentVersionDiff,
+} from '@/lib/types'
+import { canonicalizeName } from '@/lib/canonical-names'
+import { createLinkCandidateFinder } from '@/lib/ai/extraction/linking'
+import type { JobContext } from '../runner'
+import { resumableChunks, reportExtractionProgress, budgetGuard } from './extraction'
+
+export interface DocumentExtractionInput {
+  fileName: string
+  content: string // Parsed text of the upload
+  documentId: string | null // The document to make a new version of, if named explicitly
+  isDM: boolean // Whether the uploader may see DM-only documents and entities
+}
+
+/**
+ * Extract entities from an uploaded document and stage them for review
+ * The staged results are sent as job events, the same ones the extract stream always sent.
+ *
+ * Uploading a document the campaign already has (same name, or an explicit
+ * documentId) extracts only the paragraphs that changed since its last
+ * version, and stages three groups: new entities, updates to existing
+ * entities, and facts the new version no longer supports.
+ */
+export async function runDocumentExtraction(context: JobContext) {
+  const { job } = context
+  const { campaignId } = job
+  const { fileName, content, documentId: requestedDocumentId, isDM } = job.input as DocumentExtractionInput
+
+  const campaign = await db.query.campaigns.findFirst({
+    where: eq(campaigns.id, campaignId),
+  })
+  if (!campaign) {
+    throw new Error('Campaign not found')
+  }
+
+  context.emit('progress', {
+    stage: 'parsed',
+    message: `Parsed ${content.length.toLocaleString()} characters`,
+    contentLength: content.length,
+  })
+
+  // The parsed text is what gets stored, so later versions are compared against it
+  context.emit('document_content', { content })
+
+  // A re-upload becomes the next version of the document
+  const previous = await findPreviousDocument(campaignId, requestedDocumentId, fileName)
+  const canSeePrevious = !!previous && (isDM || !previous.isDmOnly)
+
+  if (requestedDocumentId && !canSeePrevious) {
+    throw new Error('Document not found')
+  }
+
+  let diff: ParagraphDiff | null = null
+  let versionInfo: DocumentVersionDiff = {
+    documentId: null,
+    version: 1,
+    addedParagraphs: splitParagraphs(content).length,
+    removedParagraphs: 0,
+    unchangedParagraphs: 0,
+  }
+
+  if (previous && canSeePrevious) {
+    diff = diffParagraphs(previous.content, content)
+    versionInfo = {
+      documentId: previous.id,
+      version: (await getCurrentVersion(previous.id)) + 1,
+      addedParagraphs: diff.added.length,
+      removedParagraphs: diff.removed.length,
+      unchangedParagraphs: diff.unchanged,
+    }
+    context.emit('progress', {
+      stage: 'versions',
+      message: `Version ${versionInfo.version} of ${previous.name}: ${diff.added.length} new or changed paragraphs, ${diff.removed.length} removed, ${diff.unchanged} unchanged`,
+    })
+  }
+
+  context.emit('version', versionInfo)
+
+  // Get language from campaign settings
+  const language = (campaign as any).language || 'en'
+
+  // Get existing entity names for deduplication
+  context.emit('progress', { stage: 'loading', message: 'Loading existing entities...' })
+  const existingNames = await getExistingEntityNames(campaignId)
+  context.emit('progress', {
+    stage: 'loaded',
+    message: `Found ${existingNames.length} existing entities`,
+    existingCount: existingNames.length,
+  })
+
+  // Get campaign settings for extraction
+  const campaignSettings = getCampaignSettings((campaign as any).settings)
+  const chunkSize = campaignSettings.extraction.chunkSize
+
+  const extractionSettings: ExtractionSettings = {
+    chunkSize,
+    aggressiveness: campaignSettings.extraction.aggressiveness,
+    confidenceThreshold: campaignSettings.extraction.confidenceThreshold,
+    enableRelationships: campaignSettings.extraction.enableRelationships,
+    extractionModel: campaignSettings.model.extractionModel,
+    customPrompts: {
+      extractionConservativePrompt: campaignSettings.prompts.extractionConservativePrompt,
+      extractionBalancedPrompt: campaignSettings.prompts.extractionBalancedPrompt,
+      extractionObsessivePrompt: campaignSettings.prompts.extractionObsessivePrompt,
+    },
+    usage: { campaignId, userId: job.createdBy, purpose: 'extraction' },
+    resilience: { ...getExtractionResilienceOptions((campaign as any).settings), signal: context.signal },
+    // Offer each chunk the existing entities it likely mentions, so the model can link to them
+    findLinkCandidates: await createLinkCandidateFinder(campaignId, {
+      includeDmOnly: isDM,
+      userId: job.createdBy,
+      resilience: getResilienceOptions((campaign as any).settings),
+    }),
+  }
+
+  context.emit('progress', {
+    stage: 'starting',
+    message: `Starting AI extraction (${extractionSettings.aggressiveness} mode, ${campaignSettings.model.extractionModel})...`,
+    mode: extractionSettings.aggressiveness,
+  })
+
+  // Run extraction pipeline with progress callback; chunks finished by an earlier attempt are skipped
+  // A re-upload only sends its new or changed paragraphs; an unchanged one has nothing to extract
+  const extractContent = diff ? diff.added.join('\n\n') : content
+  const extraction: ExtractionResult = !extractContent
+    ? { entities: [], relationships: [], documentSummary: '', chunkFailures: [] }
+    : await runExtractionPipeline(
+        extractContent,
+        fileName,
+        existingNames,
+        language,
+        reportExtractionProgress(context),
+        {
+          ...extractionSettings,
+          ...resumableChunks(context, chunkSize),
+          ...budgetGuard(context, campaign.settings),
+          maxChunks: Infinity, // Not bound by a request timeout; budgetGuard stops it once the budget is spent
+          parallelBatchSize: 4,
+          keepExistingEntities: !!diff, // Entities already in the wiki become updates
+        }
+      )
+
+  // Chunks of a cancelled job fail rather than throw; don't stage their partial results
+  context.signal.throwIfAborted()
+
+  context.emit('progress', {
+    stage: 'processing',
+    message: `Processing ${extraction.entities.length} entities...`,
+    entityCount: extraction.entities.length,
+  })
+
+  // Get all existing entities in one query, to match against
+  const existingEntities = await db.query.entities.findMany({
+    where: eq(entities.campaignId, campaignId),
+    columns: {
+      id: true,
+      name: true,
+      entityType: true,
+      aliases: true,
+      canonicalName: true,
+      isDmOnly: true,
+      properties: true,
+    },
+  })
+
+  // Build lookup maps for fast matching
+  const canonicalMap = new Map<string, (typeof existingEntities)[0]>()
+  const idMap = new Map<string, (typeof existingEntities)[0]>()
+  for (const entity of existingEntities) {
+    canonicalMap.set(entity.canonicalName.toLowerCase(), entity)
+    idMap.set(entity.id, entity)
+  }
+
+  const findExistingMatch = (canonicalName: string, aliases: string[], linkedEntityId?: string) => {
+    const exactMatch = canonicalMap.get(canonicalName.toLowerCase())
+    if (exactMatch) return { entity: exactMatch, matchType: 'exact' as const }
+
+    for (const alias of aliases) {
+      const aliasMatch = canonicalMap.get(canonicalizeName(alias))
+      if (aliasMatch) return { entity: aliasMatch, matchType: 'alias' as const }
+    }
+
+    // The extractor recognised an existing entity under another name
+    const linkedMatch = linkedEntityId ? idMap.get(linkedEntityId) : undefined
+    if (linkedMatch) return { entity: linkedMatch, matchType: 'linked' as const }
+    return null
+  }
+
+  // In a new version, entities the wiki already has are updates to them
+  const stagedUpdates: StagedUpdate[] = []
+  const newEntities: ExtractedEntity[] = []
+  for (const entity of extraction.entities) {
+    const match = diff ? findExistingMatch(entity.canonicalName, entity.aliases, entity.linkedEntityId) : null
+    if (!match || (match.entity.isDmOnly && !isDM)) {
+      newEntities.push(entity)
+      continue
+    }
+
+    const knownNames = new Set([match.entity.name, ...(match.entity.aliases || [])].map(canonicalizeName))
+    stagedUpdates.push({
+      tempId: uuidv4(),
+      entityId: match.entity.id,
+      entityName: match.entity.name,
+      entityType: match.entity.entityType,
+      addition: `## From ${fileName} (version ${versionInfo.version})\n\n${entity.description}`,
+      aliases: [entity.name, ...entity.aliases].filter((alias) => !knownNames.has(canonicalizeName(alias))),
+      properties: Object.fromEntries(
+        Object.entries(entity.properties).filter(([key]) => !(key in (match.entity.properties || {})))
+      ),
+      excerpt: entity.description.slice(0, 300),
+      status: 'pending' as const,
+    })
+  }
+
+  // Convert extracted entities to staged entities with tempIds
+  const stagedEntities: StagedEntity[] = newEntities.map((entity) => ({
+    tempId: uuidv4(),
+    name: entity.name,
+    canonicalName: entity.canonicalName,
+    entityType: entity.type,
+    content: entity.content,
+    aliases: entity.aliases,
+    tags: entity.tags,
+    properties: entity.properties,
+    confidence: 0.8,
+    excerpt: entity.content.slice(0, 300),
+    status: 'pending' as const,
+  }))
+
+  // Send entity discovery events (batch to reduce overhead)
+  context.emit('progress', {
+    stage: 'entities',
+    message: diff
+      ? `Found ${stagedEntities.length} new entities and ${stagedUpdates.length} updates to existing ones`
+      : `Found ${stagedEntities.length} entities`,
+    entityCount: stagedEntities.length,
+  })
+
+  // Create tempId lookup for relationships
+  const nameToTempId = new Map<string, string>()
+  stagedEntities.forEach((e) => {
+    nameToTempId.set(e.name.toLowerCase(), e.tempId)
+    e.aliases.forEach((alias) => nameToTempId.set(alias.toLowerCase(), e.tempId))
+  })
+  stagedUpdates.forEach((u) => {
+    nameToTempId.set(u.entityName.toLowerCase(), u.tempId)
+    u.aliases.forEach((alias) => nameToTempId.set(alias.toLowerCase(), u.tempId))
+  })
+
+  // Convert relationships to staged relationships
+  const stagedRelationships: StagedRelationship[] = []
+  for (const rel of extraction.relationships) {
+    const sourceTempId = nameToTempId.get(rel.sourceEntity.toLowerCase())
+    const targetTempId = nameToTempId.get(rel.targetEntity.toLowerCase())
+
+    if (!sourceTempId || !targetTempId) {
+      continue
+    }
+
+    stagedRelationships.push({
+      tempId: uuidv4(),
+      sourceEntityTempId: sourceTempId,
+      targetEntityTempId: targetTempId,
+      sourceEntityName: rel.sourceEntity,
+      targetEntityName: rel.targetEntity,
+      relationshipType: rel.relationshipType,
+      reverseLabel: rel.reverseLabel,
+      excerpt: rel.excerpt || '',
+      status: 'pending' as const,
+    })
+  }
+
+  context.emit('progress', {
+    stage: 'relationships',
+    message: `Found ${stagedRelationships.length} relationships`,
+    relationshipCount: stagedRelationships.length,
+  })
+
+  // Find existing entity matches for duplicates
+  context.emit('progress', { stage: 'duplicates', message: 'Checking for duplicates...' })
+  const existingEntityMatches: EntityMatch[] = []
+
+  // Check each staged entity against the maps
+  for (const [index, staged] of stagedEntities.entries()) {
+    const match = findExistingMatch(staged.canonicalName, staged.aliases, newEntities[index].linkedEntityId)
+    if (match) {
+      existingEntityMatches.push({
+        stagedTempId: staged.tempId,
+        existingEntity: {
+          id: match.entity.id,
+          name: match.entity.name,
+          entityType: match.entity.entityType,
+          aliases: match.entity.aliases || [],
+          canonicalName: match.entity.canonicalName,
+        },
+        matchType: match.matchType,
+        confidence: match.matchType === 'exact' ? 1.0 : 0.8,
+      })
+    }
+  }
+
+  if (existingEntityMatches.length > 0) {
+    context.emit('progress', {
+      stage: 'duplicates',
+      message: `Found ${existingEntityMatches.length} potential duplicates`,
+      duplicateCount: existingEntityMatches.length,
+    })
+  }
+
+  // Facts from removed paragraphs that nothing in the new version supports
+  let stagedRetractions: StagedRetraction[] = []
+  if (previous && diff) {
+    stagedRetractions = await findRetractions(previous.id, diff, content, isDM)
+    if (stagedRetractions.length > 0) {
+      context.emit('progress', {
+        stage: 'retractions',
+        message: `Found ${stagedRetractions.length} facts no longer supported by the document`,
+        retractionCount: stagedRetractions.length,
+      })
+    }
+  }
+
+  // Send entities in batches to avoid SSE message size issues
+  const BATCH_SIZE = 20
+  const documentId = versionInfo.documentId ?? uuidv4()
+
+  // First, send metadata
+  context.emit('result_meta', {
+    success: true,
+    documentId,
+    fileName,
+    version: versionInfo.version,
+    totalEntities: stagedEntities.length,
+    totalUpdates: stagedUpdates.length,
+    totalRetractions: stagedRetractions.length,
+    totalRelationships: stagedRelationships.length,
+    totalMatches: existingEntityMatches.length,
+  })
+
+  // Send entities in batches
+  for (let i = 0; i < stagedEntities.length; i += BATCH_SIZE) {
+    const batch = stagedEntities.slice(i, i + BATCH_SIZE)
+    context.emit('entities_batch', {
+      entities: batch,
+      batchIndex: Math.floor(i / BATCH_SIZE),
+      totalBatches: Math.ceil(stagedEntities.length / BATCH_SIZE),
+    })
+  }
+
+  // Send updates in batches
+  for (let i = 0; i < stagedUpdates.length; i += BATCH_SIZE) {
+    const batch = stagedUpdates.slice(i, i + BATCH_SIZE)
+    context.emit('updates_batch', {
+      updates: batch,
+      batchIndex: Math.floor(i / BATCH_SIZE),
+      totalBatches: Math.ceil(stagedUpdates.length / BATCH_SIZE),
+    })
+  }
+
+  // Send relationships in batches
+  for (let i = 0; i < stagedRelationships.length; i += BATCH_SIZE) {
+    const batch = stagedRelationships.slice(i, i + BATCH_SIZE)
+    context.emit('relationships_batch', {
+      relationships: batch,
+      batchIndex: Math.floor(i / BATCH_SIZE),
+      totalBatches: Math.ceil(stagedRelationships.length / BATCH_SIZE),
+    })
+  }
+
+  // Send matches
+  if (existingEntityMatches.length > 0) {
+    context.emit('matches', { matches: existingEntityMatches })
+  }
+
+  if (stagedRetractions.length > 0) {
+    context.emit('retractions', { retractions: stagedRetractions })
+  }
+
+  // Final complete signal
+  context.emit('complete', {
+    success: true,
+    documentId,
+    version: versionInfo.version,
+    entityCount: stagedEntities.length,
+    updateCount: stagedUpdates.length,
+    retractionCount: stagedRetractions.length,
+    relationshipCount: stagedRelationships.length,
+    matchCount: existingEntityMatches.length,
+  })
+
+  return {
+    documentId,
+    version: versionInfo.version,
+    entityCount: stagedEntities.length,
+    updateCount: stagedUpdates.length,
+    relationshipCount: stagedRelationships.length,
+  }
+}
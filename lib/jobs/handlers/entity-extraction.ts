@@ -0,0 +1,288 @@
+import { db, campaigns, entities } from '@/lib/db'
+import { eq, and } from 'drizzle-orm'
+import { runExtractionPipeline, ExtractionSettings } from '@/lib/ai/extraction/pipeline'
+import { getExistingEntityNames } from '@/lib/ai/extraction/dedup'
+import { getCampaignSettings } from '@/lib/campaign-settings'
+import { getResilienceOptions, getExtractionResilienceOptions } from '@/lib/ai/resilience'
+import { v4 as uuidv4 } from 'uuid'
+import type { StagedEntity, StagedRelationship, EntityMatch, ExtractPreviewResponse } from '@/lib/types'
+import { canonicalizeName } from '@/lib/canonical-names'
+import { createLinkCandidateFinder } from '@/lib/ai/extraction/linking'
+import type { JobContext } from '../runner'
+import { resumableChunks, reportExtractionProgress, budgetGuard } from './extraction'
+
+export interface EntityExtractionInput {
+  entityId: string
+  isDM: boolean // Whether DM-only entities may be offered for linking
+}
+
+/**
+ * Extract entities from an entity's content (e.g. a session) and stage them for review
+ */
+export async function runEntityExtraction(context: JobContext) {
+  const { job } = context
+  const { campaignId } = job
+  const { entityId, isDM } = job.input as EntityExtractionInput
+
+  const campaign = await db.query.campaigns.findFirst({
+    where: eq(campaigns.id, campaignId),
+  })
+
+  const entity = await db.query.entities.findFirst({
+    where: and(eq(entities.campaignId, campaignId), eq(entities.id, entityId)),
+  })
+
+  if (!campaign || !entity) {
+    throw new Error('Entity not found')
+  }
+
+  context.emit('progress', { stage: 'starting', message: `Analyzing: ${entity.name}...` })
+
+  const content = (entity.content || '').trim()
+
+  context.emit('progress', {
+    stage: 'parsed',
+    message: `Content: ${content.length.toLocaleString()} characters`,
+    contentLength: content.length,
+  })
+
+  // Get language from campaign settings
+  const language = (campaign as any).language || 'pt-BR'
+
+  // Get existing entity names for deduplication (exclude the source entity)
+  context.emit('progress', { stage: 'loading', message: 'Loading existing entities...' })
+  const existingNames = await getExistingEntityNames(campaignId)
+  // Add the source entity name to avoid extracting it
+  existingNames.push(entity.name)
+  if (entity.aliases) {
+    existingNames.push(...entity.aliases)
+  }
+
+  context.emit('progress', {
+    stage: 'loaded',
+    message: `Found ${existingNames.length} existing entities`,
+    existingCount: existingNames.length,
+  })
+
+  // Get campaign settings for extraction
+  const campaignSettings = getCampaignSettings((campaign as any).settings)
+  const extractionSettings: ExtractionSettings = {
+    chunkSize: campaignSettings.extraction.chunkSize,
+    aggressiveness: campaignSettings.extraction.aggressiveness,
+    confidenceThreshold: campaignSettings.extraction.confidenceThreshold,
+    enableRelationships: campaignSettings.extraction.enableRelationships,
+    customPrompts: {
+      extractionConservativePrompt: campaignSettings.prompts.extractionConservativePrompt,
+      extractionBalancedPrompt: campaignSettings.prompts.extractionBalancedPrompt,
+      extractionObsessivePrompt: campaignSettings.prompts.extractionObsessivePrompt,
+    },
+    usage: { campaignId, userId: job.createdBy, purpose: 'extraction' },
+    resilience: { ...getExtractionResilienceOptions((campaign as any).settings), signal: context.signal },
+    // Offer each chunk the existing entities it likely mentions, so the model can link to them
+    findLinkCandidates: await createLinkCandidateFinder(campaignId, {
+      includeDmOnly: isDM,
+      userId: job.createdBy,
+      resilience: getResilienceOptions((campaign as any).settings),
+    }),
+  }
+
+  context.emit('progress', {
+    stage: 'starting',
+    message: `Starting AI extraction (${extractionSettings.aggressiveness} mode)...`,
+    mode: extractionSettings.aggressiveness,
+  })
+
+  // Run extraction pipeline with progress callback; chunks finished by an earlier attempt are skipped
+  const extraction = await runExtractionPipeline(
+    content,
+    entity.name,
+    existingNames,
+    language,
+    reportExtractionProgress(context),
+    {
+      ...extractionSettings,
+      ...resumableChunks(context, campaignSettings.extraction.chunkSize),
+      ...budgetGuard(context, campaign.settings),
+      maxChunks: Infinity, // Not bound by a request timeout; budgetGuard stops it once the budget is spent
+      parallelBatchSize: 1, // Sequential for stability
+    }
+  )
+
+  // Chunks of a cancelled job fail rather than throw; don't stage their partial results
+  context.signal.throwIfAborted()
+
+  context.emit('progress', {
+    stage: 'processing',
+    message: `Processing ${extraction.entities.length} entities...`,
+    entityCount: extraction.entities.length,
+  })
+
+  // Convert extracted entities to staged entities with tempIds
+  const stagedEntities: StagedEntity[] = extraction.entities.map((e) => ({
+    tempId: uuidv4(),
+    name: e.name,
+    canonicalName: e.canonicalName,
+    entityType: e.type,
+    content: e.content,
+    aliases: e.aliases,
+    tags: e.tags,
+    properties: e.properties,
+    confidence: 0.8,
+    excerpt: e.content.slice(0, 300),
+    status: 'pending' as const,
+  }))
+
+  // Send entity discovery events (batch to reduce overhead)
+  context.emit('progress', {
+    stage: 'entities',
+    message: `Found ${stagedEntities.length} entities`,
+    entityCount: stagedEntities.length,
+  })
+
+  // Create tempId lookup for relationships
+  const nameToTempId = new Map<string, string>()
+  stagedEntities.forEach((e) => {
+    nameToTempId.set(e.name.toLowerCase(), e.tempId)
+    e.aliases.forEach((alias) => nameToTempId.set(alias.toLowerCase(), e.tempId))
+  })
+
+  // Convert relationships to staged relationships
+  const stagedRelationships: StagedRelationship[] = []
+  for (const rel of extraction.relationships) {
+    const sourceTempId = nameToTempId.get(rel.sourceEntity.toLowerCase())
+    const targetTempId = nameToTempId.get(rel.targetEntity.toLowerCase())
+
+    if (!sourceTempId || !targetTempId) {
+      continue
+    }
+
+    stagedRelationships.push({
+      tempId: uuidv4(),
+      sourceEntityTempId: sourceTempId,
+      targetEntityTempId: targetTempId,
+      sourceEntityName: rel.sourceEntity,
+      targetEntityName: rel.targetEntity,
+      relationshipType: rel.relationshipType,
+      reverseLabel: rel.reverseLabel,
+      excerpt: rel.excerpt || '',
+      status: 'pending' as const,
+    })
+  }
+
+  context.emit('progress', {
+    stage: 'relationships',
+    message: `Found ${stagedRelationships.length} relationships`,
+    relationshipCount: stagedRelationships.length,
+  })
+
+  // Find existing entity matches for duplicates - batch query for efficiency
+  context.emit('progress', { stage: 'duplicates', message: 'Checking for duplicates...' })
+  const existingEntityMatches: EntityMatch[] = []
+
+  // Get all existing entities in one query
+  const existingEntities = await db.query.entities.findMany({
+    where: eq(entities.campaignId, campaignId),
+    columns: {
+      id: true,
+      name: true,
+      entityType: true,
+      aliases: true,
+      canonicalName: true,
+    },
+  })
+
+  // Build lookup map for fast matching
+  const canonicalMap = new Map<string, (typeof existingEntities)[0]>()
+  for (const ent of existingEntities) {
+    canonicalMap.set(ent.canonicalName.toLowerCase(), ent)
+  }
+
+  // Check each staged entity against the map
+  for (const [index, staged] of stagedEntities.entries()) {
+    const exactMatch = canonicalMap.get(staged.canonicalName.toLowerCase())
+    if (exactMatch) {
+      existingEntityMatches.push({
+        stagedTempId: staged.tempId,
+        existingEntity: {
+          id: exactMatch.id,
+          name: exactMatch.name,
+          entityType: exactMatch.entityType,
+          aliases: exactMatch.aliases || [],
+          canonicalName: exactMatch.canonicalName,
+        },
+        matchType: 'exact',
+        confidence: 1.0,
+      })
+      continue
+    }
+
+    // Check aliases
+    for (const alias of staged.aliases) {
+      const aliasCanonical = canonicalizeName(alias)
+
+      const aliasMatch = canonicalMap.get(aliasCanonical)
+      if (aliasMatch) {
+        existingEntityMatches.push({
+          stagedTempId: staged.tempId,
+          existingEntity: {
+            id: aliasMatch.id,
+            name: aliasMatch.name,
+            entityType: aliasMatch.entityType,
+            aliases: aliasMatch.aliases || [],
+            canonicalName: aliasMatch.canonicalName,
+          },
+          matchType: 'alias',
+          confidence: 0.8,
+        })
+        break
+      }
+    }
+    if (existingEntityMatches.some((m) => m.stagedTempId === staged.tempId)) continue
+
+    // The extractor recognised an existing entity under another name (never the source entity itself)
+    const linkedEntityId = extraction.entities[index].linkedEntityId
+    const linkedMatch = existingEntities.find((ent) => ent.id === linkedEntityId && ent.id !== entity.id)
+    if (linkedMatch) {
+      existingEntityMatches.push({
+        stagedTempId: staged.tempId,
+        existingEntity: {
+          id: linkedMatch.id,
+          name: linkedMatch.name,
+          entityType: linkedMatch.entityType,
+          aliases: linkedMatch.aliases || [],
+          canonicalName: linkedMatch.canonicalName,
+        },
+        matchType: 'linked',
+        confidence: 0.8,
+      })
+    }
+  }
+
+  if (existingEntityMatches.length > 0) {
+    context.emit('progress', {
+      stage: 'duplicates',
+      message: `Found ${existingEntityMatches.length} potential duplicates`,
+      duplicateCount: existingEntityMatches.length,
+    })
+  }
+
+  // Send final result with entity metadata
+  const response: ExtractPreviewResponse & { sourceEntityId: string; sourceEntityName: string } = {
+    success: true,
+    documentId: uuidv4(), // Will be created when committed
+    fileName: `Entity: ${entity.name}`,
+    sourceEntityId: entity.id,
+    sourceEntityName: entity.name,
+    extractedEntities: stagedEntities,
+    extractedRelationships: stagedRelationships,
+    existingEntityMatches,
+  }
+
+  context.emit('complete', response)
+
+  return {
+    sourceEntityId: entity.id,
+    entityCount: stagedEntities.length,
+    relationshipCount: stagedRelationships.length,
+  }
+}
@@ -0,0 +1,69 @@
+import { db, campaigns } from '@/lib/db'
+import { eq } from 'drizzle-orm'
+import { generateBackupExport } from '@/lib/export/backup'
+import { generateCompiledExport, generateCompiledZip } from '@/lib/export/compiled'
+import { saveJobArtifact } from '../queue'
+import type { JobContext } from '../runner'
+
+export interface ExportInput {
+  exportType: 'backup' | 'compiled'
+  format: 'json' | 'markdown' | 'zip' // Only compiled exports have a choice
+  includeDmOnly: boolean
+  exporterEmail: string
+}
+
+/**
+ * Build a campaign export and keep it as the job's artifact, to download from the jobs panel
+ */
+export async function runExport(context: JobContext) {
+  const { job } = context
+  const { exportType, format, includeDmOnly, exporterEmail } = job.input as ExportInput
+
+  const campaign = await db.query.campaigns.findFirst({
+    where: eq(campaigns.id, job.campaignId),
+    columns: { name: true },
+  })
+  if (!campaign) {
+    throw new Error('Campaign not found')
+  }
+
+  const safeName = campaign.name.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase()
+  await context.setProgress({ current: 0, total: 1, message: 'Generating export...' })
+
+  let artifact: { filename: string; contentType: string; content: string; encoding: 'utf8' | 'base64' }
+
+  if (exportType === 'backup') {
+    // Full JSON backup
+    const backup = await generateBackupExport(job.campaignId, exporterEmail)
+    artifact = {
+      filename: `${safeName}-backup.json`,
+      contentType: 'application/json',
+      content: JSON.stringify(backup, null, 2),
+      encoding: 'utf8',
+    }
+  } else if (format === 'zip') {
+    // ZIP with individual markdown files
+    const { buffer, filename } = await generateCompiledZip(job.campaignId, includeDmOnly)
+    artifact = { filename, contentType: 'application/zip', content: buffer.toString('base64'), encoding: 'base64' }
+  } else {
+    // Single markdown file
+    const { markdown } = await generateCompiledExport(job.campaignId, includeDmOnly)
+    artifact = {
+      filename: `${safeName}.md`,
+      contentType: 'text/markdown; charset=utf-8',
+      content: markdown,
+      encoding: 'utf8',
+    }
+  }
+
+  context.signal.throwIfAborted()
+  await saveJobArtifact(job.id, artifact)
+  await context.setProgress({ current: 1, total: 1, message: `Ready: ${artifact.filename}` })
+  await context.log(`Export ready: ${artifact.filename}`)
+
+  return {
+    filename: artifact.filename,
+    contentType: artifact.contentType,
+    size: artifact.encoding === 'base64' ? Buffer.from(artifact.content, 'base64').length : Buffer.byteLength(artifact.content),
+  }
+}
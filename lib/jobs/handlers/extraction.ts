@@ -0,0 +1,82 @@
+import type { ChunkExtraction, ExtractionProgress, ExtractionSettings } from '@/lib/ai/extraction/pipeline'
+import type { CampaignSettings } from '@/lib/db'
+import { checkUsageBudget } from '@/lib/ai/usage'
+import type { JobContext } from '../runner'
+
+/**
+ * Shared plumbing for extraction jobs
+ */
+
+interface ExtractionCheckpoint {
+  chunkSize: number
+  chunks: Record<number, ChunkExtraction>
+}
+
+/**
+ * Pipeline settings that skip the chunks an earlier attempt finished and checkpoint each new one
+ * The checkpoint only applies while the chunk size is the same, or chunk indexes would not line up.
+ */
+export function resumableChunks(
+  context: JobContext,
+  chunkSize: number
+): Pick<ExtractionSettings, 'completedChunks' | 'onChunkExtracted'> {
+  const saved = context.job.checkpoint as ExtractionCheckpoint | null
+  const chunks: Record<number, ChunkExtraction> = saved?.chunkSize === chunkSize ? { ...saved.chunks } : {}
+
+  const resumed = Object.keys(chunks).length
+  if (resumed > 0) {
+    void context.log(`Resuming: ${resumed} chunks were already extracted`)
+  }
+
+  return {
+    completedChunks: chunks,
+    onChunkExtracted: (chunkIndex, extraction) => {
+      chunks[chunkIndex] = extraction
+      void context.checkpoint({ chunkSize, chunks })
+    },
+  }
+}
+
+/**
+ * Pipeline settings that fail the job once the campaign's usage budget is spent
+ * The route checked the budget when the job was queued; a large upload, a retry or
+ * a resumed job can still spend past it, so it is checked again before each batch.
+ */
+export function budgetGuard(
+  context: JobContext,
+  settings: CampaignSettings | null
+): Pick<ExtractionSettings, 'beforeBatch'> {
+  return {
+    beforeBatch: async () => {
+      const budget = await checkUsageBudget(context.job.campaignId, settings)
+      if (budget.exceeded) {
+        throw new Error(budget.message)
+      }
+    },
+  }
+}
+
+/**
+ * Forward pipeline progress as the events the extraction streams always sent
+ */
+export function reportExtractionProgress(context: JobContext): (progress: ExtractionProgress) => void {
+  return (progress) => {
+    // Surface why a chunk produced nothing in the progress log
+    if (progress.chunkFailure) {
+      void context.emit('progress', {
+        stage: 'chunk_failed',
+        message: progress.message,
+        chunkIndex: progress.chunkFailure.chunkIndex,
+        reason: progress.chunkFailure.reason,
+      })
+      return
+    }
+    void context.setProgress({ current: progress.current, total: progress.total, message: progress.message })
+    void context.emit('extraction', {
+      stage: progress.stage,
+      current: progress.current,
+      total: progress.total,
+      message: progress.message,
+    })
+  }
+}
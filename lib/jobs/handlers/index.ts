@@ -0,0 +1,21 @@
+import type { JobType } from '@/lib/db'
+import type { JobHandler } from '../runner'
+import { runDocumentExtraction } from './document-extraction'
+import { runEntityExtraction } from './entity-extraction'
+import { runReindex } from './reindex'
+import { runExport } from './export'
+
+export type { DocumentExtractionInput } from './document-extraction'
+export type { EntityExtractionInput } from './entity-extraction'
+export type { ReindexInput } from './reindex'
+export type { ExportInput } from './export'
+
+/**
+ * What runs each job type
+ */
+export const jobHandlers: Record<JobType, JobHandler> = {
+  'document-extraction': runDocumentExtraction,
+  'entity-extraction': runEntityExtraction,
+  reindex: runReindex,
+  export: runExport,
+}
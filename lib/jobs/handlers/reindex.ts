@@ -0,0 +1,54 @@
+import { db, embeddingVersions } from '@/lib/db'
+import { eq } from 'drizzle-orm'
+import { runEmbeddingBuild, reviveEmbeddingBuild } from '@/lib/ai/embedding-builds'
+import type { JobContext } from '../runner'
+
+export interface ReindexInput {
+  versionId: string // The embedding build to run
+}
+
+/**
+ * Run an embedding build; it saves its own cursor, so a resumed job continues where it stopped
+ */
+export async function runReindex(context: JobContext) {
+  const { versionId } = context.job.input as ReindexInput
+
+  // A retried job picks its failed build up again, unless a newer build replaced it
+  await reviveEmbeddingBuild(versionId)
+
+  const build = await db.query.embeddingVersions.findFirst({
+    where: eq(embeddingVersions.id, versionId),
+  })
+  if (!build) {
+    throw new Error('Embedding build not found')
+  }
+  if (build.status !== 'building') {
+    throw new Error(`Embedding version ${build.version} is ${build.status} and cannot be built`)
+  }
+
+  await context.log(
+    build.processedItems > 0
+      ? `Resuming version ${build.version} at ${build.processedItems}/${build.totalItems} items`
+      : `Embedding ${build.totalItems} entities and documents as version ${build.version}`
+  )
+
+  await runEmbeddingBuild(versionId, {
+    signal: context.signal,
+    onProgress: (progress) => context.setProgress({
+      current: progress.processedItems,
+      total: progress.totalItems,
+      message: `Embedding ${progress.phase}: ${progress.processedItems}/${progress.totalItems}`,
+    }),
+  })
+
+  const finished = await db.query.embeddingVersions.findFirst({
+    where: eq(embeddingVersions.id, versionId),
+  })
+
+  return {
+    version: build.version,
+    status: finished?.status ?? 'unknown',
+    processedItems: finished?.processedItems ?? 0,
+    failedItems: finished?.failedItems ?? 0,
+  }
+}
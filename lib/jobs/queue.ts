@@ -0,0 +1,303 @@
+import { randomUUID } from 'crypto'
+import { db, jobs, jobEvents, jobArtifacts, Job, JobEvent, JobType, JobStatus, JobArtifact } from '@/lib/db'
+import { eq, and, or, gt, lt, asc, desc, inArray, isNull, sql } from 'drizzle-orm'
+import { ensureJobsTables } from '@/lib/db/migrations'
+import type { JobProgress, JobSummary, JobLogEntry } from '@/lib/types'
+
+/**
+ * Background job queue
+ *
+ * Jobs are rows in Postgres. A runner claims a job by moving it to running,
+ * refreshes its heartbeat while it works and saves a checkpoint after each
+ * unit of work, so a job whose runner died (closed tab, serverless timeout,
+ * restart) is picked up again from its checkpoint. Each claim gets its own id,
+ * and a runner's writes only apply while its claim holds: one that stalls and
+ * is taken over cannot keep writing next to its successor. Everything a job reports
+ * goes to job_events, which SSE routes replay and follow.
+ */
+
+// A running job whose heartbeat is older than this is considered dead
+export const STALE_JOB_MS = 60 * 1000
+
+export const FINAL_JOB_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled']
+
+export interface EnqueueJobOptions {
+  title: string
+  input?: Record<string, any>
+  createdBy?: string
+  maxAttempts?: number
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob(campaignId: string, type: JobType, options: EnqueueJobOptions): Promise<Job> {
+  await ensureJobsTables()
+
+  const [job] = await db
+    .insert(jobs)
+    .values({
+      campaignId,
+      type,
+      title: options.title,
+      input: options.input ?? {},
+      createdBy: options.createdBy ?? null,
+      ...(options.maxAttempts ? { maxAttempts: options.maxAttempts } : {}),
+    })
+    .returning()
+
+  console.log('[Jobs] Queued', type, 'job', job.id, 'for campaign', campaignId)
+  return job
+}
+
+/**
+ * A job, only if it belongs to the campaign
+ */
+export async function getJob(campaignId: string, jobId: string): Promise<Job | null> {
+  await ensureJobsTables()
+
+  const job = await db.query.jobs.findFirst({
+    where: and(eq(jobs.id, jobId), eq(jobs.campaignId, campaignId)),
+  })
+
+  return job ?? null
+}
+
+/**
+ * DMs see every job of the campaign, players only their own
+ */
+export function canAccessJob(job: Job, userId: string, isDM: boolean): boolean {
+  return isDM || job.createdBy === userId
+}
+
+/**
+ * Recent jobs of a campaign, newest first; only the user's own unless userId is omitted
+ */
+export async function listJobs(campaignId: string, userId?: string, limit: number = 20): Promise<Job[]> {
+  await ensureJobsTables()
+
+  return db.query.jobs.findMany({
+    where: and(eq(jobs.campaignId, campaignId), userId ? eq(jobs.createdBy, userId) : undefined),
+    orderBy: [desc(jobs.createdAt)],
+    limit,
+  })
+}
+
+/**
+ * Queued and running jobs of a type
+ */
+export async function listActiveJobs(campaignId: string, type: JobType): Promise<Job[]> {
+  await ensureJobsTables()
+
+  return db.query.jobs.findMany({
+    where: and(eq(jobs.campaignId, campaignId), eq(jobs.type, type), inArray(jobs.status, ['queued', 'running'])),
+  })
+}
+
+/**
+ * Jobs nobody is working on: queued, or running with a stale heartbeat
+ */
+export async function findStaleJobs(campaignId: string): Promise<Job[]> {
+  await ensureJobsTables()
+
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS)
+  return db.query.jobs.findMany({
+    where: and(
+      eq(jobs.campaignId, campaignId),
+      or(
+        and(eq(jobs.status, 'queued'), lt(jobs.createdAt, staleBefore), or(isNull(jobs.heartbeatAt), lt(jobs.heartbeatAt, staleBefore))),
+        and(eq(jobs.status, 'running'), lt(jobs.heartbeatAt, staleBefore))
+      )
+    ),
+  })
+}
+
+/**
+ * Take a job for running; null if another runner has it or it is finished
+ * A running job can only be taken over once its heartbeat is stale. The
+ * returned job's claimId identifies this claim in the runner's later writes.
+ */
+export async function claimJob(jobId: string): Promise<Job | null> {
+  await ensureJobsTables()
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS)
+
+  const [job] = await db
+    .update(jobs)
+    .set({
+      status: 'running',
+      claimId: randomUUID(),
+      attempts: sql`${jobs.attempts} + 1`,
+      startedAt: sql`COALESCE(${jobs.startedAt}, NOW())`,
+      heartbeatAt: new Date(),
+    })
+    .where(and(
+      eq(jobs.id, jobId),
+      or(eq(jobs.status, 'queued'), and(eq(jobs.status, 'running'), lt(jobs.heartbeatAt, staleBefore)))
+    ))
+    .returning()
+
+  return job ?? null
+}
+
+// The job is still running under this claim
+function isHeldBy(claimId: string) {
+  return and(eq(jobs.status, 'running'), eq(jobs.claimId, claimId))
+}
+
+/**
+ * Refresh the heartbeat of a job this claim holds
+ * When the claim is lost, status says why: cancelled, finished, or running under another claim.
+ */
+export async function heartbeatJob(jobId: string, claimId: string): Promise<{ held: boolean; status: JobStatus | null }> {
+  const [running] = await db
+    .update(jobs)
+    .set({ heartbeatAt: new Date() })
+    .where(and(eq(jobs.id, jobId), isHeldBy(claimId)))
+    .returning({ status: jobs.status })
+  if (running) return { held: true, status: running.status }
+
+  const job = await db.query.jobs.findFirst({ where: eq(jobs.id, jobId), columns: { status: true } })
+  return { held: false, status: job?.status ?? null }
+}
+
+export async function setJobProgress(jobId: string, claimId: string, progress: JobProgress): Promise<void> {
+  await db
+    .update(jobs)
+    .set({ progress, heartbeatAt: new Date() })
+    .where(and(eq(jobs.id, jobId), isHeldBy(claimId)))
+}
+
+export async function saveJobCheckpoint(jobId: string, claimId: string, checkpoint: Record<string, any>): Promise<void> {
+  await db
+    .update(jobs)
+    .set({ checkpoint, heartbeatAt: new Date() })
+    .where(and(eq(jobs.id, jobId), isHeldBy(claimId)))
+}
+
+export async function appendJobEvent(jobId: string, event: string, data: Record<string, any>): Promise<void> {
+  await db.insert(jobEvents).values({ jobId, event, data })
+}
+
+/**
+ * A job's events after the given one, oldest first
+ */
+export async function getJobEvents(jobId: string, afterId: number = 0): Promise<JobEvent[]> {
+  return db.query.jobEvents.findMany({
+    where: and(eq(jobEvents.jobId, jobId), gt(jobEvents.id, afterId)),
+    orderBy: [asc(jobEvents.id)],
+  })
+}
+
+/**
+ * The messages a job logged, for the jobs panel
+ */
+export async function getJobLog(jobId: string, limit: number = 50): Promise<JobLogEntry[]> {
+  const rows = await db.query.jobEvents.findMany({
+    where: and(eq(jobEvents.jobId, jobId), inArray(jobEvents.event, ['progress', 'log'])),
+    orderBy: [desc(jobEvents.id)],
+    limit,
+  })
+
+  return rows.reverse().map((row) => ({
+    id: row.id,
+    event: row.event,
+    message: String(row.data.message ?? ''),
+    createdAt: row.createdAt.toISOString(),
+  }))
+}
+
+/**
+ * Mark a job completed; false if this claim no longer holds it
+ */
+export async function completeJob(jobId: string, claimId: string, result: Record<string, any> | null): Promise<boolean> {
+  const [updated] = await db
+    .update(jobs)
+    .set({ status: 'completed', result, error: null, checkpoint: null, completedAt: new Date() })
+    .where(and(eq(jobs.id, jobId), isHeldBy(claimId)))
+    .returning({ id: jobs.id })
+
+  return !!updated
+}
+
+/**
+ * Record a failed attempt: back to the queue while attempts remain, failed otherwise
+ * Only applies while the job's claim (job.claimId) still holds it.
+ */
+export async function failJobAttempt(job: Job, error: string): Promise<JobStatus | null> {
+  if (!job.claimId) return null
+
+  const outOfAttempts = job.attempts >= job.maxAttempts
+  const [updated] = await db
+    .update(jobs)
+    .set(outOfAttempts
+      ? { status: 'failed', error, completedAt: new Date() }
+      : { status: 'queued', error })
+    .where(and(eq(jobs.id, job.id), isHeldBy(job.claimId)))
+    .returning({ status: jobs.status })
+
+  return updated?.status ?? null
+}
+
+/**
+ * Stop a queued or running job; its runner notices on its next heartbeat
+ */
+export async function cancelJob(jobId: string): Promise<Job | null> {
+  const [job] = await db
+    .update(jobs)
+    .set({ status: 'cancelled', completedAt: new Date() })
+    .where(and(eq(jobs.id, jobId), inArray(jobs.status, ['queued', 'running'])))
+    .returning()
+
+  return job ?? null
+}
+
+/**
+ * Queue a failed or cancelled job again; it resumes from its checkpoint
+ */
+export async function retryJob(jobId: string): Promise<Job | null> {
+  const [job] = await db
+    .update(jobs)
+    .set({ status: 'queued', attempts: 0, error: null, completedAt: null })
+    .where(and(eq(jobs.id, jobId), inArray(jobs.status, ['failed', 'cancelled'])))
+    .returning()
+
+  return job ?? null
+}
+
+export async function saveJobArtifact(
+  jobId: string,
+  artifact: Pick<JobArtifact, 'filename' | 'contentType' | 'content' | 'encoding'>
+): Promise<void> {
+  await db
+    .insert(jobArtifacts)
+    .values({ jobId, ...artifact })
+    .onConflictDoUpdate({ target: jobArtifacts.jobId, set: artifact })
+}
+
+export async function getJobArtifact(jobId: string): Promise<JobArtifact | null> {
+  const artifact = await db.query.jobArtifacts.findFirst({ where: eq(jobArtifacts.jobId, jobId) })
+  return artifact ?? null
+}
+
+export function toJobSummary(job: Job): JobSummary {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    title: job.title,
+    progress: job.progress ?? null,
+    error: job.error,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    input: publicJobInput(job),
+    result: job.result ?? null,
+    createdAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() ?? null,
+  }
+}
+
+// Input fields the panel needs; document text stays on the server
+function publicJobInput(job: Job): Record<string, any> {
+  const { content, ...rest } = job.input
+  return rest
+}
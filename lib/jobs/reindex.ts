@@ -0,0 +1,44 @@
+import type { EmbeddingVersion } from '@/lib/db'
+import type { EmbeddingConfig } from '@/lib/ai/embeddings'
+import { startEmbeddingBuild, STALE_BUILD_MS } from '@/lib/ai/embedding-builds'
+import { listActiveJobs } from './queue'
+import { startJob } from './runner'
+import type { ReindexInput } from './handlers'
+
+/**
+ * Start a new embedding version and the reindex job that builds it
+ */
+export async function startReindexJob(
+  campaignId: string,
+  config: EmbeddingConfig,
+  userId: string
+): Promise<EmbeddingVersion> {
+  const build = await startEmbeddingBuild(campaignId, config, userId)
+
+  const input: ReindexInput = { versionId: build.id }
+  await startJob(campaignId, 'reindex', {
+    title: `Rebuild embeddings (version ${build.version})`,
+    input,
+    createdBy: userId,
+  })
+
+  return build
+}
+
+/**
+ * Give a stalled build without a job one, e.g. a build started before builds ran as jobs
+ */
+export async function adoptStalledBuild(campaignId: string, building: EmbeddingVersion | null): Promise<void> {
+  if (!building || Date.now() - building.updatedAt.getTime() < STALE_BUILD_MS) return
+
+  const active = await listActiveJobs(campaignId, 'reindex')
+  if (active.some((job) => (job.input as ReindexInput).versionId === building.id)) return
+
+  console.log('[Jobs] Resuming stalled embedding build', building.version, 'for campaign', campaignId)
+  const input: ReindexInput = { versionId: building.id }
+  await startJob(campaignId, 'reindex', {
+    title: `Rebuild embeddings (version ${building.version})`,
+    input,
+    createdBy: building.createdBy ?? undefined,
+  })
+}
@@ -0,0 +1,165 @@
+import type { Job, JobType } from '@/lib/db'
+import type { JobProgress } from '@/lib/types'
+import {
+  enqueueJob,
+  claimJob,
+  heartbeatJob,
+  setJobProgress,
+  saveJobCheckpoint,
+  appendJobEvent,
+  completeJob,
+  failJobAttempt,
+  findStaleJobs,
+  EnqueueJobOptions,
+} from './queue'
+import { jobHandlers } from './handlers'
+
+/**
+ * Runs queued jobs in this process
+ *
+ * Like embedding builds, a job runs after the response that started it. If
+ * the process dies its heartbeat stops, and the next request that looks at the
+ * campaign's jobs (the jobs panel, a subscriber) resumes it from its checkpoint.
+ */
+
+export interface JobContext {
+  job: Job
+  signal: AbortSignal // Aborted when the job is cancelled
+  emit: (event: string, data: Record<string, any>) => Promise<void> // Stored for subscribers, in order
+  log: (message: string, data?: Record<string, any>) => Promise<void> // A 'progress' event
+  setProgress: (progress: JobProgress) => Promise<void>
+  checkpoint: (checkpoint: Record<string, any>) => Promise<void>
+}
+
+export type JobHandler = (context: JobContext) => Promise<Record<string, any> | void>
+
+const HEARTBEAT_INTERVAL_MS = 10 * 1000
+
+// Wait before the next attempt grows with each failure
+const RETRY_DELAY_MS = 5 * 1000
+
+// Jobs running in this process
+const runningJobs = new Set<string>()
+
+/**
+ * Queue a job and start running it
+ */
+export async function startJob(campaignId: string, type: JobType, options: EnqueueJobOptions): Promise<Job> {
+  const job = await enqueueJob(campaignId, type, options)
+  void runJob(job.id)
+  return job
+}
+
+/**
+ * Resume the campaign's jobs whose runner is gone
+ */
+export async function resumeStaleJobs(campaignId: string): Promise<void> {
+  for (const job of await findStaleJobs(campaignId)) {
+    if (runningJobs.has(job.id)) continue
+    console.log('[Jobs] Resuming', job.type, 'job', job.id, 'from its checkpoint')
+    void runJob(job.id)
+  }
+}
+
+/**
+ * Claim a job and run one attempt of it; failed attempts are retried after a delay
+ */
+export async function runJob(jobId: string): Promise<void> {
+  if (runningJobs.has(jobId)) return
+  runningJobs.add(jobId)
+
+  let retryAfter: number | null = null
+
+  try {
+    const job = await claimJob(jobId)
+    if (!job?.claimId) return
+    const { claimId } = job
+
+    const handler = jobHandlers[job.type]
+    const controller = new AbortController()
+
+    // Writes are chained so events and checkpoints land in the order they were made,
+    // and dropped once the claim is lost so they don't mix with the next runner's
+    let claimHeld = true
+    let writes: Promise<void> = Promise.resolve()
+    const write = (fn: () => Promise<void>) => {
+      writes = writes
+        .then(() => (claimHeld ? fn() : undefined))
+        .catch((err) => console.error(`[Jobs] Write failed for job ${jobId}:`, err))
+      return writes
+    }
+
+    // Stop working once the claim is lost: cancelled, or taken over by another runner after a stall
+    const heartbeat = setInterval(async () => {
+      try {
+        const { held, status } = await heartbeatJob(jobId, claimId)
+        if (!held) {
+          claimHeld = false
+          if (!controller.signal.aborted) {
+            controller.abort(new Error(
+              status === 'cancelled' ? 'Job cancelled'
+                : status === 'running' ? 'Job was taken over by another runner'
+                : `Job is ${status}`
+            ))
+          }
+        }
+      } catch (err) {
+        console.error(`[Jobs] Heartbeat failed for job ${jobId}:`, err)
+      }
+    }, HEARTBEAT_INTERVAL_MS)
+
+    const context: JobContext = {
+      job,
+      signal: controller.signal,
+      emit: (event, data) => write(() => appendJobEvent(jobId, event, data)),
+      log: (message, data) => write(() => appendJobEvent(jobId, 'progress', { ...data, message })),
+      setProgress: (progress) => write(() => setJobProgress(jobId, claimId, progress)),
+      checkpoint: (checkpoint) => write(() => saveJobCheckpoint(jobId, claimId, checkpoint)),
+    }
+
+    console.log('[Jobs] Running', job.type, 'job', jobId, `(attempt ${job.attempts}/${job.maxAttempts})`)
+    // Subscribers replaying the events drop what an earlier attempt staged
+    await appendJobEvent(jobId, 'attempt', { attempt: job.attempts, maxAttempts: job.maxAttempts })
+
+    try {
+      if (!handler) {
+        throw new Error(`Unknown job type: ${job.type}`)
+      }
+
+      const result = await handler(context)
+      await writes
+      if (await completeJob(jobId, claimId, result || null)) {
+        console.log('[Jobs] Completed', job.type, 'job', jobId)
+      } else {
+        console.log('[Jobs] Finished', job.type, 'job', jobId, 'after losing its claim; result dropped')
+      }
+    } catch (error) {
+      await writes
+      if (controller.signal.aborted) {
+        console.log('[Jobs] Stopped', job.type, 'job', jobId + ':', controller.signal.reason)
+        return
+      }
+
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`[Jobs] ${job.type} job ${jobId} failed:`, error)
+      const status = await failJobAttempt(job, message)
+
+      if (status === 'queued') {
+        retryAfter = RETRY_DELAY_MS * job.attempts
+        await appendJobEvent(jobId, 'progress', {
+          message: `Attempt ${job.attempts} failed (${message}), retrying in ${retryAfter / 1000}s...`,
+        })
+      }
+    } finally {
+      clearInterval(heartbeat)
+    }
+  } catch (error) {
+    console.error(`[Jobs] Could not run job ${jobId}:`, error)
+  } finally {
+    runningJobs.delete(jobId)
+  }
+
+  if (retryAfter !== null) {
+    setTimeout(() => void runJob(jobId), retryAfter)
+  }
+}
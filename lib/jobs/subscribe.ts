@@ -0,0 +1,49 @@
+import { createSSEResponse } from '@/lib/api/sse'
+import { getJob, getJobEvents, FINAL_JOB_STATUSES, STALE_JOB_MS } from './queue'
+import { runJob } from './runner'
+
+const POLL_INTERVAL_MS = 1000
+
+/**
+ * Stream a job's events as Server-Sent Events, from its first one until it finishes
+ * The job keeps running when the client goes away; subscribing again replays
+ * everything it reported so far. A failed or cancelled job ends the stream with
+ * an `error` event, like a failure inside the old inline streams did.
+ */
+export function subscribeToJob(campaignId: string, jobId: string, logPrefix: string): Response {
+  return createSSEResponse(logPrefix, async (sendEvent, signal) => {
+    sendEvent('job', { jobId })
+
+    let lastEventId = 0
+    const forwardEvents = async () => {
+      for (const event of await getJobEvents(jobId, lastEventId)) {
+        sendEvent(event.event, event.data)
+        lastEventId = event.id
+      }
+    }
+
+    while (!signal.aborted) {
+      const job = await getJob(campaignId, jobId)
+      if (!job) {
+        throw new Error('Job not found')
+      }
+
+      // The events written before the status changed are all in by now
+      await forwardEvents()
+
+      if (FINAL_JOB_STATUSES.includes(job.status)) {
+        if (job.status === 'failed') throw new Error(job.error || 'Job failed')
+        if (job.status === 'cancelled') throw new Error('Job cancelled')
+        return
+      }
+
+      // Nobody is running it (e.g. the server restarted): resume it here
+      const lastSeen = job.heartbeatAt ?? job.createdAt
+      if (Date.now() - lastSeen.getTime() > STALE_JOB_MS) {
+        void runJob(jobId)
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+    }
+  })
+}
@@ -0,0 +1,89 @@
+/**
+ * DM-secret blocks in entity markdown
+ *
+ * A public page can carry notes only the DM sees, fenced like this:
+ *
+ *   :::secret
+ *   The innkeeper reports to the Black Hand.
+ *   :::
+ *
+ * Anything shown to players (pages, comments, exports, search) goes through
+ * stripSecretBlocks first. A block that is never closed runs to the end of the
+ * text, so a forgotten fence hides too much rather than too little.
+ */
+
+const OPEN_FENCE = /^\s*:::\s*secret\b.*$/i
+const CLOSE_FENCE = /^\s*:::\s*$/
+
+// OPEN_FENCE for Postgres (~*), to find content with secret blocks in queries
+export const SECRET_FENCE_SQL_PATTERN = '(?n)^\\s*:::\\s*secret'
+
+export interface ContentSegment {
+  text: string
+  secret: boolean // Inside a secret block; the fences themselves are dropped
+}
+
+/**
+ * Split content into public text and the contents of secret blocks, in order
+ */
+export function splitSecretBlocks(content: string): ContentSegment[] {
+  const segments: ContentSegment[] = []
+  let lines: string[] = []
+  let secret = false
+
+  const flush = () => {
+    const text = lines.join('\n')
+    if (text.trim()) segments.push({ text, secret })
+    lines = []
+  }
+
+  for (const line of content.split('\n')) {
+    if (!secret && OPEN_FENCE.test(line)) {
+      flush()
+      secret = true
+    } else if (secret && CLOSE_FENCE.test(line)) {
+      flush()
+      secret = false
+    } else {
+      lines.push(line)
+    }
+  }
+  flush()
+
+  return segments
+}
+
+/**
+ * Check whether content has any secret block
+ */
+export function hasSecretBlocks(content: string): boolean {
+  return content.split('\n').some((line) => OPEN_FENCE.test(line))
+}
+
+/**
+ * Content with every secret block removed, as players see it
+ */
+export function stripSecretBlocks(content: string): string {
+  if (!hasSecretBlocks(content)) return content
+
+  return splitSecretBlocks(content)
+    .filter((segment) => !segment.secret)
+    .map((segment) => segment.text.replace(/^\n+|\n+$/g, ''))
+    .join('\n\n')
+}
+
+/**
+ * The secret blocks of content, re-fenced, e.g. to keep them when a player edits the page
+ */
+export function extractSecretBlocks(content: string): string[] {
+  return splitSecretBlocks(content)
+    .filter((segment) => segment.secret)
+    .map((segment) => `:::secret\n${segment.text.replace(/^\n+|\n+$/g, '')}\n:::`)
+}
+
+/**
+ * Content as the viewer may see it
+ */
+export function getVisibleContent(content: string, isDM: boolean): string {
+  return isDM ? content : stripSecretBlocks(content)
+}
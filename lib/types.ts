@@ -1,21 +1,48 @@
+import type { EntityProperties } from './db/schema'
+
 // Re-export types from schema
 export type {
   User,
   Campaign,
   CampaignMember,
   MemberRole,
+  EntityProperties,
+  EntityPropertyValue,
 } from './db/schema'
 
 // Additional types for API/UI
+// One hop from a matched entity, by a relationship or a [[wikilink]] ('wikilink')
+export interface RelationshipPath {
+  entity_id: string
+  entity_name: string
+  relationship_type: string
+  direction: 'outgoing' | 'incoming' // outgoing: matched entity -> this one
+}
+
 export interface SearchResult {
   // Entity-based fields (new system)
   entity_id: string
   entity_name: string
   entity_type: string
   chunk_text: string
-  similarity: number
-  // Source type (entity or note)
-  source_type?: 'entity' | 'note'
+  similarity: number // Cosine similarity; 0 when only full-text search matched
+  // Reciprocal rank fusion score across vector and full-text rankings
+  fusion_score?: number
+  // Relevance in [0, 1] from the reranking stage, when enabled
+  rerank_score?: number
+  // The n answers cite as [n]; set on the sources given to the model as context
+  citation_index?: number
+  // Source type (entity page, passage of an uploaded document, or surfaced by an Oracle tool call)
+  source_type?: 'entity' | 'document' | 'tool'
+  // The tool call that surfaced this result (source_type 'tool')
+  tool_call?: ToolCallRecord
+  // The uploaded document a passage comes from (source_type 'document')
+  document_id?: string
+  document_name?: string
+  // Only DMs can see this result; shown so they know not to share it
+  is_dm_only?: boolean
+  // Added by graph expansion: the matched entity this one is linked to
+  via_relationship?: RelationshipPath
   // Legacy aliases for backward compatibility
   note_id?: string
   note_title?: string
@@ -23,10 +50,33 @@ export interface SearchResult {
   note_type?: string
 }
 
+export interface ToolCallRecord {
+  name: string
+  input: Record<string, unknown>
+}
+
+// What retrieval actually searched for a chat message
+export interface SearchQuery {
+  query: string // Standalone version of the message, or the message itself
+  subQueries: string[]
+  rewritten: boolean // False when the message was searched as typed
+}
+
 export interface ChatMessage {
+  id?: string // Set once the message is saved to its thread
   role: 'user' | 'assistant'
   content: string
+  mode?: 'rag' | 'direct'
   sources?: SearchResult[]
+  searchQuery?: SearchQuery
+}
+
+// A saved Oracle conversation
+export interface ChatThread {
+  id: string
+  title: string
+  createdAt: string
+  updatedAt: string
 }
 
 export interface GraphNode {
@@ -65,6 +115,7 @@ export interface StagedEntity {
   content: string
   aliases: string[]
   tags: string[]
+  properties: EntityProperties
   confidence: number
   excerpt: string
   status: StagedEntityStatus
@@ -92,10 +143,43 @@ export interface EntityMatch {
     aliases: string[]
     canonicalName: string
   }
-  matchType: 'exact' | 'alias' | 'fuzzy'
+  matchType: 'exact' | 'alias' | 'fuzzy' | 'linked' // 'linked': the extractor picked it from the wiki's entities
   confidence: number
 }
 
+// Facts a new version of a document adds to an entity the wiki already has
+export interface StagedUpdate {
+  tempId: string
+  entityId: string
+  entityName: string
+  entityType: string
+  addition: string // Markdown appended to the entity's page
+  aliases: string[] // Aliases the entity does not have yet
+  properties: EntityProperties // Properties the entity does not have yet
+  excerpt: string
+  status: StagedEntityStatus
+}
+
+// A fact recorded from an earlier version of a document that the new version no longer mentions
+export interface StagedRetraction {
+  tempId: string
+  kind: 'entity' | 'relationship'
+  entityId: string // The entity, or the relationship's source
+  relationshipId?: string
+  label: string
+  excerpt: string // A removed paragraph that used to support it
+  status: 'pending' | 'approved' | 'rejected'
+}
+
+// How an upload compares with the document's previous version
+export interface DocumentVersionDiff {
+  documentId: string | null // null when the upload is a new document
+  version: number // The version the upload becomes once committed
+  addedParagraphs: number
+  removedParagraphs: number
+  unchangedParagraphs: number
+}
+
 export interface ExtractPreviewResponse {
   success: boolean
   documentId: string
@@ -113,6 +197,7 @@ export interface ApprovedEntity {
   content: string
   aliases: string[]
   tags: string[]
+  properties?: EntityProperties
   isDmOnly: boolean
   mergeTargetId?: string
 }
@@ -124,11 +209,28 @@ export interface ApprovedRelationship {
   reverseLabel?: string
 }
 
+export interface ApprovedUpdate {
+  tempId: string
+  entityId: string
+  addition: string
+  aliases: string[]
+  properties?: EntityProperties
+}
+
+export interface ApprovedRetraction {
+  kind: 'entity' | 'relationship'
+  entityId: string
+  relationshipId?: string
+}
+
 export interface BatchCommitRequest {
   documentName: string
   documentContent: string
+  documentId?: string // Commit as a new version of this document
   entities: ApprovedEntity[]
   relationships: ApprovedRelationship[]
+  updates?: ApprovedUpdate[]
+  retractions?: ApprovedRetraction[]
 }
 
 export interface BatchCommitResponse {
@@ -136,10 +238,88 @@ export interface BatchCommitResponse {
   documentId: string
   createdEntities: Array<{ tempId: string; id: string; name: string }>
   mergedEntities: Array<{ tempId: string; id: string; name: string }>
+  updatedEntities: Array<{ tempId: string; id: string; name: string }>
+  retractedFacts: number
+  version: number
   createdRelationships: number
   embeddingsStatus?: {
     total: number
     succeeded: number
     failed: number
   }
+  passagesIndexed?: number // Document passages embedded for search
+}
+
+// ============================================
+// Background Job Types
+// ============================================
+
+export interface JobProgress {
+  current: number
+  total: number
+  message: string
+}
+
+// A job as the jobs panel shows it
+export interface JobSummary {
+  id: string
+  type: 'document-extraction' | 'entity-extraction' | 'reindex' | 'export'
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  title: string
+  progress: JobProgress | null
+  error: string | null
+  attempts: number
+  maxAttempts: number
+  input: Record<string, any>
+  result: Record<string, any> | null
+  createdAt: string
+  completedAt: string | null
+}
+
+export interface JobLogEntry {
+  id: number
+  event: string
+  message: string
+  createdAt: string
+}
+
+// ============================================
+// Duplicate Finder Types
+// ============================================
+
+// Each signal is 0-1; a signal that did not fire is 0
+export interface DuplicateSignals {
+  name: number // Closest pair of names or aliases
+  aliases: number // Share of names the two have in common
+  content: number // Cosine similarity of the pages' embeddings
+  relationships: number // Jaccard overlap of the entities they are related to
+}
+
+export interface DuplicatePair {
+  entityIds: [string, string]
+  score: number
+  signals: DuplicateSignals
+}
+
+export interface DuplicateClusterEntity {
+  id: string
+  name: string
+  entityType: string
+  aliases: string[]
+  isDmOnly: boolean
+  contentLength: number
+  relationshipCount: number
+}
+
+// Entities joined by likely-duplicate pairs, strongest first
+export interface DuplicateCluster {
+  entities: DuplicateClusterEntity[]
+  pairs: DuplicatePair[]
+  score: number // Of its strongest pair
+  suggestedPrimaryId: string // The one with the most relationships, then the longest page
+}
+
+export interface DuplicateMergeGroup {
+  primaryEntityId: string
+  secondaryEntityIds: string[]
 }
@@ -1,6 +1,18 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { RelationshipPath } from "@/lib/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * How a graph-expanded search result links to the entity it was reached from,
+ * e.g. "Mira lives_in Port Azure"
+ */
+export function describeRelationshipPath(name: string, via: RelationshipPath): string {
+  const label = via.relationship_type === 'wikilink' ? 'links to' : via.relationship_type
+  return via.direction === 'outgoing'
+    ? `${via.entity_name} ${label} ${name}`
+    : `${name} ${label} ${via.entity_name}`
+}
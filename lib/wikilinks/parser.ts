@@ -1,3 +1,5 @@
+import { canonicalizeName } from '@/lib/canonical-names'
+
 export interface WikilinkMatch {
   target: string
   display: string
@@ -30,11 +32,7 @@ export function parseWikilinks(content: string): WikilinkMatch[] {
  * Convert a note title to a URL-friendly slug
  */
 export function titleToSlug(title: string): string {
-  return title
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-|-$/g, '')
+  return canonicalizeName(title)
 }
 
 /**
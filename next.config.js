@@ -4,6 +4,10 @@ const nextConfig = {
   images: {
     remotePatterns: [],
   },
+  experimental: {
+    // Native ONNX runtime used by local embedding models must not be bundled
+    serverComponentsExternalPackages: ['@huggingface/transformers'],
+  },
 }
 
 module.exports = nextConfig
@@ -0,0 +1,135 @@
+/**
+ * Offline retrieval evaluation
+ *
+ * Runs a campaign's golden questions through search under a grid of settings
+ * and prints recall@k, MRR and the expected entities each configuration missed.
+ *
+ * Usage:
+ *   npm run eval:retrieval -- <campaignId> [--threshold 0.1,0.2] [--limit 5,8] [--keyword on|off|both] [--version 1,2] [--json report.json]
+ */
+import { writeFile } from 'fs/promises'
+import { db, sql, campaigns } from '@/lib/db'
+import { eq } from 'drizzle-orm'
+import { runRetrievalEval, EvalConfig, EvalReport } from '@/lib/ai/retrieval-eval'
+
+interface Args {
+  campaignId: string
+  thresholds: Array<number | undefined>
+  limits: Array<number | undefined>
+  keyword: Array<boolean | undefined>
+  versions: Array<number | undefined>
+  jsonPath?: string
+}
+
+function parseList(value: string | undefined): number[] {
+  return (value || '').split(',').map((v) => parseFloat(v)).filter((v) => Number.isFinite(v))
+}
+
+function parseArgs(argv: string[]): Args {
+  const options = new Map<string, string>()
+  const positional: string[] = []
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      options.set(argv[i].slice(2), argv[i + 1])
+      i++
+    } else {
+      positional.push(argv[i])
+    }
+  }
+
+  if (!positional[0]) {
+    throw new Error('Usage: eval-retrieval <campaignId> [--threshold 0.1,0.2] [--limit 5,8] [--keyword on|off|both] [--version 1,2] [--json report.json]')
+  }
+
+  const thresholds = parseList(options.get('threshold'))
+  const limits = parseList(options.get('limit')).map(Math.round)
+  const keyword = options.get('keyword')
+  const versions = parseList(options.get('version')).map(Math.round)
+
+  return {
+    campaignId: positional[0],
+    // undefined = the campaign's own setting
+    thresholds: thresholds.length > 0 ? thresholds : [undefined],
+    limits: limits.length > 0 ? limits : [undefined],
+    keyword: keyword === 'both' ? [true, false] : keyword === 'off' ? [false] : [undefined],
+    versions: versions.length > 0 ? versions : [undefined],
+    jsonPath: options.get('json'),
+  }
+}
+
+function buildConfigs(args: Args): EvalConfig[] {
+  const configs: EvalConfig[] = []
+  for (const similarityThreshold of args.thresholds) {
+    for (const resultLimit of args.limits) {
+      for (const enableKeywordFallback of args.keyword) {
+        for (const embeddingVersion of args.versions) {
+          const parts = [
+            similarityThreshold !== undefined ? `threshold=${similarityThreshold}` : '',
+            resultLimit !== undefined ? `limit=${resultLimit}` : '',
+            enableKeywordFallback !== undefined ? `keyword=${enableKeywordFallback ? 'on' : 'off'}` : '',
+            embeddingVersion !== undefined ? `version=${embeddingVersion}` : '',
+          ].filter(Boolean)
+          configs.push({
+            label: parts.join(' ') || 'current',
+            similarityThreshold,
+            resultLimit,
+            enableKeywordFallback,
+            embeddingVersion,
+          })
+        }
+      }
+    }
+  }
+  return configs
+}
+
+function printReport(report: EvalReport): void {
+  console.log(`\n${report.questionCount} questions\n`)
+  console.log(['configuration'.padEnd(40), 'recall@k'.padStart(9), 'MRR'.padStart(7), 'missed'.padStart(7)].join(' '))
+
+  for (const config of report.configs) {
+    console.log([
+      config.label.padEnd(40),
+      `${config.recallAtK.toFixed(3)}@${config.k}`.padStart(9),
+      config.mrr.toFixed(3).padStart(7),
+      String(config.missedCount).padStart(7),
+    ].join(' '))
+  }
+
+  for (const config of report.configs) {
+    const misses = config.questions.filter((q) => q.missed.length > 0)
+    if (misses.length === 0) continue
+
+    console.log(`\nMissed under ${config.label}:`)
+    for (const question of misses) {
+      console.log(`  ${question.question}`)
+      console.log(`    missed: ${question.missed.map((entity) => entity.name).join(', ')}`)
+    }
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+
+  const campaign = await db.query.campaigns.findFirst({
+    where: eq(campaigns.id, args.campaignId),
+  })
+  if (!campaign) {
+    throw new Error(`Campaign not found: ${args.campaignId}`)
+  }
+
+  const report = await runRetrievalEval(campaign, buildConfigs(args))
+  printReport(report)
+
+  if (args.jsonPath) {
+    await writeFile(args.jsonPath, JSON.stringify(report, null, 2) + '\n')
+    console.log(`\nReport written to ${args.jsonPath}`)
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  })
+  .finally(() => sql.end())